@@ -1,12 +1,13 @@
 /**
  * Prisma Seed Script
  * 
- * Seeds the database with known merchants data
+ * Seeds the database with known merchants data and starting exchange rates
  * Run with: npx prisma db seed
  */
 
 import { PrismaClient } from '@prisma/client';
 import { knownMerchants } from './seeds/knownMerchants';
+import exchangeRates from './seeds/exchangeRates.json';
 
 const prisma = new PrismaClient();
 
@@ -41,6 +42,7 @@ async function main() {
             currency: merchant.currency,
             typicalAmounts: merchant.typicalAmounts as any,
             billingCycles: merchant.billingCycles,
+            trialDays: merchant.trialDays ?? null,
             isActive: true,
           },
         });
@@ -60,6 +62,7 @@ async function main() {
             currency: merchant.currency,
             typicalAmounts: merchant.typicalAmounts as any,
             billingCycles: merchant.billingCycles,
+            trialDays: merchant.trialDays ?? null,
             isActive: true,
             matchCount: 0,
           },
@@ -78,6 +81,16 @@ async function main() {
   console.log(`   Updated: ${updated}`);
   console.log(`   Skipped: ${skipped}`);
   console.log(`   Total: ${knownMerchants.length}\n`);
+
+  // Exchange rates (stored against USD, which the seed file is quoted in)
+  for (const [currency, rate] of Object.entries(exchangeRates.rates)) {
+    await prisma.exchangeRate.upsert({
+      where: { currency },
+      create: { currency, rate, source: 'file', asOf: new Date(exchangeRates.asOf) },
+      update: { rate, source: 'file', asOf: new Date(exchangeRates.asOf) },
+    });
+  }
+  console.log(`💱 Seeded ${Object.keys(exchangeRates.rates).length} exchange rates (as of ${exchangeRates.asOf})\n`);
 }
 
 main()
@@ -5,6 +5,8 @@
  * Includes keyword variations, payment processor patterns, and typical pricing
  */
 
+import { REGION_CODES } from '../../src/lib/regions';
+
 export interface KnownMerchantSeed {
   name: string;
   displayName: string;
@@ -16,8 +18,13 @@ export interface KnownMerchantSeed {
   currency: string[];
   typicalAmounts: Record<string, number>;
   billingCycles: string[];
+  trialDays?: number; // Usual free trial length in days
 }
 
+// International services are matched in every supported region (see src/lib/regions.ts)
+const INTERNATIONAL_COUNTRIES: string[] = [...REGION_CODES];
+const INTERNATIONAL_CURRENCIES = ['USD', 'GBP', 'CAD', 'EUR'];
+
 export const knownMerchants: KnownMerchantSeed[] = [
   // ============================================
   // STREAMING SERVICES (30)
@@ -28,8 +35,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://netflix.com',
     keywords: ['netflix', 'nflx', 'netflix.com', 'netflix inc', 'netflix*', 'nflx*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 15.49, GBP: 10.99 },
     billingCycles: ['monthly'],
   },
@@ -39,8 +46,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://disneyplus.com',
     keywords: ['disney', 'disney+', 'disney plus', 'disneyplus', 'disney streaming', 'disney*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 10.99, GBP: 7.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -61,8 +68,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://max.com',
     keywords: ['max', 'hbo max', 'hbomax', 'hbo', 'warner bros', 'max.com', 'hbo*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 15.99, GBP: 9.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -72,8 +79,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://primevideo.com',
     keywords: ['prime video', 'amazon prime', 'primevideo', 'amzn.com/bill', 'amazon prime video', 'amazon*prime'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 8.99, GBP: 5.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -83,10 +90,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://tv.apple.com',
     keywords: ['apple tv', 'appletv', 'apple tv+', 'apple.com/bill', 'apple*', 'itunes'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 6.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 7,
   },
   {
     name: 'YouTube Premium',
@@ -94,10 +102,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://youtube.com/premium',
     keywords: ['youtube', 'youtube premium', 'youtube red', 'google*youtube', 'google*youtube premium', 'yt premium'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 13.99, GBP: 11.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 30,
   },
   {
     name: 'Spotify',
@@ -105,10 +114,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://spotify.com',
     keywords: ['spotify', 'spotify.com', 'spotify*', 'spotify premium', 'spotify usa'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 10.99, GBP: 10.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 30,
   },
   {
     name: 'Pandora',
@@ -138,10 +148,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://paramountplus.com',
     keywords: ['paramount', 'paramount+', 'paramount plus', 'paramountplus', 'cbs all access', 'paramount*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.99, GBP: 6.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 7,
   },
   {
     name: 'Discovery Plus',
@@ -149,8 +160,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://discoveryplus.com',
     keywords: ['discovery', 'discovery+', 'discovery plus', 'discoveryplus', 'discovery*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 4.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -160,8 +171,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://crunchyroll.com',
     keywords: ['crunchyroll', 'crunchyroll.com', 'crunchyroll*', 'cr premium'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 7.99, GBP: 6.50 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -182,10 +193,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://tidal.com',
     keywords: ['tidal', 'tidal.com', 'tidal*', 'tidal hifi', 'tidal premium'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 9.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 30,
   },
   {
     name: 'SoundCloud',
@@ -193,8 +205,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://soundcloud.com',
     keywords: ['soundcloud', 'soundcloud.com', 'soundcloud*', 'soundcloud go', 'soundcloud go+'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 4.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -204,10 +216,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://deezer.com',
     keywords: ['deezer', 'deezer.com', 'deezer*', 'deezer premium'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 9.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 30,
   },
   {
     name: 'Qobuz',
@@ -215,8 +228,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://qobuz.com',
     keywords: ['qobuz', 'qobuz.com', 'qobuz*', 'qobuz sublime'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 10.83, GBP: 9.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -226,10 +239,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://music.apple.com',
     keywords: ['apple music', 'applemusic', 'apple.com/bill', 'itunes', 'apple*music'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 10.99, GBP: 10.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 30,
   },
   {
     name: 'Amazon Music Unlimited',
@@ -237,10 +251,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://music.amazon.com',
     keywords: ['amazon music', 'amazon music unlimited', 'amzn.com/bill', 'amazon*music'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 8.99, GBP: 8.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 30,
   },
   {
     name: 'Shudder',
@@ -248,8 +263,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://shudder.com',
     keywords: ['shudder', 'shudder.com', 'shudder*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.99, GBP: 4.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -259,8 +274,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://mubi.com',
     keywords: ['mubi', 'mubi.com', 'mubi*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 10.99, GBP: 9.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -307,6 +322,7 @@ export const knownMerchants: KnownMerchantSeed[] = [
     currency: ['USD'],
     typicalAmounts: { USD: 25.00 },
     billingCycles: ['monthly'],
+    trialDays: 7,
   },
   {
     name: 'ESPN Plus',
@@ -358,10 +374,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://audible.com',
     keywords: ['audible', 'audible.com', 'audible*', 'amzn.com/bill*audible', 'amazon audible'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 14.95, GBP: 7.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 30,
   },
   {
     name: 'Kindle Unlimited',
@@ -369,10 +386,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Streaming',
     website: 'https://amazon.com/kindle-dbs',
     keywords: ['kindle unlimited', 'kindleunlimited', 'amzn.com/bill*kindle', 'amazon kindle'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 9.49 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 30,
   },
 
   // ============================================
@@ -384,10 +402,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://microsoft.com/microsoft-365',
     keywords: ['microsoft', 'microsoft 365', 'microsoft365', 'office 365', 'office365', 'msft*', 'microsoft*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 6.99, GBP: 5.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 30,
   },
   {
     name: 'Adobe Creative Cloud',
@@ -395,10 +414,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://adobe.com/creativecloud',
     keywords: ['adobe', 'adobe creative cloud', 'adobe cc', 'creative cloud', 'adobe*', 'adobe.com'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 52.99, GBP: 49.94 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 7,
   },
   {
     name: 'Notion',
@@ -406,8 +426,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://notion.so',
     keywords: ['notion', 'notion.so', 'notion*', 'notion inc'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 8.00, GBP: 6.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -417,8 +437,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://slack.com',
     keywords: ['slack', 'slack.com', 'slack*', 'slack technologies'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 7.25, GBP: 5.75 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -428,8 +448,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://zoom.us',
     keywords: ['zoom', 'zoom.us', 'zoom*', 'zoom video', 'zoom communications'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 14.99, GBP: 11.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -439,8 +459,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://dropbox.com',
     keywords: ['dropbox', 'dropbox.com', 'dropbox*', 'dropbox inc'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 7.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -450,8 +470,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://workspace.google.com',
     keywords: ['google workspace', 'google*workspace', 'g suite', 'gsuite', 'google*', 'google.com'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 6.00, GBP: 4.60 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -461,8 +481,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://github.com',
     keywords: ['github', 'github.com', 'github*', 'github inc'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.00, GBP: 3.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -472,8 +492,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://figma.com',
     keywords: ['figma', 'figma.com', 'figma*', 'figma inc'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 12.00, GBP: 10.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -483,10 +503,11 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://canva.com',
     keywords: ['canva', 'canva.com', 'canva*', 'canva pro'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 12.99, GBP: 10.99 },
     billingCycles: ['monthly', 'yearly'],
+    trialDays: 30,
   },
   {
     name: 'Grammarly',
@@ -494,8 +515,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://grammarly.com',
     keywords: ['grammarly', 'grammarly.com', 'grammarly*', 'grammarly inc'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 12.00, GBP: 10.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -505,8 +526,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://chat.openai.com',
     keywords: ['chatgpt', 'openai', 'chatgpt plus', 'openai*', 'chat.openai.com'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 20.00, GBP: 16.00 },
     billingCycles: ['monthly'],
   },
@@ -516,8 +537,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://midjourney.com',
     keywords: ['midjourney', 'midjourney.com', 'midjourney*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 10.00, GBP: 8.00 },
     billingCycles: ['monthly'],
   },
@@ -527,8 +548,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://todoist.com',
     keywords: ['todoist', 'todoist.com', 'todoist*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.00, GBP: 3.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -538,8 +559,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://evernote.com',
     keywords: ['evernote', 'evernote.com', 'evernote*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 7.99, GBP: 6.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -549,8 +570,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://1password.com',
     keywords: ['1password', '1password.com', '1password*', 'one password'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 2.99, GBP: 2.50 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -560,8 +581,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://lastpass.com',
     keywords: ['lastpass', 'lastpass.com', 'lastpass*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 3.00, GBP: 2.50 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -571,8 +592,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://dashlane.com',
     keywords: ['dashlane', 'dashlane.com', 'dashlane*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 3.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -582,8 +603,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://nordvpn.com',
     keywords: ['nordvpn', 'nordvpn.com', 'nordvpn*', 'nord vpn'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 11.95, GBP: 9.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -593,8 +614,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://expressvpn.com',
     keywords: ['expressvpn', 'expressvpn.com', 'expressvpn*', 'express vpn'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 12.95, GBP: 10.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -604,8 +625,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://surfshark.com',
     keywords: ['surfshark', 'surfshark.com', 'surfshark*', 'surf shark'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 12.95, GBP: 10.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -615,8 +636,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://protonvpn.com',
     keywords: ['protonvpn', 'protonvpn.com', 'protonvpn*', 'proton vpn'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 7.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -626,8 +647,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://proton.me',
     keywords: ['protonmail', 'protonmail.com', 'protonmail*', 'proton mail', 'proton.me'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 3.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -637,8 +658,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://linear.app',
     keywords: ['linear', 'linear.app', 'linear*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 8.00, GBP: 6.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -648,8 +669,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://asana.com',
     keywords: ['asana', 'asana.com', 'asana*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 10.99, GBP: 8.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -659,8 +680,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://monday.com',
     keywords: ['monday', 'monday.com', 'monday*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 8.00, GBP: 6.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -670,8 +691,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://trello.com',
     keywords: ['trello', 'trello.com', 'trello*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.00, GBP: 4.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -681,8 +702,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://airtable.com',
     keywords: ['airtable', 'airtable.com', 'airtable*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 10.00, GBP: 8.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -692,8 +713,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://clickup.com',
     keywords: ['clickup', 'clickup.com', 'clickup*', 'click up'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.00, GBP: 4.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -703,8 +724,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://obsidian.md',
     keywords: ['obsidian', 'obsidian.md', 'obsidian*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 8.00, GBP: 6.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -714,8 +735,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://roamresearch.com',
     keywords: ['roam', 'roam research', 'roamresearch', 'roam*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 15.00, GBP: 12.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -725,8 +746,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://bear.app',
     keywords: ['bear', 'bear.app', 'bear*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 1.49, GBP: 1.49 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -736,8 +757,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://ulysses.app',
     keywords: ['ulysses', 'ulysses.app', 'ulysses*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.99, GBP: 4.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -747,8 +768,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://setapp.com',
     keywords: ['setapp', 'setapp.com', 'setapp*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 8.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -758,8 +779,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://macpaw.com',
     keywords: ['cleanmymac', 'cleanmymac*', 'macpaw', 'macpaw.com'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 7.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -769,8 +790,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://parallels.com',
     keywords: ['parallels', 'parallels.com', 'parallels*', 'parallels desktop'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 99.99, GBP: 79.99 },
     billingCycles: ['yearly'],
   },
@@ -780,8 +801,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://vmware.com',
     keywords: ['vmware', 'vmware.com', 'vmware*', 'vmware fusion'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 79.99, GBP: 64.99 },
     billingCycles: ['yearly'],
   },
@@ -791,8 +812,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://jetbrains.com',
     keywords: ['jetbrains', 'jetbrains.com', 'jetbrains*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 8.90, GBP: 7.20 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -802,8 +823,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://codesandbox.io',
     keywords: ['codesandbox', 'codesandbox.io', 'codesandbox*', 'code sandbox'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 7.00, GBP: 5.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -813,8 +834,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://replit.com',
     keywords: ['replit', 'replit.com', 'replit*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 7.00, GBP: 5.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -824,8 +845,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://vercel.com',
     keywords: ['vercel', 'vercel.com', 'vercel*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 20.00, GBP: 16.00 },
     billingCycles: ['monthly'],
   },
@@ -835,8 +856,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://netlify.com',
     keywords: ['netlify', 'netlify.com', 'netlify*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 19.00, GBP: 15.00 },
     billingCycles: ['monthly'],
   },
@@ -846,8 +867,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://heroku.com',
     keywords: ['heroku', 'heroku.com', 'heroku*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 7.00, GBP: 5.00 },
     billingCycles: ['monthly'],
   },
@@ -857,8 +878,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Software',
     website: 'https://digitalocean.com',
     keywords: ['digitalocean', 'digitalocean.com', 'digitalocean*', 'digital ocean'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 6.00, GBP: 4.50 },
     billingCycles: ['monthly'],
   },
@@ -872,8 +893,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://xbox.com/gamepass',
     keywords: ['xbox', 'xbox game pass', 'xboxgamepass', 'microsoft*xbox', 'xbox*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 7.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -883,8 +904,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://playstation.com/plus',
     keywords: ['playstation', 'playstation plus', 'playstationplus', 'ps plus', 'psplus', 'sony*playstation'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 6.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -894,8 +915,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://nintendo.com/switch/online',
     keywords: ['nintendo', 'nintendo switch', 'nintendo switch online', 'nintendo*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 3.99, GBP: 3.49 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -905,8 +926,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://ea.com/ea-play',
     keywords: ['ea play', 'eaplay', 'electronic arts', 'ea*', 'origin access'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 3.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -916,8 +937,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://ubisoft.com/plus',
     keywords: ['ubisoft', 'ubisoft+', 'ubisoft plus', 'ubisoftplus', 'ubisoft*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 14.99, GBP: 12.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -927,8 +948,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://apple.com/apple-arcade',
     keywords: ['apple arcade', 'applearcade', 'apple.com/bill*arcade', 'apple*arcade'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 4.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -938,8 +959,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://play.google.com/about/play-pass',
     keywords: ['google play pass', 'google*play pass', 'play pass', 'google*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 4.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -949,8 +970,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://discord.com/nitro',
     keywords: ['discord', 'discord nitro', 'discord.com', 'discord*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 8.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -960,8 +981,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://twitch.tv/turbo',
     keywords: ['twitch', 'twitch turbo', 'twitch.tv', 'twitch*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 8.99, GBP: 7.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -971,8 +992,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://steampowered.com',
     keywords: ['steam', 'steampowered', 'steam*', 'valve'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 3.99 },
     billingCycles: ['monthly'],
   },
@@ -982,8 +1003,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://nvidia.com/geforce-now',
     keywords: ['geforce now', 'geforcenow', 'nvidia geforce', 'nvidia*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 8.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -993,8 +1014,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://xbox.com/live',
     keywords: ['xbox live', 'xboxlive', 'xbox live gold', 'microsoft*xbox live'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 6.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1004,8 +1025,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://worldofwarcraft.com',
     keywords: ['wow', 'world of warcraft', 'blizzard', 'blizzard*wow'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 14.99, GBP: 9.99 },
     billingCycles: ['monthly'],
   },
@@ -1015,8 +1036,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://finalfantasyxiv.com',
     keywords: ['ffxiv', 'final fantasy xiv', 'final fantasy 14', 'square enix'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 12.99, GBP: 7.69 },
     billingCycles: ['monthly'],
   },
@@ -1026,8 +1047,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://eveonline.com',
     keywords: ['eve online', 'eveonline', 'ccp games'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 14.95, GBP: 9.99 },
     billingCycles: ['monthly'],
   },
@@ -1037,8 +1058,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://robertsspaceindustries.com',
     keywords: ['star citizen', 'star citizen*', 'roberts space industries'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 10.00, GBP: 8.00 },
     billingCycles: ['monthly'],
   },
@@ -1048,8 +1069,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://roblox.com',
     keywords: ['roblox', 'roblox premium', 'roblox.com', 'roblox*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 3.99 },
     billingCycles: ['monthly'],
   },
@@ -1059,8 +1080,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://minecraft.net',
     keywords: ['minecraft', 'minecraft realms', 'minecraft*', 'mojang'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 7.99, GBP: 6.99 },
     billingCycles: ['monthly'],
   },
@@ -1070,8 +1091,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://epicgames.com',
     keywords: ['epic games', 'epicgames', 'epic*', 'epic store'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 7.99 },
     billingCycles: ['monthly'],
   },
@@ -1081,8 +1102,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://ea.com',
     keywords: ['origin', 'origin access', 'origin*', 'electronic arts origin'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 3.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1092,8 +1113,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Gaming',
     website: 'https://stadia.google.com',
     keywords: ['stadia', 'google stadia', 'stadia*', 'google*stadia'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 8.99 },
     billingCycles: ['monthly'],
   },
@@ -1107,8 +1128,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://nytimes.com',
     keywords: ['new york times', 'nytimes', 'ny times', 'nytimes.com', 'nytimes*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 17.00, GBP: 12.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1118,8 +1139,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://wsj.com',
     keywords: ['wall street journal', 'wsj', 'wsj.com', 'wsj*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 38.99, GBP: 29.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1151,8 +1172,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://ft.com',
     keywords: ['financial times', 'ft', 'ft.com', 'ft*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 39.00, GBP: 29.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1173,8 +1194,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://economist.com',
     keywords: ['economist', 'the economist', 'economist.com', 'economist*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 22.00, GBP: 16.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1184,8 +1205,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://newyorker.com',
     keywords: ['new yorker', 'newyorker', 'newyorker.com', 'newyorker*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 6.99, GBP: 5.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1195,8 +1216,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://theatlantic.com',
     keywords: ['atlantic', 'the atlantic', 'theatlantic.com', 'atlantic*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 49.99, GBP: 39.99 },
     billingCycles: ['yearly'],
   },
@@ -1206,8 +1227,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://wired.com',
     keywords: ['wired', 'wired.com', 'wired*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.00, GBP: 4.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1217,8 +1238,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://medium.com',
     keywords: ['medium', 'medium.com', 'medium*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.00, GBP: 4.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1228,8 +1249,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://substack.com',
     keywords: ['substack', 'substack.com', 'substack*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.00, GBP: 4.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1239,8 +1260,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://patreon.com',
     keywords: ['patreon', 'patreon.com', 'patreon*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.00, GBP: 4.00 },
     billingCycles: ['monthly'],
   },
@@ -1250,8 +1271,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://onlyfans.com',
     keywords: ['onlyfans', 'onlyfans.com', 'onlyfans*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 4.99 },
     billingCycles: ['monthly'],
   },
@@ -1261,8 +1282,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://blinkist.com',
     keywords: ['blinkist', 'blinkist.com', 'blinkist*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 7.99, GBP: 6.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1272,8 +1293,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://masterclass.com',
     keywords: ['masterclass', 'masterclass.com', 'masterclass*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 15.00, GBP: 12.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1283,8 +1304,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://skillshare.com',
     keywords: ['skillshare', 'skillshare.com', 'skillshare*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 32.00, GBP: 25.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1294,8 +1315,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://linkedin.com/learning',
     keywords: ['linkedin learning', 'linkedin*learning', 'lynda', 'lynda.com'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 29.99, GBP: 24.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1305,8 +1326,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://udemy.com',
     keywords: ['udemy', 'udemy.com', 'udemy*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 16.99, GBP: 12.99 },
     billingCycles: ['monthly'],
   },
@@ -1316,8 +1337,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://coursera.org',
     keywords: ['coursera', 'coursera.org', 'coursera*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 39.00, GBP: 29.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1327,8 +1348,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://khanacademy.org',
     keywords: ['khan academy', 'khanacademy', 'khanacademy.org', 'khan*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 0.00, GBP: 0.00 },
     billingCycles: ['monthly'],
   },
@@ -1338,8 +1359,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://theathletic.com',
     keywords: ['athletic', 'the athletic', 'theathletic.com', 'athletic*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 7.99, GBP: 5.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1349,8 +1370,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://bloomberg.com',
     keywords: ['bloomberg', 'bloomberg.com', 'bloomberg*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 34.99, GBP: 24.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1360,8 +1381,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'News & Media',
     website: 'https://reuters.com',
     keywords: ['reuters', 'reuters.com', 'reuters*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 34.99, GBP: 24.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1386,8 +1407,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://onepeloton.com',
     keywords: ['peloton', 'peloton.com', 'peloton*', 'one peloton'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 12.99, GBP: 9.99 },
     billingCycles: ['monthly'],
   },
@@ -1397,8 +1418,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://apple.com/apple-fitness-plus',
     keywords: ['apple fitness', 'apple fitness+', 'applefitness', 'apple.com/bill*fitness', 'apple*fitness'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 7.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1408,8 +1429,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://classpass.com',
     keywords: ['classpass', 'classpass.com', 'classpass*', 'class pass'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 15.00, GBP: 12.00 },
     billingCycles: ['monthly'],
   },
@@ -1441,8 +1462,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://strava.com',
     keywords: ['strava', 'strava.com', 'strava*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 11.99, GBP: 8.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1452,8 +1473,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://myfitnesspal.com',
     keywords: ['myfitnesspal', 'myfitnesspal.com', 'myfitnesspal*', 'my fitness pal'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 7.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1463,8 +1484,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://headspace.com',
     keywords: ['headspace', 'headspace.com', 'headspace*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 12.99, GBP: 9.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1474,8 +1495,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://calm.com',
     keywords: ['calm', 'calm.com', 'calm*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 14.99, GBP: 11.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1485,8 +1506,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://noom.com',
     keywords: ['noom', 'noom.com', 'noom*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 60.00, GBP: 45.00 },
     billingCycles: ['monthly'],
   },
@@ -1496,8 +1517,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://nike.com',
     keywords: ['nike training', 'nike training club', 'nike*', 'nike.com'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 0.00, GBP: 0.00 },
     billingCycles: ['monthly'],
   },
@@ -1507,8 +1528,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://fitbit.com',
     keywords: ['fitbit', 'fitbit premium', 'fitbit.com', 'fitbit*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 7.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1518,8 +1539,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://garmin.com',
     keywords: ['garmin', 'garmin connect', 'garmin.com', 'garmin*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.99, GBP: 4.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1529,8 +1550,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://whoop.com',
     keywords: ['whoop', 'whoop.com', 'whoop*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 30.00, GBP: 24.00 },
     billingCycles: ['monthly'],
   },
@@ -1540,8 +1561,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Fitness',
     website: 'https://ouraring.com',
     keywords: ['oura', 'oura ring', 'ouraring', 'ouraring.com', 'oura*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.99, GBP: 4.99 },
     billingCycles: ['monthly'],
   },
@@ -1566,8 +1587,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Food Delivery',
     website: 'https://ubereats.com',
     keywords: ['uber eats', 'ubereats', 'ubereats.com', 'uber*eats'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 9.99, GBP: 7.99 },
     billingCycles: ['monthly'],
   },
@@ -1621,8 +1642,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Food Delivery',
     website: 'https://hellofresh.com',
     keywords: ['hellofresh', 'hellofresh.com', 'hellofresh*', 'hello fresh'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 59.94, GBP: 44.99 },
     billingCycles: ['weekly'],
   },
@@ -1676,8 +1697,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Food Delivery',
     website: 'https://marleyspoon.com',
     keywords: ['marley spoon', 'marleyspoon', 'marleyspoon.com', 'marley spoon*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 59.94, GBP: 44.99 },
     billingCycles: ['weekly'],
   },
@@ -1724,8 +1745,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Cloud Storage',
     website: 'https://icloud.com',
     keywords: ['icloud', 'icloud.com', 'icloud*', 'apple.com/bill*icloud', 'apple*icloud'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 0.99, GBP: 0.79 },
     billingCycles: ['monthly'],
   },
@@ -1735,8 +1756,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Cloud Storage',
     website: 'https://one.google.com',
     keywords: ['google one', 'google*one', 'google drive', 'google*drive'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 1.99, GBP: 1.59 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1746,8 +1767,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Cloud Storage',
     website: 'https://onedrive.live.com',
     keywords: ['onedrive', 'one drive', 'onedrive.live.com', 'microsoft*onedrive', 'msft*onedrive'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 1.99, GBP: 1.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1757,8 +1778,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Cloud Storage',
     website: 'https://box.com',
     keywords: ['box', 'box.com', 'box*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.00, GBP: 4.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1768,8 +1789,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Cloud Storage',
     website: 'https://pcloud.com',
     keywords: ['pcloud', 'pcloud.com', 'pcloud*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 3.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1779,8 +1800,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Cloud Storage',
     website: 'https://sync.com',
     keywords: ['sync.com', 'sync*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 5.00, GBP: 4.00 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1790,8 +1811,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Cloud Storage',
     website: 'https://tresorit.com',
     keywords: ['tresorit', 'tresorit.com', 'tresorit*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 10.42, GBP: 8.33 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1801,8 +1822,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Cloud Storage',
     website: 'https://mega.nz',
     keywords: ['mega', 'mega.nz', 'mega*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 4.99, GBP: 3.99 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1812,8 +1833,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Cloud Storage',
     website: 'https://backblaze.com',
     keywords: ['backblaze', 'backblaze.com', 'backblaze*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 7.00, GBP: 5.50 },
     billingCycles: ['monthly', 'yearly'],
   },
@@ -1823,8 +1844,8 @@ export const knownMerchants: KnownMerchantSeed[] = [
     category: 'Cloud Storage',
     website: 'https://carbonite.com',
     keywords: ['carbonite', 'carbonite.com', 'carbonite*'],
-    countries: ['US', 'UK'],
-    currency: ['USD', 'GBP'],
+    countries: INTERNATIONAL_COUNTRIES,
+    currency: INTERNATIONAL_CURRENCIES,
     typicalAmounts: { USD: 6.00, GBP: 4.50 },
     billingCycles: ['monthly', 'yearly'],
   },
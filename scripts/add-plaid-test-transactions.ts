@@ -7,11 +7,17 @@
  * 1. Make sure you have a connected Plaid item (from your app)
  * 2. Get the access_token from your database or Plaid Dashboard
  * 3. Run: npx tsx scripts/add-plaid-test-transactions.ts
+ *
+ * To write the sample transactions straight to a connected bank account instead:
+ *   npx tsx scripts/add-plaid-test-transactions.ts <bankAccountId>
+ * Each sample gets a stable plaidTransactionId, so re-running the script upserts
+ * the same rows instead of duplicating them.
  */
 
 import { config } from 'dotenv';
 import { resolve } from 'path';
-import { getPlaidClient } from '../src/lib/plaidConfig';
+import { prisma } from '../src/lib/prisma';
+import { normalizeMerchant } from '../src/lib/merchantNormalizer';
 
 // Load environment variables
 config({ path: resolve(process.cwd(), '.env.local') });
@@ -51,6 +57,55 @@ const testTransactions: TestTransaction[] = [
   },
 ];
 
+/**
+ * Builds a stable sandbox transaction ID for a sample transaction
+ */
+function getTestTransactionId(accountPlaidId: string, tx: TestTransaction): string {
+  const slug = (tx.merchant_name || tx.name).toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return `test-${accountPlaidId}-${slug}-${tx.date}`;
+}
+
+async function saveTestTransactions(bankAccountId: string) {
+  const bankAccount = await prisma.bankAccount.findUnique({
+    where: { id: bankAccountId },
+  });
+
+  if (!bankAccount) {
+    console.error(`❌ Bank account ${bankAccountId} not found`);
+    process.exit(1);
+  }
+
+  console.log(`📝 Saving ${testTransactions.length} test transactions to ${bankAccount.name}...\n`);
+
+  for (const tx of testTransactions) {
+    const merchant = tx.merchant_name || tx.name;
+    const plaidTransactionId = getTestTransactionId(bankAccount.plaidId, tx);
+    const data = {
+      amount: -Math.abs(tx.amount), // Store as negative for expenses
+      currency: bankAccount.currency || 'USD',
+      date: new Date(tx.date),
+      description: tx.name,
+      merchant,
+      normalizedMerchant: normalizeMerchant(merchant) || null,
+    };
+
+    await prisma.transaction.upsert({
+      where: { plaidTransactionId },
+      create: {
+        ...data,
+        userId: bankAccount.userId,
+        bankAccountId: bankAccount.id,
+        plaidTransactionId,
+      },
+      update: data,
+    });
+
+    console.log(`   ✅ ${merchant}: $${tx.amount} on ${tx.date}`);
+  }
+
+  console.log('\n💡 Run a sync from the Subscriptions page to detect subscriptions from these transactions.');
+}
+
 async function addTestTransactions() {
   try {
     console.log('⚠️  Note: Plaid Sandbox transactions must be added through the Dashboard UI.');
@@ -77,5 +132,17 @@ async function addTestTransactions() {
 }
 
 // Run the script
-addTestTransactions();
+const bankAccountId = process.argv[2];
+if (bankAccountId) {
+  saveTestTransactions(bankAccountId)
+    .catch((error) => {
+      console.error('Error:', error);
+      process.exit(1);
+    })
+    .finally(async () => {
+      await prisma.$disconnect();
+    });
+} else {
+  addTestTransactions();
+}
 
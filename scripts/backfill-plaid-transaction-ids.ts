@@ -0,0 +1,176 @@
+/**
+ * Backfill script for Transaction.plaidTransactionId
+ *
+ * Transactions saved before Plaid IDs were stored have no plaidTransactionId.
+ * This script re-fetches each connected item's history from Plaid and matches
+ * every Plaid transaction to one existing row (same account, amount, date and
+ * merchant). Identical same-day charges are matched to separate rows.
+ *
+ * Usage:
+ *   npx tsx scripts/backfill-plaid-transaction-ids.ts            # apply
+ *   npx tsx scripts/backfill-plaid-transaction-ids.ts --dry-run  # report only
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import { prisma } from '../src/lib/prisma';
+import { getPlaidClientForUser } from '../src/lib/plaidConfig';
+import { getPlaidAccessTokenByItemId } from '../src/lib/plaidHelpers';
+
+// Load environment variables
+config({ path: resolve(process.cwd(), '.env.local') });
+
+const dryRun = process.argv.includes('--dry-run');
+
+// Maximum page size allowed by /transactions/get
+const PAGE_SIZE = 500;
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function matchKey(bankAccountId: string, amount: number, date: string, merchant: string): string {
+  return `${bankAccountId}|${amount.toFixed(2)}|${date}|${merchant}`;
+}
+
+/**
+ * Fetches every Plaid transaction for an item between two dates
+ */
+async function fetchPlaidTransactions(
+  plaidClient: any,
+  accessToken: string,
+  startDate: string,
+  endDate: string
+): Promise<any[]> {
+  const transactions: any[] = [];
+  let total = Infinity;
+
+  while (transactions.length < total) {
+    const response = await plaidClient.transactionsGet({
+      access_token: accessToken,
+      start_date: startDate,
+      end_date: endDate,
+      options: { count: PAGE_SIZE, offset: transactions.length },
+    });
+
+    transactions.push(...response.data.transactions);
+    total = response.data.total_transactions;
+
+    if (response.data.transactions.length === 0) break;
+  }
+
+  return transactions;
+}
+
+async function backfillItem(userId: string, plaidItemId: string): Promise<{ matched: number; unmatched: number }> {
+  const accounts = await prisma.bankAccount.findMany({
+    where: { userId, plaidItemId },
+    select: { id: true, plaidId: true },
+  });
+  const accountIdByPlaidId = new Map<string, string>(
+    accounts.map((account: typeof accounts[0]) => [account.plaidId, account.id])
+  );
+
+  const pending = await prisma.transaction.findMany({
+    where: {
+      userId,
+      bankAccountId: { in: accounts.map((account: typeof accounts[0]) => account.id) },
+      plaidTransactionId: null,
+    },
+    select: { id: true, bankAccountId: true, amount: true, date: true, merchant: true },
+    orderBy: { date: 'asc' },
+  });
+
+  if (pending.length === 0) {
+    return { matched: 0, unmatched: 0 };
+  }
+
+  // Rows waiting for an ID, grouped by match key; each Plaid transaction claims one
+  const candidates = new Map<string, string[]>();
+  for (const tx of pending) {
+    const key = matchKey(tx.bankAccountId, tx.amount, toDateKey(tx.date), tx.merchant || '');
+    candidates.set(key, [...(candidates.get(key) || []), tx.id]);
+  }
+
+  const accessToken = await getPlaidAccessTokenByItemId(userId, plaidItemId);
+  const { client: plaidClient } = await getPlaidClientForUser(userId);
+  const plaidTransactions = await fetchPlaidTransactions(
+    plaidClient,
+    accessToken,
+    toDateKey(pending[0].date),
+    toDateKey(new Date())
+  );
+
+  let matched = 0;
+  for (const plaidTx of plaidTransactions) {
+    const bankAccountId = accountIdByPlaidId.get(plaidTx.account_id);
+    if (!bankAccountId) continue;
+
+    const merchant = plaidTx.merchant_name || plaidTx.name || '';
+    const key = matchKey(bankAccountId, -Math.abs(plaidTx.amount), plaidTx.date, merchant);
+    const ids = candidates.get(key);
+    if (!ids || ids.length === 0) continue;
+
+    // Skip IDs another row already holds (e.g. saved by a sync since this script started)
+    const taken = await prisma.transaction.findUnique({
+      where: { plaidTransactionId: plaidTx.transaction_id },
+      select: { id: true },
+    });
+    if (taken) continue;
+
+    const transactionId = ids.shift()!;
+    if (!dryRun) {
+      await prisma.transaction.update({
+        where: { id: transactionId },
+        data: { plaidTransactionId: plaidTx.transaction_id },
+      });
+    }
+    matched++;
+  }
+
+  return { matched, unmatched: pending.length - matched };
+}
+
+async function main() {
+  console.log(`🔄 Backfilling Plaid transaction IDs${dryRun ? ' (dry run)' : ''}...\n`);
+
+  const items = await prisma.bankAccount.findMany({
+    where: { plaidItemId: { not: null } },
+    distinct: ['userId', 'plaidItemId'],
+    select: { userId: true, plaidItemId: true },
+  });
+
+  console.log(`   Found ${items.length} connected Plaid item(s)\n`);
+
+  let totalMatched = 0;
+  let totalUnmatched = 0;
+
+  for (const item of items) {
+    try {
+      const result = await backfillItem(item.userId, item.plaidItemId!);
+      totalMatched += result.matched;
+      totalUnmatched += result.unmatched;
+      console.log(`   ✅ Item ${item.plaidItemId}: ${result.matched} matched, ${result.unmatched} unmatched`);
+    } catch (error: any) {
+      const details = error.response?.data?.error_code || error.message;
+      console.error(`   ❌ Item ${item.plaidItemId}: ${details}`);
+    }
+  }
+
+  console.log(`\n✅ Backfill complete: ${totalMatched} matched, ${totalUnmatched} unmatched`);
+  if (totalUnmatched > 0) {
+    console.log('ℹ️  Unmatched rows keep a null plaidTransactionId and are adopted on the next sync if Plaid sends them again.');
+  }
+  if (dryRun) {
+    console.log('ℹ️  Dry run: no rows were updated.');
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,296 @@
+/**
+ * Merchant matcher benchmark
+ *
+ * Compares the indexed known merchant matcher (src/lib/merchantIndex.ts) with
+ * the full scan it replaced, on synthetic bank descriptors built from the seed
+ * catalog: decorated keywords, keywords with typos, and merchants that aren't
+ * in the catalog. Both matchers must agree on every descriptor. Runs without
+ * a database.
+ *
+ * Usage:
+ *   npx tsx scripts/benchmark-merchant-matcher.ts               # 3000 descriptors
+ *   npx tsx scripts/benchmark-merchant-matcher.ts --count 20000
+ */
+
+import { performance } from 'perf_hooks';
+import { knownMerchants } from '../prisma/seeds/knownMerchants';
+import { normalizeMerchant } from '../src/lib/merchantNormalizer';
+import { parseRegion } from '../src/lib/regions';
+import {
+  buildKnownMerchantIndex,
+  getCandidateMerchants,
+  BEST_MATCH_SIMILARITY,
+  KnownMerchantRecord,
+  MatchedMerchant,
+  matchKnownMerchant,
+} from '../src/lib/merchantIndex';
+
+const countArg = process.argv.indexOf('--count');
+const DESCRIPTOR_COUNT = countArg >= 0 ? parseInt(process.argv[countArg + 1], 10) || 3000 : 3000;
+
+const PREFIXES = ['', '', '', 'PAYPAL *', 'SQ *', 'APPLE.COM/BILL ', 'GOOGLE *', 'AMZN *'];
+const SUFFIXES = ['', '', ' 8005551234', ' #1042', ' CA', ' LONDON GB', ' STORE 221', ' 12/03', '*2X4KD91'];
+const UNKNOWN_WORDS = [
+  'corner', 'cafe', 'market', 'fuel', 'station', 'bakery', 'dental', 'parking', 'city', 'council',
+  'water', 'grill', 'express', 'pharmacy', 'books', 'garden', 'hardware', 'pizza', 'taxi', 'salon',
+];
+const COUNTRIES = ['US', 'UK', 'GB', 'CA', 'DE', 'FR'];
+const CURRENCIES = ['USD', 'GBP', 'CAD', 'EUR'];
+
+type Descriptor = {
+  normalized: string;
+  amount?: number;
+  country?: string;
+  currency?: string;
+};
+
+/**
+ * Seeded random numbers, so every run benchmarks the same descriptors
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const random = createRandom(20240611);
+const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+/**
+ * Swaps, drops or repeats one letter, like a truncated or garbled descriptor
+ */
+function addTypo(text: string): string {
+  if (text.length < 4) return text;
+  const position = 1 + Math.floor(random() * (text.length - 2));
+  const roll = random();
+  if (roll < 0.33) return text.slice(0, position) + text.slice(position + 1);
+  if (roll < 0.66) return text.slice(0, position) + text[position] + text.slice(position);
+  return text.slice(0, position) + text[position + 1] + text[position] + text.slice(position + 2);
+}
+
+function createDescriptors(count: number): Descriptor[] {
+  const descriptors: Descriptor[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const roll = random();
+    let raw: string;
+    let amount: number | undefined;
+
+    if (roll < 0.7) {
+      const merchant = pick(knownMerchants);
+      const keyword = pick(merchant.keywords);
+      raw = `${pick(PREFIXES)}${roll < 0.55 ? keyword : addTypo(keyword)}${pick(SUFFIXES)}`.toUpperCase();
+      const typicalAmount = Object.values(merchant.typicalAmounts)[0];
+      amount = typicalAmount ? Math.round(typicalAmount * (0.8 + random() * 0.6) * 100) / 100 : undefined;
+    } else {
+      raw = `${pick(PREFIXES)}${pick(UNKNOWN_WORDS)} ${pick(UNKNOWN_WORDS)}${pick(SUFFIXES)}`.toUpperCase();
+      amount = Math.round(random() * 20000) / 100;
+    }
+
+    descriptors.push({
+      normalized: normalizeMerchant(raw),
+      amount: random() < 0.8 ? amount : undefined,
+      country: random() < 0.5 ? pick(COUNTRIES) : undefined,
+      currency: random() < 0.5 ? pick(CURRENCIES) : undefined,
+    });
+  }
+
+  return descriptors;
+}
+
+// ---------------------------------------------------------------------------
+// The full scan findKnownMerchant ran before the index, kept as the baseline
+// ---------------------------------------------------------------------------
+
+function levenshteinDistance(str1: string, str2: string): number {
+  const m = str1.length;
+  const n = str2.length;
+  const dp: number[][] = Array(m + 1)
+    .fill(null)
+    .map(() => Array(n + 1).fill(0));
+
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      dp[i][j] =
+        str1[i - 1] === str2[j - 1]
+          ? dp[i - 1][j - 1]
+          : Math.min(dp[i - 1][j] + 1, dp[i][j - 1] + 1, dp[i - 1][j - 1] + 1);
+    }
+  }
+
+  return dp[m][n];
+}
+
+function calculateSimilarity(str1: string, str2: string): number {
+  const longer = str1.length > str2.length ? str1 : str2;
+  const shorter = str1.length > str2.length ? str2 : str1;
+  if (longer.length === 0) return 1.0;
+  return (longer.length - levenshteinDistance(longer, shorter)) / longer.length;
+}
+
+function isAmountMatch(transactionAmount: number, typicalAmount: number, tolerance: number = 0.15): boolean {
+  if (!typicalAmount || typicalAmount === 0) return false;
+  return Math.abs(Math.abs(transactionAmount) - typicalAmount) / typicalAmount <= tolerance;
+}
+
+function servesCountry(countries: string[], country: string): boolean {
+  const region = parseRegion(country) || country.toUpperCase();
+  return countries.some((code) => (parseRegion(code) || code.toUpperCase()) === region);
+}
+
+function scanKnownMerchants(
+  merchants: KnownMerchantRecord[],
+  normalizedMerchant: string,
+  amount?: number,
+  country?: string,
+  currency?: string
+): MatchedMerchant | null {
+  let bestMatch: MatchedMerchant | null = null;
+  let bestScore = 0;
+
+  for (const merchant of merchants) {
+    if (country && !servesCountry(merchant.countries, country)) continue;
+    if (currency && !merchant.currency.includes(currency)) continue;
+
+    let keywordMatch = false;
+    let matchedKeyword = '';
+    let keywordScore = 0;
+
+    for (const keyword of merchant.keywords) {
+      const normalizedKeyword = normalizeMerchant(keyword);
+      if (normalizedMerchant === normalizedKeyword) {
+        keywordMatch = true;
+        matchedKeyword = keyword;
+        keywordScore = 1.0;
+        break;
+      }
+      if (normalizedMerchant.includes(normalizedKeyword) || normalizedKeyword.includes(normalizedMerchant)) {
+        keywordMatch = true;
+        matchedKeyword = keyword;
+        keywordScore = 0.8;
+        break;
+      }
+      const similarity = calculateSimilarity(normalizedMerchant, normalizedKeyword);
+      if (similarity > 0.7 && similarity > keywordScore) {
+        keywordMatch = true;
+        matchedKeyword = keyword;
+        keywordScore = similarity;
+      }
+    }
+
+    if (!keywordMatch) continue;
+
+    let confidenceScore = keywordScore;
+    let amountMatch = false;
+    const amounts = (merchant.typicalAmounts || {}) as Record<string, number>;
+    const typicalAmount: number | undefined = amounts[currency || 'USD'] || amounts['USD'] || amounts['GBP'];
+    if (amount && merchant.typicalAmounts) {
+      if (typicalAmount && isAmountMatch(amount, typicalAmount)) {
+        amountMatch = true;
+        confidenceScore = Math.min(1.0, confidenceScore + 0.15);
+      } else if (typicalAmount && Math.abs(Math.abs(amount) - typicalAmount) / typicalAmount > 0.5) {
+        confidenceScore *= 0.7;
+      }
+    }
+
+    const countryMatch = country ? servesCountry(merchant.countries, country) : true;
+    if (countryMatch && country) {
+      confidenceScore = Math.min(1.0, confidenceScore + 0.05);
+    }
+
+    if (confidenceScore > 0.6 && confidenceScore > bestScore) {
+      bestScore = confidenceScore;
+      bestMatch = {
+        id: merchant.id,
+        name: merchant.name,
+        displayName: merchant.displayName,
+        category: merchant.category,
+        confidenceScore: Math.round(confidenceScore * 100) / 100,
+        matchedKeyword,
+        amountMatch,
+        countryMatch,
+        typicalAmount,
+        billingCycles: merchant.billingCycles,
+        trialDays: merchant.trialDays,
+      };
+    }
+  }
+
+  return bestMatch;
+}
+
+// ---------------------------------------------------------------------------
+
+function describe(match: MatchedMerchant | null): string {
+  return match ? `${match.name} (${match.confidenceScore}, "${match.matchedKeyword}")` : 'no match';
+}
+
+function main() {
+  const merchants: KnownMerchantRecord[] = knownMerchants.map((merchant, i) => ({
+    id: `seed-${i}`,
+    name: merchant.name,
+    displayName: merchant.displayName,
+    category: merchant.category,
+    keywords: merchant.keywords,
+    countries: merchant.countries,
+    currency: merchant.currency,
+    typicalAmounts: merchant.typicalAmounts,
+    billingCycles: merchant.billingCycles,
+    trialDays: merchant.trialDays ?? null,
+  }));
+  const descriptors = createDescriptors(DESCRIPTOR_COUNT);
+
+  console.log('📊 Merchant matcher benchmark');
+  console.log(`   ${merchants.length} known merchants, ${descriptors.length} descriptors\n`);
+
+  let start = performance.now();
+  const index = buildKnownMerchantIndex(merchants);
+  const buildMs = performance.now() - start;
+
+  start = performance.now();
+  const scanned = descriptors.map((d) => scanKnownMerchants(merchants, d.normalized, d.amount, d.country, d.currency));
+  const scanMs = performance.now() - start;
+
+  start = performance.now();
+  const indexed = descriptors.map((d) => matchKnownMerchant(index, d.normalized, d.amount, d.country, d.currency));
+  const indexMs = performance.now() - start;
+
+  const candidates = descriptors.reduce(
+    (sum, d) => sum + getCandidateMerchants(index, d.normalized, BEST_MATCH_SIMILARITY).length,
+    0
+  );
+  const matched = scanned.filter(Boolean).length;
+  const mismatches = descriptors
+    .map((d, i) => ({ descriptor: d.normalized, scanned: describe(scanned[i]), indexed: describe(indexed[i]) }))
+    .filter((row) => row.scanned !== row.indexed);
+
+  console.log(`   Full scan:   ${scanMs.toFixed(0)}ms (${((scanMs / descriptors.length) * 1000).toFixed(0)}µs per descriptor)`);
+  console.log(
+    `   Index:       ${indexMs.toFixed(0)}ms (${((indexMs / descriptors.length) * 1000).toFixed(0)}µs per descriptor), ` +
+      `built in ${buildMs.toFixed(0)}ms`
+  );
+  console.log(`   Speedup:     ${(scanMs / indexMs).toFixed(1)}x`);
+  console.log(
+    `   Candidates:  ${(candidates / descriptors.length).toFixed(1)} merchants scored per descriptor (of ${merchants.length})`
+  );
+  console.log(`   Matched:     ${matched} of ${descriptors.length} descriptors\n`);
+
+  if (mismatches.length > 0) {
+    console.error(`❌ ${mismatches.length} descriptors matched differently:`);
+    for (const row of mismatches.slice(0, 10)) {
+      console.error(`   "${row.descriptor}": scan ${row.scanned}, index ${row.indexed}`);
+    }
+    process.exit(1);
+  }
+
+  console.log('✅ Index and full scan agree on every descriptor');
+}
+
+main();
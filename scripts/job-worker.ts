@@ -0,0 +1,76 @@
+/**
+ * Background job worker
+ *
+ * Long-running process that works through queued BackgroundJobs (bank syncs,
+ * subscription detection). Run as many as you like; jobs are claimed with row
+ * locks and each user only ever has one job running. On hosts without a
+ * long-running process, the /api/cron/jobs route does the same work each minute.
+ *
+ * Usage:
+ *   npx tsx scripts/job-worker.ts          # run until stopped
+ *   npx tsx scripts/job-worker.ts --once   # drain the queue and exit
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import { hostname } from 'os';
+import { prisma } from '../src/lib/prisma';
+import { processJobs } from '../src/lib/jobHandlers';
+import { preloadKnownMerchants } from '../src/lib/merchantMatcher';
+
+// Load environment variables
+config({ path: resolve(process.cwd(), '.env.local') });
+
+const runOnce = process.argv.includes('--once');
+
+// How long to wait before checking an empty queue again
+const POLL_INTERVAL_MS = 5000;
+
+const workerId = `${hostname()}-${process.pid}`;
+let stopping = false;
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    // Let the current job finish; its lock would otherwise have to go stale first
+    console.log(`\n⏹️  ${signal} received, stopping after the current job...`);
+    stopping = true;
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolvePromise) => setTimeout(resolvePromise, ms));
+}
+
+async function main() {
+  console.log(`🛠️  Job worker ${workerId} started${runOnce ? ' (--once)' : ''}`);
+
+  // Build the known merchant index now rather than in the first job
+  const knownMerchants = await preloadKnownMerchants();
+  console.log(`   📇 Indexed ${knownMerchants} known merchants`);
+
+  while (!stopping) {
+    const result = await processJobs({ workerId, maxJobs: 1 });
+
+    if (result.processed === 0) {
+      if (runOnce) break;
+      await sleep(POLL_INTERVAL_MS);
+      continue;
+    }
+
+    if (result.succeeded > 0) console.log('   ✅ Job succeeded');
+    if (result.retried > 0) console.log('   🔁 Job failed, will retry');
+    if (result.failed > 0) console.log('   ❌ Job failed permanently');
+    if (result.lost > 0) console.log('   ⚠️  Job was reclaimed by another worker');
+  }
+
+  console.log('👋 Job worker stopped');
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Job worker crashed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,124 @@
+/**
+ * Known merchant catalog import / export
+ *
+ * Moves the KnownMerchant catalog in and out of the database as a versioned
+ * JSON file (see MERCHANT_CATALOG_FORMAT.md). Imports are validated and shown
+ * as a diff against the database; nothing is written without --apply.
+ *
+ * Usage:
+ *   npx tsx scripts/merchant-catalog.ts export [file] [--include-inactive]
+ *   npx tsx scripts/merchant-catalog.ts import <file>                    # dry run: validate and diff
+ *   npx tsx scripts/merchant-catalog.ts import <file> --apply            # then write the changes
+ *   npx tsx scripts/merchant-catalog.ts import <file> --apply --prune    # also deactivate merchants missing from the file
+ */
+
+import { config } from 'dotenv';
+import { readFile, writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { prisma } from '../src/lib/prisma';
+import { applyCatalogDiff, CatalogDiff, diffCatalog, exportCatalog, parseCatalog } from '../src/lib/merchantCatalog';
+
+// Load environment variables (quietly: export can write the catalog to stdout)
+config({ path: resolve(process.cwd(), '.env.local'), quiet: true });
+
+const [command, ...rest] = process.argv.slice(2);
+const flags = new Set(rest.filter((arg) => arg.startsWith('--')));
+const file = rest.find((arg) => !arg.startsWith('--'));
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)';
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    return entries.length > 0 ? entries.map(([key, amount]) => `${key} ${amount}`).join(', ') : '(none)';
+  }
+  return value === null || value === undefined ? '(none)' : String(value);
+}
+
+function printDiff(diff: CatalogDiff) {
+  for (const merchant of diff.added) {
+    console.log(`+ ${merchant.name} (${merchant.category})`);
+    console.log(`    keywords: ${formatValue(merchant.keywords)}`);
+  }
+  for (const { merchant, changes } of diff.updated) {
+    console.log(`~ ${merchant.name}`);
+    for (const change of changes) {
+      console.log(`    ${change.field}: ${formatValue(change.from)} → ${formatValue(change.to)}`);
+    }
+  }
+  for (const merchant of diff.deactivated) {
+    console.log(`- ${merchant.name} (deactivated)`);
+  }
+
+  console.log(
+    `\n📋 ${diff.added.length} to add, ${diff.updated.length} to update, ` +
+      `${diff.deactivated.length} to deactivate, ${diff.unchanged} unchanged`
+  );
+}
+
+async function runExport() {
+  const catalog = await exportCatalog({ includeInactive: flags.has('--include-inactive') });
+  const json = `${JSON.stringify(catalog, null, 2)}\n`;
+
+  if (!file) {
+    process.stdout.write(json);
+    return;
+  }
+
+  await writeFile(resolve(process.cwd(), file), json, 'utf8');
+  console.log(`✅ Exported ${catalog.merchants.length} known merchants to ${file}`);
+}
+
+async function runImport() {
+  if (!file) {
+    throw new Error('Usage: merchant-catalog.ts import <file> [--apply] [--prune]');
+  }
+
+  let input: unknown;
+  try {
+    input = JSON.parse(await readFile(resolve(process.cwd(), file), 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = parseCatalog(input);
+  if (!parsed.success) {
+    console.error(`❌ ${file} is not a valid catalog:`);
+    for (const error of parsed.errors) {
+      console.error(`   ${error}`);
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`🔍 ${file}: catalog version ${parsed.catalog.version}, ${parsed.catalog.merchants.length} merchants\n`);
+  const diff = await diffCatalog(parsed.catalog, { prune: flags.has('--prune') });
+  printDiff(diff);
+
+  if (!flags.has('--apply')) {
+    console.log('\nDry run: nothing was written. Run again with --apply to import these changes.');
+    return;
+  }
+
+  const written = await applyCatalogDiff(diff);
+  console.log(`\n✅ Imported catalog (${written} merchants written). Running servers pick it up within a minute.`);
+}
+
+async function main() {
+  if (command === 'export') {
+    await runExport();
+  } else if (command === 'import') {
+    await runImport();
+  } else {
+    console.error('Usage: merchant-catalog.ts <export|import> [file] [options]');
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('❌ Catalog command failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -34,6 +34,9 @@ const REQUIRED_VARS: RequiredVar[] = [
   { name: 'CRON_SECRET', description: 'Secret for securing cron endpoints' },
   { name: 'PLAID_CLIENT_ID_EU', description: 'Plaid EU client ID (optional)', optional: true },
   { name: 'PLAID_SECRET_EU', description: 'Plaid EU secret (optional)', optional: true },
+  { name: 'PLAID_WEBHOOK_URL', description: 'Plaid webhook URL for automatic syncing (optional)', optional: true },
+  { name: 'FX_RATES_PROVIDER', description: 'Exchange rate provider: file or http (optional)', optional: true },
+  { name: 'FX_RATES_URL', description: 'Exchange rate API URL for the http provider (optional)', optional: true },
 ];
 
 function validateEnvironment(): { valid: boolean; errors: string[]; warnings: string[] } {
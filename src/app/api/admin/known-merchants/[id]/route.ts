@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentAdmin } from '@/lib/auth';
+import { knownMerchantSchema, updateKnownMerchant } from '@/lib/knownMerchantAdmin';
+import { z } from 'zod';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// Any field but the name; isActive false deactivates the merchant
+const updateSchema = knownMerchantSchema
+  .omit({ name: true })
+  .partial()
+  .extend({ isActive: z.boolean().optional() });
+
+// PATCH - Edit a known merchant, or deactivate / reactivate it
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const admin = await getCurrentAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json();
+    const input = updateSchema.parse(body);
+    const merchant = await updateKnownMerchant(id, input);
+    if (!merchant) {
+      return NextResponse.json(
+        { error: 'Known merchant not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ merchant });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error updating known merchant:', error);
+    return NextResponse.json(
+      { error: 'Failed to update known merchant' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentAdmin } from '@/lib/auth';
+import { mergeKnownMerchants } from '@/lib/knownMerchantAdmin';
+import { z } from 'zod';
+
+const mergeSchema = z
+  .object({
+    targetId: z.string().min(1),
+    sourceIds: z.array(z.string().min(1)).min(1, 'Choose at least one merchant to merge'),
+  })
+  .refine((data) => !data.sourceIds.includes(data.targetId), 'A merchant cannot be merged into itself');
+
+// POST - Merge duplicate known merchants into one
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getCurrentAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { targetId, sourceIds } = mergeSchema.parse(body);
+    const merchant = await mergeKnownMerchants(targetId, sourceIds);
+    if (!merchant) {
+      return NextResponse.json(
+        { error: 'Known merchant not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ merchant, mergedIds: sourceIds });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error merging known merchants:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge known merchants' },
+      { status: 500 }
+    );
+  }
+}
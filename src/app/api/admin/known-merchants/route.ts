@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentAdmin } from '@/lib/auth';
+import { createKnownMerchant, knownMerchantSchema, listKnownMerchantsForAdmin } from '@/lib/knownMerchantAdmin';
+import { z } from 'zod';
+
+// GET - List the known merchant catalog (?search=, ?includeInactive=true)
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getCurrentAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const merchants = await listKnownMerchantsForAdmin({
+      search: searchParams.get('search') || undefined,
+      includeInactive: searchParams.get('includeInactive') === 'true',
+    });
+
+    return NextResponse.json({ merchants });
+  } catch (error) {
+    console.error('Error fetching known merchants:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch known merchants' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Add a merchant to the catalog
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await getCurrentAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const input = knownMerchantSchema.parse(body);
+    const merchant = await createKnownMerchant(input);
+    if (!merchant) {
+      return NextResponse.json(
+        { error: 'A known merchant with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ merchant }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error creating known merchant:', error);
+    return NextResponse.json(
+      { error: 'Failed to create known merchant' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentAdmin } from '@/lib/auth';
+import { getUnmatchedMerchants } from '@/lib/knownMerchantAdmin';
+
+// GET - Most common merchants no known merchant matches, across all users (?days=90, ?limit=50)
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getCurrentAdmin();
+    if (!admin) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(parseInt(searchParams.get('days') || '90', 10) || 90, 1), 730);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+
+    const merchants = await getUnmatchedMerchants({ days, limit });
+
+    return NextResponse.json({ merchants, days });
+  } catch (error) {
+    console.error('Error fetching unmatched merchants:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch unmatched merchants' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { chatWithAI } from '@/lib/gemini';
+import { getCurrencyConverterForUser } from '@/lib/exchangeRates';
 
 export async function POST(request: NextRequest) {
   try {
@@ -45,12 +46,21 @@ export async function POST(request: NextRequest) {
       take: 50, // Limit to recent 50 transactions for context
     });
 
+    const converter = await getCurrencyConverterForUser(user.id);
+
     // Get AI response
     const response = await chatWithAI(
       message,
       conversationHistory || [],
-      subscriptions,
-      transactions
+      subscriptions.map((sub: typeof subscriptions[0]) => ({
+        ...sub,
+        convertedAmount: converter.toBase(sub.amount, sub.currency),
+      })),
+      transactions.map((tx: typeof transactions[0]) => ({
+        ...tx,
+        convertedAmount: converter.toBase(tx.amount, tx.currency),
+      })),
+      converter.baseCurrency
     );
 
     return NextResponse.json({ response });
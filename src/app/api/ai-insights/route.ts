@@ -7,6 +7,7 @@ import {
   type SubscriptionData,
   type TransactionData,
 } from '@/lib/gemini';
+import { getCurrencyConverterForUser } from '@/lib/exchangeRates';
 
 // GET - Fetch AI insights for the current user
 export async function GET(request: NextRequest) {
@@ -40,11 +41,16 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    const converter = await getCurrencyConverterForUser(user.id);
+
     // Map to Gemini format
-    const subscriptionData: SubscriptionData[] = subscriptions.map(sub => ({
+    const subscriptionData: SubscriptionData[] = subscriptions.map((sub: typeof subscriptions[0]) => ({
       id: sub.id,
       name: sub.name,
       amount: sub.amount,
+      currency: sub.currency,
+      convertedAmount: converter.toBase(sub.amount, sub.currency),
+      interval: sub.interval,
       renewalDate: sub.renewalDate,
       merchant: sub.merchant,
       status: sub.status,
@@ -52,9 +58,11 @@ export async function GET(request: NextRequest) {
       updatedAt: sub.updatedAt,
     }));
 
-    const transactionData: TransactionData[] = dbTransactions.map(tx => ({
+    const transactionData: TransactionData[] = dbTransactions.map((tx: typeof dbTransactions[0]) => ({
       id: tx.id,
       amount: tx.amount,
+      currency: tx.currency,
+      convertedAmount: converter.toBase(tx.amount, tx.currency),
       date: tx.date,
       merchant: tx.merchant,
       description: tx.description,
@@ -62,11 +70,12 @@ export async function GET(request: NextRequest) {
     }));
 
     // Use Gemini AI for analysis
-    const analysis = await analyzeSpendingPatterns(subscriptionData, transactionData);
+    const analysis = await analyzeSpendingPatterns(subscriptionData, transactionData, converter.baseCurrency);
     const recommendations = await generateSmartRecommendations(
       subscriptionData,
       transactionData,
-      analysis
+      analysis,
+      converter.baseCurrency
     );
 
     // Format spending prediction from analysis
@@ -92,11 +101,16 @@ export async function GET(request: NextRequest) {
     ];
 
     return NextResponse.json({
+      baseCurrency: converter.baseCurrency,
       analysis,
       recommendations,
       spendingPrediction,
       insights,
-      unusedSubscriptions: analysis.unusedSubscriptions,
+      // Monthly and yearly savings depend on each subscription's billing interval
+      unusedSubscriptions: analysis.unusedSubscriptions.map((unused) => ({
+        ...unused,
+        interval: subscriptionData.find((sub) => sub.id === unused.subscriptionId)?.interval ?? 'monthly',
+      })),
       duplicateServices: analysis.duplicateServices,
       downgradeOpportunities: analysis.downgradeOpportunities,
       annualVsMonthlySavings: analysis.annualVsMonthlySavings,
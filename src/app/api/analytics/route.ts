@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { getCurrencyConverterForUser } from '@/lib/exchangeRates';
+import { toMonthlyAmount } from '@/lib/billingInterval';
 
 // GET - Fetch analytics data for the current user
 export async function GET(request: NextRequest) {
@@ -34,29 +36,47 @@ export async function GET(request: NextRequest) {
       },
     });
 
+    // All amounts below are in the user's base currency; amounts in a currency
+    // without an exchange rate are left out and the currency listed in unconverted
+    const converter = await getCurrencyConverterForUser(user.id);
+
     // Calculate monthly spending
     const monthlySpending: Record<string, number> = {};
-    transactions.forEach((transaction) => {
+    transactions.forEach((transaction: typeof transactions[0]) => {
       const month = new Date(transaction.date).toISOString().slice(0, 7); // YYYY-MM
-      monthlySpending[month] = (monthlySpending[month] || 0) + Math.abs(transaction.amount);
+      monthlySpending[month] = (monthlySpending[month] || 0) + Math.abs(converter.toBase(transaction.amount, transaction.currency) ?? 0);
     });
 
-    // Calculate category spending
+    // Monthly equivalent of each subscription, whatever its billing interval
+    const getMonthlySpend = (sub: typeof subscriptions[0]) =>
+      toMonthlyAmount(converter.toBase(sub.amount, sub.currency) ?? 0, sub.interval);
+
+    // Calculate category spending (per month)
     const categorySpending: Record<string, number> = {};
-    subscriptions.forEach((sub) => {
+    subscriptions.forEach((sub: typeof subscriptions[0]) => {
       // You might want to add a category field to Subscription model
       // For now, we'll use a simple categorization based on merchant name
       const category = categorizeSubscription(sub.merchant || sub.name);
-      categorySpending[category] = (categorySpending[category] || 0) + sub.amount;
+      categorySpending[category] = (categorySpending[category] || 0) + getMonthlySpend(sub);
     });
 
     // Calculate total monthly spending from active subscriptions
-    const totalMonthlySpending = subscriptions.reduce((sum, sub) => sum + sub.amount, 0);
+    const totalMonthlySpending = subscriptions.reduce((sum: number, sub: typeof subscriptions[0]) => sum + getMonthlySpend(sub), 0);
     const totalYearlySpending = totalMonthlySpending * 12;
 
+    // Monthly subscription spend per original currency, alongside its converted value
+    const currencyTotals: Record<string, { amount: number; convertedAmount: number }> = {};
+    subscriptions.forEach((sub: typeof subscriptions[0]) => {
+      const currency = sub.currency || 'USD';
+      const totals = currencyTotals[currency] || { amount: 0, convertedAmount: 0 };
+      totals.amount += toMonthlyAmount(sub.amount, sub.interval);
+      totals.convertedAmount += getMonthlySpend(sub);
+      currencyTotals[currency] = totals;
+    });
+
     // Get subscription trends (merchants with most transactions)
     const merchantCounts: Record<string, number> = {};
-    transactions.forEach((transaction) => {
+    transactions.forEach((transaction: typeof transactions[0]) => {
       const merchant = transaction.merchant || transaction.subscription?.merchant || 'Unknown';
       merchantCounts[merchant] = (merchantCounts[merchant] || 0) + 1;
     });
@@ -67,6 +87,8 @@ export async function GET(request: NextRequest) {
       .slice(0, 5);
 
     return NextResponse.json({
+      baseCurrency: converter.baseCurrency,
+      unconverted: converter.unconverted,
       monthlySpending: Object.entries(monthlySpending).map(([month, spending]) => ({
         month,
         spending,
@@ -78,6 +100,12 @@ export async function GET(request: NextRequest) {
       totalMonthlySpending,
       totalYearlySpending,
       totalSubscriptions: subscriptions.length,
+      currencyBreakdown: Object.entries(currencyTotals).map(([currency, totals]) => ({
+        currency,
+        amount: Math.round(totals.amount * 100) / 100,
+        // null when the currency has no exchange rate
+        convertedAmount: converter.unconverted.includes(currency) ? null : Math.round(totals.convertedAmount * 100) / 100,
+      })),
       topMerchants,
     });
   } catch (error) {
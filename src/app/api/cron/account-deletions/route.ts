@@ -0,0 +1,50 @@
+/**
+ * Account Deletions Cron Job
+ * 
+ * Runs daily to permanently delete accounts whose deletion grace period has ended
+ * Configure in Vercel Cron or your hosting platform
+ * 
+ * Vercel Cron Configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/account-deletions",
+ *     "schedule": "0 3 * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueAccountDeletions } from '@/lib/accountDeletion';
+
+// Optional: Add a secret token for security
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Optional: Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const run = await processDueAccountDeletions();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      results: {
+        accountsDeleted: run.deleted.length,
+        accountsFailed: run.failed.length,
+      },
+    });
+  } catch (error) {
+    console.error('Error in account deletions cron:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * Daily Notifications Cron Job
  * 
- * This endpoint runs daily to check for upcoming bills and price changes
+ * This endpoint runs daily to check for upcoming bills, ending free trials, price changes and charges that stopped
+ * Each user's saved notification preferences decide which emails are sent
  * Configure in Vercel Cron or your hosting platform
  * 
  * Vercel Cron Configuration (vercel.json):
@@ -35,7 +36,9 @@ export async function GET(request: NextRequest) {
       timestamp: new Date().toISOString(),
       results: {
         upcomingBillsSent: results.upcomingBills,
+        trialEndingsSent: results.trialEndings,
         priceChangesSent: results.priceChanges,
+        silentCancellationsFlagged: results.silentCancellations,
       },
     });
   } catch (error) {
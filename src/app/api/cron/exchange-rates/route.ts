@@ -0,0 +1,51 @@
+/**
+ * Exchange Rates Cron Job
+ * 
+ * Runs daily to refresh FX rates from the configured provider (FX_RATES_PROVIDER)
+ * Configure in Vercel Cron or your hosting platform
+ * 
+ * Vercel Cron Configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/exchange-rates",
+ *     "schedule": "0 6 * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshExchangeRates } from '@/lib/exchangeRates';
+
+// Optional: Add a secret token for security
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Optional: Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await refreshExchangeRates();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      results: {
+        provider: result.provider,
+        ratesUpdated: result.updated,
+        asOf: result.asOf.toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error('Error in exchange rates cron:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Background Jobs Cron
+ *
+ * Runs every minute to work through queued sync and detection jobs on hosts
+ * without a long-running worker (see scripts/job-worker.ts)
+ * Stops claiming new jobs before the function's time limit
+ *
+ * Vercel Cron Configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/jobs",
+ *     "schedule": "* * * * *"
+ *   }]
+ * }
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { processJobs } from '@/lib/jobHandlers';
+
+// Optional: Add a secret token for security
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Leaves headroom for the last job under a 60 second function limit
+const CLAIM_WINDOW_MS = 40 * 1000;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Optional: Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const results = await processJobs({
+      workerId: `cron-${randomUUID()}`, // Unique, so overlapping runs never share a lock
+      deadline: new Date(Date.now() + CLAIM_WINDOW_MS),
+    });
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      results,
+    });
+  } catch (error) {
+    console.error('Error in jobs cron:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for platforms that require it
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,62 @@
+/**
+ * Renewals Cron Job
+ *
+ * Runs daily to settle ended free trials, then roll passed renewal dates forward
+ * and reconcile them with posted charges
+ * Runs before daily notifications so reminders see the new renewal dates
+ * Configure in Vercel Cron or your hosting platform
+ *
+ * Vercel Cron Configuration (vercel.json):
+ * {
+ *   "crons": [{
+ *     "path": "/api/cron/renewals",
+ *     "schedule": "0 5 * * *"
+ *   }]
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { rollForwardRenewals, settleTrials } from '@/lib/renewalRollForward';
+
+// Optional: Add a secret token for security
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Optional: Verify cron secret for security
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Converted trials become active first, so their renewal dates are rolled forward too
+    const trials = await settleTrials();
+    const results = await rollForwardRenewals();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      results: {
+        subscriptionsRolledForward: results.length,
+        chargesMatched: results.reduce((sum, result) => sum + result.chargesMatched, 0),
+        chargesMissed: results.reduce((sum, result) => sum + result.chargesMissed, 0),
+        trialsConverted: trials.filter((trial) => trial.outcome === 'converted').length,
+        trialsCancelled: trials.filter((trial) => trial.outcome === 'cancelled').length,
+      },
+    });
+  } catch (error) {
+    console.error('Error in renewals cron:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for platforms that require it
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
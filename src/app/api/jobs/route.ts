@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { listRecentJobs } from '@/lib/jobQueue';
+
+// GET - Fetch the user's most recent background jobs, newest first
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const jobs = await listRecentJobs(user.id);
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,21 @@
 import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
+import { updateNotificationState } from '@/lib/notificationStore';
+import { z } from 'zod';
+
+const updateNotificationSchema = z.object({
+  action: z.enum(['read', 'unread', 'dismiss', 'snooze']),
+  // Snooze either until a specific time or for a number of hours
+  snoozedUntil: z.string().optional(),
+  snoozeHours: z.number().positive().max(24 * 30).optional(),
+});
+
+const ACTION_MESSAGES = {
+  read: 'marked as read',
+  unread: 'marked as unread',
+  dismiss: 'dismissed',
+  snooze: 'snoozed',
+} as const;
 
 export async function PATCH(
   req: Request,
@@ -10,21 +26,51 @@ export async function PATCH(
     if (!user?.id) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
-    
+
     const params = await context.params;
     const { id } = params;
     const body = await req.json();
-    const { action } = body;
+    const { action, snoozedUntil, snoozeHours } = updateNotificationSchema.parse(body);
+
+    let snoozeDate: Date | undefined;
+    if (action === 'snooze') {
+      snoozeDate = snoozedUntil
+        ? new Date(snoozedUntil)
+        : new Date(Date.now() + (snoozeHours ?? 24) * 60 * 60 * 1000);
+
+      if (isNaN(snoozeDate.getTime()) || snoozeDate <= new Date()) {
+        return NextResponse.json(
+          { error: 'Snooze time must be in the future' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const notification = await updateNotificationState(user.id, id, action, snoozeDate);
+
+    if (!notification) {
+      return NextResponse.json(
+        { error: 'Notification not found' },
+        { status: 404 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
-      message: `Notification ${action === 'read' ? 'marked as read' : 'dismissed'}`,
+      message: `Notification ${ACTION_MESSAGES[action]}`,
+      notification,
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
     console.error('Error updating notification:', error);
     return NextResponse.json(
       { error: 'Failed to update notification' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
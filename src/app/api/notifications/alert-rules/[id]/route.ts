@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { deleteAlertRule, updateAlertRule } from '@/lib/notificationPreferences';
+import { z } from 'zod';
+
+const updateAlertRuleSchema = z.object({
+  type: z.enum(['spending_limit', 'price_increase', 'unused_subscription']).optional(),
+  condition: z.enum(['monthly_spending_exceeds', 'price_increase_percentage', 'unused_subscription_days']).optional(),
+  threshold: z.number().nonnegative('Threshold cannot be negative').optional(),
+  isActive: z.boolean().optional(),
+});
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// PUT - Update an alert rule
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json();
+    const data = updateAlertRuleSchema.parse(body);
+
+    const alertRule = await updateAlertRule(user.id, id, data);
+
+    if (!alertRule) {
+      return NextResponse.json(
+        { error: 'Alert rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ alertRule });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error updating alert rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update alert rule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete an alert rule
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const deleted = await deleteAlertRule(user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Alert rule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Alert rule deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alert rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { createAlertRule, listAlertRules } from '@/lib/notificationPreferences';
+import { z } from 'zod';
+
+const alertRuleSchema = z.object({
+  type: z.enum(['spending_limit', 'price_increase', 'unused_subscription']),
+  condition: z.enum(['monthly_spending_exceeds', 'price_increase_percentage', 'unused_subscription_days']),
+  threshold: z.number().nonnegative('Threshold cannot be negative'),
+  isActive: z.boolean().default(true),
+});
+
+// GET - Fetch alert rules for the current user
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const alertRules = await listAlertRules(user.id);
+
+    return NextResponse.json({ alertRules });
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alert rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create an alert rule
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = alertRuleSchema.parse(body);
+
+    const alertRule = await createAlertRule(user.id, data);
+
+    return NextResponse.json({ alertRule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error creating alert rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create alert rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/notificationPreferences';
+import { z } from 'zod';
+
+const updatePreferencesSchema = z.object({
+  renewalReminders: z.boolean().optional(),
+  priceIncreaseAlerts: z.boolean().optional(),
+  spendingLimitAlerts: z.boolean().optional(),
+  unusedSubscriptionWarnings: z.boolean().optional(),
+  duplicateDetection: z.boolean().optional(),
+  savingsOpportunities: z.boolean().optional(),
+  emailNotifications: z.boolean().optional(),
+  pushNotifications: z.boolean().optional(),
+  reminderDays: z.number().int().min(1, 'Reminder days must be at least 1').max(30, 'Reminder days cannot exceed 30').optional(),
+  spendingLimit: z.number().nonnegative('Spending limit cannot be negative').optional(),
+});
+
+// GET - Fetch notification preferences for the current user
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const preferences = await getNotificationPreferences(user.id);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notification preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Update notification preferences for the current user
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = updatePreferencesSchema.parse(body);
+
+    const preferences = await updateNotificationPreferences(user.id, data);
+
+    return NextResponse.json({ preferences });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error updating notification preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notification preferences' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { generateAllNotifications, NotificationPreferences } from '@/lib/notifications';
+import { generateAllNotifications } from '@/lib/notifications';
+import { getNotificationPreferences, listAlertRules } from '@/lib/notificationPreferences';
+import { getPriceHistoryForSubscriptions } from '@/lib/priceHistory';
+import { getCurrencyConverterForUser } from '@/lib/exchangeRates';
+import {
+  listNotifications,
+  markAllNotificationsRead,
+  saveGeneratedNotifications,
+  saveNotification,
+} from '@/lib/notificationStore';
+import { z } from 'zod';
+
+const createNotificationSchema = z.object({
+  type: z.enum([
+    'renewal_reminder',
+    'price_increase',
+    'spending_limit',
+    'unused_subscription',
+    'duplicate_detected',
+    'savings_opportunity',
+  ]),
+  title: z.string().min(1, 'Title is required'),
+  message: z.string().min(1, 'Message is required'),
+  severity: z.enum(['low', 'medium', 'high', 'critical']).default('low'),
+  subscriptionId: z.string().optional(),
+  merchant: z.string().optional(),
+  amount: z.number().optional(),
+  dueDate: z.string().optional(),
+  expiresAt: z.string().optional(),
+  actionUrl: z.string().optional(),
+  actionText: z.string().optional(),
+});
 
 // GET - Fetch all notifications for the current user
 export async function GET(request: NextRequest) {
@@ -16,48 +47,40 @@ export async function GET(request: NextRequest) {
 
     // Fetch user's subscriptions
     const dbSubscriptions = await prisma.subscription.findMany({
-      where: { 
+      where: {
         userId: user.id,
         status: 'active' // Only active subscriptions
       },
       orderBy: { renewalDate: 'asc' }
     });
 
+    const [priceHistories, converter] = await Promise.all([
+      getPriceHistoryForSubscriptions(dbSubscriptions.map((sub: typeof dbSubscriptions[0]) => sub.id)),
+      getCurrencyConverterForUser(user.id),
+    ]);
+
     // Map Prisma subscriptions to format expected by notification functions
     // The notification functions expect 'nextRenewal' but Prisma uses 'renewalDate'
+    // Spending totals use convertedAmount, in the user's base currency
     const subscriptions = dbSubscriptions.map((sub: typeof dbSubscriptions[0]) => ({
       ...sub,
+      convertedAmount: converter.toBase(sub.amount, sub.currency),
       nextRenewal: sub.renewalDate.toISOString(),
-      // Add any other fields that notification functions might need
-      priceHistory: [], // Can be enhanced later with actual price history
+      priceHistory: priceHistories[sub.id] || [],
     }));
 
-    // Default notification preferences (can be enhanced later with user preferences)
-    const preferences: NotificationPreferences = {
-      userId: user.id,
-      renewalReminders: true,
-      priceIncreaseAlerts: true,
-      spendingLimitAlerts: true,
-      unusedSubscriptionWarnings: true,
-      duplicateDetection: true,
-      savingsOpportunities: true,
-      emailNotifications: false,
-      pushNotifications: false,
-      reminderDays: 7,
-      spendingLimit: 100
-    };
-
-    // Generate notifications from subscriptions
-    let notifications = generateAllNotifications(subscriptions, user.id, preferences);
-
-    // Filter unread only if requested
-    if (unreadOnly) {
-      notifications = notifications.filter(n => !n.isRead);
-    }
+    // Load the user's saved notification preferences and alert rules
+    const [preferences, alertRules] = await Promise.all([
+      getNotificationPreferences(user.id),
+      listAlertRules(user.id, { activeOnly: true }),
+    ]);
 
-    // Get read/dismissed notification IDs from a simple storage mechanism
-    // For now, we'll use a simple approach: check localStorage on client side
-    // In a full implementation, you'd store this in a database table
+    // Generate notifications from subscriptions and persist any new ones
+    // Existing notifications keep their read/dismissed/snoozed state
+    const generated = generateAllNotifications(subscriptions, user.id, preferences, alertRules, converter.baseCurrency);
+    await saveGeneratedNotifications(user.id, generated);
+
+    const notifications = await listNotifications(user.id, { unreadOnly });
 
     return NextResponse.json({ notifications });
   } catch (error) {
@@ -69,3 +92,62 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// POST - Create a notification for the current user
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const data = createNotificationSchema.parse(body);
+
+    const notification = await saveNotification(user.id, {
+      ...data,
+      id: `custom-${crypto.randomUUID()}`,
+    });
+
+    return NextResponse.json({ notification }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error creating notification:', error);
+    return NextResponse.json(
+      { error: 'Failed to create notification' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH - Mark all notifications as read
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.action !== 'read') {
+      return NextResponse.json(
+        { error: 'Unsupported action' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await markAllNotificationsRead(user.id);
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    console.error('Error updating notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
-import { getPlaidClientForUser, getPlaidProducts } from '@/lib/plaidConfig';
+import { prisma } from '@/lib/prisma';
+import { getPlaidClient, getPlaidClientForUser, getPlaidCountryCodes, getPlaidProducts, getPlaidWebhookUrl } from '@/lib/plaidConfig';
+import { getPlaidAccessTokenByItemId } from '@/lib/plaidHelpers';
+import { DEFAULT_REGION, parseRegion } from '@/lib/regions';
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,17 +14,26 @@ export async function POST(request: NextRequest) {
 
     // Get optional country from request body (for explicit country selection)
     const body = await request.json().catch(() => ({}));
-    const requestedCountry = body.country as 'US' | 'UK' | undefined;
+    const requestedCountry = parseRegion(body.country);
+    if (body.country && !requestedCountry) {
+      return NextResponse.json({ error: 'Unsupported country' }, { status: 400 });
+    }
+
+    // Update mode: repair an existing item instead of connecting a new one
+    if (body.itemId) {
+      return createUpdateModeLinkToken(user.id, body.itemId);
+    }
 
     // Get Plaid client and configuration for user
-    const { client: plaidClient, countryCodes, region } = await getPlaidClientForUser(user.id);
-    
-    // Override region if explicitly requested
-    const finalCountryCodes = requestedCountry 
-      ? (requestedCountry === 'UK' ? ['GB'] : ['US'])
-      : countryCodes;
+    const detected = await getPlaidClientForUser(user.id);
+
+    // Override region if explicitly requested (its credentials may differ)
+    const region = requestedCountry || detected.region;
+    const plaidClient = requestedCountry ? getPlaidClient(requestedCountry) : detected.client;
+    const finalCountryCodes = getPlaidCountryCodes(region);
 
     const products = getPlaidProducts(region);
+    const webhook = getPlaidWebhookUrl();
 
     const createTokenResponse = await plaidClient.linkTokenCreate({
       user: { client_user_id: user.id },
@@ -29,6 +41,8 @@ export async function POST(request: NextRequest) {
       products,
       country_codes: finalCountryCodes as any,
       language: 'en',
+      // Plaid calls this when new transactions are ready or the item needs attention
+      ...(webhook && { webhook }),
       account_filters: {
         depository: {
           account_subtypes: ['checking', 'savings'],
@@ -38,7 +52,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       link_token: createTokenResponse.data.link_token,
-      region: requestedCountry || region,
+      region,
     });
   } catch (error) {
     console.error('Error creating link token:', error);
@@ -50,4 +64,55 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Creates a link token that opens Plaid Link in update mode for an existing item
+ * The user signs in again and the item keeps its access token and accounts,
+ * so no new bank accounts are created
+ */
+async function createUpdateModeLinkToken(userId: string, itemId: string) {
+  const bankAccount = await prisma.bankAccount.findFirst({
+    where: { userId, plaidItemId: itemId },
+    select: { country: true },
+  });
+
+  if (!bankAccount) {
+    return NextResponse.json(
+      { error: 'Bank connection not found' },
+      { status: 404 }
+    );
+  }
+
+  // SECURITY: Access token is read from the database, never from the client
+  let accessToken: string;
+  try {
+    accessToken = await getPlaidAccessTokenByItemId(userId, itemId);
+  } catch (error) {
+    return NextResponse.json(
+      { error: 'Bank connection has no stored credentials. Please remove it and connect again.' },
+      { status: 400 }
+    );
+  }
+
+  // Item must be repaired with the credentials of the region it was created in
+  const region = parseRegion(bankAccount.country) || DEFAULT_REGION;
+  const plaidClient = getPlaidClient(region);
+  const webhook = getPlaidWebhookUrl();
+
+  // Update mode takes the access token instead of products
+  const createTokenResponse = await plaidClient.linkTokenCreate({
+    user: { client_user_id: userId },
+    client_name: 'SubscriptionSentry',
+    access_token: accessToken,
+    country_codes: getPlaidCountryCodes(region) as any,
+    language: 'en',
+    ...(webhook && { webhook }),
+  });
+
+  return NextResponse.json({
+    link_token: createTokenResponse.data.link_token,
+    region,
+    mode: 'update',
+  });
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { updateItemStatus } from '@/lib/plaidHelpers';
+import { clearConnectionIssues } from '@/lib/plaidWebhook';
+import { enqueueJob } from '@/lib/jobQueue';
+import { processJobs } from '@/lib/jobHandlers';
+
+type RouteContext = {
+  params: Promise<{ itemId: string }>;
+};
+
+/**
+ * POST - Finish repairing an item after Plaid Link update mode succeeds
+ * Update mode keeps the existing access token, so there is no token exchange
+ * and no new bank accounts; the item is marked healthy and a sync is queued
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { itemId } = await context.params;
+
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { userId: user.id, plaidItemId: itemId },
+      select: { id: true },
+    });
+
+    if (!bankAccount) {
+      return NextResponse.json(
+        { error: 'Bank connection not found' },
+        { status: 404 }
+      );
+    }
+
+    await updateItemStatus(user.id, itemId, 'healthy');
+    await clearConnectionIssues(user.id, itemId);
+
+    // Catch up on transactions missed while the connection was broken
+    // Syncing the whole item covers its other accounts too
+    const job = await enqueueJob(user.id, 'sync_transactions', { bankAccountId: bankAccount.id });
+
+    after(async () => {
+      try {
+        await processJobs({ maxJobs: 1 });
+      } catch (error) {
+        console.error('Error processing queued jobs:', error);
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Bank connection repaired',
+      jobId: job.id,
+    });
+  } catch (error) {
+    console.error('Error repairing Plaid item:', error);
+    return NextResponse.json(
+      { error: 'Failed to repair bank connection' },
+      { status: 500 }
+    );
+  }
+}
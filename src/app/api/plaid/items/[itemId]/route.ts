@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { disconnectPlaidItem } from '@/lib/plaidDisconnect';
+import { clearConnectionIssues } from '@/lib/plaidWebhook';
+
+type RouteContext = {
+  params: Promise<{ itemId: string }>;
+};
+
+/**
+ * DELETE - Disconnect a Plaid item (a connected institution)
+ * Query: ?purgeTransactions=true also deletes the item's accounts and transactions;
+ * by default transactions are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { itemId } = await context.params;
+    const purgeTransactions = request.nextUrl.searchParams.get('purgeTransactions') === 'true';
+
+    const bankAccount = await prisma.bankAccount.findFirst({
+      where: { userId: user.id, plaidItemId: itemId },
+      select: { id: true },
+    });
+
+    if (!bankAccount) {
+      return NextResponse.json(
+        { error: 'Bank connection not found' },
+        { status: 404 }
+      );
+    }
+
+    const result = await disconnectPlaidItem(user.id, itemId, { purgeTransactions });
+    await clearConnectionIssues(user.id, itemId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Bank connection removed',
+      ...result,
+    });
+  } catch (error) {
+    console.error('Error disconnecting Plaid item:', error);
+    return NextResponse.json(
+      { error: 'Failed to disconnect bank account' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { listPlaidItems } from '@/lib/plaidHelpers';
+
+// GET - List the user's connected Plaid items and their connection status
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const items = await listPlaidItems(user.id);
+
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('Error fetching Plaid items:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bank connections' },
+      { status: 500 }
+    );
+  }
+}
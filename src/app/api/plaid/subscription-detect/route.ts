@@ -3,6 +3,8 @@ import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { generateSubscriptionsFromTransactions } from '@/lib/subscriptionGenerator';
 import { debugDetectRecurring } from '@/lib/debugRecurring';
+import { toMonthlyAmount } from '@/lib/billingInterval';
+import { getCurrencyConverterForUser } from '@/lib/exchangeRates';
 
 /**
  * POST /api/plaid/subscription-detect
@@ -72,36 +74,17 @@ export async function POST(request: NextRequest) {
     // Generate subscriptions from transactions
     const detected = await generateSubscriptionsFromTransactions(user.id, 24);
 
-    // Calculate total monthly spend and most expensive subscription
-    const totalMonthlySpend = detected.reduce((sum, sub) => {
-      // Convert to monthly if needed
-      let monthlyAmount = sub.amount;
-      if (sub.interval === 'yearly') {
-        monthlyAmount = sub.amount / 12;
-      } else if (sub.interval === 'quarterly') {
-        monthlyAmount = sub.amount / 3;
-      } else if (sub.interval === 'bi-weekly') {
-        monthlyAmount = (sub.amount * 26) / 12; // 26 bi-weekly payments per year
-      } else if (sub.interval === 'weekly') {
-        monthlyAmount = (sub.amount * 52) / 12; // 52 weekly payments per year
-      }
-      return sum + monthlyAmount;
-    }, 0);
+    // Calculate total monthly spend and most expensive subscription (in the user's base currency)
+    const converter = await getCurrencyConverterForUser(user.id);
+    const getMonthlySpend = (sub: typeof detected[0]) =>
+      toMonthlyAmount(converter.toBase(sub.amount, sub.currency) ?? 0, sub.interval);
 
-    const mostExpensive = detected.length > 0 
-      ? detected.reduce((max, sub) => {
-          const monthlyAmount = sub.interval === 'yearly' ? sub.amount / 12 :
-                              sub.interval === 'quarterly' ? sub.amount / 3 :
-                              sub.interval === 'bi-weekly' ? (sub.amount * 26) / 12 :
-                              sub.interval === 'weekly' ? (sub.amount * 52) / 12 :
-                              sub.amount;
-          const maxMonthly = max.interval === 'yearly' ? max.amount / 12 :
-                           max.interval === 'quarterly' ? max.amount / 3 :
-                           max.interval === 'bi-weekly' ? (max.amount * 26) / 12 :
-                           max.interval === 'weekly' ? (max.amount * 52) / 12 :
-                           max.amount;
-          return monthlyAmount > maxMonthly ? sub : max;
-        })
+    // Free trials aren't charging yet; currencies without an exchange rate are left out
+    const paid = detected.filter((sub) => !sub.isTrial && converter.toBase(sub.amount, sub.currency) !== null);
+    const totalMonthlySpend = paid.reduce((sum, sub) => sum + getMonthlySpend(sub), 0);
+
+    const mostExpensive = paid.length > 0 
+      ? paid.reduce((max, sub) => (getMonthlySpend(sub) > getMonthlySpend(max) ? sub : max))
       : null;
 
     // Enhanced logging (production-safe)
@@ -110,13 +93,9 @@ export async function POST(request: NextRequest) {
       merchants: detected.length,
       subscriptions: detected.length,
       monthlySpend: totalMonthlySpend,
-      mostExpensive: mostExpensive ? `${mostExpensive.name} ($${(
-        mostExpensive.interval === 'yearly' ? mostExpensive.amount / 12 :
-        mostExpensive.interval === 'quarterly' ? mostExpensive.amount / 3 :
-        mostExpensive.interval === 'bi-weekly' ? (mostExpensive.amount * 26) / 12 :
-        mostExpensive.interval === 'weekly' ? (mostExpensive.amount * 52) / 12 :
-        mostExpensive.amount
-      ).toFixed(2)}/month)` : undefined,
+      mostExpensive: mostExpensive
+        ? `${mostExpensive.name} (${getMonthlySpend(mostExpensive).toFixed(2)} ${converter.baseCurrency}/month)`
+        : undefined,
     });
 
     return NextResponse.json({
@@ -125,6 +104,8 @@ export async function POST(request: NextRequest) {
       transactions: transactionsCount,
       subscriptions: detected.length,
       totalMonthlySpend: Math.round(totalMonthlySpend * 100) / 100,
+      baseCurrency: converter.baseCurrency,
+      unconverted: converter.unconverted, // Currencies left out of the totals (no exchange rate)
       mostExpensiveSubscription: mostExpensive ? {
         id: mostExpensive.id,
         name: mostExpensive.name,
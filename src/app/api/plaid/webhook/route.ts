@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { processJobs } from '@/lib/jobHandlers';
+import { handlePlaidWebhook, PlaidWebhook, verifyPlaidWebhook } from '@/lib/plaidWebhook';
+import { DEFAULT_REGION, parseRegion } from '@/lib/regions';
+
+/**
+ * Plaid webhook receiver
+ * Called by Plaid (not the browser), so it is excluded from Clerk protection
+ * in middleware and authenticated by the Plaid-Verification JWT instead
+ */
+export async function POST(request: NextRequest) {
+  // Signature covers the exact body bytes, so read it raw before parsing
+  const body = await request.text();
+
+  let webhook: PlaidWebhook;
+  try {
+    webhook = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: 'Invalid webhook body' }, { status: 400 });
+  }
+
+  // Verify with the credentials of the region the item was created in
+  const account = webhook.item_id
+    ? await prisma.bankAccount.findFirst({
+        where: { plaidItemId: webhook.item_id },
+        select: { country: true },
+      })
+    : null;
+  const region = parseRegion(account?.country) || DEFAULT_REGION;
+
+  const isValid = await verifyPlaidWebhook(body, request.headers.get('plaid-verification'), region);
+  if (!isValid) {
+    console.warn(`Rejected Plaid webhook ${webhook.webhook_type}/${webhook.webhook_code}: invalid signature`);
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  try {
+    const result = await handlePlaidWebhook(webhook);
+    console.log(
+      `Plaid webhook ${webhook.webhook_type}/${webhook.webhook_code} for item ${webhook.item_id}: ${result.handled ? result.action : 'ignored'}`
+    );
+
+    // Start on the queued sync once Plaid has its response
+    if (result.action === 'sync_queued') {
+      after(async () => {
+        try {
+          await processJobs({ maxJobs: 1 });
+        } catch (error) {
+          console.error('Error processing queued jobs:', error);
+        }
+      });
+    }
+
+    return NextResponse.json({ received: true, ...result });
+  } catch (error) {
+    // Non-2xx responses make Plaid retry the webhook
+    console.error('Error handling Plaid webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to handle webhook' },
+      { status: 500 }
+    );
+  }
+}
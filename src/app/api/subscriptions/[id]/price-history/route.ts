@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getPriceChanges, summarizePriceHistory, toPriceHistory } from '@/lib/priceHistory';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// GET - Fetch the price history of a subscription
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+
+    const subscription = await prisma.subscription.findFirst({
+      where: {
+        id,
+        userId: user.id,
+      },
+      select: { id: true, currency: true },
+    });
+
+    if (!subscription) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    const changes = await getPriceChanges(subscription.id);
+    const priceHistory = toPriceHistory(changes);
+
+    return NextResponse.json({
+      currency: subscription.currency || 'USD',
+      priceHistory,
+      changes: changes.map((change: typeof changes[0]) => ({
+        id: change.id,
+        oldAmount: change.oldAmount,
+        newAmount: change.newAmount,
+        source: change.source,
+        effectiveDate: change.effectiveDate,
+      })),
+      summary: summarizePriceHistory(priceHistory),
+    });
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch price history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { recordPriceChange } from '@/lib/priceHistory';
+import { recordDetectionFeedback } from '@/lib/detectionFeedback';
+import { isBillingInterval, normalizeBillingInterval } from '@/lib/billingInterval';
 import { z } from 'zod';
 
 const updateSubscriptionSchema = z.object({
@@ -8,7 +11,14 @@ const updateSubscriptionSchema = z.object({
   amount: z.number().positive().optional(),
   renewalDate: z.string().or(z.date()).optional(),
   merchant: z.string().optional(),
-  status: z.enum(['active', 'cancelled', 'paused']).optional(),
+  status: z.enum(['active', 'trial', 'cancelled', 'paused']).optional(),
+  trialStartDate: z.string().or(z.date()).nullable().optional(),
+  trialEndDate: z.string().or(z.date()).nullable().optional(),
+  interval: z
+    .string()
+    .refine(isBillingInterval, 'Interval must be weekly, bi-weekly, monthly, quarterly, semiannual, yearly or "every N days/weeks/months"')
+    .transform(normalizeBillingInterval)
+    .optional(),
 });
 
 type RouteContext = {
@@ -85,15 +95,30 @@ export async function PUT(
     const updateData: any = {};
     if (data.name) updateData.name = data.name;
     if (data.amount !== undefined) updateData.amount = data.amount;
-    if (data.renewalDate) updateData.renewalDate = new Date(data.renewalDate);
+    if (data.renewalDate) {
+      updateData.renewalDate = new Date(data.renewalDate);
+      // A manually corrected schedule replaces the one the missed charge was measured against
+      updateData.missedChargeAt = null;
+    }
     if (data.merchant !== undefined) updateData.merchant = data.merchant;
     if (data.status) updateData.status = data.status;
+    if (data.interval) updateData.interval = data.interval;
+    if (data.trialStartDate !== undefined) {
+      updateData.trialStartDate = data.trialStartDate ? new Date(data.trialStartDate) : null;
+    }
+    if (data.trialEndDate !== undefined) {
+      updateData.trialEndDate = data.trialEndDate ? new Date(data.trialEndDate) : null;
+    }
 
     const subscription = await prisma.subscription.update({
       where: { id },
       data: updateData,
     });
 
+    if (data.amount !== undefined && data.amount !== existing.amount) {
+      await recordPriceChange(subscription, data.amount, new Date(), 'manual');
+    }
+
     return NextResponse.json({ subscription });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -138,6 +163,11 @@ export async function DELETE(
       );
     }
 
+    // Deleting a detected subscription marks it as a false positive, so the next sync doesn't recreate it
+    if (existing.isAutoDetected) {
+      await recordDetectionFeedback(user.id, existing, 'rejected');
+    }
+
     await prisma.subscription.delete({
       where: { id },
     });
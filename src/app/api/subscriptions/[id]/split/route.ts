@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { splitSubscription } from '@/lib/subscriptionMerge';
+import { isBillingInterval, normalizeBillingInterval } from '@/lib/billingInterval';
+import { z } from 'zod';
+
+const splitSchema = z.object({
+  transactionIds: z
+    .array(z.string().min(1))
+    .min(1, 'Select at least one transaction')
+    .max(500, 'Split at most 500 transactions at a time'),
+  name: z.string().min(1, 'Name is required'),
+  amount: z.number().positive().optional(),
+  renewalDate: z.string().or(z.date()).optional(),
+  interval: z
+    .string()
+    .refine(isBillingInterval, 'Interval must be weekly, bi-weekly, monthly, quarterly, semiannual, yearly or "every N days/weeks/months"')
+    .transform(normalizeBillingInterval)
+    .optional(),
+});
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// POST - Move some of a subscription's transactions into a new subscription
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const body = await request.json();
+    const data = splitSchema.parse(body);
+
+    const result = await splitSubscription(user.id, id, {
+      ...data,
+      renewalDate: data.renewalDate ? new Date(data.renewalDate) : undefined,
+    });
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+    if (!result.subscriptionId) {
+      return NextResponse.json(
+        { error: 'None of the selected transactions belong to this subscription' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error splitting subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to split subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { findInactiveSubscriptions, resolveInactiveSubscription } from '@/lib/silentCancellation';
+import { z } from 'zod';
+
+const resolveSchema = z.object({
+  subscriptionId: z.string().min(1),
+  status: z.enum(['cancelled', 'paused', 'active']),
+});
+
+// GET - Fetch subscriptions whose expected charges have stopped
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const inactive = await findInactiveSubscriptions(user.id);
+
+    return NextResponse.json({ inactive });
+  } catch (error) {
+    console.error('Error fetching inactive subscriptions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch inactive subscriptions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Answer a suggestion: mark cancelled or paused, or keep it active
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { subscriptionId, status } = resolveSchema.parse(body);
+    const resolved = await resolveInactiveSubscription(user.id, subscriptionId, status);
+    if (!resolved) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error resolving inactive subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to update subscription' },
+      { status: 500 }
+    );
+  }
+}
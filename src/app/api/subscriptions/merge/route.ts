@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { mergeSubscriptions } from '@/lib/subscriptionMerge';
+import { z } from 'zod';
+
+const mergeSchema = z
+  .object({
+    targetId: z.string().min(1),
+    sourceIds: z.array(z.string().min(1)).min(1, 'Choose at least one subscription to merge'),
+  })
+  .refine((data) => !data.sourceIds.includes(data.targetId), 'A subscription cannot be merged into itself');
+
+// POST - Merge subscriptions into one, moving their transactions and price history
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { targetId, sourceIds } = mergeSchema.parse(body);
+    const result = await mergeSubscriptions(user.id, targetId, sourceIds);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error merging subscriptions:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge subscriptions' },
+      { status: 500 }
+    );
+  }
+}
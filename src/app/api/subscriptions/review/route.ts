@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getPendingReviews, reviewDetectedSubscription } from '@/lib/detectionFeedback';
+import { z } from 'zod';
+
+const reviewSchema = z.object({
+  subscriptionId: z.string().min(1),
+  verdict: z.enum(['confirmed', 'rejected']),
+});
+
+// GET - Fetch detected subscriptions waiting for the user to confirm or reject them
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const reviews = await getPendingReviews(user.id);
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    console.error('Error fetching pending reviews:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pending reviews' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Confirm a detected subscription, or reject it so it's never suggested again
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { subscriptionId, verdict } = reviewSchema.parse(body);
+    const reviewed = await reviewDetectedSubscription(user.id, subscriptionId, verdict);
+    if (!reviewed) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error reviewing detected subscription:', error);
+    return NextResponse.json(
+      { error: 'Failed to review subscription' },
+      { status: 500 }
+    );
+  }
+}
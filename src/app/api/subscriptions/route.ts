@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { recordPriceChange } from '@/lib/priceHistory';
+import { getCurrencyConverterForUser } from '@/lib/exchangeRates';
+import { isBillingInterval, normalizeBillingInterval, toMonthlyAmount } from '@/lib/billingInterval';
 import { z } from 'zod';
 
 const subscriptionSchema = z.object({
@@ -8,7 +11,14 @@ const subscriptionSchema = z.object({
   amount: z.number().positive('Amount must be positive'),
   renewalDate: z.string().or(z.date()),
   merchant: z.string().optional(),
-  status: z.enum(['active', 'cancelled', 'paused']).default('active'),
+  status: z.enum(['active', 'trial', 'cancelled', 'paused']).default('active'),
+  trialStartDate: z.string().or(z.date()).optional(),
+  trialEndDate: z.string().or(z.date()).optional(),
+  interval: z
+    .string()
+    .refine(isBillingInterval, 'Interval must be weekly, bi-weekly, monthly, quarterly, semiannual, yearly or "every N days/weeks/months"')
+    .transform(normalizeBillingInterval)
+    .optional(),
 });
 
 // GET - Fetch all subscriptions for the current user
@@ -25,48 +35,44 @@ export async function GET(request: NextRequest) {
       orderBy: { renewalDate: 'asc' },
     });
 
+    // Convert every subscription into the user's base currency so totals don't mix currencies
+    const converter = await getCurrencyConverterForUser(user.id);
+    // monthlyAmount is the converted amount per month, whatever the billing interval
+    // Both are null for currencies without an exchange rate, which totals leave out
+    const convertedSubscriptions = subscriptions.map((sub: typeof subscriptions[0]) => {
+      const convertedAmount = converter.toBase(sub.amount, sub.currency);
+      return {
+        ...sub,
+        convertedAmount,
+        monthlyAmount: convertedAmount === null ? null : toMonthlyAmount(convertedAmount, sub.interval),
+      };
+    });
+
     // Calculate total monthly spend and most expensive subscription
-    const activeSubscriptions = subscriptions.filter(sub => sub.status === 'active');
-    const totalMonthlySpend = activeSubscriptions.reduce((sum, sub) => {
-      let monthlyAmount = sub.amount;
-      if (sub.interval === 'yearly') {
-        monthlyAmount = sub.amount / 12;
-      } else if (sub.interval === 'quarterly') {
-        monthlyAmount = sub.amount / 3;
-      } else if (sub.interval === 'bi-weekly') {
-        monthlyAmount = (sub.amount * 26) / 12;
-      } else if (sub.interval === 'weekly') {
-        monthlyAmount = (sub.amount * 52) / 12;
-      }
-      return sum + monthlyAmount;
-    }, 0);
+    const activeSubscriptions = convertedSubscriptions.filter((sub: typeof convertedSubscriptions[0]) => sub.status === 'active');
+    const totalMonthlySpend = activeSubscriptions.reduce(
+      (sum: number, sub: typeof convertedSubscriptions[0]) => sum + (sub.monthlyAmount ?? 0),
+      0
+    );
 
     const mostExpensive = activeSubscriptions.length > 0
-      ? activeSubscriptions.reduce((max, sub) => {
-          const subMonthly = sub.interval === 'yearly' ? sub.amount / 12 :
-                            sub.interval === 'quarterly' ? sub.amount / 3 :
-                            sub.interval === 'bi-weekly' ? (sub.amount * 26) / 12 :
-                            sub.interval === 'weekly' ? (sub.amount * 52) / 12 :
-                            sub.amount;
-          const maxMonthly = max.interval === 'yearly' ? max.amount / 12 :
-                            max.interval === 'quarterly' ? max.amount / 3 :
-                            max.interval === 'bi-weekly' ? (max.amount * 26) / 12 :
-                            max.interval === 'weekly' ? (max.amount * 52) / 12 :
-                            max.amount;
-          return subMonthly > maxMonthly ? sub : max;
-        })
+      ? activeSubscriptions.reduce((max: typeof convertedSubscriptions[0], sub: typeof convertedSubscriptions[0]) =>
+          (sub.monthlyAmount ?? 0) > (max.monthlyAmount ?? 0) ? sub : max
+        )
       : null;
 
     // Calculate upcoming renewals (next 7 days)
     const now = new Date();
     const sevenDaysFromNow = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    const upcomingRenewals = activeSubscriptions.filter(sub => {
+    const upcomingRenewals = activeSubscriptions.filter((sub: typeof convertedSubscriptions[0]) => {
       const renewalDate = new Date(sub.renewalDate);
       return renewalDate >= now && renewalDate <= sevenDaysFromNow;
     }).length;
 
     return NextResponse.json({
-      subscriptions,
+      subscriptions: convertedSubscriptions,
+      baseCurrency: converter.baseCurrency,
+      unconverted: converter.unconverted, // Currencies left out of the totals (no exchange rate)
       stats: {
         totalMonthlySpend: Math.round(totalMonthlySpend * 100) / 100,
         totalYearlySpend: Math.round(totalMonthlySpend * 12 * 100) / 100,
@@ -77,6 +83,9 @@ export async function GET(request: NextRequest) {
           name: mostExpensive.name,
           merchant: mostExpensive.merchant,
           amount: mostExpensive.amount,
+          currency: mostExpensive.currency,
+          convertedAmount: mostExpensive.convertedAmount,
+          monthlyAmount: mostExpensive.monthlyAmount,
           interval: mostExpensive.interval,
         } : null,
       },
@@ -102,6 +111,15 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const data = subscriptionSchema.parse(body);
 
+    // A trial converts on its renewal date unless told otherwise
+    const isTrial = data.status === 'trial';
+    const trialDates = isTrial
+      ? {
+          trialStartDate: data.trialStartDate ? new Date(data.trialStartDate) : new Date(),
+          trialEndDate: new Date(data.trialEndDate || data.renewalDate),
+        }
+      : {};
+
     const subscription = await prisma.subscription.create({
       data: {
         userId: user.id,
@@ -110,9 +128,14 @@ export async function POST(request: NextRequest) {
         renewalDate: new Date(data.renewalDate),
         merchant: data.merchant,
         status: data.status,
+        interval: data.interval || 'monthly',
+        ...trialDates,
       },
     });
 
+    // Start the price history with the price the user entered
+    await recordPriceChange(subscription, subscription.amount, subscription.createdAt, 'manual');
+
     return NextResponse.json({ subscription }, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { deleteMerchantAlias } from '@/lib/merchantAliases';
+
+type RouteContext = {
+  params: Promise<{ id: string }>;
+};
+
+// DELETE - Delete a merchant alias
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const deleted = await deleteMerchantAlias(user.id, id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Merchant alias not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Merchant alias deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting merchant alias:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete merchant alias' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { listMerchantAliases, saveMerchantAlias } from '@/lib/merchantAliases';
+import { z } from 'zod';
+
+const aliasSchema = z.object({
+  pattern: z.string().trim().min(2, 'Descriptor must be at least 2 characters').max(100),
+  alias: z.string().trim().min(1, 'Merchant name is required').max(100),
+});
+
+// GET - Fetch the user's merchant aliases
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const aliases = await listMerchantAliases(user.id);
+
+    return NextResponse.json({ aliases });
+  } catch (error) {
+    console.error('Error fetching merchant aliases:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch merchant aliases' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Alias a bank descriptor to a merchant name (applied the next time subscriptions are detected)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { pattern, alias } = aliasSchema.parse(body);
+    const saved = await saveMerchantAlias(user.id, pattern, alias);
+
+    return NextResponse.json({ alias: saved }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error saving merchant alias:', error);
+    return NextResponse.json(
+      { error: 'Failed to save merchant alias' },
+      { status: 500 }
+    );
+  }
+}
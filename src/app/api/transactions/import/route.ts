@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import {
+  detectStatementFormat,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseQifStatement,
+  ParsedStatement,
+} from '@/lib/statementParser';
+import {
+  createManualBankAccount,
+  importStatementTransactions,
+  listManualBankAccounts,
+} from '@/lib/statementImport';
+import { generateSubscriptionsFromTransactions } from '@/lib/subscriptionGenerator';
+import { REGION_CODES } from '@/lib/regions';
+import { z } from 'zod';
+
+// Statements are small; anything larger is almost certainly the wrong file
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+const dateFormatSchema = z.enum(['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY']);
+
+const columnMappingSchema = z
+  .object({
+    date: z.string().min(1, 'Date column is required'),
+    description: z.string().min(1, 'Description column is required'),
+    amount: z.string().optional(),
+    debit: z.string().optional(),
+    credit: z.string().optional(),
+    dateFormat: dateFormatSchema,
+    expensesArePositive: z.boolean().optional(),
+  })
+  .refine((mapping) => mapping.amount || mapping.debit || mapping.credit, {
+    message: 'Map an amount column, or debit and credit columns',
+  });
+
+const newAccountSchema = z.object({
+  name: z.string().trim().min(1, 'Account name is required').max(100),
+  institutionName: z.string().trim().max(100).optional(),
+  currency: z.string().length(3, 'Currency must be a 3-letter code').toUpperCase(),
+  country: z.enum(REGION_CODES),
+});
+
+// GET - List manual bank accounts that statements can be imported into
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const accounts = await listManualBankAccounts(user.id);
+
+    return NextResponse.json({
+      accounts: accounts.map((account: typeof accounts[0]) => ({
+        id: account.id,
+        name: account.name,
+        institutionName: account.institutionName,
+        currency: account.currency,
+        country: account.country,
+        lastImportAt: account.lastSyncAt,
+        transactionCount: account._count.transactions,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching manual bank accounts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bank accounts' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Import a CSV, OFX or QIF statement into a manual bank account
+// multipart/form-data fields:
+//   file - the statement
+//   bankAccountId - existing manual account, or `account` (JSON) to create one
+//   mapping - JSON column mapping (CSV only)
+//   dateFormat - date order for QIF files
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'Statement file is required' }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'Statement file must be 5MB or smaller' }, { status: 400 });
+    }
+
+    const text = await file.text();
+    const format = detectStatementFormat(file.name, text);
+
+    let statement: ParsedStatement;
+    try {
+      if (format === 'ofx') {
+        statement = parseOfxStatement(text);
+      } else if (format === 'qif') {
+        const dateFormat = dateFormatSchema.parse(formData.get('dateFormat') || 'MM/DD/YYYY');
+        statement = parseQifStatement(text, dateFormat);
+      } else {
+        const mapping = columnMappingSchema.parse(JSON.parse(String(formData.get('mapping') || '{}')));
+        statement = parseCsvStatement(text, mapping);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) throw error;
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Could not read the statement file' },
+        { status: 400 }
+      );
+    }
+
+    if (statement.transactions.length === 0) {
+      return NextResponse.json(
+        { error: 'No transactions found in the statement. Check the file and column mapping.' },
+        { status: 400 }
+      );
+    }
+
+    let bankAccountId = formData.get('bankAccountId')?.toString() || '';
+    if (!bankAccountId) {
+      const accountInput = newAccountSchema.parse(JSON.parse(String(formData.get('account') || '{}')));
+      const account = await createManualBankAccount(user.id, accountInput);
+      bankAccountId = account.id;
+    }
+
+    let result;
+    try {
+      result = await importStatementTransactions(user.id, bankAccountId, statement.transactions, statement.currency);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Manual bank account not found') {
+        return NextResponse.json({ error: 'Bank account not found' }, { status: 404 });
+      }
+      throw error;
+    }
+
+    // Detect subscriptions from the imported history
+    let subscriptionsDetected = 0;
+    if (result.imported > 0) {
+      try {
+        const generated = await generateSubscriptionsFromTransactions(user.id, 24);
+        subscriptionsDetected = generated.length;
+        console.log(`Subscription detection complete → ${generated.length} subscriptions detected for user ${user.id}`);
+      } catch (error) {
+        console.error('Error generating subscriptions:', error);
+        // Continue even if subscription generation fails
+      }
+    }
+
+    return NextResponse.json({
+      bankAccountId,
+      format,
+      ...result,
+      invalidRows: statement.invalidRows,
+      subscriptionsDetected,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid import options' }, { status: 400 });
+    }
+    console.error('Error importing statement:', error);
+    return NextResponse.json(
+      { error: 'Failed to import statement' },
+      { status: 500 }
+    );
+  }
+}
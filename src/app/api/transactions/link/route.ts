@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { linkTransactions } from '@/lib/transactionLinking';
+import { z } from 'zod';
+
+const linkSchema = z.object({
+  transactionIds: z
+    .array(z.string().min(1))
+    .min(1, 'Select at least one transaction')
+    .max(500, 'Link at most 500 transactions at a time'),
+  subscriptionId: z.string().min(1).nullable(), // null unlinks
+});
+
+// POST - Link transactions to a subscription, or unlink them with subscriptionId: null
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { transactionIds, subscriptionId } = linkSchema.parse(body);
+    const result = await linkTransactions(user.id, transactionIds, subscriptionId);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error linking transactions:', error);
+    return NextResponse.json(
+      { error: 'Failed to link transactions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import {
+  cancelAccountDeletion,
+  DELETION_GRACE_PERIOD_DAYS,
+  getDeletionStatus,
+  requestAccountDeletion,
+} from '@/lib/accountDeletion';
+import { z } from 'zod';
+
+// Users must type this to confirm they want their account deleted
+const CONFIRMATION_TEXT = 'DELETE';
+
+const deletionRequestSchema = z.object({
+  confirmation: z.literal(CONFIRMATION_TEXT, `Type ${CONFIRMATION_TEXT} to confirm account deletion`),
+});
+
+// GET - Fetch the pending account deletion, if any
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deletion = await getDeletionStatus(user.id);
+
+    return NextResponse.json({ deletion, gracePeriodDays: DELETION_GRACE_PERIOD_DAYS });
+  } catch (error) {
+    console.error('Error fetching account deletion status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch account deletion status' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Schedule the account for deletion after the grace period
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    deletionRequestSchema.parse(body);
+
+    const deletion = await requestAccountDeletion(user.id);
+
+    return NextResponse.json({
+      deletion,
+      gracePeriodDays: DELETION_GRACE_PERIOD_DAYS,
+      message: 'Account scheduled for deletion',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.issues[0].message },
+        { status: 400 }
+      );
+    }
+    console.error('Error requesting account deletion:', error);
+    return NextResponse.json(
+      { error: 'Failed to request account deletion' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Cancel a pending account deletion
+export async function DELETE() {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const cancelled = await cancelAccountDeletion(user.id);
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'No pending account deletion' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: 'Account deletion cancelled' });
+  } catch (error) {
+    console.error('Error cancelling account deletion:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel account deletion' },
+      { status: 500 }
+    );
+  }
+}
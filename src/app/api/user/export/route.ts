@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { buildUserExport, buildUserExportZip, ExportFormat } from '@/lib/userExport';
+
+// GET - Download all of the user's data
+// Query: ?format=json (default) or ?format=zip for a ZIP of CSV files
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser();
+    if (!user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const format = (request.nextUrl.searchParams.get('format') || 'json') as ExportFormat;
+    if (format !== 'json' && format !== 'zip') {
+      return NextResponse.json(
+        { error: 'Format must be "json" or "zip"' },
+        { status: 400 }
+      );
+    }
+
+    const data = await buildUserExport(user.id);
+    const fileName = `subscription-sentry-export-${new Date().toISOString().split('T')[0]}`;
+
+    console.log(`Data export generated for user ${user.id} (${format})`);
+
+    if (format === 'zip') {
+      const zip = buildUserExportZip(data);
+      return new NextResponse(new Uint8Array(zip), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${fileName}.zip"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${fileName}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting user data:', error);
+    return NextResponse.json(
+      { error: 'Failed to export data' },
+      { status: 500 }
+    );
+  }
+}
@@ -17,6 +17,8 @@ export async function GET(request: NextRequest) {
         name: true,
         email: true,
         image: true,
+        baseCurrency: true,
+        country: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -47,11 +49,17 @@ export async function PATCH(request: NextRequest) {
     const body = await request.json();
     const { name, timezone, currency } = body;
 
-    // Only allow updating name for now (email changes would require verification)
+    // Only name and base currency can be updated for now (email changes would require verification)
     const updateData: any = {};
     if (name !== undefined) {
       updateData.name = name;
     }
+    if (currency !== undefined) {
+      if (typeof currency !== 'string' || !/^[A-Z]{3}$/.test(currency)) {
+        return NextResponse.json({ error: 'Currency must be a 3-letter ISO code' }, { status: 400 });
+      }
+      updateData.baseCurrency = currency; // Totals and charts are converted into this currency
+    }
 
     const updatedUser = await prisma.user.update({
       where: { id: user.id },
@@ -61,6 +69,8 @@ export async function PATCH(request: NextRequest) {
         name: true,
         email: true,
         image: true,
+        baseCurrency: true,
+        country: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -0,0 +1,399 @@
+'use client';
+import { useState, useEffect, useCallback } from 'react';
+import { useUser } from '@clerk/nextjs';
+import toast from 'react-hot-toast';
+import KnownMerchantEditor, { KnownMerchant, KnownMerchantDraft } from '@/components/features/KnownMerchantEditor';
+import { formatCurrency, formatDateShort } from '@/lib/formatting';
+import { hasAdminRole } from '@/lib/roles';
+
+interface UnmatchedMerchant {
+  normalizedMerchant: string;
+  users: number;
+  subscribedUsers: number;
+  transactions: number;
+  medianAmount: number;
+  currency: string | null;
+  lastSeen: string;
+}
+
+const toTitleCase = (value: string) => value.replace(/\b\w/g, (letter) => letter.toUpperCase());
+
+export default function AdminMerchantsPage() {
+  const { user, isLoaded } = useUser();
+  const isAdmin = hasAdminRole(user?.publicMetadata);
+  const [merchants, setMerchants] = useState<KnownMerchant[]>([]);
+  const [unmatched, setUnmatched] = useState<UnmatchedMerchant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [editing, setEditing] = useState<KnownMerchant | null>(null);
+  const [draft, setDraft] = useState<KnownMerchantDraft | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+
+  const fetchMerchants = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (search.trim()) params.set('search', search.trim());
+      if (includeInactive) params.set('includeInactive', 'true');
+
+      const response = await fetch(`/api/admin/known-merchants?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch known merchants');
+      }
+      const data = await response.json();
+      setMerchants(data.merchants || []);
+    } catch (error) {
+      console.error('Error fetching known merchants:', error);
+      toast.error('Unable to load the merchant catalog right now.');
+    } finally {
+      setLoading(false);
+    }
+  }, [search, includeInactive]);
+
+  const fetchUnmatched = async () => {
+    try {
+      const response = await fetch('/api/admin/unmatched-merchants');
+      if (response.ok) {
+        const data = await response.json();
+        setUnmatched(data.merchants || []);
+      }
+    } catch (error) {
+      console.error('Error fetching unmatched merchants:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    const timeout = setTimeout(fetchMerchants, 300);
+    return () => clearTimeout(timeout);
+  }, [isAdmin, fetchMerchants]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchUnmatched();
+    }
+  }, [isAdmin]);
+
+  const categories = Array.from(new Set(merchants.map((merchant) => merchant.category))).sort();
+  const selectedMerchants = merchants.filter((merchant) => selectedIds.has(merchant.id));
+
+  const openEditor = (merchant: KnownMerchant | null, newDraft: KnownMerchantDraft | null = null) => {
+    setEditing(merchant);
+    setDraft(newDraft);
+    setShowEditor(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const closeEditor = () => {
+    setShowEditor(false);
+    setEditing(null);
+    setDraft(null);
+  };
+
+  const handleSaved = () => {
+    // A saved draft came from the unmatched list, which it no longer belongs on
+    if (draft) {
+      fetchUnmatched();
+    }
+    closeEditor();
+    fetchMerchants();
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleToggleActive = async (merchant: KnownMerchant) => {
+    try {
+      const response = await fetch(`/api/admin/known-merchants/${merchant.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !merchant.isActive }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update merchant');
+      }
+
+      toast.success(`${merchant.displayName} ${merchant.isActive ? 'deactivated' : 'reactivated'}`);
+      fetchMerchants();
+    } catch (error) {
+      console.error('Error updating known merchant:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update merchant');
+    }
+  };
+
+  const handleMerge = async () => {
+    const sourceIds = Array.from(selectedIds).filter((id) => id !== mergeTargetId);
+    const target = merchants.find((merchant) => merchant.id === mergeTargetId);
+    if (!target || sourceIds.length === 0) return;
+    if (!window.confirm(`Merge ${sourceIds.length} merchant(s) into ${target.displayName}? The others will be deleted.`)) {
+      return;
+    }
+
+    setIsMerging(true);
+    try {
+      const response = await fetch('/api/admin/known-merchants/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targetId: mergeTargetId, sourceIds }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to merge merchants');
+      }
+
+      toast.success(`Merged into ${target.displayName}`);
+      setSelectedIds(new Set());
+      setMergeTargetId('');
+      fetchMerchants();
+    } catch (error) {
+      console.error('Error merging known merchants:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge merchants');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const handleAddUnmatched = (item: UnmatchedMerchant) => {
+    const currency = item.currency || 'USD';
+    openEditor(null, {
+      name: toTitleCase(item.normalizedMerchant),
+      displayName: toTitleCase(item.normalizedMerchant),
+      keywords: [item.normalizedMerchant],
+      currency: [currency],
+      typicalAmounts: { [currency]: item.medianAmount },
+    });
+  };
+
+  if (!isLoaded) {
+    return null;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Merchant catalog</h1>
+          <p className="text-slate-400 mt-1">You need admin access to manage the merchant catalog</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Merchant catalog</h1>
+          <p className="text-slate-400 mt-1">Curate the known merchants transactions are matched against</p>
+        </div>
+        {!showEditor && (
+          <button
+            onClick={() => openEditor(null)}
+            className="rounded-lg bg-[#ff8b3d] px-4 py-2 text-sm font-semibold text-[#050d1a] transition hover:bg-[#ffa15c]"
+          >
+            Add merchant
+          </button>
+        )}
+      </div>
+
+      {showEditor && (
+        <KnownMerchantEditor
+          key={editing?.id ?? draft?.name ?? 'new'}
+          merchant={editing}
+          draft={draft}
+          categories={categories}
+          onSaved={handleSaved}
+          onCancel={closeEditor}
+        />
+      )}
+
+      <section className="rounded-2xl border border-[#1b2740] bg-[#0d182d] p-6 shadow-[0_20px_45px_-35px_rgba(12,25,46,0.9)]">
+        <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search name or keyword"
+            className="w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-[#ff8b3d] focus:outline-none focus:ring-1 focus:ring-[#ff8b3d] sm:max-w-xs"
+          />
+          <label className="flex items-center gap-2 text-xs font-semibold text-slate-300">
+            <input
+              type="checkbox"
+              checked={includeInactive}
+              onChange={(event) => setIncludeInactive(event.target.checked)}
+            />
+            Show deactivated
+          </label>
+        </div>
+
+        {/* Merge */}
+        {selectedIds.size > 1 && (
+          <div className="mb-4 flex flex-col gap-3 rounded-lg border border-[#ff8b3d]/30 bg-[#1b1a22] p-3 sm:flex-row sm:items-center">
+            <span className="text-sm font-semibold text-white">{selectedIds.size} selected</span>
+            <select
+              value={mergeTargetId}
+              onChange={(event) => setMergeTargetId(event.target.value)}
+              className="rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white focus:border-[#ff8b3d] focus:outline-none"
+            >
+              <option value="">Keep which merchant…</option>
+              {selectedMerchants.map((merchant) => (
+                <option key={merchant.id} value={merchant.id}>
+                  {merchant.displayName}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleMerge}
+              disabled={!mergeTargetId || isMerging}
+              className="rounded-lg bg-[#ff8b3d] px-3 py-2 text-xs font-semibold text-[#050d1a] transition hover:bg-[#ffa15c] disabled:opacity-60"
+            >
+              {isMerging ? 'Merging...' : 'Merge'}
+            </button>
+          </div>
+        )}
+
+        {loading && merchants.length === 0 ? (
+          <p className="text-sm text-slate-400">Loading the merchant catalog...</p>
+        ) : merchants.length === 0 ? (
+          <p className="text-sm text-slate-400">No known merchants found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-2 pr-3"></th>
+                  <th className="py-2 pr-3">Merchant</th>
+                  <th className="py-2 pr-3">Keywords</th>
+                  <th className="py-2 pr-3">Typical amounts</th>
+                  <th className="py-2 pr-3 text-right">Matches</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#1b2740]">
+                {merchants.map((merchant) => (
+                  <tr key={merchant.id} className={merchant.isActive ? 'text-slate-300' : 'text-slate-500'}>
+                    <td className="py-2 pr-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(merchant.id)}
+                        onChange={() => toggleSelected(merchant.id)}
+                        aria-label={`Select ${merchant.displayName}`}
+                      />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <p className="text-white">
+                        {merchant.displayName}
+                        {!merchant.isActive && (
+                          <span className="ml-2 rounded-full bg-[#1b2740] px-2 py-0.5 text-xs text-slate-400">
+                            Deactivated
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {merchant.category} · {merchant.countries.join(', ')}
+                      </p>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <div className="flex max-w-md flex-wrap gap-1">
+                        {merchant.keywords.map((keyword) => (
+                          <span key={keyword} className="rounded bg-[#131f37] px-1.5 py-0.5 font-mono text-xs text-slate-300">
+                            {keyword}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap text-xs">
+                      {Object.entries(merchant.typicalAmounts || {})
+                        .map(([currency, amount]) => formatCurrency(amount, currency))
+                        .join(' · ') || '—'}
+                    </td>
+                    <td className="py-2 pr-3 text-right">{merchant.matchCount.toLocaleString()}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => openEditor(merchant)}
+                        className="mr-3 text-xs font-semibold text-slate-400 transition hover:text-white"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(merchant)}
+                        className="text-xs font-semibold text-slate-400 transition hover:text-[#fb7185]"
+                      >
+                        {merchant.isActive ? 'Deactivate' : 'Reactivate'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-[#1b2740] bg-[#0d182d] p-6 shadow-[0_20px_45px_-35px_rgba(12,25,46,0.9)]">
+        <div className="mb-4">
+          <h2 className="text-lg font-semibold text-white">Unmatched merchants</h2>
+          <p className="text-xs text-slate-400">
+            Merchants users were charged by in the last 90 days that nothing in the catalog matches, most widespread
+            first. Only merchants seen for several users are listed, and never which users.
+          </p>
+        </div>
+
+        {unmatched.length === 0 ? (
+          <p className="text-sm text-slate-400">No unmatched merchants to review.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-2 pr-3">Merchant</th>
+                  <th className="py-2 pr-3 text-right">Users</th>
+                  <th className="py-2 pr-3 text-right">Tracked as subscription</th>
+                  <th className="py-2 pr-3 text-right">Transactions</th>
+                  <th className="py-2 pr-3 text-right">Median charge</th>
+                  <th className="py-2 pr-3">Last seen</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#1b2740]">
+                {unmatched.map((item) => (
+                  <tr key={item.normalizedMerchant} className="text-slate-300">
+                    <td className="py-2 pr-3 font-mono text-xs text-white">{item.normalizedMerchant}</td>
+                    <td className="py-2 pr-3 text-right">{item.users}</td>
+                    <td className="py-2 pr-3 text-right">{item.subscribedUsers}</td>
+                    <td className="py-2 pr-3 text-right">{item.transactions}</td>
+                    <td className="py-2 pr-3 text-right whitespace-nowrap">
+                      {formatCurrency(item.medianAmount, item.currency || 'USD')}
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{formatDateShort(item.lastSeen)}</td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleAddUnmatched(item)}
+                        className="text-xs font-semibold text-slate-400 transition hover:text-white"
+                      >
+                        Add to catalog
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useUser } from '@clerk/nextjs';
 import dynamic from 'next/dynamic';
 import { useRouter, useSearchParams } from 'next/navigation';
 import toast from 'react-hot-toast';
+import { toMonthlyAmount, toYearlyAmount } from '@/lib/billingInterval';
 
 const AIChatAssistant = dynamic(() => import('@/components/features/AIChatAssistant'), { ssr: false });
 
@@ -37,7 +38,8 @@ interface Recommendation {
 interface UnusedSubscription {
   subscriptionId: string;
   name: string;
-  amount: number;
+  amount: number; // Per billing cycle
+  interval?: string | null;
   daysSinceLastTransaction: number;
   reasoning: string;
 }
@@ -477,8 +479,8 @@ export default function AIInsightsPage() {
                     <p className="text-xs text-slate-500 mt-2">No activity for {sub.daysSinceLastTransaction} days</p>
                   </div>
                   <div className="text-right ml-4">
-                    <p className="text-lg font-semibold text-white">{formatCurrency(sub.amount)}/mo</p>
-                    <p className="text-sm text-[#34d399]">Save {formatCurrency(sub.amount * 12)}/yr</p>
+                    <p className="text-lg font-semibold text-white">{formatCurrency(toMonthlyAmount(sub.amount, sub.interval))}/mo</p>
+                    <p className="text-sm text-[#34d399]">Save {formatCurrency(toYearlyAmount(sub.amount, sub.interval))}/yr</p>
                   </div>
                 </div>
                 <div className="flex gap-2 mt-4">
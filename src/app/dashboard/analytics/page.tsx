@@ -5,6 +5,9 @@ import Link from 'next/link';
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, BarChart, Bar, Legend
 } from 'recharts';
+import { getCountryFromCurrency } from '@/lib/formatting';
+import { getRegion, getRegionForCurrency } from '@/lib/regions';
+import { toMonthlyAmount } from '@/lib/billingInterval';
 
 const COLORS = ['#60a5fa', '#34d399', '#fbbf24', '#f97316', '#a78bfa', '#f472b6'];
 
@@ -107,23 +110,25 @@ export default function AnalyticsPage() {
     return groups;
   }, {});
 
+  // Monthly equivalent in the user's base currency; nothing for currencies without an exchange rate
+  const monthlyAmount = (sub: any) =>
+    sub.convertedAmount === null ? 0 : toMonthlyAmount(sub.convertedAmount ?? sub.amount, sub.interval);
+
   // Calculate historical spending from cancelled subscriptions
-  const historicalMonthlySpending = cancelledSubscriptions.reduce((sum, sub) => sum + sub.amount, 0);
+  const historicalMonthlySpending = cancelledSubscriptions.reduce((sum, sub) => sum + monthlyAmount(sub), 0);
   const historicalData = Object.entries(cancelledByCategory).map(([category, subs]) => ({
     name: category,
-    value: subs.reduce((sum, sub) => sum + sub.amount, 0),
+    value: subs.reduce((sum, sub) => sum + monthlyAmount(sub), 0),
     count: subs.length,
   }));
 
-  // Detect user's country/currency from subscriptions
-  const userCurrency = subscriptions.length > 0 && subscriptions[0].currency 
-    ? subscriptions[0].currency 
-    : 'USD';
-  const userCountry = userCurrency === 'GBP' ? 'UK' : 'US';
+  // Totals and charts are converted into the user's base currency by the API
+  const userCurrency = analytics?.baseCurrency || 'USD';
+  const userCountry = getCountryFromCurrency(userCurrency);
 
   const formatCurrency = (amount: number, currency?: string) => {
     const curr = currency || userCurrency;
-    const locale = curr === 'GBP' ? 'en-GB' : 'en-US';
+    const locale = getRegionForCurrency(curr)?.locale || 'en-US';
     return new Intl.NumberFormat(locale, {
       style: 'currency',
       currency: curr,
@@ -208,6 +213,29 @@ export default function AnalyticsPage() {
         <SummaryTile title="Total Subscriptions" value={`${analytics.totalSubscriptions || 0}`} />
       </div>
 
+      {/* Only shown when subscriptions are billed in more than one currency */}
+      {analytics.currencyBreakdown?.length > 1 && (
+        <div className="rounded-2xl border border-[#1b2740] bg-[#0d182d] p-6 shadow-[0_20px_45px_-35px_rgba(12,25,46,0.9)]">
+          <h3 className="text-lg font-semibold text-white">Spending by Currency</h3>
+          <p className="text-sm text-slate-400 mt-1">Totals above are converted into {userCurrency}</p>
+          <div className="mt-4 space-y-2">
+            {analytics.currencyBreakdown.map((item: any) => (
+              <div key={item.currency} className="flex items-center justify-between text-sm">
+                <span className="text-slate-400">{item.currency}</span>
+                <span className="text-slate-300 font-medium">
+                  {formatCurrency(item.amount, item.currency)}
+                  {item.currency !== userCurrency && (
+                    <span className="text-slate-500">
+                      {item.convertedAmount === null ? ' (no exchange rate, not in totals)' : ` ≈ ${formatCurrency(item.convertedAmount)}`}
+                    </span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {(monthlySpendingData.length > 0 || categoryData.length > 0) ? (
         <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
           {monthlySpendingData.length > 0 && (
@@ -294,7 +322,7 @@ export default function AnalyticsPage() {
                     <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} opacity={0.6} />
                   ))}
                 </Pie>
-                <Tooltip contentStyle={tooltipStyle} formatter={(value) => `$${value}/mo`} />
+                <Tooltip contentStyle={tooltipStyle} formatter={(value: any) => `${formatCurrency(value)}/mo`} />
                 <Legend wrapperStyle={{ color: '#cbd5f5' }} />
               </PieChart>
             </ResponsiveContainer>
@@ -343,7 +371,7 @@ export default function AnalyticsPage() {
           </div>
           
           {Object.entries(groupedByCategory).map(([category, categorySubs]) => {
-            const totalCategorySpend = categorySubs.reduce((sum, sub) => sum + sub.amount, 0);
+            const totalCategorySpend = categorySubs.reduce((sum, sub) => sum + monthlyAmount(sub), 0);
             const categoryIcon = getCategoryIcon(category);
             
             return (
@@ -380,7 +408,7 @@ export default function AnalyticsPage() {
                         </div>
                         <p className="mt-1 text-sm text-slate-400">
                           Next renewal: {new Date(sub.renewalDate).toLocaleDateString(
-                            userCountry === 'UK' ? 'en-GB' : 'en-US',
+                            getRegion(userCountry).locale,
                             { 
                               month: 'short', 
                               day: 'numeric', 
@@ -391,6 +419,9 @@ export default function AnalyticsPage() {
                       </div>
                       <div className="text-right">
                         <p className="text-lg font-semibold text-white">{formatCurrency(sub.amount, sub.currency || undefined)}</p>
+                        {sub.currency && sub.currency !== userCurrency && sub.convertedAmount !== undefined && (
+                          <p className="text-xs text-slate-400">≈ {formatCurrency(sub.convertedAmount)}</p>
+                        )}
                         <p className="text-xs text-slate-400">Monthly</p>
                       </div>
                     </div>
@@ -6,63 +6,33 @@ import dynamic from "next/dynamic";
 import { usePathname, useRouter } from "next/navigation";
 import { useUser, useClerk } from "@clerk/nextjs";
 import { Toaster } from 'react-hot-toast';
+import { hasAdminRole } from "@/lib/roles";
 
 const NotificationCenter = dynamic(() => import("@/components/features/NotificationCenter"), { ssr: false });
+const BankConnectionBanner = dynamic(() => import("@/components/features/BankConnectionBanner"), { ssr: false });
 
 const navigation = [
   { name: "Overview", href: "/dashboard/overview", icon: OverviewIcon },
   { name: "Subscriptions", href: "/dashboard/subscriptions", icon: SubscriptionsIcon },
+  { name: "Transactions", href: "/dashboard/transactions", icon: TransactionsIcon },
   { name: "Analytics", href: "/dashboard/analytics", icon: AnalyticsIcon },
   { name: "AI Insights", href: "/dashboard/ai-insights", icon: InsightsIcon },
   { name: "Notifications", href: "/dashboard/notifications", icon: NotificationsIcon },
   { name: "Settings", href: "/dashboard/settings", icon: SettingsIcon },
 ];
 
+// Only shown to users with the admin role; the admin APIs check the role themselves
+const adminNavigation = [
+  { name: "Merchant Catalog", href: "/dashboard/admin/merchants", icon: CatalogIcon },
+];
+
 function DashboardHeader() {
   const { user } = useUser();
   const { signOut } = useClerk();
   const router = useRouter();
-  const [notifications, setNotifications] = useState<any[]>([]);
-  const [readNotifications, setReadNotifications] = useState<Set<string>>(new Set());
-  const [dismissedNotifications, setDismissedNotifications] = useState<Set<string>>(new Set());
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const userMenuRef = useRef<HTMLDivElement>(null);
 
-  // Load read/dismissed state from localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const read = localStorage.getItem('readNotifications');
-      const dismissed = localStorage.getItem('dismissedNotifications');
-      if (read) setReadNotifications(new Set(JSON.parse(read)));
-      if (dismissed) setDismissedNotifications(new Set(JSON.parse(dismissed)));
-    }
-  }, []);
-
-  // Fetch notifications
-  useEffect(() => {
-    if (user?.id) {
-      const fetchNotifications = async () => {
-        try {
-          const response = await fetch('/api/notifications');
-          if (response.ok) {
-            const data = await response.json();
-            // Filter out dismissed notifications and mark read ones
-            const filtered = data.notifications
-              .filter((n: any) => !dismissedNotifications.has(n.id))
-              .map((n: any) => ({
-                ...n,
-                isRead: readNotifications.has(n.id) || n.isRead
-              }));
-            setNotifications(filtered);
-          }
-        } catch (error) {
-          console.error('Error fetching notifications:', error);
-        }
-      };
-      fetchNotifications();
-    }
-  }, [user?.id, dismissedNotifications, readNotifications]);
-
   // Close user menu when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -80,50 +50,6 @@ function DashboardHeader() {
     };
   }, [isUserMenuOpen]);
 
-  const handleMarkAsRead = async (notificationId: string) => {
-    const newRead = new Set(readNotifications);
-    newRead.add(notificationId);
-    setReadNotifications(newRead);
-    localStorage.setItem('readNotifications', JSON.stringify(Array.from(newRead)));
-    
-    // Update local state
-    setNotifications(prev => prev.map(n => 
-      n.id === notificationId ? { ...n, isRead: true } : n
-    ));
-
-    // Call API (for future database storage)
-    try {
-      await fetch(`/api/notifications/${notificationId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'read' })
-      });
-    } catch (error) {
-      console.error('Error marking notification as read:', error);
-    }
-  };
-
-  const handleDismiss = async (notificationId: string) => {
-    const newDismissed = new Set(dismissedNotifications);
-    newDismissed.add(notificationId);
-    setDismissedNotifications(newDismissed);
-    localStorage.setItem('dismissedNotifications', JSON.stringify(Array.from(newDismissed)));
-    
-    // Remove from local state
-    setNotifications(prev => prev.filter(n => n.id !== notificationId));
-
-    // Call API (for future database storage)
-    try {
-      await fetch(`/api/notifications/${notificationId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ action: 'dismiss' })
-      });
-    } catch (error) {
-      console.error('Error dismissing notification:', error);
-    }
-  };
-
   // Generate initials from user's name
   const getInitials = (name: string | null | undefined) => {
     if (!name) return 'U';
@@ -148,11 +74,7 @@ function DashboardHeader() {
     <header className="border-b border-[#172238] bg-[#0c172d]/70 backdrop-blur relative z-40">
       <div className="mx-auto flex max-w-7xl items-center justify-between px-6 py-5">
         <div className="flex items-center gap-5 ml-auto">
-          <NotificationCenter 
-            notifications={notifications} 
-            onMarkAsRead={handleMarkAsRead} 
-            onDismiss={handleDismiss} 
-          />
+          {user?.id && <NotificationCenter />}
           <div className="relative z-[9999]" ref={userMenuRef}>
             <button
               onClick={() => setIsUserMenuOpen(!isUserMenuOpen)}
@@ -244,6 +166,8 @@ function DashboardHeader() {
 
 export default function DashboardLayout({ children }: { children: ReactNode }) {
   const pathname = usePathname();
+  const { user } = useUser();
+  const navigationItems = hasAdminRole(user?.publicMetadata) ? [...navigation, ...adminNavigation] : navigation;
 
   return (
     <div className="min-h-screen bg-[#040b18] text-slate-100 relative">
@@ -279,7 +203,7 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
               <p className="mt-2 text-xs text-slate-400">Stay on top of renewals, trends, and spend.</p>
             </div>
             <nav className="flex-1 space-y-1 px-3">
-              {navigation.map((item) => {
+              {navigationItems.map((item) => {
                 const active = pathname?.startsWith(item.href);
                 return (
                   <Link
@@ -315,7 +239,10 @@ export default function DashboardLayout({ children }: { children: ReactNode }) {
 
           <main className="flex-1 bg-[#071121] relative z-0">
             <DashboardHeader />
-            <div className="mx-auto w-full max-w-7xl px-6 py-8 relative z-0">{children}</div>
+            <div className="mx-auto w-full max-w-7xl px-6 py-8 relative z-0">
+              <BankConnectionBanner />
+              {children}
+            </div>
           </main>
         </div>
       </div>
@@ -354,6 +281,19 @@ function SubscriptionsIcon({ active }: { active: boolean }) {
   );
 }
 
+function TransactionsIcon({ active }: { active: boolean }) {
+  return (
+    <svg
+      className={`h-5 w-5 ${active ? "text-white" : "text-[#ff8b3d] group-hover:text-white"}`}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h10" />
+    </svg>
+  );
+}
+
 function AnalyticsIcon({ active }: { active: boolean }) {
   return (
     <svg
@@ -422,3 +362,17 @@ function SettingsIcon({ active }: { active: boolean }) {
     </svg>
   );
 }
+
+function CatalogIcon({ active }: { active: boolean }) {
+  return (
+    <svg
+      className={`h-5 w-5 ${active ? "text-white" : "text-[#ff8b3d] group-hover:text-white"}`}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+    >
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h7M4 18h7" />
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14v6m-3-3h6" />
+    </svg>
+  );
+}
@@ -8,7 +8,7 @@ interface Notification {
   type: string;
   title: string;
   message: string;
-  severity: 'low' | 'medium' | 'high';
+  severity: 'low' | 'medium' | 'high' | 'critical';
   merchant?: string;
   amount?: number;
   dueDate?: string;
@@ -22,24 +22,12 @@ export default function NotificationsPage() {
   const { user } = useUser();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
-  const [readNotifications, setReadNotifications] = useState<Set<string>>(new Set());
-  const [dismissedNotifications, setDismissedNotifications] = useState<Set<string>>(new Set());
-
-  // Load read/dismissed state from localStorage
-  useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const read = localStorage.getItem('readNotifications');
-      const dismissed = localStorage.getItem('dismissedNotifications');
-      if (read) setReadNotifications(new Set(JSON.parse(read)));
-      if (dismissed) setDismissedNotifications(new Set(JSON.parse(dismissed)));
-    }
-  }, []);
 
   useEffect(() => {
     if (user?.id) {
       fetchNotifications();
     }
-  }, [user, readNotifications, dismissedNotifications]);
+  }, [user]);
 
   const fetchNotifications = async () => {
     try {
@@ -49,14 +37,7 @@ export default function NotificationsPage() {
         throw new Error('Failed to fetch notifications');
       }
       const data = await response.json();
-      // Filter out dismissed notifications and mark read ones
-      const filtered = data.notifications
-        .filter((n: Notification) => !dismissedNotifications.has(n.id))
-        .map((n: Notification) => ({
-          ...n,
-          isRead: readNotifications.has(n.id) || n.isRead
-        }));
-      setNotifications(filtered);
+      setNotifications(data.notifications);
     } catch (error) {
       console.error('Error fetching notifications:', error);
       setNotifications([]);
@@ -66,17 +47,11 @@ export default function NotificationsPage() {
   };
 
   const markAsRead = async (id: string) => {
-    const newRead = new Set(readNotifications);
-    newRead.add(id);
-    setReadNotifications(newRead);
-    localStorage.setItem('readNotifications', JSON.stringify(Array.from(newRead)));
-    
     // Update local state
     setNotifications(prev =>
       prev.map(n => n.id === id ? { ...n, isRead: true } : n)
     );
 
-    // Call API (for future database storage)
     try {
       await fetch(`/api/notifications/${id}`, {
         method: 'PATCH',
@@ -88,16 +63,24 @@ export default function NotificationsPage() {
     }
   };
 
+  const markAllAsRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+
+    try {
+      await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'read' }),
+      });
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
   const dismissNotification = async (id: string) => {
-    const newDismissed = new Set(dismissedNotifications);
-    newDismissed.add(id);
-    setDismissedNotifications(newDismissed);
-    localStorage.setItem('dismissedNotifications', JSON.stringify(Array.from(newDismissed)));
-    
     // Remove from local state
     setNotifications(prev => prev.filter(n => n.id !== id));
 
-    // Call API (for future database storage)
     try {
       await fetch(`/api/notifications/${id}`, {
         method: 'PATCH',
@@ -109,6 +92,21 @@ export default function NotificationsPage() {
     }
   };
 
+  const snoozeNotification = async (id: string, hours: number) => {
+    // Hidden until the snooze expires
+    setNotifications(prev => prev.filter(n => n.id !== id));
+
+    try {
+      await fetch(`/api/notifications/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'snooze', snoozeHours: hours }),
+      });
+    } catch (error) {
+      console.error('Error snoozing notification:', error);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -124,6 +122,7 @@ export default function NotificationsPage() {
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
+      case 'critical':
       case 'high':
         return 'bg-red-100 text-red-700 border-red-200';
       case 'medium':
@@ -147,6 +146,10 @@ export default function NotificationsPage() {
         return '🔍';
       case 'savings_opportunity':
         return '💡';
+      case 'bank_connection':
+        return '🏦';
+      case 'missed_charge':
+        return '⚠️';
       default:
         return '🔔';
     }
@@ -197,11 +200,7 @@ export default function NotificationsPage() {
         </div>
         {unreadCount > 0 && (
           <button
-            onClick={() => {
-              notifications.forEach(n => {
-                if (!n.isRead) markAsRead(n.id);
-              });
-            }}
+            onClick={markAllAsRead}
             className="px-4 py-2 bg-[#ff8b3d] text-white rounded-lg hover:bg-[#ffa056] transition-colors text-sm font-medium"
           >
             Mark all as read
@@ -280,6 +279,13 @@ export default function NotificationsPage() {
                           Mark as read
                         </button>
                       )}
+                      <button
+                        onClick={() => snoozeNotification(notification.id, 24)}
+                        className="px-3 py-1 text-xs font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                        title="Hide for 1 day"
+                      >
+                        Snooze
+                      </button>
                       <button
                         onClick={() => dismissNotification(notification.id)}
                         className="px-3 py-1 text-xs font-medium text-gray-500 hover:text-red-600 hover:bg-gray-100 rounded-lg transition-colors"
@@ -2,6 +2,7 @@
 import { useState, useEffect } from 'react';
 import { useUser } from '@clerk/nextjs';
 import Link from 'next/link';
+import { toMonthlyAmount } from '@/lib/billingInterval';
 
 export default function OverviewPage() {
   const { user } = useUser();
@@ -11,6 +12,7 @@ export default function OverviewPage() {
     activeAlerts: 0,
     yearlySpending: 0,
   });
+  const [baseCurrency, setBaseCurrency] = useState('USD');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -40,7 +42,10 @@ export default function OverviewPage() {
       const subscriptions = subscriptionsData.subscriptions || [];
 
       const activeSubscriptions = subscriptions.filter((sub: any) => sub.status === 'active');
-      const monthlySpending = activeSubscriptions.reduce((sum: number, sub: any) => sum + sub.amount, 0);
+      // Subscriptions in a currency without an exchange rate (convertedAmount null) are left out
+      const monthlySpending = activeSubscriptions
+        .filter((sub: any) => sub.convertedAmount !== null)
+        .reduce((sum: number, sub: any) => sum + toMonthlyAmount(sub.convertedAmount ?? sub.amount, sub.interval), 0);
       const yearlySpending = monthlySpending * 12;
 
       // Calculate alerts (subscriptions renewing in next 7 days)
@@ -51,6 +56,7 @@ export default function OverviewPage() {
         return renewalDate >= now && renewalDate <= sevenDaysFromNow;
       }).length;
 
+      setBaseCurrency(subscriptionsData.baseCurrency || 'USD');
       setStats({
         monthlySpending,
         activeSubscriptions: activeSubscriptions.length,
@@ -93,7 +99,7 @@ export default function OverviewPage() {
       <div className="grid grid-cols-1 gap-4 md:grid-cols-2 xl:grid-cols-4">
         <MetricCard
           title="Monthly Spending"
-          value={formatCurrency(stats.monthlySpending)}
+          value={formatCurrency(stats.monthlySpending, baseCurrency)}
           icon={
             <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path
@@ -130,7 +136,7 @@ export default function OverviewPage() {
         />
         <MetricCard
           title="Yearly Spending"
-          value={formatCurrency(stats.yearlySpending)}
+          value={formatCurrency(stats.yearlySpending, baseCurrency)}
           icon={
             <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
@@ -296,6 +302,6 @@ function QuickAction({
 }
 
 
-function formatCurrency(amount: number) {
-  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
+function formatCurrency(amount: number, currency = "USD") {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
 }
@@ -1,45 +1,44 @@
 'use client';
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
 import { NotificationPreferences, AlertRule } from '@/lib/notifications';
 
+// Each alert condition belongs to exactly one rule type
+const CONDITION_TYPES: Record<string, AlertRule['type']> = {
+  monthly_spending_exceeds: 'spending_limit',
+  price_increase_percentage: 'price_increase',
+  unused_subscription_days: 'unused_subscription',
+};
+
 export default function NotificationSettingsPage() {
-  const [preferences, setPreferences] = useState<NotificationPreferences>({
-    userId: 'demo-user-id',
-    renewalReminders: true,
-    priceIncreaseAlerts: true,
-    spendingLimitAlerts: true,
-    unusedSubscriptionWarnings: true,
-    duplicateDetection: true,
-    savingsOpportunities: true,
-    emailNotifications: true,
-    pushNotifications: false,
-    reminderDays: 7,
-    spendingLimit: 100
-  });
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [saving, setSaving] = useState(false);
 
-  const [alertRules, setAlertRules] = useState<AlertRule[]>([
-    {
-      id: '1',
-      userId: 'demo-user-id',
-      type: 'spending_limit',
-      condition: 'monthly_spending_exceeds',
-      threshold: 100,
-      isActive: true,
-      createdAt: new Date().toISOString()
-    },
-    {
-      id: '2',
-      userId: 'demo-user-id',
-      type: 'price_increase',
-      condition: 'price_increase_percentage',
-      threshold: 10,
-      isActive: true,
-      createdAt: new Date().toISOString()
-    }
-  ]);
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const [preferencesResponse, rulesResponse] = await Promise.all([
+          fetch('/api/notifications/preferences'),
+          fetch('/api/notifications/alert-rules'),
+        ]);
+        if (!preferencesResponse.ok || !rulesResponse.ok) {
+          throw new Error('Failed to load notification settings');
+        }
+        const preferencesData = await preferencesResponse.json();
+        const rulesData = await rulesResponse.json();
+        setPreferences(preferencesData.preferences);
+        setAlertRules(rulesData.alertRules);
+      } catch (error) {
+        console.error('Error loading notification settings:', error);
+        toast.error('Failed to load notification settings');
+      }
+    };
+    loadSettings();
+  }, []);
 
   const handlePreferenceChange = (key: keyof NotificationPreferences, value: any) => {
-    setPreferences(prev => ({
+    setPreferences(prev => prev && ({
       ...prev,
       [key]: value
     }));
@@ -51,23 +50,94 @@ export default function NotificationSettingsPage() {
     ));
   };
 
-  const addAlertRule = () => {
-    const newRule: AlertRule = {
-      id: Date.now().toString(),
-      userId: 'demo-user-id',
-      type: 'spending_limit',
-      condition: 'monthly_spending_exceeds',
-      threshold: 50,
-      isActive: true,
-      createdAt: new Date().toISOString()
-    };
-    setAlertRules(prev => [...prev, newRule]);
+  const addAlertRule = async () => {
+    try {
+      const response = await fetch('/api/notifications/alert-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'spending_limit',
+          condition: 'monthly_spending_exceeds',
+          threshold: 50,
+          isActive: true,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to create alert rule');
+      }
+      const data = await response.json();
+      setAlertRules(prev => [...prev, data.alertRule]);
+    } catch (error) {
+      console.error('Error creating alert rule:', error);
+      toast.error('Failed to add alert rule');
+    }
   };
 
-  const removeAlertRule = (id: string) => {
-    setAlertRules(prev => prev.filter(rule => rule.id !== id));
+  const removeAlertRule = async (id: string) => {
+    try {
+      const response = await fetch(`/api/notifications/alert-rules/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete alert rule');
+      }
+      setAlertRules(prev => prev.filter(rule => rule.id !== id));
+    } catch (error) {
+      console.error('Error deleting alert rule:', error);
+      toast.error('Failed to remove alert rule');
+    }
   };
 
+  const saveSettings = async () => {
+    if (!preferences) return;
+
+    setSaving(true);
+    try {
+      const { userId, ...preferenceFields } = preferences;
+      const responses = await Promise.all([
+        fetch('/api/notifications/preferences', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(preferenceFields),
+        }),
+        ...alertRules.map(rule =>
+          fetch(`/api/notifications/alert-rules/${rule.id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              type: rule.type,
+              condition: rule.condition,
+              threshold: rule.threshold,
+              isActive: rule.isActive,
+            }),
+          })
+        ),
+      ]);
+
+      const failed = responses.find(response => !response.ok);
+      if (failed) {
+        const data = await failed.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save settings');
+      }
+
+      toast.success('Notification settings saved');
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!preferences) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Notification Settings</h1>
+          <p className="text-gray-600 mt-1">Loading your notification settings...</p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-8">
       <div>
@@ -285,7 +355,10 @@ export default function NotificationSettingsPage() {
                   </label>
                   <select
                     value={rule.condition}
-                    onChange={(e) => handleAlertRuleChange(rule.id, { condition: e.target.value })}
+                    onChange={(e) => handleAlertRuleChange(rule.id, {
+                      condition: e.target.value,
+                      type: CONDITION_TYPES[e.target.value],
+                    })}
                     className="w-full text-sm border border-gray-300 rounded px-3 py-2"
                   >
                     <option value="monthly_spending_exceeds">Monthly spending exceeds</option>
@@ -314,8 +387,12 @@ export default function NotificationSettingsPage() {
 
       {/* Save Button */}
       <div className="flex justify-end">
-        <button className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium">
-          Save Settings
+        <button
+          onClick={saveSettings}
+          disabled={saving}
+          className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Settings'}
         </button>
       </div>
     </div>
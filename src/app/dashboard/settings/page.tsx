@@ -2,6 +2,11 @@
 import { useState, useRef, useEffect } from 'react';
 import { useUser } from '@clerk/nextjs';
 import toast from 'react-hot-toast';
+import DisconnectBankDialog from '@/components/DisconnectBankDialog';
+import DeleteAccountDialog from '@/components/DeleteAccountDialog';
+import ImportStatementDialog, { ManualAccount, StatementImportSummary } from '@/components/ImportStatementDialog';
+import { formatRelativeDate } from '@/lib/formatting';
+import { getRegion } from '@/lib/regions';
 
 type SettingsTab = 'profile' | 'accounts' | 'security' | 'preferences' | 'data';
 
@@ -16,6 +21,23 @@ export default function SettingsPage() {
   });
   const [isSaving, setIsSaving] = useState(false);
 
+  // Load the saved base currency
+  useEffect(() => {
+    const fetchProfile = async () => {
+      try {
+        const response = await fetch('/api/user/profile');
+        if (!response.ok) return;
+        const data = await response.json();
+        const currency = data.user?.baseCurrency || getRegion(data.user?.country).currency;
+        setProfileData((prev) => ({ ...prev, currency }));
+      } catch (error) {
+        console.error('Error fetching profile:', error);
+      }
+    };
+
+    fetchProfile();
+  }, []);
+
   const getInitials = (name: string | null | undefined) => {
     if (!name) return 'U';
     const parts = name.trim().split(/\s+/);
@@ -293,7 +315,7 @@ function ProfileSection({
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-slate-400 mb-2">Currency</label>
+          <label className="block text-sm font-medium text-slate-400 mb-2">Base Currency</label>
           <select
             className="w-full rounded-lg border border-[#243352] bg-[#101b30] px-4 py-3 text-sm text-white focus:border-[#ff8b3d] focus:outline-none focus:ring-1 focus:ring-[#ff8b3d]"
             value={profileData.currency}
@@ -306,6 +328,7 @@ function ProfileSection({
             <option value="AUD">AUD ($)</option>
             <option value="JPY">JPY (¥)</option>
           </select>
+          <p className="mt-2 text-xs text-slate-500">Totals and charts are converted into this currency.</p>
         </div>
       </div>
 
@@ -323,7 +346,103 @@ function ProfileSection({
   );
 }
 
+interface ConnectedItem {
+  itemId: string;
+  institutionName: string | null;
+  status: 'healthy' | 'login_required' | 'revoked';
+  lastSyncAt: string | null;
+  accounts: Array<{ id: string; name: string | null; type: string | null }>;
+}
+
 function AccountsSection() {
+  const [items, setItems] = useState<ConnectedItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [itemToDisconnect, setItemToDisconnect] = useState<ConnectedItem | null>(null);
+  const [isDisconnecting, setIsDisconnecting] = useState(false);
+  const [manualAccounts, setManualAccounts] = useState<ManualAccount[]>([]);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+
+  const fetchManualAccounts = async () => {
+    try {
+      const response = await fetch('/api/transactions/import');
+      if (!response.ok) {
+        throw new Error('Failed to fetch manual accounts');
+      }
+      const data = await response.json();
+      setManualAccounts(data.accounts || []);
+    } catch (error) {
+      console.error('Error fetching manual accounts:', error);
+    }
+  };
+
+  const fetchItems = async () => {
+    try {
+      const response = await fetch('/api/plaid/items');
+      if (!response.ok) {
+        throw new Error('Failed to fetch bank connections');
+      }
+      const data = await response.json();
+      setItems(data.items || []);
+    } catch (error) {
+      console.error('Error fetching bank connections:', error);
+      toast.error('Failed to load connected accounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchItems();
+    fetchManualAccounts();
+  }, []);
+
+  const handleImported = (summary: StatementImportSummary) => {
+    setIsImportDialogOpen(false);
+    toast.success(
+      `Imported ${summary.imported} transactions` +
+        (summary.duplicates > 0 ? ` (${summary.duplicates} already imported)` : '') +
+        (summary.subscriptionsDetected > 0 ? `, ${summary.subscriptionsDetected} subscriptions detected` : '')
+    );
+    fetchManualAccounts();
+    window.dispatchEvent(new CustomEvent('subscriptionUpdated'));
+  };
+
+  const getInstitutionName = (item: ConnectedItem) =>
+    item.institutionName || item.accounts[0]?.name || 'Bank connection';
+
+  const handleDisconnect = async (purgeTransactions: boolean) => {
+    if (!itemToDisconnect) return;
+
+    setIsDisconnecting(true);
+    try {
+      const response = await fetch(
+        `/api/plaid/items/${itemToDisconnect.itemId}?purgeTransactions=${purgeTransactions}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to disconnect bank account');
+      }
+
+      toast.success(`${getInstitutionName(itemToDisconnect)} disconnected`);
+      setItems((prev) => prev.filter((item) => item.itemId !== itemToDisconnect.itemId));
+      setItemToDisconnect(null);
+      window.dispatchEvent(new CustomEvent('subscriptionUpdated'));
+    } catch (error) {
+      console.error('Error disconnecting bank account:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to disconnect bank account');
+    } finally {
+      setIsDisconnecting(false);
+    }
+  };
+
+  const statusBadges: Record<ConnectedItem['status'], { label: string; className: string }> = {
+    healthy: { label: 'Connected', className: 'bg-emerald-500/10 text-emerald-400' },
+    login_required: { label: 'Login required', className: 'bg-amber-500/10 text-amber-400' },
+    revoked: { label: 'Access revoked', className: 'bg-red-500/10 text-red-400' },
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-3">
@@ -333,9 +452,97 @@ function AccountsSection() {
         <h2 className="text-xl font-semibold text-white">Connected Accounts</h2>
       </div>
       <p className="text-slate-400">Manage your connected bank accounts and payment methods.</p>
-      <div className="rounded-lg border border-[#1b2740] bg-[#0a1424] p-6">
-        <p className="text-sm text-slate-400">No accounts connected yet.</p>
+
+      {loading ? (
+        <div className="rounded-lg border border-[#1b2740] bg-[#0a1424] p-6">
+          <p className="text-sm text-slate-400">Loading connected accounts...</p>
+        </div>
+      ) : items.length === 0 ? (
+        <div className="rounded-lg border border-[#1b2740] bg-[#0a1424] p-6">
+          <p className="text-sm text-slate-400">No accounts connected yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {items.map((item) => {
+            const badge = statusBadges[item.status] || statusBadges.healthy;
+            return (
+              <div
+                key={item.itemId}
+                className="flex flex-col gap-4 rounded-lg border border-[#1b2740] bg-[#0a1424] p-5 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-semibold text-white">{getInstitutionName(item)}</p>
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${badge.className}`}>
+                      {badge.label}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-400">
+                    {item.accounts.map((account) => account.name || 'Account').join(', ')}
+                  </p>
+                  <p className="mt-1 text-xs text-slate-500">
+                    {item.lastSyncAt ? `Last synced ${formatRelativeDate(item.lastSyncAt).toLowerCase()}` : 'Never synced'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setItemToDisconnect(item)}
+                  className="rounded-lg border border-red-500/50 bg-red-500/10 px-4 py-2 text-sm text-red-400 hover:bg-red-500/20 transition"
+                >
+                  Disconnect
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-3 pt-2">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-semibold text-white">Imported Statements</h3>
+            <p className="mt-1 text-xs text-slate-400">
+              Bank not supported? Upload CSV, OFX or QIF statements instead.
+            </p>
+          </div>
+          <button
+            onClick={() => setIsImportDialogOpen(true)}
+            className="shrink-0 rounded-lg border border-[#243352] px-3 py-2 text-xs font-semibold text-slate-200 hover:bg-[#141f34] transition"
+          >
+            Import statement
+          </button>
+        </div>
+        {manualAccounts.map((account) => (
+          <div key={account.id} className="rounded-lg border border-[#1b2740] bg-[#0a1424] p-5">
+            <p className="text-sm font-semibold text-white">
+              {account.institutionName ? `${account.institutionName} – ` : ''}
+              {account.name || 'Account'}
+            </p>
+            <p className="mt-1 text-xs text-slate-400">
+              {account.transactionCount} transactions · {account.currency || 'USD'}
+            </p>
+            <p className="mt-1 text-xs text-slate-500">
+              {account.lastImportAt
+                ? `Last import ${formatRelativeDate(account.lastImportAt).toLowerCase()}`
+                : 'Nothing imported yet'}
+            </p>
+          </div>
+        ))}
       </div>
+
+      <ImportStatementDialog
+        isOpen={isImportDialogOpen}
+        accounts={manualAccounts}
+        onCancel={() => setIsImportDialogOpen(false)}
+        onImported={handleImported}
+      />
+
+      <DisconnectBankDialog
+        isOpen={itemToDisconnect !== null}
+        institutionName={itemToDisconnect ? getInstitutionName(itemToDisconnect) : null}
+        onCancel={() => setItemToDisconnect(null)}
+        onConfirm={handleDisconnect}
+        isSubmitting={isDisconnecting}
+      />
     </div>
   );
 }
@@ -392,7 +599,107 @@ function PreferencesSection() {
   );
 }
 
+interface AccountDeletion {
+  requestedAt: string | null;
+  scheduledFor: string | null;
+}
+
 function DataSection() {
+  const [exportingFormat, setExportingFormat] = useState<'json' | 'zip' | null>(null);
+  const [deletion, setDeletion] = useState<AccountDeletion | null>(null);
+  const [gracePeriodDays, setGracePeriodDays] = useState(7);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isUpdatingDeletion, setIsUpdatingDeletion] = useState(false);
+
+  useEffect(() => {
+    const fetchDeletion = async () => {
+      try {
+        const response = await fetch('/api/user/deletion');
+        if (!response.ok) return;
+        const data = await response.json();
+        setDeletion(data.deletion);
+        setGracePeriodDays(data.gracePeriodDays);
+      } catch (error) {
+        console.error('Error fetching account deletion status:', error);
+      }
+    };
+
+    fetchDeletion();
+  }, []);
+
+  const handleRequestDeletion = async (confirmation: string) => {
+    setIsUpdatingDeletion(true);
+    try {
+      const response = await fetch('/api/user/deletion', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ confirmation }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to request account deletion');
+      }
+
+      setDeletion(data.deletion);
+      setIsDeleteDialogOpen(false);
+      toast.success('Your account is scheduled for deletion');
+    } catch (error) {
+      console.error('Error requesting account deletion:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to request account deletion');
+    } finally {
+      setIsUpdatingDeletion(false);
+    }
+  };
+
+  const handleCancelDeletion = async () => {
+    setIsUpdatingDeletion(true);
+    try {
+      const response = await fetch('/api/user/deletion', { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to cancel account deletion');
+      }
+
+      setDeletion({ requestedAt: null, scheduledFor: null });
+      toast.success('Account deletion cancelled');
+    } catch (error) {
+      console.error('Error cancelling account deletion:', error);
+      toast.error('Failed to cancel account deletion. Please try again.');
+    } finally {
+      setIsUpdatingDeletion(false);
+    }
+  };
+
+  const handleExport = async (format: 'json' | 'zip') => {
+    setExportingFormat(format);
+    try {
+      const response = await fetch(`/api/user/export?format=${format}`);
+      if (!response.ok) {
+        throw new Error('Failed to export data');
+      }
+
+      // Use the file name chosen by the server
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `subscription-sentry-export.${format}`;
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      toast.success('Your data export has been downloaded');
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast.error('Failed to export data. Please try again.');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-3">
@@ -403,13 +710,60 @@ function DataSection() {
       </div>
       <p className="text-slate-400">Export or delete your account data.</p>
       <div className="space-y-4">
-        <button className="w-full rounded-lg border border-[#243352] bg-[#101b30] px-4 py-3 text-left text-sm text-white hover:bg-[#141f34] transition">
-          Export Data
-        </button>
-        <button className="w-full rounded-lg border border-red-500/50 bg-red-500/10 px-4 py-3 text-left text-sm text-red-400 hover:bg-red-500/20 transition">
-          Delete Account
-        </button>
+        <div className="rounded-lg border border-[#243352] bg-[#101b30] px-4 py-3">
+          <p className="text-sm text-white">Export Data</p>
+          <p className="mt-1 text-xs text-slate-400">
+            Download your profile, connected accounts, subscriptions, transactions and notifications.
+          </p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button
+              onClick={() => handleExport('json')}
+              disabled={exportingFormat !== null}
+              className="rounded-lg border border-[#243352] px-3 py-2 text-xs font-semibold text-slate-200 hover:bg-[#141f34] transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {exportingFormat === 'json' ? 'Exporting...' : 'Export as JSON'}
+            </button>
+            <button
+              onClick={() => handleExport('zip')}
+              disabled={exportingFormat !== null}
+              className="rounded-lg border border-[#243352] px-3 py-2 text-xs font-semibold text-slate-200 hover:bg-[#141f34] transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {exportingFormat === 'zip' ? 'Exporting...' : 'Export as CSV (ZIP)'}
+            </button>
+          </div>
+        </div>
+        {deletion?.scheduledFor ? (
+          <div className="rounded-lg border border-red-500/50 bg-red-500/10 px-4 py-3">
+            <p className="text-sm text-red-400">Account scheduled for deletion</p>
+            <p className="mt-1 text-xs text-slate-300">
+              Your account and all of its data will be permanently deleted on{' '}
+              {new Date(deletion.scheduledFor).toLocaleDateString()}.
+            </p>
+            <button
+              onClick={handleCancelDeletion}
+              disabled={isUpdatingDeletion}
+              className="mt-3 rounded-lg border border-[#243352] px-3 py-2 text-xs font-semibold text-slate-200 hover:bg-[#141f34] transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUpdatingDeletion ? 'Cancelling...' : 'Cancel deletion'}
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsDeleteDialogOpen(true)}
+            className="w-full rounded-lg border border-red-500/50 bg-red-500/10 px-4 py-3 text-left text-sm text-red-400 hover:bg-red-500/20 transition"
+          >
+            Delete Account
+          </button>
+        )}
       </div>
+
+      <DeleteAccountDialog
+        isOpen={isDeleteDialogOpen}
+        gracePeriodDays={gracePeriodDays}
+        onCancel={() => setIsDeleteDialogOpen(false)}
+        onConfirm={handleRequestDeletion}
+        isSubmitting={isUpdatingDeletion}
+      />
     </div>
   );
 }
@@ -1,15 +1,25 @@
 'use client';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import dynamic from "next/dynamic";
-import SubscriptionCard from "@/components/features/SubscriptionCard";
+import SubscriptionCard, { CardSubscription } from "@/components/features/SubscriptionCard";
+import DetectionReview from "@/components/features/DetectionReview";
+import InactiveSubscriptionsReview from "@/components/features/InactiveSubscriptionsReview";
+import DuplicateDetector, { DuplicateCandidate } from "@/components/features/DuplicateDetector";
 import { useUser } from "@clerk/nextjs";
-import { DetectedSubscription } from '@/lib/subscriptionDetection';
 import toast from 'react-hot-toast';
+import { formatCurrencyWithConversion } from '@/lib/formatting';
+import { addBillingIntervals, getBillingIntervalLabel, STANDARD_INTERVALS, StandardInterval, toMonthlyAmount } from '@/lib/billingInterval';
 
 const PlaidLink = dynamic(() => import("@/components/integrations/PlaidLink"), { ssr: false });
 
+const INTERVAL_OPTIONS = Object.keys(STANDARD_INTERVALS) as StandardInterval[];
+const CUSTOM_INTERVAL = "custom";
+
+// How often to check on a running sync
+const JOB_POLL_INTERVAL_MS = 2000;
+
 interface Subscription {
   id: string;
   name: string;
@@ -18,11 +28,15 @@ interface Subscription {
   merchant: string | null;
   status: string;
   currency?: string | null;
+  convertedAmount?: number | null; // amount in the user's base currency (null without an exchange rate)
   interval?: string | null;
   confidenceScore?: number | null;
   category?: string | null;
   isAutoDetected?: boolean;
   lastPaymentDate?: string | null;
+  missedChargeAt?: string | null;
+  trialStartDate?: string | null;
+  trialEndDate?: string | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -31,6 +45,7 @@ export default function SubscriptionsPage() {
   const { user } = useUser();
   const searchParams = useSearchParams();
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState('USD');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -40,19 +55,34 @@ export default function SubscriptionsPage() {
     renewalDate: "",
     merchant: "",
     status: "active",
+    interval: "monthly",
+    customIntervalCount: "",
+    customIntervalUnit: "days",
   });
   const [formLoading, setFormLoading] = useState(false);
   const [formMessage, setFormMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
   const [filter, setFilter] = useState<'all' | 'active' | 'cancelled'>('active');
   const [isDetecting, setIsDetecting] = useState(false);
   const [detectionMessage, setDetectionMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+  const [detectionProgress, setDetectionProgress] = useState<{ progress: number; message: string } | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const isPollingRef = useRef(true);
 
   useEffect(() => {
     if (user?.id) {
       fetchSubscriptions();
+      resumeActiveSync();
     }
   }, [user]);
 
+  // Stop polling job progress when the page is left
+  useEffect(() => {
+    isPollingRef.current = true;
+    return () => {
+      isPollingRef.current = false;
+    };
+  }, []);
+
   // Listen for subscription updates from other pages
   useEffect(() => {
     const handleSubscriptionUpdate = () => {
@@ -93,6 +123,7 @@ export default function SubscriptionsPage() {
       }
       
       setSubscriptions(data.subscriptions || []);
+      setBaseCurrency(data.baseCurrency || 'USD');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
       setError(errorMessage);
@@ -116,10 +147,21 @@ export default function SubscriptionsPage() {
 
     const amount = parseFloat(formState.amount);
     if (Number.isNaN(amount) || amount <= 0) {
-      setFormMessage({ type: "error", text: "Please enter a valid monthly amount greater than 0." });
+      setFormMessage({ type: "error", text: "Please enter a valid amount greater than 0." });
       return;
     }
 
+    // Custom intervals are stored as e.g. "every-45-days"
+    let interval = formState.interval;
+    if (interval === CUSTOM_INTERVAL) {
+      const count = parseInt(formState.customIntervalCount, 10);
+      if (Number.isNaN(count) || count < 1) {
+        setFormMessage({ type: "error", text: "Please enter how often the subscription bills." });
+        return;
+      }
+      interval = `every-${count}-${formState.customIntervalUnit}`;
+    }
+
     if (!formState.renewalDate) {
       setFormMessage({ type: "error", text: "Please choose a renewal date." });
       return;
@@ -138,6 +180,7 @@ export default function SubscriptionsPage() {
           renewalDate: formState.renewalDate,
           merchant: formState.merchant.trim() || undefined,
           status: formState.status,
+          interval,
         }),
       });
 
@@ -153,6 +196,9 @@ export default function SubscriptionsPage() {
         renewalDate: "",
         merchant: "",
         status: "active",
+        interval: "monthly",
+        customIntervalCount: "",
+        customIntervalUnit: "days",
       });
       await fetchSubscriptions();
       // Trigger refresh on other pages
@@ -175,50 +221,55 @@ export default function SubscriptionsPage() {
     }).format(amount);
   };
 
-  const handleDetectSubscriptions = async () => {
-    setIsDetecting(true);
-    setDetectionMessage(null);
-    
-    try {
-      // First sync transactions, then detect subscriptions
-      const syncResponse = await fetch('/api/plaid/sync-transactions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({}),
-      });
+  // Polls a background job until it finishes, showing its progress
+  // Returns null if the page was left before the job finished
+  const waitForJob = async (jobId: string) => {
+    while (isPollingRef.current) {
+      const response = await fetch(`/api/jobs/${jobId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check sync progress');
+      }
 
-      if (!syncResponse.ok) {
-        const syncData = await syncResponse.json();
-        throw new Error(syncData.error || 'Failed to sync transactions');
+      const job = data.job;
+      if (job.status === 'succeeded') return job.result;
+      if (job.status === 'failed') {
+        throw new Error(job.lastError || 'Failed to sync transactions');
       }
 
-      // Then run subscription detection
-      const response = await fetch('/api/plaid/subscription-detect', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({}),
+      setDetectionProgress({
+        progress: job.progress,
+        message:
+          job.status === 'queued'
+            ? job.lastError
+              ? 'Sync hit a problem, retrying shortly...'
+              : 'Waiting to start...'
+            : job.progressMessage || 'Working...',
       });
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+    }
+    return null;
+  };
 
-      const data = await response.json();
+  const followSyncJob = async (jobId: string) => {
+    setIsDetecting(true);
+    setDetectionMessage(null);
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to detect subscriptions');
-      }
+    try {
+      const result = await waitForJob(jobId);
+      if (!result) return;
+
+      const activeCount = result.activeSubscriptions || 0;
+      const newCount = result.createdSubscriptions || 0;
+      const totalSpend = result.totalMonthlySpend ? formatCurrency(result.totalMonthlySpend, result.baseCurrency) : '';
+      const mostExpensive = result.mostExpensiveSubscription?.name || '';
 
-      const newCount = data.detected?.filter((s: any) => s.wasCreated).length || 0;
-      const totalSpend = data.totalMonthlySpend ? formatCurrency(data.totalMonthlySpend) : '';
-      const mostExpensive = data.mostExpensiveSubscription?.name || '';
-      
       setDetectionMessage({
         type: 'success',
-        text: `Detected ${data.subscriptions || data.count || 0} subscription${(data.subscriptions || data.count || 0) !== 1 ? 's' : ''} from ${data.transactions || 0} transactions. ${newCount} new subscription${newCount !== 1 ? 's' : ''} created.${totalSpend ? ` Total monthly spend: ${totalSpend}` : ''}`,
+        text: `Synced ${result.savedTransactions || 0} new transaction${result.savedTransactions !== 1 ? 's' : ''}. ${newCount} new subscription${newCount !== 1 ? 's' : ''} found, ${activeCount} active in total.${totalSpend ? ` Total monthly spend: ${totalSpend}` : ''}`,
       });
-      
-      let toastMessage = `Detected ${data.subscriptions || data.count || 0} subscriptions`;
+
+      let toastMessage = `${activeCount} active subscriptions`;
       if (totalSpend) {
         toastMessage += ` • ${totalSpend}/month`;
       }
@@ -226,16 +277,10 @@ export default function SubscriptionsPage() {
         toastMessage += ` • Most expensive: ${mostExpensive}`;
       }
       toast.success(toastMessage);
-      
+
       // Refresh subscriptions list to show new ones
       await fetchSubscriptions();
-      
-      // Trigger refresh on other pages
-      window.dispatchEvent(new CustomEvent('subscriptionUpdated'));
 
-      // Refresh subscriptions list
-      await fetchSubscriptions();
-      
       // Trigger refresh on other pages
       window.dispatchEvent(new CustomEvent('subscriptionUpdated'));
     } catch (err) {
@@ -246,9 +291,114 @@ export default function SubscriptionsPage() {
       });
     } finally {
       setIsDetecting(false);
+      setDetectionProgress(null);
+    }
+  };
+
+  // Picks up a sync started before the page was (re)loaded
+  const resumeActiveSync = async () => {
+    try {
+      const response = await fetch('/api/jobs');
+      if (!response.ok) return;
+      const data = await response.json();
+      const activeSync = (data.jobs || []).find(
+        (job: { type: string; status: string }) =>
+          job.type === 'sync_transactions' && (job.status === 'queued' || job.status === 'running')
+      );
+      if (activeSync) {
+        await followSyncJob(activeSync.id);
+      }
+    } catch (err) {
+      console.error('Error checking for running syncs:', err);
     }
   };
 
+  const handleDetectSubscriptions = async () => {
+    setIsDetecting(true);
+    setDetectionMessage(null);
+
+    try {
+      // Sync and detection run in a background job; follow its progress
+      const syncResponse = await fetch('/api/plaid/sync-transactions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+
+      const syncData = await syncResponse.json();
+      if (!syncResponse.ok) {
+        throw new Error(syncData.error || 'Failed to sync transactions');
+      }
+
+      await followSyncJob(syncData.jobId);
+    } catch (err) {
+      console.error('Error detecting subscriptions:', err);
+      setDetectionMessage({
+        type: 'error',
+        text: err instanceof Error ? err.message : 'Failed to detect subscriptions.',
+      });
+      setIsDetecting(false);
+    }
+  };
+
+  // The first ID is the subscription to keep
+  const handleResolveDuplicate = async (subscriptionIds: string[], action: 'keep' | 'cancel' | 'merge') => {
+    const [keepId, ...otherIds] = subscriptionIds;
+    if (action === 'keep' || otherIds.length === 0) {
+      setShowDuplicates(false);
+      return;
+    }
+
+    try {
+      if (action === 'merge') {
+        const response = await fetch('/api/subscriptions/merge', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ targetId: keepId, sourceIds: otherIds }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to merge subscriptions');
+        }
+        toast.success(`Merged ${otherIds.length + 1} subscriptions and ${data.movedTransactions} charges`);
+      } else {
+        const responses = await Promise.all(
+          otherIds.map((id) =>
+            fetch(`/api/subscriptions/${id}`, {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ status: 'cancelled' }),
+            })
+          )
+        );
+        if (responses.some((response) => !response.ok)) {
+          throw new Error('Failed to cancel duplicate subscriptions');
+        }
+        toast.success(`Cancelled ${otherIds.length} duplicate ${otherIds.length === 1 ? 'subscription' : 'subscriptions'}`);
+      }
+
+      await fetchSubscriptions();
+      window.dispatchEvent(new CustomEvent('subscriptionUpdated'));
+    } catch (err) {
+      console.error('Error resolving duplicate subscriptions:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to resolve duplicates');
+    }
+  };
+
+  const toDetectedSubscription = (sub: Subscription): DuplicateCandidate => ({
+    id: sub.id,
+    merchant: sub.merchant || sub.name,
+    amount: sub.amount,
+    currency: sub.currency,
+    convertedAmount: sub.convertedAmount,
+    interval: sub.interval || 'monthly',
+    lastPayment: sub.lastPaymentDate || '',
+    nextRenewal: sub.renewalDate,
+    category: sub.category || undefined,
+  });
+
   const getConfidenceBadgeColor = (score: number | null | undefined): string => {
     if (!score) return 'bg-slate-500';
     if (score >= 0.8) return 'bg-green-500';
@@ -263,21 +413,25 @@ export default function SubscriptionsPage() {
     return 'Low';
   };
 
-  const toCardSubscription = (sub: Subscription): DetectedSubscription & { id?: string; status?: string } => {
+  const toCardSubscription = (sub: Subscription): CardSubscription => {
     const renewalDate = new Date(sub.renewalDate);
-    const lastPaymentDate = sub.lastPaymentDate ? new Date(sub.lastPaymentDate) : new Date(renewalDate);
-    if (!sub.lastPaymentDate) {
-      lastPaymentDate.setMonth(lastPaymentDate.getMonth() - 1);
-    }
+    // Without a recorded payment, assume the last charge was one interval before renewal
+    const lastPaymentDate = sub.lastPaymentDate
+      ? new Date(sub.lastPaymentDate)
+      : addBillingIntervals(renewalDate, sub.interval, -1);
 
     return {
       id: sub.id,
       status: sub.status,
       merchant: sub.merchant || sub.name,
       amount: sub.amount,
+      currency: sub.currency,
+      convertedAmount: sub.convertedAmount,
       interval: (sub.interval || 'monthly') as any,
       lastPayment: lastPaymentDate.toISOString().split('T')[0],
       nextRenewal: sub.renewalDate,
+      missedChargeAt: sub.missedChargeAt,
+      trialStartDate: sub.trialStartDate,
       category: (sub.category || categorizeSubscription(sub.merchant || sub.name)).toLowerCase(),
       healthScore: 75,
       isDuplicate: false,
@@ -285,12 +439,15 @@ export default function SubscriptionsPage() {
       priceHistory: [],
       duplicateOf: undefined,
       savingsOpportunity: undefined,
-    } as DetectedSubscription & { id?: string; status?: string };
+    } as CardSubscription;
   };
 
   // Filter subscriptions based on status
   const activeSubscriptions = subscriptions.filter(sub => sub.status === 'active');
   const cancelledSubscriptions = subscriptions.filter(sub => sub.status === 'cancelled');
+  const trialSubscriptions = subscriptions
+    .filter(sub => sub.status === 'trial')
+    .sort((a, b) => new Date(a.renewalDate).getTime() - new Date(b.renewalDate).getTime());
 
   // Get filtered subscriptions based on current filter
   const getFilteredSubscriptions = () => {
@@ -320,21 +477,13 @@ export default function SubscriptionsPage() {
     return groups;
   }, {} as Record<string, Subscription[]>);
 
+  // Totals use amounts converted into the user's base currency, leaving out
+  // subscriptions in a currency without an exchange rate
+  const baseAmount = (sub: Subscription) => (sub.convertedAmount === null ? 0 : sub.convertedAmount ?? sub.amount);
+  const monthlyAmount = (sub: Subscription) => toMonthlyAmount(baseAmount(sub), sub.interval);
+
   // Calculations exclude cancelled subscriptions
-  const totalMonthlySpending = activeSubscriptions.reduce((sum, sub) => {
-    // Convert to monthly if needed
-    let monthlyAmount = sub.amount;
-    if (sub.interval === 'yearly') {
-      monthlyAmount = sub.amount / 12;
-    } else if (sub.interval === 'quarterly') {
-      monthlyAmount = sub.amount / 3;
-    } else if (sub.interval === 'bi-weekly') {
-      monthlyAmount = (sub.amount * 26) / 12;
-    } else if (sub.interval === 'weekly') {
-      monthlyAmount = (sub.amount * 52) / 12;
-    }
-    return sum + monthlyAmount;
-  }, 0);
+  const totalMonthlySpending = activeSubscriptions.reduce((sum, sub) => sum + monthlyAmount(sub), 0);
   const totalYearlySpending = totalMonthlySpending * 12;
   const startOfMonth = new Date(new Date().getFullYear(), new Date().getMonth(), 1);
   const cancelledThisMonthCount = cancelledSubscriptions.filter(sub => {
@@ -352,19 +501,7 @@ export default function SubscriptionsPage() {
 
   // Find most expensive subscription
   const mostExpensiveSubscription = activeSubscriptions.length > 0
-    ? activeSubscriptions.reduce((max, sub) => {
-        const subMonthly = sub.interval === 'yearly' ? sub.amount / 12 :
-                          sub.interval === 'quarterly' ? sub.amount / 3 :
-                          sub.interval === 'bi-weekly' ? (sub.amount * 26) / 12 :
-                          sub.interval === 'weekly' ? (sub.amount * 52) / 12 :
-                          sub.amount;
-        const maxMonthly = max.interval === 'yearly' ? max.amount / 12 :
-                          max.interval === 'quarterly' ? max.amount / 3 :
-                          max.interval === 'bi-weekly' ? (max.amount * 26) / 12 :
-                          max.interval === 'weekly' ? (max.amount * 52) / 12 :
-                          max.amount;
-        return subMonthly > maxMonthly ? sub : max;
-      })
+    ? activeSubscriptions.reduce((max, sub) => (monthlyAmount(sub) > monthlyAmount(max) ? sub : max))
     : null;
 
   if (!user?.id) {
@@ -437,7 +574,7 @@ export default function SubscriptionsPage() {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
                 </svg>
-                Detecting...
+                {detectionProgress ? `Detecting... ${detectionProgress.progress}%` : 'Detecting...'}
               </>
             ) : (
               <>
@@ -448,6 +585,12 @@ export default function SubscriptionsPage() {
               </>
             )}
           </button>
+          <button
+            onClick={() => setShowDuplicates((prev) => !prev)}
+            className="rounded-full border border-[#1e2b45] bg-[#0d182d] px-4 py-2 text-xs font-semibold text-slate-300 transition hover:border-[#294064] hover:text-white"
+          >
+            {showDuplicates ? 'Hide duplicates' : 'Find duplicates'}
+          </button>
           <Link
             href="/dashboard/analytics"
             className="hidden rounded-full border border-[#1e2b45] px-4 py-2 text-xs font-semibold text-slate-300 transition hover:border-[#294064] hover:text-white md:inline-flex"
@@ -519,7 +662,7 @@ export default function SubscriptionsPage() {
                   required
                 />
                 <Field
-                  label="Monthly amount (USD)"
+                  label="Amount per billing cycle"
                   id="amount"
                   type="number"
                   min="0"
@@ -556,10 +699,57 @@ export default function SubscriptionsPage() {
                     className="w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white focus:border-[#ff8b3d] focus:outline-none focus:ring-1 focus:ring-[#ff8b3d]"
                   >
                     <option value="active">Active</option>
+                    <option value="trial">Free trial</option>
                     <option value="paused">Paused</option>
                     <option value="cancelled">Cancelled</option>
                   </select>
                 </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="interval">
+                    Billing cycle
+                  </label>
+                  <select
+                    id="interval"
+                    name="interval"
+                    value={formState.interval}
+                    onChange={handleInputChange}
+                    className="w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white focus:border-[#ff8b3d] focus:outline-none focus:ring-1 focus:ring-[#ff8b3d]"
+                  >
+                    {INTERVAL_OPTIONS.map((option) => (
+                      <option key={option} value={option}>
+                        {getBillingIntervalLabel(option)}
+                      </option>
+                    ))}
+                    <option value={CUSTOM_INTERVAL}>Custom…</option>
+                  </select>
+                  {formState.interval === CUSTOM_INTERVAL && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-slate-400">Every</span>
+                      <input
+                        id="customIntervalCount"
+                        name="customIntervalCount"
+                        type="number"
+                        min="1"
+                        step="1"
+                        placeholder="45"
+                        value={formState.customIntervalCount}
+                        onChange={handleInputChange}
+                        className="w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white focus:border-[#ff8b3d] focus:outline-none focus:ring-1 focus:ring-[#ff8b3d]"
+                      />
+                      <select
+                        id="customIntervalUnit"
+                        name="customIntervalUnit"
+                        value={formState.customIntervalUnit}
+                        onChange={handleInputChange}
+                        className="w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white focus:border-[#ff8b3d] focus:outline-none focus:ring-1 focus:ring-[#ff8b3d]"
+                      >
+                        <option value="days">days</option>
+                        <option value="weeks">weeks</option>
+                        <option value="months">months</option>
+                      </select>
+                    </div>
+                  )}
+                </div>
               </div>
               <div className="flex justify-end gap-3">
                 <button
@@ -591,6 +781,21 @@ export default function SubscriptionsPage() {
         )}
       </section>
 
+      {isDetecting && detectionProgress && (
+        <div className="rounded-lg border border-[#1b2740] bg-[#0d182d] px-4 py-3">
+          <div className="flex items-center justify-between text-xs text-slate-300">
+            <span>{detectionProgress.message}</span>
+            <span>{detectionProgress.progress}%</span>
+          </div>
+          <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-[#1b2740]">
+            <div
+              className="h-full rounded-full bg-[#ff8b3d] transition-all"
+              style={{ width: `${detectionProgress.progress}%` }}
+            />
+          </div>
+        </div>
+      )}
+
       {detectionMessage && (
         <div
           className={`rounded-lg border px-4 py-3 text-sm ${
@@ -608,16 +813,32 @@ export default function SubscriptionsPage() {
             <SummaryCard label="Cancelled this month" value={cancelledThisMonthCount.toString()} accent="text-[#fb7185]" />
             <SummaryCard 
               label="Monthly spend" 
-              value={formatCurrency(totalMonthlySpending)} 
+              value={formatCurrency(totalMonthlySpending, baseCurrency)} 
               accent="text-[#4ade80]" 
             />
             <SummaryCard 
               label="Yearly spend" 
-              value={formatCurrency(totalYearlySpending)} 
+              value={formatCurrency(totalYearlySpending, baseCurrency)} 
               accent="text-[#a78bfa]" 
             />
           </section>
 
+          {showDuplicates && (
+            <DuplicateDetector
+              subscriptions={subscriptions
+                .filter((sub) => sub.status !== 'cancelled')
+                .map(toDetectedSubscription)}
+              baseCurrency={baseCurrency}
+              onResolveDuplicate={handleResolveDuplicate}
+            />
+          )}
+
+          {/* New detections waiting for the user to accept or reject them */}
+          <DetectionReview />
+
+          {/* Subscriptions whose charges stopped */}
+          <InactiveSubscriptionsReview />
+
           {/* Renewal Reminder Widget */}
           {upcomingRenewals.length > 0 && (
             <section className="rounded-2xl border border-[#fbbf24]/30 bg-gradient-to-br from-[#2a1f0f] via-[#1f1709] to-[#1a1307] p-6 shadow-[0_20px_45px_-35px_rgba(251,191,36,0.3)]">
@@ -650,8 +871,10 @@ export default function SubscriptionsPage() {
                         </p>
                       </div>
                       <div className="text-right">
-                        <p className="text-sm font-semibold text-[#fbbf24]">{formatCurrency(sub.amount)}</p>
-                        <p className="text-xs text-slate-500">{sub.interval || 'monthly'}</p>
+                        <p className="text-sm font-semibold text-[#fbbf24]">
+                          {formatCurrencyWithConversion(sub.amount, sub.currency, sub.convertedAmount, baseCurrency)}
+                        </p>
+                        <p className="text-xs text-slate-500">{getBillingIntervalLabel(sub.interval)}</p>
                       </div>
                     </div>
                   );
@@ -675,13 +898,7 @@ export default function SubscriptionsPage() {
                 </div>
                 <div className="text-right">
                   <p className="text-2xl font-bold text-[#fb7185]">
-                    {formatCurrency(
-                      mostExpensiveSubscription.interval === 'yearly' ? mostExpensiveSubscription.amount / 12 :
-                      mostExpensiveSubscription.interval === 'quarterly' ? mostExpensiveSubscription.amount / 3 :
-                      mostExpensiveSubscription.interval === 'bi-weekly' ? (mostExpensiveSubscription.amount * 26) / 12 :
-                      mostExpensiveSubscription.interval === 'weekly' ? (mostExpensiveSubscription.amount * 52) / 12 :
-                      mostExpensiveSubscription.amount
-                    )}
+                    {formatCurrency(monthlyAmount(mostExpensiveSubscription), baseCurrency)}
                   </p>
                   <p className="text-xs text-slate-400">per month</p>
                 </div>
@@ -689,6 +906,23 @@ export default function SubscriptionsPage() {
             </section>
           )}
 
+      {/* Free Trials - renewal date is when the trial converts to a paid plan */}
+      {(filter === 'active' || filter === 'all') && trialSubscriptions.length > 0 && (
+        <section className="rounded-2xl border border-[#60a5fa]/30 bg-[#0d182d] p-6 shadow-[0_20px_45px_-35px_rgba(96,165,250,0.3)]">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-white">Free trials ({trialSubscriptions.length})</h2>
+              <p className="text-xs text-slate-400">Cancel before the trial ends if you don&apos;t want to be charged</p>
+            </div>
+          </div>
+          <div className="grid gap-5 md:grid-cols-2">
+            {trialSubscriptions.map((sub) => (
+              <SubscriptionCard key={sub.id} subscription={toCardSubscription(sub)} baseCurrency={baseCurrency} />
+            ))}
+          </div>
+        </section>
+      )}
+
       {/* Cancelled Subscriptions Section - Only shown when filter is 'cancelled' or 'all' */}
       {(filter === 'cancelled' || filter === 'all') && cancelledSubscriptions.length > 0 && (
         <section className="rounded-2xl border border-[#1b2740] bg-[#0d182d] p-6 shadow-[0_20px_45px_-35px_rgba(12,25,46,0.9)]">
@@ -698,14 +932,14 @@ export default function SubscriptionsPage() {
           </div>
           <div className="space-y-4 opacity-80">
             {cancelledSubscriptions.map((sub) => (
-              <SubscriptionCard key={sub.id} subscription={toCardSubscription(sub)} />
+              <SubscriptionCard key={sub.id} subscription={toCardSubscription(sub)} baseCurrency={baseCurrency} />
             ))}
           </div>
         </section>
       )}
 
       {/* Active Subscriptions - Only shown when filter is 'active' or 'all' */}
-      {(filter === 'active' || filter === 'all') && activeSubscriptions.length === 0 && cancelledSubscriptions.length === 0 ? (
+      {(filter === 'active' || filter === 'all') && activeSubscriptions.length === 0 && trialSubscriptions.length === 0 && cancelledSubscriptions.length === 0 ? (
         <div className="rounded-2xl border border-[#1b2740] bg-[#0d182d] p-10 text-center shadow-[0_20px_45px_-35px_rgba(12,25,46,0.9)]">
           <h3 className="text-lg font-semibold text-white">No subscriptions detected yet</h3>
           <p className="mt-2 text-sm text-slate-400">
@@ -727,7 +961,7 @@ export default function SubscriptionsPage() {
       ) : (filter === 'active' || filter === 'all') && Object.keys(groupedSubscriptions).length > 0 ? (
         <div className="space-y-8">
           {Object.entries(groupedSubscriptions).map(([category, categorySubs]) => {
-            const totalCategorySpend = categorySubs.reduce((sum, sub) => sum + sub.amount, 0);
+            const totalCategorySpend = categorySubs.reduce((sum, sub) => sum + monthlyAmount(sub), 0);
             return (
               <section key={category} className="rounded-2xl border border-[#1b2740] bg-[#0d182d] p-6 shadow-[0_20px_45px_-35px_rgba(12,25,46,0.9)]">
                 <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
@@ -736,13 +970,13 @@ export default function SubscriptionsPage() {
                     <p className="text-xs uppercase tracking-wide text-slate-400">{categorySubs.length} active services</p>
                   </div>
                   <span className="rounded-full bg-[#131f37] px-4 py-1 text-xs font-semibold text-[#ff8b3d]">
-                    {formatCurrency(totalCategorySpend, categorySubs[0]?.currency || 'USD')}/month
+                    {formatCurrency(totalCategorySpend, baseCurrency)}/month
                   </span>
                 </div>
                 <div className="mt-6 grid gap-5 md:grid-cols-2">
                   {categorySubs.map((sub) => (
                       <div key={sub.id} className="relative">
-                      <SubscriptionCard subscription={toCardSubscription(sub)} />
+                      <SubscriptionCard subscription={toCardSubscription(sub)} baseCurrency={baseCurrency} />
                         {(sub.isAutoDetected || (sub.confidenceScore !== null && sub.confidenceScore !== undefined)) && (
                           <div className="absolute top-2 right-2 flex items-center gap-2 z-10">
                             {sub.isAutoDetected && (
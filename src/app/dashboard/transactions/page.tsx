@@ -0,0 +1,316 @@
+'use client';
+import { useState, useEffect } from 'react';
+import { useUser } from '@clerk/nextjs';
+import toast from 'react-hot-toast';
+import MerchantAliasManager from '@/components/features/MerchantAliasManager';
+import { formatCurrency, formatDateShort } from '@/lib/formatting';
+
+interface Transaction {
+  id: string;
+  date: string;
+  amount: number;
+  currency: string | null;
+  merchant: string | null;
+  description: string | null;
+  subscriptionId: string | null;
+}
+
+interface SubscriptionOption {
+  id: string;
+  name: string;
+  status: string;
+  plaidTransactionIds: string[];
+}
+
+const TRANSACTION_LIMIT = 500;
+
+export default function TransactionsPage() {
+  const { user } = useUser();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [subscriptions, setSubscriptions] = useState<SubscriptionOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [targetSubscriptionId, setTargetSubscriptionId] = useState('');
+  const [search, setSearch] = useState('');
+  const [unlinkedOnly, setUnlinkedOnly] = useState(false);
+  const [isLinking, setIsLinking] = useState(false);
+  const [aliasDescriptor, setAliasDescriptor] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [transactionsResponse, subscriptionsResponse] = await Promise.all([
+        fetch(`/api/transactions?limit=${TRANSACTION_LIMIT}`),
+        fetch('/api/subscriptions'),
+      ]);
+      if (!transactionsResponse.ok || !subscriptionsResponse.ok) {
+        throw new Error('Failed to fetch transactions');
+      }
+      const transactionsData = await transactionsResponse.json();
+      const subscriptionsData = await subscriptionsResponse.json();
+      setTransactions(transactionsData.transactions || []);
+      setSubscriptions(subscriptionsData.subscriptions || []);
+    } catch (error) {
+      console.error('Error fetching transactions:', error);
+      toast.error('Unable to load transactions right now.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Detected subscriptions list their charges instead of linking them, so check both
+  const subscriptionNames = new Map(subscriptions.map((sub) => [sub.id, sub.name]));
+  const listedBy = new Map<string, string>();
+  for (const sub of subscriptions) {
+    for (const transactionId of sub.plaidTransactionIds || []) {
+      listedBy.set(transactionId, sub.id);
+    }
+  }
+  const getLinkedSubscriptionId = (tx: Transaction) => tx.subscriptionId || listedBy.get(tx.id) || null;
+
+  const query = search.trim().toLowerCase();
+  const visibleTransactions = transactions.filter((tx) => {
+    if (unlinkedOnly && getLinkedSubscriptionId(tx)) return false;
+    if (!query) return true;
+    return [tx.merchant, tx.description].some((value) => value?.toLowerCase().includes(query));
+  });
+
+  const assignableSubscriptions = subscriptions.filter((sub) => sub.status !== 'cancelled');
+  // Splitting needs every selected charge to come from the same subscription
+  const selectedOwners = new Set(
+    transactions.filter((tx) => selectedIds.has(tx.id)).map((tx) => getLinkedSubscriptionId(tx))
+  );
+  const splitSourceId = selectedOwners.size === 1 ? Array.from(selectedOwners)[0] : null;
+  const allVisibleSelected =
+    visibleTransactions.length > 0 && visibleTransactions.every((tx) => selectedIds.has(tx.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleTransactions.map((tx) => tx.id)));
+  };
+
+  const handleLink = async (subscriptionId: string | null) => {
+    if (selectedIds.size === 0) return;
+    setIsLinking(true);
+    try {
+      const response = await fetch('/api/transactions/link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transactionIds: Array.from(selectedIds), subscriptionId }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update transactions');
+      }
+
+      toast.success(
+        subscriptionId
+          ? `Linked ${data.updated} ${data.updated === 1 ? 'transaction' : 'transactions'} to ${subscriptionNames.get(subscriptionId)}`
+          : `Unlinked ${data.updated} ${data.updated === 1 ? 'transaction' : 'transactions'}`
+      );
+      setSelectedIds(new Set());
+      await fetchData();
+      window.dispatchEvent(new CustomEvent('subscriptionUpdated'));
+    } catch (error) {
+      console.error('Error linking transactions:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update transactions');
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  const handleSplit = async () => {
+    if (!splitSourceId) return;
+    const name = window.prompt(
+      `Name the new subscription for these ${selectedIds.size} charges`,
+      subscriptionNames.get(splitSourceId) || ''
+    );
+    if (!name?.trim()) return;
+
+    setIsLinking(true);
+    try {
+      const response = await fetch(`/api/subscriptions/${splitSourceId}/split`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transactionIds: Array.from(selectedIds), name: name.trim() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to split subscription');
+      }
+
+      toast.success(`Moved ${data.movedTransactions} ${data.movedTransactions === 1 ? 'transaction' : 'transactions'} to ${name.trim()}`);
+      setSelectedIds(new Set());
+      await fetchData();
+      window.dispatchEvent(new CustomEvent('subscriptionUpdated'));
+    } catch (error) {
+      console.error('Error splitting subscription:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to split subscription');
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  if (!user?.id) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Transactions</h1>
+          <p className="text-slate-400 mt-1">Please log in to view your transactions</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-white">Transactions</h1>
+        <p className="text-slate-400 mt-1">Link charges to the right subscription and teach detection about odd merchant names</p>
+      </div>
+
+      <MerchantAliasManager descriptor={aliasDescriptor} />
+
+      <section className="rounded-2xl border border-[#1b2740] bg-[#0d182d] p-6 shadow-[0_20px_45px_-35px_rgba(12,25,46,0.9)]">
+        <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search merchant or description"
+            className="w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-[#ff8b3d] focus:outline-none focus:ring-1 focus:ring-[#ff8b3d] sm:max-w-xs"
+          />
+          <label className="flex items-center gap-2 text-xs font-semibold text-slate-300">
+            <input type="checkbox" checked={unlinkedOnly} onChange={(event) => setUnlinkedOnly(event.target.checked)} />
+            Unlinked only
+          </label>
+        </div>
+
+        {/* Bulk assign */}
+        {selectedIds.size > 0 && (
+          <div className="mb-4 flex flex-col gap-3 rounded-lg border border-[#ff8b3d]/30 bg-[#1b1a22] p-3 sm:flex-row sm:items-center">
+            <span className="text-sm font-semibold text-white">{selectedIds.size} selected</span>
+            <select
+              value={targetSubscriptionId}
+              onChange={(event) => setTargetSubscriptionId(event.target.value)}
+              className="rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white focus:border-[#ff8b3d] focus:outline-none"
+            >
+              <option value="">Choose a subscription…</option>
+              {assignableSubscriptions.map((sub) => (
+                <option key={sub.id} value={sub.id}>
+                  {sub.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleLink(targetSubscriptionId)}
+              disabled={!targetSubscriptionId || isLinking}
+              className="rounded-lg bg-[#ff8b3d] px-3 py-2 text-xs font-semibold text-[#050d1a] transition hover:bg-[#ffa15c] disabled:opacity-60"
+            >
+              Assign
+            </button>
+            <button
+              onClick={() => handleLink(null)}
+              disabled={isLinking}
+              className="rounded-lg border border-[#334155] px-3 py-2 text-xs font-semibold text-slate-200 transition hover:border-[#475569] disabled:opacity-60"
+            >
+              Unlink
+            </button>
+            {splitSourceId && (
+              <button
+                onClick={handleSplit}
+                disabled={isLinking}
+                className="rounded-lg border border-[#334155] px-3 py-2 text-xs font-semibold text-slate-200 transition hover:border-[#475569] disabled:opacity-60"
+              >
+                Split into new subscription
+              </button>
+            )}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-slate-400">Loading your transactions...</p>
+        ) : visibleTransactions.length === 0 ? (
+          <p className="text-sm text-slate-400">No transactions found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-wide text-slate-500">
+                <tr>
+                  <th className="py-2 pr-3">
+                    <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} aria-label="Select all" />
+                  </th>
+                  <th className="py-2 pr-3">Date</th>
+                  <th className="py-2 pr-3">Merchant</th>
+                  <th className="py-2 pr-3 text-right">Amount</th>
+                  <th className="py-2 pr-3">Subscription</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#1b2740]">
+                {visibleTransactions.map((tx) => {
+                  const linkedId = getLinkedSubscriptionId(tx);
+                  return (
+                    <tr key={tx.id} className="text-slate-300">
+                      <td className="py-2 pr-3">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(tx.id)}
+                          onChange={() => toggleSelected(tx.id)}
+                          aria-label={`Select ${tx.merchant || tx.description || 'transaction'}`}
+                        />
+                      </td>
+                      <td className="py-2 pr-3 whitespace-nowrap">{formatDateShort(tx.date)}</td>
+                      <td className="py-2 pr-3">
+                        <p className="text-white">{tx.merchant || tx.description || 'Unknown'}</p>
+                        {tx.description && tx.description !== tx.merchant && (
+                          <p className="text-xs text-slate-500">{tx.description}</p>
+                        )}
+                      </td>
+                      <td className="py-2 pr-3 text-right whitespace-nowrap">
+                        {formatCurrency(Math.abs(tx.amount), tx.currency || 'USD')}
+                      </td>
+                      <td className="py-2 pr-3">
+                        {linkedId ? (
+                          <span className="rounded-full bg-[#131f37] px-2 py-1 text-xs font-semibold text-[#60a5fa]">
+                            {subscriptionNames.get(linkedId) || 'Linked'}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-slate-500">—</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        <button
+                          onClick={() => setAliasDescriptor(tx.merchant || tx.description || '')}
+                          className="text-xs font-semibold text-slate-400 transition hover:text-white"
+                        >
+                          Alias
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
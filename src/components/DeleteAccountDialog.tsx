@@ -0,0 +1,100 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+// Must match the confirmation the /api/user/deletion route expects
+const CONFIRMATION_TEXT = 'DELETE';
+
+interface DeleteAccountDialogProps {
+  isOpen: boolean;
+  gracePeriodDays: number;
+  onCancel: () => void;
+  onConfirm: (confirmation: string) => void;
+  isSubmitting?: boolean;
+}
+
+export default function DeleteAccountDialog({
+  isOpen,
+  gracePeriodDays,
+  onCancel,
+  onConfirm,
+  isSubmitting = false,
+}: DeleteAccountDialogProps) {
+  const [confirmation, setConfirmation] = useState('');
+
+  // Start with an empty confirmation each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setConfirmation('');
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onCancel();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onCancel]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const isConfirmed = confirmation === CONFIRMATION_TEXT;
+
+  return (
+    <div className="fixed inset-0 z-[1200] flex items-center justify-center px-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative w-full max-w-md rounded-2xl border border-[#1b2740] bg-[#0d182d] p-6 shadow-2xl">
+        <div className="flex items-center gap-2 text-sm font-semibold text-red-400">
+          <span aria-hidden="true">⚠️</span>
+          <span>This can&apos;t be undone</span>
+        </div>
+        <h3 className="mt-3 text-xl font-semibold text-white">Delete your account?</h3>
+        <p className="mt-3 text-sm text-slate-300">
+          Your account will be deleted in {gracePeriodDays} days. Until then you can cancel from Settings.
+        </p>
+        <p className="mt-2 text-sm text-slate-300">
+          After that, all bank connections are revoked and your subscriptions, transactions and bank accounts are
+          permanently deleted.
+        </p>
+
+        <label className="mt-4 block text-xs text-slate-400">
+          Type <span className="font-semibold text-white">{CONFIRMATION_TEXT}</span> to confirm
+          <input
+            type="text"
+            value={confirmation}
+            onChange={(event) => setConfirmation(event.target.value)}
+            autoComplete="off"
+            className="mt-2 w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white focus:border-red-400 focus:outline-none"
+          />
+        </label>
+
+        <div className="mt-6 flex flex-col-reverse gap-3 sm:flex-row sm:justify-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="w-full rounded-lg border border-transparent bg-transparent px-4 py-2 text-sm font-semibold text-slate-300 transition hover:text-white sm:w-auto"
+            disabled={isSubmitting}
+          >
+            Keep Account
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(confirmation)}
+            disabled={!isConfirmed || isSubmitting}
+            className="w-full rounded-lg bg-red-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-red-400 disabled:cursor-not-allowed disabled:opacity-60 sm:w-auto"
+          >
+            {isSubmitting ? 'Scheduling...' : 'Delete Account'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface DisconnectBankDialogProps {
+  isOpen: boolean;
+  institutionName?: string | null;
+  onCancel: () => void;
+  onConfirm: (purgeTransactions: boolean) => void;
+  isSubmitting?: boolean;
+}
+
+export default function DisconnectBankDialog({
+  isOpen,
+  institutionName,
+  onCancel,
+  onConfirm,
+  isSubmitting = false,
+}: DisconnectBankDialogProps) {
+  const [purgeTransactions, setPurgeTransactions] = useState(false);
+
+  // Default to keeping transactions each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setPurgeTransactions(false);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onCancel();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onCancel]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-[1200] flex items-center justify-center px-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative w-full max-w-md rounded-2xl border border-[#1b2740] bg-[#0d182d] p-6 shadow-2xl">
+        <div className="flex items-center gap-2 text-sm font-semibold text-[#f97316]">
+          <span aria-hidden="true">⚠️</span>
+          <span>Heads up</span>
+        </div>
+        <h3 className="mt-3 text-xl font-semibold text-white">
+          Disconnect {institutionName || 'this bank'}?
+        </h3>
+        <p className="mt-3 text-sm text-slate-300">
+          SubscriptionSentry will stop syncing new transactions from this bank and delete its stored credentials.
+        </p>
+
+        <div className="mt-4 space-y-2">
+          <label className="flex cursor-pointer items-start gap-3 rounded-lg border border-[#243352] bg-[#101b30] px-4 py-3">
+            <input
+              type="radio"
+              name="transactions"
+              className="mt-1 accent-[#ff8b3d]"
+              checked={!purgeTransactions}
+              onChange={() => setPurgeTransactions(false)}
+            />
+            <span>
+              <span className="block text-sm font-medium text-white">Keep transactions</span>
+              <span className="block text-xs text-slate-400">Existing history stays available for subscription tracking.</span>
+            </span>
+          </label>
+          <label className="flex cursor-pointer items-start gap-3 rounded-lg border border-[#243352] bg-[#101b30] px-4 py-3">
+            <input
+              type="radio"
+              name="transactions"
+              className="mt-1 accent-[#ff8b3d]"
+              checked={purgeTransactions}
+              onChange={() => setPurgeTransactions(true)}
+            />
+            <span>
+              <span className="block text-sm font-medium text-white">Delete transactions</span>
+              <span className="block text-xs text-slate-400">
+                Removes this bank&apos;s accounts and transactions. Detected subscriptions are relinked to your remaining accounts.
+              </span>
+            </span>
+          </label>
+        </div>
+
+        <div className="mt-6 flex flex-col-reverse gap-3 sm:flex-row sm:justify-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="w-full rounded-lg border border-transparent bg-transparent px-4 py-2 text-sm font-semibold text-slate-300 transition hover:text-white sm:w-auto"
+            disabled={isSubmitting}
+          >
+            Keep Connected
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(purgeTransactions)}
+            disabled={isSubmitting}
+            className="w-full rounded-lg bg-[#f97316] px-4 py-2 text-sm font-semibold text-[#050d1a] transition hover:bg-[#fb923c] disabled:cursor-not-allowed disabled:opacity-60 sm:w-auto"
+          >
+            {isSubmitting ? 'Disconnecting...' : 'Disconnect'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
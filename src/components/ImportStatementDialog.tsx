@@ -0,0 +1,353 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  detectStatementFormat,
+  getCsvHeaders,
+  StatementDateFormat,
+  StatementFormat,
+} from '@/lib/statementParser';
+import { getRegion, REGION_CODES, REGIONS, RegionCode } from '@/lib/regions';
+
+export interface ManualAccount {
+  id: string;
+  name: string | null;
+  institutionName: string | null;
+  currency: string | null;
+  country: string | null;
+  lastImportAt: string | null;
+  transactionCount: number;
+}
+
+export interface StatementImportSummary {
+  imported: number;
+  duplicates: number;
+  skippedCredits: number;
+  invalidRows: number;
+  subscriptionsDetected: number;
+}
+
+interface ImportStatementDialogProps {
+  isOpen: boolean;
+  accounts: ManualAccount[];
+  defaultCountry?: RegionCode;
+  onCancel: () => void;
+  onImported: (summary: StatementImportSummary) => void;
+}
+
+// Header names banks commonly use, to pre-fill the column mapping
+const COLUMN_GUESSES: Record<'date' | 'description' | 'amount' | 'debit' | 'credit', RegExp> = {
+  date: /date/i,
+  description: /description|details|payee|narrative|memo|name/i,
+  amount: /^amount$|^value$|amount \(/i,
+  debit: /debit|money out|paid out|withdrawal/i,
+  credit: /credit|money in|paid in|deposit/i,
+};
+
+const NEW_ACCOUNT = 'new';
+
+const selectClassName =
+  'mt-1 w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white focus:border-[#ff8b3d] focus:outline-none';
+
+export default function ImportStatementDialog({
+  isOpen,
+  accounts,
+  defaultCountry = 'US',
+  onCancel,
+  onImported,
+}: ImportStatementDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<StatementFormat | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState({ date: '', description: '', amount: '', debit: '', credit: '' });
+  const [dateFormat, setDateFormat] = useState<StatementDateFormat>('MM/DD/YYYY');
+  const [expensesArePositive, setExpensesArePositive] = useState(false);
+  const [accountId, setAccountId] = useState(NEW_ACCOUNT);
+  const [newAccount, setNewAccount] = useState({ name: '', institutionName: '', country: defaultCountry });
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from a clean form each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setFormat(null);
+      setHeaders([]);
+      setError(null);
+      setAccountId(accounts[0]?.id || NEW_ACCOUNT);
+      setNewAccount({ name: '', institutionName: '', country: defaultCountry });
+      setDateFormat(getRegion(defaultCountry).dateFormat);
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onCancel();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onCancel]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    setError(null);
+    if (!selected) {
+      setFormat(null);
+      setHeaders([]);
+      return;
+    }
+
+    const text = await selected.text();
+    const detected = detectStatementFormat(selected.name, text);
+    setFormat(detected);
+
+    if (detected === 'csv') {
+      const csvHeaders = getCsvHeaders(text);
+      const guess = (field: keyof typeof COLUMN_GUESSES) =>
+        csvHeaders.find((header) => COLUMN_GUESSES[field].test(header)) || '';
+      const debit = guess('debit');
+      const credit = guess('credit');
+
+      setHeaders(csvHeaders);
+      setMapping({
+        date: guess('date'),
+        description: guess('description'),
+        // Prefer separate debit/credit columns when the bank provides them
+        amount: debit || credit ? '' : guess('amount'),
+        debit,
+        credit,
+      });
+    } else {
+      setHeaders([]);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!file || !format) return;
+
+    if (accountId === NEW_ACCOUNT && !newAccount.name.trim()) {
+      setError('Give the new account a name');
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('dateFormat', dateFormat);
+
+    if (accountId === NEW_ACCOUNT) {
+      formData.append(
+        'account',
+        JSON.stringify({
+          name: newAccount.name,
+          institutionName: newAccount.institutionName || undefined,
+          country: newAccount.country,
+          currency: getRegion(newAccount.country).currency,
+        })
+      );
+    } else {
+      formData.append('bankAccountId', accountId);
+    }
+
+    if (format === 'csv') {
+      formData.append(
+        'mapping',
+        JSON.stringify({
+          date: mapping.date,
+          description: mapping.description,
+          amount: mapping.amount || undefined,
+          debit: mapping.amount ? undefined : mapping.debit || undefined,
+          credit: mapping.amount ? undefined : mapping.credit || undefined,
+          dateFormat,
+          expensesArePositive: mapping.amount ? expensesArePositive : undefined,
+        })
+      );
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/transactions/import', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import statement');
+      }
+      onImported(data);
+    } catch (err) {
+      console.error('Error importing statement:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import statement');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderColumnSelect = (field: keyof typeof mapping, label: string, optional = false) => (
+    <label className="block text-xs text-slate-400">
+      {label}
+      <select
+        value={mapping[field]}
+        onChange={(event) => setMapping((prev) => ({ ...prev, [field]: event.target.value }))}
+        className={selectClassName}
+      >
+        <option value="">{optional ? 'Not used' : 'Select a column'}</option>
+        {headers.map((header) => (
+          <option key={header} value={header}>
+            {header}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[1200] flex items-center justify-center px-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onCancel} />
+      <div className="relative max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-2xl border border-[#1b2740] bg-[#0d182d] p-6 shadow-2xl">
+        <h3 className="text-xl font-semibold text-white">Import bank statement</h3>
+        <p className="mt-2 text-sm text-slate-300">
+          For banks we can&apos;t connect to. Upload a CSV, OFX or QIF export and we&apos;ll detect your
+          subscriptions from it. Transactions already imported are skipped.
+        </p>
+
+        <div className="mt-5 space-y-4">
+          <label className="block text-xs text-slate-400">
+            Statement file
+            <input
+              type="file"
+              accept=".csv,.ofx,.qfx,.qif,text/csv"
+              onChange={(event) => handleFileChange(event.target.files?.[0] || null)}
+              className="mt-1 block w-full text-sm text-slate-300 file:mr-3 file:rounded-lg file:border-0 file:bg-[#243352] file:px-3 file:py-2 file:text-sm file:font-semibold file:text-white"
+            />
+          </label>
+          {format && (
+            <p className="text-xs text-slate-500">Detected format: {format.toUpperCase()}</p>
+          )}
+
+          <label className="block text-xs text-slate-400">
+            Import into
+            <select value={accountId} onChange={(event) => setAccountId(event.target.value)} className={selectClassName}>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.institutionName ? `${account.institutionName} – ` : ''}
+                  {account.name || 'Account'}
+                </option>
+              ))}
+              <option value={NEW_ACCOUNT}>New account…</option>
+            </select>
+          </label>
+
+          {accountId === NEW_ACCOUNT && (
+            <div className="grid gap-3 sm:grid-cols-2">
+              <label className="block text-xs text-slate-400">
+                Account name
+                <input
+                  type="text"
+                  value={newAccount.name}
+                  onChange={(event) => setNewAccount((prev) => ({ ...prev, name: event.target.value }))}
+                  placeholder="Current account"
+                  className={selectClassName}
+                />
+              </label>
+              <label className="block text-xs text-slate-400">
+                Bank (optional)
+                <input
+                  type="text"
+                  value={newAccount.institutionName}
+                  onChange={(event) => setNewAccount((prev) => ({ ...prev, institutionName: event.target.value }))}
+                  placeholder="Nationwide"
+                  className={selectClassName}
+                />
+              </label>
+              <label className="block text-xs text-slate-400">
+                Country
+                <select
+                  value={newAccount.country}
+                  onChange={(event) => {
+                    const country = event.target.value as RegionCode;
+                    setNewAccount((prev) => ({ ...prev, country }));
+                    setDateFormat(getRegion(country).dateFormat);
+                  }}
+                  className={selectClassName}
+                >
+                  {REGION_CODES.map((code) => (
+                    <option key={code} value={code}>
+                      {REGIONS[code].name} ({REGIONS[code].currency})
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {(format === 'csv' || format === 'qif') && (
+            <label className="block text-xs text-slate-400">
+              Date format
+              <select
+                value={dateFormat}
+                onChange={(event) => setDateFormat(event.target.value as StatementDateFormat)}
+                className={selectClassName}
+              >
+                <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+              </select>
+            </label>
+          )}
+
+          {format === 'csv' && (
+            <div className="space-y-3 rounded-lg border border-[#243352] bg-[#101b30] p-4">
+              <p className="text-sm font-medium text-white">Column mapping</p>
+              <div className="grid gap-3 sm:grid-cols-2">
+                {renderColumnSelect('date', 'Date')}
+                {renderColumnSelect('description', 'Description')}
+                {renderColumnSelect('amount', 'Amount', true)}
+                {!mapping.amount && renderColumnSelect('debit', 'Money out', true)}
+                {!mapping.amount && renderColumnSelect('credit', 'Money in', true)}
+              </div>
+              {mapping.amount && (
+                <label className="flex items-center gap-2 text-xs text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={expensesArePositive}
+                    onChange={(event) => setExpensesArePositive(event.target.checked)}
+                    className="accent-[#ff8b3d]"
+                  />
+                  Payments are shown as positive amounts
+                </label>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="mt-6 flex flex-col-reverse gap-3 sm:flex-row sm:justify-end">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="w-full rounded-lg border border-transparent bg-transparent px-4 py-2 text-sm font-semibold text-slate-300 transition hover:text-white sm:w-auto"
+            disabled={isSubmitting}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!file || isSubmitting}
+            className="w-full rounded-lg bg-[#ff8b3d] px-4 py-2 text-sm font-semibold text-[#041024] transition hover:bg-[#ffa056] disabled:cursor-not-allowed disabled:opacity-60 sm:w-auto"
+          >
+            {isSubmitting ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
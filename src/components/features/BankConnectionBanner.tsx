@@ -0,0 +1,89 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import toast from 'react-hot-toast';
+
+const PlaidLink = dynamic(() => import('@/components/integrations/PlaidLink'), { ssr: false });
+
+interface PlaidItem {
+  itemId: string;
+  status: 'healthy' | 'login_required' | 'revoked';
+  lastSyncAt: string | null;
+  accounts: Array<{ id: string; name: string | null }>;
+}
+
+export default function BankConnectionBanner() {
+  const [items, setItems] = useState<PlaidItem[]>([]);
+
+  const fetchItems = async () => {
+    try {
+      const response = await fetch('/api/plaid/items');
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.items || []);
+      }
+    } catch (error) {
+      console.error('Error fetching bank connections:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchItems();
+  }, []);
+
+  const brokenItems = items.filter((item) => item.status !== 'healthy');
+
+  if (brokenItems.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 space-y-3">
+      {brokenItems.map((item) => {
+        const accountNames = item.accounts.map((account) => account.name || 'Bank account').join(', ');
+        const isRevoked = item.status === 'revoked';
+
+        return (
+          <div
+            key={item.itemId}
+            className={`flex flex-col gap-3 rounded-xl border px-4 py-3 sm:flex-row sm:items-center sm:justify-between ${
+              isRevoked
+                ? 'border-[#452125] bg-[#2d1416] text-[#fb7185]'
+                : 'border-[#4a3516] bg-[#2a1f0d] text-[#fbbf24]'
+            }`}
+          >
+            <div>
+              <p className="text-sm font-semibold">
+                {isRevoked ? 'Bank access revoked' : 'Bank connection needs attention'}
+              </p>
+              <p className="mt-1 text-xs text-slate-300">
+                {isRevoked
+                  ? `Access to ${accountNames} was revoked at your bank. Remove the connection and connect it again to resume syncing.`
+                  : `Sign in to your bank again so ${accountNames} can keep syncing new transactions.`}
+              </p>
+            </div>
+            {isRevoked ? (
+              <Link
+                href="/dashboard/settings"
+                className="inline-flex items-center justify-center rounded-lg border border-[#1e2b45] px-4 py-2 text-sm font-semibold text-slate-200 transition hover:border-[#294064] hover:text-white"
+              >
+                Manage Accounts
+              </Link>
+            ) : (
+              <PlaidLink
+                itemId={item.itemId}
+                onSuccess={async () => {
+                  toast.success('Bank connection repaired! Syncing transactions...');
+                  await fetchItems();
+                  window.dispatchEvent(new CustomEvent('subscriptionUpdated'));
+                }}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
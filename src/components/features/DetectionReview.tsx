@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { formatCurrency } from '@/lib/formatting';
+import { getBillingIntervalLabel } from '@/lib/billingInterval';
+import type { FeedbackVerdict, PendingReview } from '@/lib/detectionFeedback';
+
+const VERDICT_MESSAGES: Record<FeedbackVerdict, string> = {
+  confirmed: 'Subscription confirmed',
+  rejected: "Removed. We won't suggest it again",
+};
+
+export default function DetectionReview() {
+  const [items, setItems] = useState<PendingReview[]>([]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchItems = async () => {
+    try {
+      const response = await fetch('/api/subscriptions/review');
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.reviews || []);
+      }
+    } catch (error) {
+      console.error('Error fetching pending reviews:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchItems();
+    window.addEventListener('subscriptionUpdated', fetchItems);
+    return () => window.removeEventListener('subscriptionUpdated', fetchItems);
+  }, []);
+
+  const handleReview = async (item: PendingReview, verdict: FeedbackVerdict) => {
+    setPendingId(item.subscriptionId);
+    try {
+      const response = await fetch('/api/subscriptions/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subscriptionId: item.subscriptionId, verdict }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to review subscription');
+      }
+
+      setItems((prev) => prev.filter((other) => other.subscriptionId !== item.subscriptionId));
+      toast.success(VERDICT_MESSAGES[verdict]);
+      window.dispatchEvent(new CustomEvent('subscriptionUpdated'));
+    } catch (error) {
+      console.error('Error reviewing detected subscription:', error);
+      toast.error('Unable to update subscription right now. Please try again.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-2xl border border-[#60a5fa]/30 bg-[#0d182d] p-6 shadow-[0_20px_45px_-35px_rgba(96,165,250,0.3)]">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Review detected subscriptions</h2>
+          <p className="text-xs text-slate-400">
+            We found these in your transactions. Confirm the ones that are real subscriptions; rejected ones
+            won&apos;t be suggested again.
+          </p>
+        </div>
+        <span className="rounded-full bg-[#60a5fa]/20 px-3 py-1 text-xs font-semibold text-[#60a5fa]">
+          {items.length} to review
+        </span>
+      </div>
+      <div className="space-y-3">
+        {items.map((item) => {
+          const isPending = pendingId === item.subscriptionId;
+
+          return (
+            <div
+              key={item.subscriptionId}
+              className="flex flex-col gap-3 rounded-lg border border-[#1b2740] bg-[#101b30] p-4 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div>
+                <p className="text-sm font-semibold text-white">
+                  {item.name} · {formatCurrency(item.amount, item.currency)}{' '}
+                  <span className="font-normal text-slate-400">{getBillingIntervalLabel(item.interval)}</span>
+                </p>
+                <p className="mt-1 text-xs text-slate-400">
+                  {item.status === 'trial' ? 'Free trial' : 'Recurring charge'}
+                  {item.merchant && item.merchant !== item.name ? ` from ${item.merchant}` : ''}
+                  {item.confidenceScore !== null ? ` · ${Math.round(item.confidenceScore * 100)}% confidence` : ''}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleReview(item, 'confirmed')}
+                  disabled={isPending}
+                  className="rounded-lg bg-[#ff8b3d] px-3 py-1.5 text-xs font-semibold text-[#050d1a] transition hover:bg-[#ffa15c] disabled:opacity-60"
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={() => handleReview(item, 'rejected')}
+                  disabled={isPending}
+                  className="rounded-lg border border-[#334155] px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-[#475569] disabled:opacity-60"
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -1,47 +1,61 @@
 import { useState } from 'react';
 import { DetectedSubscription } from '@/lib/subscriptionDetection';
+import { getBillingIntervalLabel, toMonthlyAmount, toYearlyAmount } from '@/lib/billingInterval';
+import { formatCurrency } from '@/lib/formatting';
+
+export type DuplicateCandidate = DetectedSubscription & {
+  id: string;
+  currency?: string | null;
+  convertedAmount?: number | null; // amount in the user's base currency (null without an exchange rate)
+};
 
 interface DuplicateDetectorProps {
-  subscriptions: DetectedSubscription[];
-  onResolveDuplicate: (subscriptionId: string, action: 'keep' | 'cancel' | 'merge') => void;
+  subscriptions: DuplicateCandidate[];
+  baseCurrency?: string;
+  // The first ID is the subscription to keep; merging moves the others' charges into it
+  onResolveDuplicate: (subscriptionIds: string[], action: 'keep' | 'cancel' | 'merge') => void;
 }
 
 interface DuplicateGroup {
   id: string;
-  subscriptions: DetectedSubscription[];
+  subscriptions: DuplicateCandidate[];
   similarityScore: number;
   confidence: 'high' | 'medium' | 'low';
   suggestedAction: 'merge' | 'cancel_one' | 'review';
-  potentialSavings: number;
+  potentialSavings: number; // Per month, in the base currency
+  potentialYearlySavings: number;
 }
 
-export default function DuplicateDetector({ subscriptions, onResolveDuplicate }: DuplicateDetectorProps) {
+const baseAmount = (sub: DuplicateCandidate) => (sub.convertedAmount === null ? 0 : sub.convertedAmount ?? sub.amount);
+
+export default function DuplicateDetector({ subscriptions, baseCurrency = 'USD', onResolveDuplicate }: DuplicateDetectorProps) {
   const [selectedGroup, setSelectedGroup] = useState<DuplicateGroup | null>(null);
   const [showDetails, setShowDetails] = useState(false);
 
   // Advanced duplicate detection using multiple algorithms
-  const detectDuplicates = (subs: DetectedSubscription[]): DuplicateGroup[] => {
+  const detectDuplicates = (subs: DuplicateCandidate[]): DuplicateGroup[] => {
     const groups: DuplicateGroup[] = [];
     const processed = new Set<string>();
 
     for (let i = 0; i < subs.length; i++) {
-      if (processed.has(subs[i].merchant)) continue;
+      if (processed.has(subs[i].id)) continue;
 
       const similarSubs = [subs[i]];
-      processed.add(subs[i].merchant);
+      processed.add(subs[i].id);
 
       for (let j = i + 1; j < subs.length; j++) {
-        if (processed.has(subs[j].merchant)) continue;
+        if (processed.has(subs[j].id)) continue;
 
         const similarity = calculateAdvancedSimilarity(subs[i], subs[j]);
         if (similarity > 0.7) { // 70% similarity threshold
           similarSubs.push(subs[j]);
-          processed.add(subs[j].merchant);
+          processed.add(subs[j].id);
         }
       }
 
       if (similarSubs.length > 1) {
-        const totalAmount = similarSubs.reduce((sum, sub) => sum + sub.amount, 0);
+        // Keep one, cancel the others; amounts without an exchange rate are left out
+        const cancelled = similarSubs.slice(1);
         const avgSimilarity = similarSubs.reduce((sum, sub, idx) => {
           if (idx === 0) return sum;
           return sum + calculateAdvancedSimilarity(similarSubs[0], sub);
@@ -53,7 +67,8 @@ export default function DuplicateDetector({ subscriptions, onResolveDuplicate }:
           similarityScore: avgSimilarity,
           confidence: avgSimilarity > 0.9 ? 'high' : avgSimilarity > 0.8 ? 'medium' : 'low',
           suggestedAction: avgSimilarity > 0.9 ? 'merge' : avgSimilarity > 0.8 ? 'cancel_one' : 'review',
-          potentialSavings: totalAmount - similarSubs[0].amount // Keep one, cancel others
+          potentialSavings: cancelled.reduce((sum, sub) => sum + toMonthlyAmount(baseAmount(sub), sub.interval), 0),
+          potentialYearlySavings: cancelled.reduce((sum, sub) => sum + toYearlyAmount(baseAmount(sub), sub.interval), 0),
         });
       }
     }
@@ -139,13 +154,6 @@ export default function DuplicateDetector({ subscriptions, onResolveDuplicate }:
 
   const duplicateGroups = detectDuplicates(subscriptions);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
-  };
-
   const getConfidenceColor = (confidence: string) => {
     switch (confidence) {
       case 'high': return 'text-green-600 bg-green-50 border-green-200';
@@ -193,7 +201,7 @@ export default function DuplicateDetector({ subscriptions, onResolveDuplicate }:
             </div>
             <div className="text-center">
               <p className="text-2xl font-bold text-green-600">
-                {formatCurrency(duplicateGroups.reduce((sum, group) => sum + group.potentialSavings, 0))}
+                {formatCurrency(duplicateGroups.reduce((sum, group) => sum + group.potentialSavings, 0), baseCurrency)}
               </p>
               <p className="text-sm text-gray-600">Potential Savings</p>
             </div>
@@ -226,7 +234,7 @@ export default function DuplicateDetector({ subscriptions, onResolveDuplicate }:
                 
                 <div className="flex items-center gap-4 text-sm text-gray-600">
                   <span>Similarity: {(group.similarityScore * 100).toFixed(1)}%</span>
-                  <span>Potential Savings: {formatCurrency(group.potentialSavings)}/month</span>
+                  <span>Potential Savings: {formatCurrency(group.potentialSavings, baseCurrency)}/month</span>
                   <span>Category: {group.subscriptions[0].category}</span>
                 </div>
               </div>
@@ -245,7 +253,7 @@ export default function DuplicateDetector({ subscriptions, onResolveDuplicate }:
             {/* Subscription List */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {group.subscriptions.map((subscription, index) => (
-                <div key={index} className="p-4 border border-gray-200 rounded-lg">
+                <div key={subscription.id} className="p-4 border border-gray-200 rounded-lg">
                   <div className="flex items-center justify-between mb-2">
                     <h4 className="font-medium text-gray-900">{subscription.merchant}</h4>
                     <span className="text-sm text-gray-500">#{index + 1}</span>
@@ -254,11 +262,11 @@ export default function DuplicateDetector({ subscriptions, onResolveDuplicate }:
                   <div className="space-y-1 text-sm">
                     <div className="flex justify-between">
                       <span className="text-gray-600">Price:</span>
-                      <span className="font-medium text-gray-900">{formatCurrency(subscription.amount)}</span>
+                      <span className="font-medium text-gray-900">{formatCurrency(subscription.amount, subscription.currency || baseCurrency)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Interval:</span>
-                      <span className="font-medium text-gray-900 capitalize">{subscription.interval}</span>
+                      <span className="font-medium text-gray-900">{getBillingIntervalLabel(subscription.interval)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Usage:</span>
@@ -295,19 +303,19 @@ export default function DuplicateDetector({ subscriptions, onResolveDuplicate }:
                 
                 <div className="flex gap-2">
                   <button
-                    onClick={() => onResolveDuplicate(group.subscriptions[0].merchant, 'keep')}
+                    onClick={() => onResolveDuplicate(group.subscriptions.map((sub) => sub.id), 'keep')}
                     className="px-3 py-1.5 bg-green-100 text-green-700 rounded hover:bg-green-200 transition-colors text-sm"
                   >
                     Keep All
                   </button>
                   <button
-                    onClick={() => onResolveDuplicate(group.subscriptions[0].merchant, 'cancel')}
+                    onClick={() => onResolveDuplicate(group.subscriptions.map((sub) => sub.id), 'cancel')}
                     className="px-3 py-1.5 bg-red-100 text-red-700 rounded hover:bg-red-200 transition-colors text-sm"
                   >
                     Cancel Duplicates
                   </button>
                   <button
-                    onClick={() => onResolveDuplicate(group.subscriptions[0].merchant, 'merge')}
+                    onClick={() => onResolveDuplicate(group.subscriptions.map((sub) => sub.id), 'merge')}
                     className="px-3 py-1.5 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 transition-colors text-sm"
                   >
                     Merge Accounts
@@ -399,8 +407,8 @@ export default function DuplicateDetector({ subscriptions, onResolveDuplicate }:
                   </p>
                   
                   <div className="text-sm text-gray-600">
-                    <p><strong>Potential Monthly Savings:</strong> {formatCurrency(selectedGroup.potentialSavings)}</p>
-                    <p><strong>Annual Impact:</strong> {formatCurrency(selectedGroup.potentialSavings * 12)}</p>
+                    <p><strong>Potential Monthly Savings:</strong> {formatCurrency(selectedGroup.potentialSavings, baseCurrency)}</p>
+                    <p><strong>Annual Impact:</strong> {formatCurrency(selectedGroup.potentialYearlySavings, baseCurrency)}</p>
                   </div>
                 </div>
               </div>
@@ -415,7 +423,7 @@ export default function DuplicateDetector({ subscriptions, onResolveDuplicate }:
                 </button>
                 <button
                   onClick={() => {
-                    onResolveDuplicate(selectedGroup.subscriptions[0].merchant, 'cancel');
+                    onResolveDuplicate(selectedGroup.subscriptions.map((sub) => sub.id), 'cancel');
                     setShowDetails(false);
                   }}
                   className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
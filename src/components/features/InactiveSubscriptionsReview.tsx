@@ -0,0 +1,136 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { formatCurrency } from '@/lib/formatting';
+import type { InactiveSubscription } from '@/lib/silentCancellation';
+
+type ReviewStatus = 'cancelled' | 'paused' | 'active';
+
+const STATUS_MESSAGES: Record<ReviewStatus, string> = {
+  cancelled: 'Marked as cancelled',
+  paused: 'Marked as paused',
+  active: "Got it, we'll keep tracking it",
+};
+
+export default function InactiveSubscriptionsReview() {
+  const [items, setItems] = useState<InactiveSubscription[]>([]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchItems = async () => {
+    try {
+      const response = await fetch('/api/subscriptions/inactive');
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.inactive || []);
+      }
+    } catch (error) {
+      console.error('Error fetching inactive subscriptions:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchItems();
+    window.addEventListener('subscriptionUpdated', fetchItems);
+    return () => window.removeEventListener('subscriptionUpdated', fetchItems);
+  }, []);
+
+  const handleResolve = async (item: InactiveSubscription, status: ReviewStatus) => {
+    setPendingId(item.subscriptionId);
+    try {
+      const response = await fetch('/api/subscriptions/inactive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ subscriptionId: item.subscriptionId, status }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update subscription');
+      }
+
+      setItems((prev) => prev.filter((other) => other.subscriptionId !== item.subscriptionId));
+      toast.success(STATUS_MESSAGES[status]);
+      window.dispatchEvent(new CustomEvent('subscriptionUpdated'));
+    } catch (error) {
+      console.error('Error resolving inactive subscription:', error);
+      toast.error('Unable to update subscription right now. Please try again.');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <section className="rounded-2xl border border-[#fb7185]/30 bg-[#1f1317] p-6 shadow-[0_20px_45px_-35px_rgba(251,113,133,0.3)]">
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-white">Charges that stopped</h2>
+        <p className="text-xs text-slate-400">
+          These subscriptions usually charge you regularly but haven&apos;t lately. They may have been
+          cancelled elsewhere, or moved to a new card.
+        </p>
+      </div>
+      <div className="space-y-3">
+        {items.map((item) => {
+          const isPending = pendingId === item.subscriptionId;
+          const suggestCancel = item.suggestedStatus === 'cancelled';
+
+          return (
+            <div
+              key={item.subscriptionId}
+              className="flex flex-col gap-3 rounded-lg border border-[#fb7185]/20 bg-[#170e12] p-4 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div>
+                <p className="text-sm font-semibold text-white">
+                  {item.name} · {formatCurrency(item.amount, item.currency)}
+                </p>
+                <p className="mt-1 text-xs text-slate-400">
+                  Last charged {formatDate(item.lastChargeDate)}. Expected around{' '}
+                  {formatDate(item.expectedChargeDate)}
+                  {item.missedCharges > 1 ? ` (${item.missedCharges} charges missed)` : ''}.
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleResolve(item, 'cancelled')}
+                  disabled={isPending}
+                  className={`rounded-lg px-3 py-1.5 text-xs font-semibold transition disabled:opacity-60 ${
+                    suggestCancel
+                      ? 'bg-[#ff8b3d] text-[#050d1a] hover:bg-[#ffa15c]'
+                      : 'border border-[#334155] text-slate-200 hover:border-[#475569]'
+                  }`}
+                >
+                  Mark cancelled
+                </button>
+                <button
+                  onClick={() => handleResolve(item, 'paused')}
+                  disabled={isPending}
+                  className={`rounded-lg px-3 py-1.5 text-xs font-semibold transition disabled:opacity-60 ${
+                    suggestCancel
+                      ? 'border border-[#334155] text-slate-200 hover:border-[#475569]'
+                      : 'bg-[#ff8b3d] text-[#050d1a] hover:bg-[#ffa15c]'
+                  }`}
+                >
+                  Mark paused
+                </button>
+                <button
+                  onClick={() => handleResolve(item, 'active')}
+                  disabled={isPending}
+                  className="rounded-lg px-3 py-1.5 text-xs font-semibold text-slate-400 transition hover:text-white disabled:opacity-60"
+                >
+                  Still active
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+
+export interface KnownMerchant {
+  id: string;
+  name: string;
+  displayName: string;
+  category: string;
+  logoUrl: string | null;
+  website: string | null;
+  keywords: string[];
+  countries: string[];
+  currency: string[];
+  typicalAmounts: Record<string, number>;
+  billingCycles: string[];
+  trialDays: number | null;
+  isActive: boolean;
+  matchCount: number;
+}
+
+// Fields a new merchant starts with, e.g. from an unmatched merchant
+export type KnownMerchantDraft = Partial<Omit<KnownMerchant, 'id' | 'isActive' | 'matchCount'>>;
+
+interface KnownMerchantEditorProps {
+  merchant?: KnownMerchant | null; // Edits this merchant; creates one otherwise
+  draft?: KnownMerchantDraft | null;
+  categories: string[];
+  onSaved: (merchant: KnownMerchant) => void;
+  onCancel: () => void;
+}
+
+const BILLING_CYCLES = ['weekly', 'bi-weekly', 'monthly', 'quarterly', 'semiannual', 'yearly'];
+
+const inputClassName =
+  'w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-[#ff8b3d] focus:outline-none focus:ring-1 focus:ring-[#ff8b3d]';
+const labelClassName = 'text-xs font-semibold uppercase tracking-wide text-slate-400';
+
+const splitList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// "USD 15.49, GBP 10.99" <-> { USD: 15.49, GBP: 10.99 }
+const formatAmounts = (amounts: Record<string, number> = {}) =>
+  Object.entries(amounts)
+    .map(([currency, amount]) => `${currency} ${amount}`)
+    .join(', ');
+
+function parseAmounts(value: string): Record<string, number> | null {
+  const amounts: Record<string, number> = {};
+  for (const entry of splitList(value)) {
+    const match = entry.match(/^([A-Za-z]{3})\s*([\d.]+)$/);
+    if (!match || !Number.isFinite(parseFloat(match[2]))) {
+      return null;
+    }
+    amounts[match[1].toUpperCase()] = parseFloat(match[2]);
+  }
+  return amounts;
+}
+
+export default function KnownMerchantEditor({ merchant, draft, categories, onSaved, onCancel }: KnownMerchantEditorProps) {
+  const source = merchant || draft || {};
+  // The parent remounts the editor (via key) when it switches merchant or draft
+  const [name, setName] = useState(source.name || '');
+  const [displayName, setDisplayName] = useState(source.displayName || source.name || '');
+  const [category, setCategory] = useState(source.category || '');
+  const [website, setWebsite] = useState(source.website || '');
+  const [keywords, setKeywords] = useState((source.keywords || []).join(', '));
+  const [countries, setCountries] = useState((source.countries || []).join(', '));
+  const [currencies, setCurrencies] = useState((source.currency || []).join(', '));
+  const [amounts, setAmounts] = useState(formatAmounts(source.typicalAmounts));
+  const [billingCycles, setBillingCycles] = useState<string[]>(
+    source.billingCycles?.length ? source.billingCycles : ['monthly']
+  );
+  const [trialDays, setTrialDays] = useState(source.trialDays != null ? String(source.trialDays) : '');
+  const [saving, setSaving] = useState(false);
+
+  const toggleBillingCycle = (cycle: string) => {
+    setBillingCycles((prev) => (prev.includes(cycle) ? prev.filter((item) => item !== cycle) : [...prev, cycle]));
+  };
+
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const typicalAmounts = parseAmounts(amounts);
+    if (!typicalAmounts) {
+      toast.error('Typical amounts look like "USD 15.49, GBP 10.99"');
+      return;
+    }
+
+    const body = {
+      ...(merchant ? {} : { name }),
+      displayName,
+      category,
+      website: website || null,
+      keywords: splitList(keywords),
+      countries: splitList(countries),
+      currency: splitList(currencies),
+      typicalAmounts,
+      billingCycles,
+      trialDays: trialDays ? parseInt(trialDays, 10) : null,
+    };
+
+    setSaving(true);
+    try {
+      const response = await fetch(merchant ? `/api/admin/known-merchants/${merchant.id}` : '/api/admin/known-merchants', {
+        method: merchant ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save merchant');
+      }
+
+      toast.success(merchant ? `${data.merchant.displayName} updated` : `${data.merchant.displayName} added to the catalog`);
+      onSaved(data.merchant);
+    } catch (error) {
+      console.error('Error saving known merchant:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save merchant');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-[#ff8b3d]/30 bg-[#0d182d] p-6 shadow-[0_20px_45px_-35px_rgba(12,25,46,0.9)]">
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-white">
+          {merchant ? `Edit ${merchant.displayName}` : 'Add a known merchant'}
+        </h2>
+        <p className="text-xs text-slate-400">
+          Keywords are matched against normalized merchant names: exactly, as part of the name, or with small typos.
+          Changes apply to the next transactions matched.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <label className={labelClassName} htmlFor="merchant-name">
+            Name
+          </label>
+          <input
+            id="merchant-name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            disabled={Boolean(merchant)}
+            placeholder="Netflix"
+            required
+            className={`${inputClassName} disabled:opacity-60`}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClassName} htmlFor="merchant-display-name">
+            Display name
+          </label>
+          <input
+            id="merchant-display-name"
+            value={displayName}
+            onChange={(event) => setDisplayName(event.target.value)}
+            placeholder="Netflix"
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClassName} htmlFor="merchant-category">
+            Category
+          </label>
+          <input
+            id="merchant-category"
+            value={category}
+            onChange={(event) => setCategory(event.target.value)}
+            list="merchant-categories"
+            placeholder="Streaming"
+            required
+            className={inputClassName}
+          />
+          <datalist id="merchant-categories">
+            {categories.map((item) => (
+              <option key={item} value={item} />
+            ))}
+          </datalist>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClassName} htmlFor="merchant-website">
+            Website
+          </label>
+          <input
+            id="merchant-website"
+            type="url"
+            value={website}
+            onChange={(event) => setWebsite(event.target.value)}
+            placeholder="https://netflix.com"
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <label className={labelClassName} htmlFor="merchant-keywords">
+            Keywords (comma separated)
+          </label>
+          <input
+            id="merchant-keywords"
+            value={keywords}
+            onChange={(event) => setKeywords(event.target.value)}
+            placeholder="netflix, nflx, netflix.com"
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClassName} htmlFor="merchant-countries">
+            Countries
+          </label>
+          <input
+            id="merchant-countries"
+            value={countries}
+            onChange={(event) => setCountries(event.target.value)}
+            placeholder="US, UK"
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClassName} htmlFor="merchant-currencies">
+            Currencies
+          </label>
+          <input
+            id="merchant-currencies"
+            value={currencies}
+            onChange={(event) => setCurrencies(event.target.value)}
+            placeholder="USD, GBP"
+            required
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClassName} htmlFor="merchant-amounts">
+            Typical amounts
+          </label>
+          <input
+            id="merchant-amounts"
+            value={amounts}
+            onChange={(event) => setAmounts(event.target.value)}
+            placeholder="USD 15.49, GBP 10.99"
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClassName} htmlFor="merchant-trial-days">
+            Free trial (days)
+          </label>
+          <input
+            id="merchant-trial-days"
+            type="number"
+            min={0}
+            max={365}
+            value={trialDays}
+            onChange={(event) => setTrialDays(event.target.value)}
+            placeholder="None"
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2 sm:col-span-2">
+          <span className={labelClassName}>Billing cycles</span>
+          <div className="flex flex-wrap gap-3">
+            {BILLING_CYCLES.map((cycle) => (
+              <label key={cycle} className="flex items-center gap-2 text-xs font-semibold text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={billingCycles.includes(cycle)}
+                  onChange={() => toggleBillingCycle(cycle)}
+                />
+                {cycle}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-3 sm:col-span-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="rounded-lg bg-[#ff8b3d] px-4 py-2 text-sm font-semibold text-[#050d1a] transition hover:bg-[#ffa15c] disabled:opacity-60"
+          >
+            {saving ? 'Saving...' : merchant ? 'Save changes' : 'Add merchant'}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-lg border border-[#334155] px-4 py-2 text-sm font-semibold text-slate-200 transition hover:border-[#475569]"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+
+interface MerchantAlias {
+  id: string;
+  pattern: string;
+  alias: string;
+  matchingTransactions: number;
+}
+
+interface MerchantAliasManagerProps {
+  descriptor?: string; // Prefills the form, e.g. from a transaction's "Alias" button
+}
+
+export default function MerchantAliasManager({ descriptor }: MerchantAliasManagerProps) {
+  const [aliases, setAliases] = useState<MerchantAlias[]>([]);
+  const [pattern, setPattern] = useState('');
+  const [alias, setAlias] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchAliases = async () => {
+    try {
+      const response = await fetch('/api/transactions/aliases');
+      if (response.ok) {
+        const data = await response.json();
+        setAliases(data.aliases || []);
+      }
+    } catch (error) {
+      console.error('Error fetching merchant aliases:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchAliases();
+  }, []);
+
+  useEffect(() => {
+    if (descriptor) {
+      setPattern(descriptor);
+    }
+  }, [descriptor]);
+
+  const handleSave = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch('/api/transactions/aliases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pattern, alias }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save alias');
+      }
+
+      setPattern('');
+      setAlias('');
+      toast.success('Alias saved. It applies the next time subscriptions are detected.');
+      fetchAliases();
+    } catch (error) {
+      console.error('Error saving merchant alias:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save alias');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/transactions/aliases/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete alias');
+      }
+      setAliases((prev) => prev.filter((item) => item.id !== id));
+    } catch (error) {
+      console.error('Error deleting merchant alias:', error);
+      toast.error('Unable to delete alias right now. Please try again.');
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-[#1b2740] bg-[#0d182d] p-6 shadow-[0_20px_45px_-35px_rgba(12,25,46,0.9)]">
+      <div className="mb-4">
+        <h2 className="text-lg font-semibold text-white">Merchant aliases</h2>
+        <p className="text-xs text-slate-400">
+          Group charges with odd bank descriptors under one merchant. Any transaction whose description contains the
+          descriptor is treated as that merchant when detecting subscriptions.
+        </p>
+      </div>
+
+      <form onSubmit={handleSave} className="flex flex-col gap-3 sm:flex-row sm:items-end">
+        <div className="flex-1 space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="alias-pattern">
+            Bank descriptor
+          </label>
+          <input
+            id="alias-pattern"
+            value={pattern}
+            onChange={(event) => setPattern(event.target.value)}
+            placeholder="SP * ACME DIGITAL"
+            required
+            className="w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-[#ff8b3d] focus:outline-none focus:ring-1 focus:ring-[#ff8b3d]"
+          />
+        </div>
+        <div className="flex-1 space-y-2">
+          <label className="text-xs font-semibold uppercase tracking-wide text-slate-400" htmlFor="alias-name">
+            Merchant
+          </label>
+          <input
+            id="alias-name"
+            value={alias}
+            onChange={(event) => setAlias(event.target.value)}
+            placeholder="Acme"
+            required
+            className="w-full rounded-lg border border-[#243352] bg-[#101b30] px-3 py-2 text-sm text-white placeholder:text-slate-500 focus:border-[#ff8b3d] focus:outline-none focus:ring-1 focus:ring-[#ff8b3d]"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-[#ff8b3d] px-4 py-2 text-sm font-semibold text-[#050d1a] transition hover:bg-[#ffa15c] disabled:opacity-60"
+        >
+          {saving ? 'Saving...' : 'Add alias'}
+        </button>
+      </form>
+
+      {aliases.length > 0 && (
+        <ul className="mt-4 divide-y divide-[#1b2740]">
+          {aliases.map((item) => (
+            <li key={item.id} className="flex items-center justify-between py-2 text-sm">
+              <span className="text-slate-300">
+                <span className="font-mono text-xs text-slate-400">{item.pattern}</span> → {item.alias}
+                <span className="ml-2 text-xs text-slate-500">
+                  {item.matchingTransactions} {item.matchingTransactions === 1 ? 'transaction' : 'transactions'}
+                </span>
+              </span>
+              <button
+                onClick={() => handleDelete(item.id)}
+                className="text-xs font-semibold text-slate-400 transition hover:text-[#fb7185]"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
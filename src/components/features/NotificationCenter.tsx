@@ -1,19 +1,79 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Notification, getNotificationCounts } from '@/lib/notifications';
 
-interface NotificationCenterProps {
-  notifications: Notification[];
-  onMarkAsRead: (notificationId: string) => void;
-  onDismiss: (notificationId: string) => void;
-}
+const SNOOZE_HOURS = 24;
 
-export default function NotificationCenter({ 
-  notifications, 
-  onMarkAsRead, 
-  onDismiss 
-}: NotificationCenterProps) {
+export default function NotificationCenter() {
   const [isOpen, setIsOpen] = useState(false);
   const [filter, setFilter] = useState<'all' | 'unread' | 'critical' | 'high'>('all');
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications || []);
+      }
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const updateNotification = async (notificationId: string, body: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/notifications/${notificationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to update notification');
+      }
+    } catch (error) {
+      console.error('Error updating notification:', error);
+      // Re-sync with the server so the UI doesn't drift from stored state
+      fetchNotifications();
+    }
+  };
+
+  const onMarkAsRead = (notificationId: string) => {
+    setNotifications(prev => prev.map(n =>
+      n.id === notificationId ? { ...n, isRead: true } : n
+    ));
+    updateNotification(notificationId, { action: 'read' });
+  };
+
+  const onDismiss = (notificationId: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== notificationId));
+    updateNotification(notificationId, { action: 'dismiss' });
+  };
+
+  const onSnooze = (notificationId: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== notificationId));
+    updateNotification(notificationId, { action: 'snooze', snoozeHours: SNOOZE_HOURS });
+  };
+
+  const onMarkAllAsRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'read' }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to mark notifications as read');
+      }
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      fetchNotifications();
+    }
+  };
 
   const counts = getNotificationCounts(notifications);
   const unreadCount = counts.unread;
@@ -233,6 +293,16 @@ export default function NotificationCenter({
                             </button>
                           )}
                           
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onSnooze(notification.id);
+                            }}
+                            className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                          >
+                            Snooze 1 day
+                          </button>
+
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -261,7 +331,7 @@ export default function NotificationCenter({
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    filteredNotifications.filter(n => !n.isRead).forEach(n => onMarkAsRead(n.id));
+                    onMarkAllAsRead();
                   }}
                   className="text-xs text-blue-600 hover:text-blue-800 transition-colors font-medium"
                 >
@@ -1,25 +1,64 @@
 'use client';
 
 import { DetectedSubscription, SUBSCRIPTION_CATEGORIES } from '@/lib/subscriptionDetection';
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import MarkAsCancelledDialog from '@/components/MarkAsCancelledDialog';
 import toast from 'react-hot-toast';
+import { getBillingIntervalLabel } from '@/lib/billingInterval';
+
+interface PriceTimeline {
+  priceHistory: Array<{ date: string; amount: number; change?: number }>;
+  summary: {
+    initialAmount: number;
+    currentAmount: number;
+    totalChange: number;
+    percentChange: number;
+    since: string;
+    changeCount: number;
+  } | null;
+}
+
+export type CardSubscription = DetectedSubscription & {
+  id?: string;
+  status?: string;
+  currency?: string | null;
+  convertedAmount?: number | null; // amount in the user's base currency (null without an exchange rate)
+  missedChargeAt?: string | null; // expected charge that never posted
+  trialStartDate?: string | null; // set while status is 'trial'
+};
 
 interface SubscriptionCardProps {
-  subscription: DetectedSubscription & {
-    id?: string;
-    status?: string;
-  };
+  subscription: CardSubscription;
+  baseCurrency?: string;
 }
 
-export default function SubscriptionCard({ subscription }: SubscriptionCardProps) {
+export default function SubscriptionCard({ subscription, baseCurrency }: SubscriptionCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isMarking, setIsMarking] = useState(false);
   const [localStatus, setLocalStatus] = useState(subscription.status || 'active');
+  const [priceTimeline, setPriceTimeline] = useState<PriceTimeline | null>(null);
   const router = useRouter();
 
+  // Load the stored price history the first time details are expanded
+  useEffect(() => {
+    if (!isExpanded || !subscription.id || priceTimeline) return;
+
+    const loadPriceHistory = async () => {
+      try {
+        const response = await fetch(`/api/subscriptions/${subscription.id}/price-history`);
+        if (response.ok) {
+          const data = await response.json();
+          setPriceTimeline({ priceHistory: data.priceHistory, summary: data.summary });
+        }
+      } catch (error) {
+        console.error('Error loading price history:', error);
+      }
+    };
+    loadPriceHistory();
+  }, [isExpanded, subscription.id, priceTimeline]);
+
   // Use a consistent date format to avoid hydration errors
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -70,19 +109,33 @@ export default function SubscriptionCard({ subscription }: SubscriptionCardProps
 
   const daysUntil = getDaysUntilRenewal(subscription.nextRenewal);
   const isCancelled = localStatus === 'cancelled';
+  const isTrial = localStatus === 'trial';
   const status = isCancelled
     ? { color: 'text-slate-400', bg: 'bg-[#1b2740]/50', border: 'border-[#1b2740]/50', text: 'Cancelled' }
-    : getRenewalStatus(daysUntil);
+    : isTrial
+      ? { color: 'text-[#60a5fa]', bg: 'bg-[#131f37]', border: 'border-[#60a5fa]/30', text: 'Free Trial' }
+      : getRenewalStatus(daysUntil);
   const categoryInfo = getCategoryInfo(subscription.category);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: subscription.currency || 'USD',
     }).format(amount);
   };
 
+  // Show the amount in the user's base currency too when it's billed in another one
+  const showConvertedAmount = Boolean(
+    baseCurrency &&
+    subscription.currency &&
+    subscription.currency !== baseCurrency &&
+    subscription.convertedAmount !== undefined &&
+    subscription.convertedAmount !== null
+  );
+
   const hasSubscriptionId = Boolean(subscription.id);
+  const priceHistory = priceTimeline?.priceHistory ?? subscription.priceHistory ?? [];
+  const priceSummary = priceTimeline?.summary ?? null;
 
   const handleNavigateToGuide = () => {
     if (!hasSubscriptionId) return;
@@ -153,7 +206,9 @@ export default function SubscriptionCard({ subscription }: SubscriptionCardProps
                 {status.text}
               </span>
               <span className="text-sm text-slate-400">
-                {daysUntil > 0 ? `${daysUntil} days until renewal` : 'Renews today'}
+                {isTrial
+                  ? daysUntil > 0 ? `${daysUntil} days until trial ends` : 'Trial ends today'
+                  : daysUntil > 0 ? `${daysUntil} days until renewal` : 'Renews today'}
               </span>
             </div>
             <div className="flex items-center gap-2 text-slate-300">
@@ -167,22 +222,42 @@ export default function SubscriptionCard({ subscription }: SubscriptionCardProps
           </div>
           <div className="text-right text-slate-300">
             <p className="text-2xl font-bold text-white">{formatCurrency(subscription.amount)}</p>
-            <p className="text-sm capitalize text-slate-400">{subscription.interval}</p>
+            {showConvertedAmount && (
+              <p className="text-xs text-slate-400">
+                ≈ {new Intl.NumberFormat('en-US', { style: 'currency', currency: baseCurrency }).format(subscription.convertedAmount!)}
+              </p>
+            )}
+            <p className="text-sm text-slate-400">{getBillingIntervalLabel(subscription.interval)}</p>
           </div>
         </div>
 
         {/* Quick Info */}
         <div className="grid grid-cols-2 gap-4 text-sm text-slate-300">
           <div>
-            <p className="text-xs uppercase tracking-wide text-slate-500">Last Payment</p>
-            <p className="mt-1 font-medium text-white">{formatDate(subscription.lastPayment)}</p>
+            <p className="text-xs uppercase tracking-wide text-slate-500">{isTrial ? 'Trial Started' : 'Last Payment'}</p>
+            <p className="mt-1 font-medium text-white">
+              {formatDate(isTrial && subscription.trialStartDate ? subscription.trialStartDate : subscription.lastPayment)}
+            </p>
           </div>
           <div>
-            <p className="text-xs uppercase tracking-wide text-slate-500">Next Renewal</p>
+            <p className="text-xs uppercase tracking-wide text-slate-500">{isTrial ? 'Trial Ends' : 'Next Renewal'}</p>
             <p className="mt-1 font-medium text-white">{formatDate(subscription.nextRenewal)}</p>
           </div>
         </div>
 
+        {/* Missed Charge Alert */}
+        {subscription.missedChargeAt && !isCancelled && (
+          <div className="mt-4 rounded-lg border border-[#fbbf24]/30 bg-[#2d2413] p-3 text-sm">
+            <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-[#fbbf24]">
+              <span>⚠️ Missed charge</span>
+            </div>
+            <p className="mt-2 text-slate-200">
+              We expected a charge around {formatDate(subscription.missedChargeAt)} but didn&apos;t see one.
+              It may have been cancelled, or billed to a different card.
+            </p>
+          </div>
+        )}
+
         {/* Savings Opportunity Alert */}
         {subscription.savingsOpportunity && (
           <div className="mt-4 rounded-lg border border-[#1e3a2b] bg-[#13251b] p-3 text-sm text-[#4ade80]">
@@ -232,7 +307,7 @@ export default function SubscriptionCard({ subscription }: SubscriptionCardProps
             )}
             <div className="flex items-center justify-between">
               <span className="text-xs uppercase tracking-wide text-slate-500">Billing Cycle</span>
-              <span className="text-white capitalize">{subscription.interval}</span>
+              <span className="text-white">{getBillingIntervalLabel(subscription.interval)}</span>
             </div>
             <div className="flex items-center justify-between">
               <span className="text-xs uppercase tracking-wide text-slate-500">Usage Frequency</span>
@@ -256,30 +331,56 @@ export default function SubscriptionCard({ subscription }: SubscriptionCardProps
             </div>
             
             {/* Price History */}
-            {subscription.priceHistory.length > 1 && (
+            {priceHistory.length > 1 && (
               <div className="mt-4">
-                <p className="mb-2 text-sm font-semibold text-white">Price History</p>
-                <div className="space-y-1 text-xs text-slate-300">
-                  {subscription.priceHistory.slice(-3).map((price, index) => (
-                    <div key={index} className="flex items-center justify-between">
-                      <span className="text-slate-500">{formatDate(price.date)}</span>
-                      <div className="flex items-center gap-2">
-                        <span className="text-white">{formatCurrency(price.amount)}</span>
-                        {price.change && (
-                          <span
-                            className={`rounded px-1.5 py-0.5 text-[10px] font-semibold ${
-                              price.change > 0
-                                ? 'bg-[#35171b] text-[#fb7185]'
-                                : 'bg-[#13261d] text-[#34d399]'
-                            }`}
-                          >
-                            {price.change > 0 ? '+' : ''}{formatCurrency(price.change)}
-                          </span>
-                        )}
+                <div className="mb-2 flex items-center justify-between">
+                  <p className="text-sm font-semibold text-white">Price History</p>
+                  {priceSummary && priceSummary.totalChange !== 0 && (
+                    <span
+                      className={`text-xs font-semibold ${
+                        priceSummary.totalChange > 0 ? 'text-[#fb7185]' : 'text-[#34d399]'
+                      }`}
+                    >
+                      {priceSummary.totalChange > 0 ? '+' : ''}{formatCurrency(priceSummary.totalChange)} ({priceSummary.percentChange > 0 ? '+' : ''}{priceSummary.percentChange}%) since {formatDate(priceSummary.since)}
+                    </span>
+                  )}
+                </div>
+                <ol className="relative ml-1 space-y-3 border-l border-[#1b2740] pl-4 text-xs text-slate-300">
+                  {[...priceHistory].reverse().map((price, index) => (
+                    <li key={`${price.date}-${index}`} className="relative">
+                      <span
+                        className={`absolute -left-[21px] top-1 h-2.5 w-2.5 rounded-full border-2 border-[#101b30] ${
+                          price.change === undefined
+                            ? 'bg-slate-500'
+                            : price.change > 0
+                            ? 'bg-[#fb7185]'
+                            : 'bg-[#34d399]'
+                        }`}
+                      />
+                      <div className="flex items-center justify-between">
+                        <span className="text-slate-500">{formatDate(price.date)}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-white">{formatCurrency(price.amount)}</span>
+                          {price.change !== undefined ? (
+                            <span
+                              className={`rounded px-1.5 py-0.5 text-[10px] font-semibold ${
+                                price.change > 0
+                                  ? 'bg-[#35171b] text-[#fb7185]'
+                                  : 'bg-[#13261d] text-[#34d399]'
+                              }`}
+                            >
+                              {price.change > 0 ? '+' : ''}{formatCurrency(price.change)}
+                            </span>
+                          ) : (
+                            <span className="rounded bg-[#17253d] px-1.5 py-0.5 text-[10px] font-semibold text-slate-300">
+                              First charge
+                            </span>
+                          )}
+                        </div>
                       </div>
-                    </div>
+                    </li>
                   ))}
-                </div>
+                </ol>
               </div>
             )}
 
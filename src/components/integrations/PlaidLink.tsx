@@ -2,16 +2,19 @@
 
 import { useState, useEffect } from 'react';
 import { usePlaidLink } from 'react-plaid-link';
+import type { RegionCode } from '@/lib/regions';
 
 interface PlaidLinkProps {
   onSuccess?: () => void;
-  country?: 'US' | 'UK'; // Optional country override
+  country?: RegionCode; // Optional country override
+  itemId?: string; // Repair this existing item with Link update mode instead of connecting a new one
 }
 
-export default function PlaidLink({ onSuccess, country }: PlaidLinkProps) {
+export default function PlaidLink({ onSuccess, country, itemId }: PlaidLinkProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [linkToken, setLinkToken] = useState<string | null>(null);
+  const [linkRegion, setLinkRegion] = useState<RegionCode | null>(null);
 
   const { open, ready } = usePlaidLink({
     token: linkToken,
@@ -20,19 +23,26 @@ export default function PlaidLink({ onSuccess, country }: PlaidLinkProps) {
       setError(null);
       
       try {
-        const response = await fetch('/api/plaid/exchange-token', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        body: JSON.stringify({
-          publicToken: public_token,
-        }),
-        });
+        // Update mode keeps the item's access token, so there is nothing to exchange;
+        // exchanging would create a new item and duplicate the accounts
+        const response = itemId
+          ? await fetch(`/api/plaid/items/${itemId}/repair`, { method: 'POST' })
+          : await fetch('/api/plaid/exchange-token', {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({
+                publicToken: public_token,
+                institutionName: metadata?.institution?.name,
+                // Exchange with the same regional credentials the link token was created with
+                ...(linkRegion && { country: linkRegion }),
+              }),
+            });
 
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || 'Failed to connect bank account');
+          throw new Error(errorData.error || (itemId ? 'Failed to repair bank connection' : 'Failed to connect bank account'));
         }
 
         const result = await response.json();
@@ -67,6 +77,7 @@ export default function PlaidLink({ onSuccess, country }: PlaidLinkProps) {
         },
         body: JSON.stringify({
           ...(country && { country }),
+          ...(itemId && { itemId }),
         }),
       });
 
@@ -83,6 +94,7 @@ export default function PlaidLink({ onSuccess, country }: PlaidLinkProps) {
       }
       
       setLinkToken(data.link_token);
+      setLinkRegion(data.region || null);
       setIsLoading(false); // Reset loading state after getting token
     } catch (err) {
       console.error('Plaid connection error:', err);
@@ -113,7 +125,7 @@ export default function PlaidLink({ onSuccess, country }: PlaidLinkProps) {
         <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
         </svg>
-        {isLoading ? 'Connecting...' : 'Connect Bank Account'}
+        {isLoading ? 'Connecting...' : itemId ? 'Reconnect' : 'Connect Bank Account'}
       </button>
       
       {error && (
@@ -1,4 +1,5 @@
 import React from 'react';
+import { getRegionForCurrency } from '@/lib/regions';
 
 interface NewSubscriptionDetectedProps {
   subscriptionName: string;
@@ -23,8 +24,9 @@ export function NewSubscriptionDetectedEmail({
   userName,
   dashboardUrl,
 }: NewSubscriptionDetectedProps) {
+  const locale = getRegionForCurrency(currency)?.locale || 'en-US';
   const formattedAmount = new Intl.NumberFormat(
-    currency === 'GBP' ? 'en-GB' : 'en-US',
+    locale,
     {
       style: 'currency',
       currency: currency,
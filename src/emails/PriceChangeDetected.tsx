@@ -1,4 +1,6 @@
 import React from 'react';
+import { getRegionForCurrency } from '@/lib/regions';
+import { toYearlyAmount } from '@/lib/billingInterval';
 
 interface PriceChangeDetectedProps {
   subscriptionName: string;
@@ -6,6 +8,7 @@ interface PriceChangeDetectedProps {
   oldAmount: number;
   newAmount: number;
   currency: string;
+  interval?: string | null;
   changePercentage: number;
   changeDate: string;
   userName?: string;
@@ -18,13 +21,15 @@ export function PriceChangeDetectedEmail({
   oldAmount,
   newAmount,
   currency,
+  interval,
   changePercentage,
   changeDate,
   userName,
   dashboardUrl,
 }: PriceChangeDetectedProps) {
+  const locale = getRegionForCurrency(currency)?.locale || 'en-US';
   const formattedOldAmount = new Intl.NumberFormat(
-    currency === 'GBP' ? 'en-GB' : 'en-US',
+    locale,
     {
       style: 'currency',
       currency: currency,
@@ -33,7 +38,7 @@ export function PriceChangeDetectedEmail({
   ).format(oldAmount);
 
   const formattedNewAmount = new Intl.NumberFormat(
-    currency === 'GBP' ? 'en-GB' : 'en-US',
+    locale,
     {
       style: 'currency',
       currency: currency,
@@ -43,7 +48,7 @@ export function PriceChangeDetectedEmail({
 
   const changeAmount = newAmount - oldAmount;
   const formattedChangeAmount = new Intl.NumberFormat(
-    currency === 'GBP' ? 'en-GB' : 'en-US',
+    locale,
     {
       style: 'currency',
       currency: currency,
@@ -52,10 +57,10 @@ export function PriceChangeDetectedEmail({
   ).format(Math.abs(changeAmount));
 
   const isIncrease = changeAmount > 0;
-  const annualImpact = changeAmount * 12;
+  const annualImpact = toYearlyAmount(changeAmount, interval);
 
   const formattedDate = new Date(changeDate).toLocaleDateString(
-    currency === 'GBP' ? 'en-GB' : 'en-US',
+    locale,
     {
       year: 'numeric',
       month: 'long',
@@ -101,7 +106,7 @@ export function PriceChangeDetectedEmail({
                 {' '}per billing cycle
               </p>
               <p style={{ margin: '5px 0 0 0', fontSize: '14px', color: isIncrease ? '#991b1b' : '#065f46' }}>
-                Annual impact: <strong>{isIncrease ? '+' : '-'}{new Intl.NumberFormat(currency === 'GBP' ? 'en-GB' : 'en-US', { style: 'currency', currency }).format(Math.abs(annualImpact))}</strong>
+                Annual impact: <strong>{isIncrease ? '+' : '-'}{new Intl.NumberFormat(locale, { style: 'currency', currency }).format(Math.abs(annualImpact))}</strong>
               </p>
             </div>
 
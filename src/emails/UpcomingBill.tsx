@@ -1,4 +1,5 @@
 import React from 'react';
+import { getRegionForCurrency } from '@/lib/regions';
 
 interface UpcomingBillProps {
   subscriptionName: string;
@@ -21,9 +22,10 @@ export function UpcomingBillEmail({
   userName,
   dashboardUrl,
 }: UpcomingBillProps) {
-  const currencySymbol = currency === 'GBP' ? '£' : '$';
+  const locale = getRegionForCurrency(currency)?.locale || 'en-US';
+  const currencySymbol = getRegionForCurrency(currency)?.currencySymbol || '$';
   const formattedAmount = new Intl.NumberFormat(
-    currency === 'GBP' ? 'en-GB' : 'en-US',
+    locale,
     {
       style: 'currency',
       currency: currency,
@@ -32,7 +34,7 @@ export function UpcomingBillEmail({
   ).format(amount);
 
   const formattedDate = new Date(renewalDate).toLocaleDateString(
-    currency === 'GBP' ? 'en-GB' : 'en-US',
+    locale,
     {
       year: 'numeric',
       month: 'long',
@@ -0,0 +1,229 @@
+/**
+ * Account Deletion
+ *
+ * Users request deletion, then have a short grace period to change their mind.
+ * Once the grace period ends, processDueAccountDeletions (daily cron) revokes
+ * every Plaid item, deletes the Clerk user, deletes all of the user's data and
+ * writes an AccountDeletionAudit record. An account that can't be fully
+ * deleted stays scheduled and is retried on the next run.
+ */
+
+import crypto from 'crypto';
+import { clerkClient } from '@clerk/nextjs/server';
+import { prisma } from './prisma';
+import { revokePlaidItem } from './plaidDisconnect';
+
+// Days between the request and the actual purge
+export const DELETION_GRACE_PERIOD_DAYS = 7;
+
+export interface DeletionStatus {
+  requestedAt: string | null;
+  scheduledFor: string | null;
+}
+
+export interface DeletionResult {
+  userId: string;
+  plaidItemsRevoked: number;
+  bankAccountsDeleted: number;
+  subscriptionsDeleted: number;
+  transactionsDeleted: number;
+}
+
+export interface DeletionRun {
+  deleted: DeletionResult[];
+  failed: string[]; // User IDs whose deletion is retried on the next run
+}
+
+function toDeletionStatus(user: { deletionRequestedAt: Date | null; deletionScheduledFor: Date | null }): DeletionStatus {
+  return {
+    requestedAt: user.deletionRequestedAt?.toISOString() ?? null,
+    scheduledFor: user.deletionScheduledFor?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Gets the pending deletion for a user, if any
+ */
+export async function getDeletionStatus(userId: string): Promise<DeletionStatus> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { deletionRequestedAt: true, deletionScheduledFor: true },
+  });
+
+  return toDeletionStatus(user || { deletionRequestedAt: null, deletionScheduledFor: null });
+}
+
+/**
+ * Schedules a user's account for deletion after the grace period
+ * Requesting again keeps the original schedule
+ *
+ * @param userId - User ID
+ * @returns The pending deletion
+ */
+export async function requestAccountDeletion(userId: string): Promise<DeletionStatus> {
+  const existing = await getDeletionStatus(userId);
+  if (existing.scheduledFor) {
+    return existing;
+  }
+
+  const now = new Date();
+  const scheduledFor = new Date(now);
+  scheduledFor.setDate(scheduledFor.getDate() + DELETION_GRACE_PERIOD_DAYS);
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      deletionRequestedAt: now,
+      deletionScheduledFor: scheduledFor,
+    },
+    select: { deletionRequestedAt: true, deletionScheduledFor: true },
+  });
+
+  console.log(`Account deletion requested for user ${userId}, scheduled for ${scheduledFor.toISOString()}`);
+
+  return toDeletionStatus(user);
+}
+
+/**
+ * Cancels a pending account deletion
+ *
+ * @param userId - User ID
+ * @returns true if a pending deletion was cancelled
+ */
+export async function cancelAccountDeletion(userId: string): Promise<boolean> {
+  const result = await prisma.user.updateMany({
+    where: { id: userId, deletionScheduledFor: { not: null } },
+    data: {
+      deletionRequestedAt: null,
+      deletionScheduledFor: null,
+    },
+  });
+
+  if (result.count > 0) {
+    console.log(`Account deletion cancelled for user ${userId}`);
+  }
+
+  return result.count > 0;
+}
+
+/**
+ * Permanently deletes a user's account
+ *
+ * 1. Revokes every Plaid item at Plaid
+ * 2. Deletes the Clerk user so they can no longer sign in
+ * 3. Deletes transactions, subscriptions and bank accounts, then the user
+ *    (notifications, preferences and price history cascade)
+ * 4. Writes an AccountDeletionAudit record
+ *
+ * Throws before deleting any data if a Plaid item can't be revoked or the
+ * Clerk user can't be deleted: the bank accounts hold the only copy of the
+ * access tokens, and a surviving Clerk user would be given a fresh account on
+ * their next sign-in. deletionScheduledFor stays set, so the next cron run
+ * retries; steps that already succeeded are safe to repeat.
+ *
+ * @param userId - User ID
+ * @returns What was deleted
+ */
+export async function deleteUserAccount(userId: string): Promise<DeletionResult> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, clerkId: true, email: true, deletionRequestedAt: true },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  // Revoke Plaid access first, while the encrypted tokens still exist
+  const items = await prisma.bankAccount.findMany({
+    where: { userId, plaidItemId: { not: null } },
+    distinct: ['plaidItemId'],
+    select: { plaidItemId: true },
+  });
+
+  const failedItems: string[] = [];
+  for (const item of items) {
+    try {
+      await revokePlaidItem(userId, item.plaidItemId!);
+    } catch (error) {
+      console.error(`Failed to revoke Plaid item ${item.plaidItemId} for user ${userId}:`, error);
+      failedItems.push(item.plaidItemId!);
+    }
+  }
+
+  if (failedItems.length > 0) {
+    throw new Error(`Could not revoke Plaid items ${failedItems.join(', ')}`);
+  }
+
+  try {
+    const client = await clerkClient();
+    await client.users.deleteUser(user.clerkId);
+  } catch (error: any) {
+    // A Clerk user that no longer exists counts as deleted (e.g. on a retry)
+    if (error?.status !== 404) {
+      console.error(`Failed to delete Clerk user for ${userId}:`, error);
+      throw new Error('Could not delete Clerk user');
+    }
+  }
+
+  const [transactions, subscriptions, bankAccounts] = await prisma.$transaction([
+    prisma.transaction.deleteMany({ where: { userId } }),
+    prisma.subscription.deleteMany({ where: { userId } }),
+    prisma.bankAccount.deleteMany({ where: { userId } }),
+    prisma.user.delete({ where: { id: userId } }),
+  ]);
+
+  const result: DeletionResult = {
+    userId,
+    plaidItemsRevoked: items.length,
+    bankAccountsDeleted: bankAccounts.count,
+    subscriptionsDeleted: subscriptions.count,
+    transactionsDeleted: transactions.count,
+  };
+
+  await prisma.accountDeletionAudit.create({
+    data: {
+      userId,
+      clerkId: user.clerkId,
+      emailHash: crypto.createHash('sha256').update(user.email.toLowerCase()).digest('hex'),
+      requestedAt: user.deletionRequestedAt ?? new Date(),
+      plaidItemsRevoked: result.plaidItemsRevoked,
+      bankAccountsDeleted: result.bankAccountsDeleted,
+      subscriptionsDeleted: result.subscriptionsDeleted,
+      transactionsDeleted: result.transactionsDeleted,
+      clerkUserDeleted: true,
+    },
+  });
+
+  console.log(
+    `Deleted account ${userId}: ${result.plaidItemsRevoked} Plaid items revoked, ${result.bankAccountsDeleted} bank accounts, ${result.subscriptionsDeleted} subscriptions, ${result.transactionsDeleted} transactions`
+  );
+
+  return result;
+}
+
+/**
+ * Deletes every account whose grace period has ended
+ * Called by the daily account-deletions cron job
+ *
+ * @returns Results for each deleted account, and the accounts left for the next run
+ */
+export async function processDueAccountDeletions(): Promise<DeletionRun> {
+  const dueUsers = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: new Date() } },
+    select: { id: true },
+  });
+
+  const run: DeletionRun = { deleted: [], failed: [] };
+  for (const user of dueUsers) {
+    try {
+      run.deleted.push(await deleteUserAccount(user.id));
+    } catch (error) {
+      console.error(`Failed to delete account ${user.id}:`, error);
+      // Continue with other users; this one is retried on the next run
+      run.failed.push(user.id);
+    }
+  }
+
+  return run;
+}
@@ -1,3 +1,5 @@
+import { toMonthlyAmount, toYearlyAmount } from './billingInterval';
+
 export interface Recommendation {
   id: string;
   type: 'optimization' | 'alternative' | 'consolidation' | 'cancellation' | 'upgrade' | 'downgrade';
@@ -129,7 +131,7 @@ export function generateRecommendations(
   for (const pattern of lowUsageSubs) {
     const subscription = subscriptions.find(s => s.merchant === pattern.merchant);
     if (subscription) {
-      const annualSavings = subscription.amount * 12;
+      const annualSavings = toYearlyAmount(subscription.amount, subscription.interval);
       recommendations.push({
         id: `cancel-${pattern.subscriptionId}`,
         type: 'cancellation',
@@ -156,7 +158,7 @@ export function generateRecommendations(
   // 2. Annual plan savings recommendations
   const monthlySubs = subscriptions.filter(s => s.interval === 'monthly' && s.amount > 10);
   for (const subscription of monthlySubs) {
-    const annualSavings = subscription.amount * 12 * 0.15; // 15% savings
+    const annualSavings = toYearlyAmount(subscription.amount, subscription.interval) * 0.15; // 15% savings
     recommendations.push({
       id: `annual-${subscription.merchant}`,
       type: 'optimization',
@@ -181,10 +183,10 @@ export function generateRecommendations(
 
   // 3. Family plan recommendations
   const individualStreaming = subscriptions.filter(s => 
-    s.category === 'streaming' && s.amount < 20
+    s.category === 'streaming' && toMonthlyAmount(s.amount, s.interval) < 20
   );
   for (const subscription of individualStreaming) {
-    const familySavings = subscription.amount * 0.5; // 50% savings per person
+    const familySavings = toMonthlyAmount(subscription.amount, subscription.interval) * 0.5; // 50% savings per person
     recommendations.push({
       id: `family-${subscription.merchant}`,
       type: 'optimization',
@@ -209,7 +211,7 @@ export function generateRecommendations(
 
   // 4. Spending limit recommendations
   if (spendingLimit) {
-    const totalMonthly = subscriptions.reduce((sum, s) => sum + s.amount, 0);
+    const totalMonthly = subscriptions.reduce((sum, s) => sum + toMonthlyAmount(s.amount, s.interval), 0);
     if (totalMonthly > spendingLimit) {
       const overage = totalMonthly - spendingLimit;
       recommendations.push({
@@ -238,7 +240,7 @@ export function generateRecommendations(
   // 5. Duplicate service recommendations
   const duplicates = subscriptions.filter(s => s.isDuplicate);
   for (const duplicate of duplicates) {
-    const annualSavings = duplicate.amount * 12;
+    const annualSavings = toYearlyAmount(duplicate.amount, duplicate.interval);
     recommendations.push({
       id: `duplicate-${duplicate.merchant}`,
       type: 'consolidation',
@@ -415,7 +417,7 @@ export function generateInsights(
   const insights: string[] = [];
   
   // Spending insights
-  const totalMonthly = subscriptions.reduce((sum, s) => sum + s.amount, 0);
+  const totalMonthly = subscriptions.reduce((sum, s) => sum + toMonthlyAmount(s.amount, s.interval), 0);
   const totalYearly = totalMonthly * 12;
   
   insights.push(`You're spending $${totalMonthly.toFixed(2)}/month on subscriptions, totaling $${totalYearly.toFixed(2)}/year.`);
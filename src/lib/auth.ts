@@ -1,5 +1,6 @@
 import { auth, currentUser } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/prisma";
+import { hasAdminRole } from "@/lib/roles";
 
 export async function getCurrentUser() {
   try {
@@ -69,4 +70,18 @@ export async function getCurrentUser() {
     console.error('getCurrentUser error:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Gets the current user if their Clerk account has the admin role
+ * Returns null for signed-out users and users without the role
+ */
+export async function getCurrentAdmin() {
+  const user = await getCurrentUser();
+  if (!user) {
+    return null;
+  }
+
+  const clerk = await currentUser();
+  return clerk && hasAdminRole(clerk.publicMetadata) ? user : null;
+}
@@ -0,0 +1,245 @@
+/**
+ * Billing Intervals
+ *
+ * One place for everything that depends on how often a subscription bills:
+ * reading stored interval strings, converting amounts to monthly and yearly
+ * equivalents, and calculating the next billing date.
+ *
+ * Stored intervals are either a standard name ('weekly', 'bi-weekly',
+ * 'monthly', 'quarterly', 'semiannual', 'yearly') or a custom interval
+ * written as 'every-N-days', 'every-N-weeks', 'every-N-months' or
+ * 'every-N-years'. Pure functions only, so the UI can use it too.
+ */
+
+export type BillingIntervalUnit = 'day' | 'week' | 'month' | 'year';
+
+export interface BillingInterval {
+  unit: BillingIntervalUnit;
+  count: number;
+}
+
+export type StandardInterval = 'weekly' | 'bi-weekly' | 'monthly' | 'quarterly' | 'semiannual' | 'yearly';
+
+export const STANDARD_INTERVALS: Record<StandardInterval, BillingInterval> = {
+  weekly: { unit: 'week', count: 1 },
+  'bi-weekly': { unit: 'week', count: 2 },
+  monthly: { unit: 'month', count: 1 },
+  quarterly: { unit: 'month', count: 3 },
+  semiannual: { unit: 'month', count: 6 },
+  yearly: { unit: 'year', count: 1 },
+};
+
+// Subscriptions without an interval are treated as monthly
+export const DEFAULT_INTERVAL: StandardInterval = 'monthly';
+
+// Other spellings found in user input, bank data and older records
+const INTERVAL_ALIASES: Record<string, StandardInterval> = {
+  week: 'weekly',
+  biweekly: 'bi-weekly',
+  fortnightly: 'bi-weekly',
+  month: 'monthly',
+  quarter: 'quarterly',
+  'semi-annual': 'semiannual',
+  semiannually: 'semiannual',
+  'semi-annually': 'semiannual',
+  'half-yearly': 'semiannual',
+  year: 'yearly',
+  annual: 'yearly',
+  annually: 'yearly',
+};
+
+// Billing cycles per year for one unit of each interval
+const CYCLES_PER_YEAR: Record<BillingIntervalUnit, number> = {
+  day: 365,
+  week: 52,
+  month: 12,
+  year: 1,
+};
+
+const CUSTOM_INTERVAL_PATTERN = /^(?:every[\s-]+)?(\d+)[\s-]*(day|week|month|year)s?$/;
+
+/**
+ * Reads a stored or user-entered interval
+ *
+ * @param value - Interval string (e.g. 'monthly', 'every-45-days', 'every 2 months')
+ * @returns The interval, or null if it isn't recognised
+ */
+export function parseBillingInterval(value?: string | null): BillingInterval | null {
+  if (!value) return null;
+  const text = value.trim().toLowerCase();
+
+  const standard = (text in STANDARD_INTERVALS ? text : INTERVAL_ALIASES[text]) as StandardInterval | undefined;
+  if (standard) {
+    return STANDARD_INTERVALS[standard];
+  }
+
+  const match = text.match(CUSTOM_INTERVAL_PATTERN);
+  if (!match) return null;
+
+  const count = parseInt(match[1], 10);
+  if (count < 1) return null;
+  return { unit: match[2] as BillingIntervalUnit, count };
+}
+
+/**
+ * Checks if a value can be read as a billing interval
+ */
+export function isBillingInterval(value?: string | null): boolean {
+  return parseBillingInterval(value) !== null;
+}
+
+/**
+ * Checks if a value is a standard interval name as stored (aliases don't count)
+ */
+export function isStandardInterval(value?: string | null): value is StandardInterval {
+  return Boolean(value) && Object.prototype.hasOwnProperty.call(STANDARD_INTERVALS, value as string);
+}
+
+/**
+ * Reads an interval, falling back to monthly for missing or unknown values
+ */
+function resolveInterval(interval?: string | BillingInterval | null): BillingInterval {
+  if (interval && typeof interval === 'object') return interval;
+  return parseBillingInterval(interval) || STANDARD_INTERVALS[DEFAULT_INTERVAL];
+}
+
+/**
+ * Writes an interval in its stored form
+ * Custom intervals that equal a standard one use the standard name
+ *
+ * @param interval - Interval string or parsed interval
+ * @returns Standard name or 'every-N-units'
+ */
+export function formatBillingInterval(interval?: string | BillingInterval | null): string {
+  const { unit, count } = resolveInterval(interval);
+  const standard = (Object.keys(STANDARD_INTERVALS) as StandardInterval[]).find(
+    (name) => STANDARD_INTERVALS[name].unit === unit && STANDARD_INTERVALS[name].count === count
+  );
+  return standard || `every-${count}-${unit}s`;
+}
+
+/**
+ * Normalizes any accepted spelling to the stored form
+ *
+ * @param value - Interval string
+ * @returns Stored form, or monthly for missing or unknown values
+ */
+export function normalizeBillingInterval(value?: string | null): string {
+  return formatBillingInterval(value);
+}
+
+/**
+ * Gets a readable label for an interval (e.g. 'Monthly', 'Every 45 days')
+ */
+export function getBillingIntervalLabel(interval?: string | BillingInterval | null): string {
+  const stored = formatBillingInterval(interval);
+  switch (stored) {
+    case 'weekly': return 'Weekly';
+    case 'bi-weekly': return 'Every 2 weeks';
+    case 'monthly': return 'Monthly';
+    case 'quarterly': return 'Quarterly';
+    case 'semiannual': return 'Every 6 months';
+    case 'yearly': return 'Yearly';
+  }
+
+  const { unit, count } = resolveInterval(interval);
+  return `Every ${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Gets how many times a year an interval bills
+ */
+export function getCyclesPerYear(interval?: string | BillingInterval | null): number {
+  const { unit, count } = resolveInterval(interval);
+  return CYCLES_PER_YEAR[unit] / count;
+}
+
+/**
+ * Gets the average length of an interval in days
+ */
+export function getIntervalDays(interval?: string | BillingInterval | null): number {
+  return 365 / getCyclesPerYear(interval);
+}
+
+/**
+ * Converts a per-cycle amount into its monthly equivalent
+ *
+ * @param amount - Amount charged each cycle
+ * @param interval - Billing interval (missing means monthly)
+ * @returns Monthly equivalent
+ */
+export function toMonthlyAmount(amount: number, interval?: string | BillingInterval | null): number {
+  return (amount * getCyclesPerYear(interval)) / 12;
+}
+
+/**
+ * Converts a per-cycle amount into its yearly equivalent
+ *
+ * @param amount - Amount charged each cycle
+ * @param interval - Billing interval (missing means monthly)
+ * @returns Yearly equivalent
+ */
+export function toYearlyAmount(amount: number, interval?: string | BillingInterval | null): number {
+  return amount * getCyclesPerYear(interval);
+}
+
+/**
+ * Moves a date forward (or back, with a negative count) by whole intervals
+ * Month and year steps keep the day of month, clamped to the month's last day,
+ * so a subscription started on Jan 31 bills on Feb 28 and then Mar 31
+ *
+ * @param date - Starting date
+ * @param interval - Billing interval
+ * @param cycles - Number of intervals to move (default: 1)
+ * @returns New date
+ */
+export function addBillingIntervals(
+  date: Date,
+  interval?: string | BillingInterval | null,
+  cycles: number = 1
+): Date {
+  const { unit, count } = resolveInterval(interval);
+  const result = new Date(date);
+
+  if (unit === 'day' || unit === 'week') {
+    result.setDate(result.getDate() + count * cycles * (unit === 'week' ? 7 : 1));
+    return result;
+  }
+
+  const months = count * cycles * (unit === 'year' ? 12 : 1);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+}
+
+/**
+ * Calculates the next billing date after a charge
+ * With `after`, keeps stepping forward until the date is later than it,
+ * which rolls a stale renewal date forward to the next upcoming one
+ *
+ * @param lastBillingDate - Date of the last (or a known) charge
+ * @param interval - Billing interval
+ * @param after - Only return dates later than this (optional)
+ * @returns Next billing date
+ */
+export function getNextBillingDate(
+  lastBillingDate: Date,
+  interval?: string | BillingInterval | null,
+  after?: Date
+): Date {
+  let cycles = 1;
+  let next = addBillingIntervals(lastBillingDate, interval, cycles);
+
+  if (after) {
+    while (next <= after) {
+      cycles++;
+      // Step from the original date so clamped month ends don't drift
+      next = addBillingIntervals(lastBillingDate, interval, cycles);
+    }
+  }
+
+  return next;
+}
@@ -14,6 +14,7 @@ const DEBUG_THRESHOLDS = {
   weeklyRange: { min: 6, max: 8 },
   biWeeklyRange: { min: 13, max: 15 },
   quarterlyRange: { min: 85, max: 95 },
+  semiannualRange: { min: 175, max: 190 },
   yearlyRange: { min: 350, max: 380 },
 };
 
@@ -81,6 +82,7 @@ function detectIntervalType(intervals: number[]): IntervalMatch | null {
     { type: 'bi-weekly', range: DEBUG_THRESHOLDS.biWeeklyRange, ideal: 14 },
     { type: 'monthly', range: DEBUG_THRESHOLDS.monthlyRange, ideal: 30 },
     { type: 'quarterly', range: DEBUG_THRESHOLDS.quarterlyRange, ideal: 90 },
+    { type: 'semiannual', range: DEBUG_THRESHOLDS.semiannualRange, ideal: 182 },
     { type: 'yearly', range: DEBUG_THRESHOLDS.yearlyRange, ideal: 365 },
   ];
 
@@ -0,0 +1,199 @@
+/**
+ * Detection Feedback
+ *
+ * Deleting a false-positive detection used to be pointless: the charges are
+ * still in the bank data, so the next sync recreated it. This records what the
+ * user said about each detected merchant/amount pattern. The generator skips
+ * rejected patterns and raises confidence for confirmed ones; new detections
+ * wait as review items until the user answers.
+ */
+
+import { prisma } from './prisma';
+import { normalizeMerchant } from './merchantNormalizer';
+
+export type FeedbackVerdict = 'confirmed' | 'rejected';
+
+/**
+ * Checks if a stored verdict is one this module understands
+ */
+function isFeedbackVerdict(verdict: string): verdict is FeedbackVerdict {
+  return verdict === 'confirmed' || verdict === 'rejected';
+}
+
+// How far a pattern's amount can drift from the reviewed amount and still match (same as the detector)
+const FEEDBACK_AMOUNT_TOLERANCE = 0.2;
+
+// Added to the detector's confidence for patterns the user confirmed
+const CONFIRMED_CONFIDENCE_BOOST = 0.2;
+
+export interface DetectionFeedbackEntry {
+  normalizedMerchant: string;
+  amount: number | null;
+  verdict: FeedbackVerdict;
+  updatedAt: Date;
+}
+
+export interface PendingReview {
+  subscriptionId: string;
+  name: string;
+  merchant: string | null;
+  amount: number;
+  currency: string;
+  interval: string | null;
+  status: string;
+  confidenceScore: number | null;
+  detectedAt: string;
+}
+
+/**
+ * Loads all of a user's detection feedback
+ */
+export async function getDetectionFeedback(userId: string): Promise<DetectionFeedbackEntry[]> {
+  const rows = await prisma.detectionFeedback.findMany({
+    where: { userId },
+    select: { normalizedMerchant: true, amount: true, verdict: true, updatedAt: true },
+  });
+  // Any other verdict stored in the column is ignored
+  return rows.flatMap(({ verdict, ...entry }) => (isFeedbackVerdict(verdict) ? [{ ...entry, verdict }] : []));
+}
+
+function amountMatches(entry: { amount: number | null }, amount: number): boolean {
+  return entry.amount === null || Math.abs(amount - entry.amount) <= entry.amount * FEEDBACK_AMOUNT_TOLERANCE;
+}
+
+/**
+ * Finds the user's answer for a detected pattern
+ *
+ * @param feedback - The user's feedback from getDetectionFeedback
+ * @param merchants - Names the pattern is known by (normalized merchant, known merchant name)
+ * @param amount - Pattern amount
+ * @returns The most recent matching answer, or null if the pattern hasn't been reviewed
+ */
+export function findFeedback(
+  feedback: DetectionFeedbackEntry[],
+  merchants: Array<string | null | undefined>,
+  amount: number
+): DetectionFeedbackEntry | null {
+  const names = new Set(
+    merchants
+      .filter((name): name is string => Boolean(name))
+      .map((name) => normalizeMerchant(name))
+  );
+
+  let latest: DetectionFeedbackEntry | null = null;
+  for (const entry of feedback) {
+    if (!names.has(entry.normalizedMerchant) || !amountMatches(entry, Math.abs(amount))) continue;
+    if (!latest || entry.updatedAt > latest.updatedAt) {
+      latest = entry;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Raises a detection's confidence for a pattern the user confirmed
+ */
+export function applyConfirmedBoost(confidenceScore: number): number {
+  return Math.min(1, confidenceScore + CONFIRMED_CONFIDENCE_BOOST);
+}
+
+/**
+ * Records the user's answer for a subscription's pattern, replacing any earlier answer for it
+ *
+ * @param userId - User ID
+ * @param subscription - Subscription the answer is about
+ * @param verdict - 'confirmed' or 'rejected'
+ */
+export async function recordDetectionFeedback(
+  userId: string,
+  subscription: { name: string; merchant: string | null; amount: number; currency: string | null },
+  verdict: FeedbackVerdict
+): Promise<void> {
+  const normalizedMerchant = normalizeMerchant(subscription.merchant || subscription.name);
+  if (!normalizedMerchant) return;
+
+  const previous = await prisma.detectionFeedback.findMany({
+    where: { userId, normalizedMerchant },
+    select: { id: true, amount: true },
+  });
+  const superseded = previous
+    .filter((entry: typeof previous[0]) => amountMatches(entry, subscription.amount))
+    .map((entry: typeof previous[0]) => entry.id);
+
+  await prisma.$transaction([
+    prisma.detectionFeedback.deleteMany({ where: { id: { in: superseded } } }),
+    prisma.detectionFeedback.create({
+      data: {
+        userId,
+        normalizedMerchant,
+        amount: subscription.amount,
+        currency: subscription.currency || 'USD',
+        verdict,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Lists detected subscriptions waiting for the user to confirm or reject them
+ *
+ * @param userId - User ID
+ * @returns Pending detections, newest first
+ */
+export async function getPendingReviews(userId: string): Promise<PendingReview[]> {
+  const subscriptions = await prisma.subscription.findMany({
+    where: { userId, needsReview: true, status: { in: ['active', 'trial'] } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return subscriptions.map((subscription: typeof subscriptions[0]) => ({
+    subscriptionId: subscription.id,
+    name: subscription.name,
+    merchant: subscription.merchant,
+    amount: subscription.amount,
+    currency: subscription.currency || 'USD',
+    interval: subscription.interval,
+    status: subscription.status,
+    confidenceScore: subscription.confidenceScore?.toNumber() ?? null,
+    detectedAt: subscription.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * Applies the user's answer to a detected subscription
+ * Confirmed subscriptions are kept with a confidence boost; rejected ones are deleted
+ *
+ * @param userId - User ID
+ * @param subscriptionId - Detected subscription
+ * @param verdict - 'confirmed' or 'rejected'
+ * @returns false if the subscription doesn't exist
+ */
+export async function reviewDetectedSubscription(
+  userId: string,
+  subscriptionId: string,
+  verdict: FeedbackVerdict
+): Promise<boolean> {
+  const subscription = await prisma.subscription.findFirst({
+    where: { id: subscriptionId, userId },
+  });
+  if (!subscription) {
+    return false;
+  }
+
+  await recordDetectionFeedback(userId, subscription, verdict);
+
+  if (verdict === 'rejected') {
+    await prisma.subscription.delete({ where: { id: subscriptionId } });
+  } else {
+    await prisma.subscription.update({
+      where: { id: subscriptionId },
+      data: {
+        needsReview: false,
+        confidenceScore: applyConfirmedBoost(subscription.confidenceScore?.toNumber() ?? 0),
+      },
+    });
+  }
+
+  return true;
+}
@@ -0,0 +1,112 @@
+/**
+ * Incremental Detection State
+ *
+ * Re-analyzing every merchant on every sync costs O(all transactions), though a
+ * sync usually touches a handful of merchants. DetectionState remembers when
+ * detection last ran for a user, so the next run only regroups merchants with
+ * transactions added or updated since then. Changes updatedAt can't show
+ * (removed transactions) are recorded with markMerchantsChanged, and changes
+ * that can move any transaction between groups (merchant aliases) force a full
+ * run. A full run also happens periodically, as transactions age out of the
+ * detection window.
+ */
+
+import { prisma } from './prisma';
+
+// Run a full detection at least this often
+const FULL_RUN_INTERVAL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DetectionRun {
+  startedAt: Date;
+  isFull: boolean;
+  changedSince: Date | null; // Transactions updated after this are re-analyzed (null on full runs)
+  changedMerchants: string[]; // Recorded with markMerchantsChanged
+}
+
+/**
+ * Starts a detection run, working out whether it can be incremental
+ *
+ * @param userId - User ID
+ * @param incremental - false always runs a full detection
+ * @returns What the run needs to re-analyze
+ */
+export async function beginDetectionRun(userId: string, incremental: boolean): Promise<DetectionRun> {
+  const startedAt = new Date();
+  const state = await prisma.detectionState.findUnique({
+    where: { userId },
+  });
+
+  const isFull =
+    !incremental ||
+    !state?.lastRunAt ||
+    !state.lastFullRunAt ||
+    startedAt.getTime() - state.lastFullRunAt.getTime() > FULL_RUN_INTERVAL_DAYS * DAY_MS;
+
+  return {
+    startedAt,
+    isFull,
+    changedSince: isFull ? null : state.lastRunAt,
+    changedMerchants: isFull ? [] : state.changedMerchants,
+  };
+}
+
+/**
+ * Records that a detection run finished, so the next one starts from here
+ * Merchants marked changed while the run was going stay marked
+ */
+export async function completeDetectionRun(userId: string, run: DetectionRun): Promise<void> {
+  const state = await prisma.detectionState.findUnique({
+    where: { userId },
+    select: { changedMerchants: true },
+  });
+  const handled = new Set(run.changedMerchants);
+  const stillChanged = run.isFull
+    ? []
+    : (state?.changedMerchants || []).filter((merchant: string) => !handled.has(merchant));
+
+  await prisma.detectionState.upsert({
+    where: { userId },
+    update: {
+      lastRunAt: run.startedAt,
+      ...(run.isFull ? { lastFullRunAt: run.startedAt } : {}),
+      changedMerchants: { set: stillChanged },
+    },
+    create: {
+      userId,
+      lastRunAt: run.startedAt,
+      lastFullRunAt: run.isFull ? run.startedAt : null,
+    },
+  });
+}
+
+/**
+ * Marks merchants for re-analysis on the next run
+ * For changes that don't show in Transaction.updatedAt, like removed transactions
+ *
+ * @param userId - User ID
+ * @param merchants - Normalized merchant names
+ */
+export async function markMerchantsChanged(userId: string, merchants: Array<string | null>): Promise<void> {
+  const changed = Array.from(new Set(merchants.filter((merchant): merchant is string => Boolean(merchant))));
+  if (changed.length === 0) return;
+
+  await prisma.detectionState.upsert({
+    where: { userId },
+    update: { changedMerchants: { push: changed } },
+    // Without a state row the next run is a full one anyway
+    create: { userId },
+  });
+}
+
+/**
+ * Makes the next detection run a full one
+ * For changes that can move transactions between merchants, like a new alias
+ */
+export async function requireFullDetection(userId: string): Promise<void> {
+  await prisma.detectionState.updateMany({
+    where: { userId },
+    data: { lastFullRunAt: null },
+  });
+}
@@ -9,6 +9,7 @@ import { render } from '@react-email/render';
 import { UpcomingBillEmail } from '@/emails/UpcomingBill';
 import { NewSubscriptionDetectedEmail } from '@/emails/NewSubscriptionDetected';
 import { PriceChangeDetectedEmail } from '@/emails/PriceChangeDetected';
+import { TrialEndingEmail } from '@/emails/TrialEnding';
 
 const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
 
@@ -64,6 +65,58 @@ export async function sendUpcomingBillEmail({
   }
 }
 
+/**
+ * Sends a free trial ending email
+ */
+export async function sendTrialEndingEmail({
+  to,
+  subscriptionName,
+  merchant,
+  amount,
+  currency,
+  trialEndDate,
+  daysUntilConversion,
+  userName,
+}: {
+  to: string;
+  subscriptionName: string;
+  merchant: string;
+  amount: number;
+  currency: string;
+  trialEndDate: Date | string;
+  daysUntilConversion: number;
+  userName?: string;
+}) {
+  try {
+    const trialEndDateStr = typeof trialEndDate === 'string' ? trialEndDate : trialEndDate.toISOString();
+    const dashboardUrl = `${APP_URL}/dashboard/subscriptions`;
+
+    const html = await render(
+      <TrialEndingEmail
+        subscriptionName={subscriptionName}
+        merchant={merchant}
+        amount={amount}
+        currency={currency}
+        trialEndDate={trialEndDateStr}
+        daysUntilConversion={daysUntilConversion}
+        userName={userName}
+        dashboardUrl={dashboardUrl}
+      />
+    );
+
+    await sendEmail({
+      to,
+      subject: `⏳ Your ${subscriptionName || merchant} free trial ends in ${daysUntilConversion} ${daysUntilConversion === 1 ? 'day' : 'days'}`,
+      html,
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to send trial ending email:', error);
+    return { success: false, error };
+  }
+}
+
 /**
  * Sends a new subscription detected email
  */
@@ -128,6 +181,7 @@ export async function sendPriceChangeDetectedEmail({
   oldAmount,
   newAmount,
   currency,
+  interval,
   changeDate,
   userName,
 }: {
@@ -137,6 +191,7 @@ export async function sendPriceChangeDetectedEmail({
   oldAmount: number;
   newAmount: number;
   currency: string;
+  interval?: string | null;
   changeDate: Date | string;
   userName?: string;
 }) {
@@ -153,6 +208,7 @@ export async function sendPriceChangeDetectedEmail({
         oldAmount={oldAmount}
         newAmount={newAmount}
         currency={currency}
+        interval={interval}
         changePercentage={changePercentage}
         changeDate={changeDateStr}
         userName={userName}
@@ -0,0 +1,291 @@
+/**
+ * Exchange Rates
+ *
+ * Converts amounts into a user's base currency so totals never mix currencies.
+ * Rates live in the ExchangeRate table (stored against USD). The table is
+ * seeded from prisma/seeds/exchangeRates.json and refreshed by a pluggable
+ * provider chosen with FX_RATES_PROVIDER.
+ */
+
+import { prisma } from './prisma';
+import { getRegion } from './regions';
+import seedRates from '../../prisma/seeds/exchangeRates.json';
+
+// Currency every stored rate is expressed against
+export const RATE_BASE_CURRENCY = 'USD';
+
+// How long rates loaded from the database are reused before reloading
+const RATE_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface RateSnapshot {
+  base: string; // Currency the rates are quoted against
+  asOf: Date;
+  rates: Record<string, number>; // Units of each currency per 1 unit of base
+}
+
+/**
+ * Source of exchange rates
+ * Register custom providers with registerExchangeRateProvider
+ */
+export interface ExchangeRateProvider {
+  name: string;
+  fetchRates(): Promise<RateSnapshot>;
+}
+
+export interface CurrencyConverter {
+  baseCurrency: string;
+  /**
+   * Converts an amount into the base currency
+   * Returns null if there is no rate for the currency
+   */
+  convert(amount: number, currency?: string | null): number | null;
+  /**
+   * Converts an amount into the base currency
+   * Returns null when there is no rate, so the amount can be left out of totals
+   * rather than added at face value; the currency is then listed in unconverted
+   */
+  toBase(amount: number, currency?: string | null): number | null;
+  /**
+   * Currencies toBase had no rate for, so responses can say what totals leave out
+   */
+  unconverted: string[];
+}
+
+/**
+ * Rates bundled with the app (prisma/seeds/exchangeRates.json)
+ */
+function getSeedSnapshot(): RateSnapshot {
+  return {
+    base: seedRates.base,
+    asOf: new Date(seedRates.asOf),
+    rates: seedRates.rates,
+  };
+}
+
+/**
+ * Reads rates from a local JSON file in the seed format
+ * FX_RATES_FILE points at a custom file; otherwise the bundled seed is used
+ */
+const fileRateProvider: ExchangeRateProvider = {
+  name: 'file',
+  async fetchRates() {
+    const filePath = process.env.FX_RATES_FILE;
+    if (!filePath) {
+      return getSeedSnapshot();
+    }
+
+    const { readFile } = await import('fs/promises');
+    const data = JSON.parse(await readFile(filePath, 'utf8'));
+    return {
+      base: data.base,
+      asOf: new Date(data.asOf || data.date || Date.now()),
+      rates: data.rates,
+    };
+  },
+};
+
+/**
+ * Fetches rates from an HTTP endpoint (FX_RATES_URL) returning
+ * { base, date, rates } JSON, the format used by most free FX APIs
+ */
+const httpRateProvider: ExchangeRateProvider = {
+  name: 'http',
+  async fetchRates() {
+    const url = process.env.FX_RATES_URL;
+    if (!url) {
+      throw new Error('FX_RATES_URL is not set');
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Exchange rate request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.base || !data.rates) {
+      throw new Error('Exchange rate response is missing base or rates');
+    }
+
+    return {
+      base: data.base,
+      asOf: new Date(data.date || Date.now()),
+      rates: { ...data.rates, [data.base]: 1 },
+    };
+  },
+};
+
+const providers = new Map<string, ExchangeRateProvider>([
+  [fileRateProvider.name, fileRateProvider],
+  [httpRateProvider.name, httpRateProvider],
+]);
+
+/**
+ * Registers an exchange rate provider so it can be selected with FX_RATES_PROVIDER
+ *
+ * @param provider - Provider to register (replaces one with the same name)
+ */
+export function registerExchangeRateProvider(provider: ExchangeRateProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Gets an exchange rate provider by name
+ *
+ * @param name - Provider name (default: FX_RATES_PROVIDER, or "file")
+ * @returns The provider
+ */
+export function getExchangeRateProvider(name: string = process.env.FX_RATES_PROVIDER || 'file'): ExchangeRateProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new Error(`Unknown exchange rate provider: ${name}`);
+  }
+  return provider;
+}
+
+/**
+ * Re-expresses a snapshot's rates against USD
+ */
+function rebaseRates(snapshot: RateSnapshot): Record<string, number> {
+  const baseRate = snapshot.base === RATE_BASE_CURRENCY ? 1 : snapshot.rates[RATE_BASE_CURRENCY];
+  if (!baseRate) {
+    throw new Error(`Rates quoted against ${snapshot.base} must include ${RATE_BASE_CURRENCY}`);
+  }
+
+  const rebased: Record<string, number> = {};
+  for (const [currency, rate] of Object.entries(snapshot.rates)) {
+    if (typeof rate === 'number' && rate > 0) {
+      rebased[currency.toUpperCase()] = rate / baseRate;
+    }
+  }
+  rebased[snapshot.base.toUpperCase()] = 1 / baseRate;
+  return rebased;
+}
+
+let cachedRates: { rates: Record<string, number>; loadedAt: number } | null = null;
+
+/**
+ * Saves fresh rates from a provider into the ExchangeRate table
+ *
+ * @param providerName - Provider to use (default: FX_RATES_PROVIDER, or "file")
+ * @returns The provider used and how many rates were saved
+ */
+export async function refreshExchangeRates(
+  providerName?: string
+): Promise<{ provider: string; updated: number; asOf: Date }> {
+  const provider = getExchangeRateProvider(providerName);
+  const snapshot = await provider.fetchRates();
+  const rates = rebaseRates(snapshot);
+
+  await prisma.$transaction(
+    Object.entries(rates).map(([currency, rate]) =>
+      prisma.exchangeRate.upsert({
+        where: { currency },
+        create: { currency, rate, source: provider.name, asOf: snapshot.asOf },
+        update: { rate, source: provider.name, asOf: snapshot.asOf },
+      })
+    )
+  );
+
+  cachedRates = null;
+  console.log(`Refreshed ${Object.keys(rates).length} exchange rates from ${provider.name} (as of ${snapshot.asOf.toISOString()})`);
+
+  return { provider: provider.name, updated: Object.keys(rates).length, asOf: snapshot.asOf };
+}
+
+/**
+ * Loads the current rates (units per 1 USD)
+ * Falls back to the bundled seed rates until the table has been filled
+ *
+ * @returns Rates keyed by currency code
+ */
+export async function getExchangeRates(): Promise<Record<string, number>> {
+  if (cachedRates && Date.now() - cachedRates.loadedAt < RATE_CACHE_TTL_MS) {
+    return cachedRates.rates;
+  }
+
+  let rates: Record<string, number> = {};
+  try {
+    const rows = await prisma.exchangeRate.findMany({ select: { currency: true, rate: true } });
+    for (const row of rows) {
+      rates[row.currency] = row.rate;
+    }
+  } catch (error) {
+    console.warn('Failed to load exchange rates, using seed rates:', error);
+  }
+
+  if (Object.keys(rates).length === 0) {
+    rates = rebaseRates(getSeedSnapshot());
+  }
+
+  cachedRates = { rates, loadedAt: Date.now() };
+  return rates;
+}
+
+/**
+ * Gets the currency a user's totals are shown in
+ * Users who haven't picked one get their country's currency
+ *
+ * @param user - User's saved base currency and country
+ * @returns ISO 4217 currency code
+ */
+export function resolveBaseCurrency(user: { baseCurrency?: string | null; country?: string | null }): string {
+  if (user.baseCurrency) return user.baseCurrency;
+  return getRegion(user.country).currency;
+}
+
+/**
+ * Creates a converter into the given base currency
+ *
+ * @param baseCurrency - Currency to convert into
+ * @param rates - Rates keyed by currency (units per 1 USD)
+ * @returns Converter
+ */
+export function createCurrencyConverter(baseCurrency: string, rates: Record<string, number>): CurrencyConverter {
+  const convert = (amount: number, currency?: string | null): number | null => {
+    const from = (currency || RATE_BASE_CURRENCY).toUpperCase();
+    if (from === baseCurrency) return amount;
+
+    const fromRate = rates[from];
+    const toRate = rates[baseCurrency];
+    if (!fromRate || !toRate) return null;
+
+    return Math.round((amount / fromRate) * toRate * 100) / 100;
+  };
+
+  const unconverted: string[] = [];
+
+  return {
+    baseCurrency,
+    convert,
+    toBase(amount, currency) {
+      const converted = convert(amount, currency);
+      if (converted === null) {
+        const from = (currency || RATE_BASE_CURRENCY).toUpperCase();
+        if (!unconverted.includes(from)) {
+          console.warn(`No exchange rate for ${from} → ${baseCurrency}, leaving it out of totals`);
+          unconverted.push(from);
+        }
+      }
+      return converted;
+    },
+    unconverted,
+  };
+}
+
+/**
+ * Creates a converter into a user's base currency
+ *
+ * @param userId - User ID
+ * @returns Converter
+ */
+export async function getCurrencyConverterForUser(userId: string): Promise<CurrencyConverter> {
+  const [user, rates] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: { baseCurrency: true, country: true },
+    }),
+    getExchangeRates(),
+  ]);
+
+  return createCurrencyConverter(resolveBaseCurrency(user || {}), rates);
+}
@@ -1,18 +1,19 @@
 /**
  * Formatting Utilities
  * 
- * Handles currency, date, and number formatting for US and UK markets
+ * Handles currency, date, and number formatting for every supported region
+ * (see regions.ts)
  */
 
-export type Country = 'US' | 'UK';
+import { getRegion, getRegionForCurrency, RegionCode } from './regions';
+
+export type Country = RegionCode;
 
 /**
  * Gets currency symbol for a country
  */
 export function getCurrencySymbol(country: Country, currency?: string): string {
-  if (currency === 'GBP') return '£';
-  if (currency === 'USD') return '$';
-  return country === 'UK' ? '£' : '$';
+  return (getRegionForCurrency(currency) || getRegion(country)).currencySymbol;
 }
 
 /**
@@ -23,8 +24,8 @@ export function formatCurrency(
   currency?: string,
   country?: Country
 ): string {
-  const currencyCode = currency || (country === 'UK' ? 'GBP' : 'USD');
-  const locale = currencyCode === 'GBP' ? 'en-GB' : 'en-US';
+  const currencyCode = currency || getRegion(country).currency;
+  const locale = country ? getRegion(country).locale : getRegionForCurrency(currencyCode)?.locale || 'en-US';
 
   return new Intl.NumberFormat(locale, {
     style: 'currency',
@@ -34,12 +35,29 @@ export function formatCurrency(
   }).format(amount);
 }
 
+/**
+ * Formats an amount in its original currency, followed by its value in the
+ * user's base currency when the two differ (e.g. "£9.99 (≈ $12.68)")
+ */
+export function formatCurrencyWithConversion(
+  amount: number,
+  currency: string | null | undefined,
+  convertedAmount: number | null | undefined,
+  baseCurrency: string
+): string {
+  const original = formatCurrency(amount, currency || 'USD');
+  if (!currency || currency === baseCurrency || convertedAmount === null || convertedAmount === undefined) {
+    return original;
+  }
+  return `${original} (≈ ${formatCurrency(convertedAmount, baseCurrency)})`;
+}
+
 /**
  * Formats a date based on country
  */
 export function formatDate(date: Date | string, country?: Country): string {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
-  const locale = country === 'UK' ? 'en-GB' : 'en-US';
+  const locale = getRegion(country).locale;
   
   return dateObj.toLocaleDateString(locale, {
     year: 'numeric',
@@ -53,7 +71,7 @@ export function formatDate(date: Date | string, country?: Country): string {
  */
 export function formatDateShort(date: Date | string, country?: Country): string {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
-  const locale = country === 'UK' ? 'en-GB' : 'en-US';
+  const locale = getRegion(country).locale;
   
   return dateObj.toLocaleDateString(locale, {
     year: 'numeric',
@@ -70,7 +88,7 @@ export function formatNumber(
   decimals: number = 2,
   country?: Country
 ): string {
-  const locale = country === 'UK' ? 'en-GB' : 'en-US';
+  const locale = getRegion(country).locale;
   
   return new Intl.NumberFormat(locale, {
     minimumFractionDigits: decimals,
@@ -82,8 +100,7 @@ export function formatNumber(
  * Detects country from currency
  */
 export function getCountryFromCurrency(currency?: string): Country {
-  if (currency === 'GBP') return 'UK';
-  return 'US';
+  return getRegionForCurrency(currency)?.code || 'US';
 }
 
 /**
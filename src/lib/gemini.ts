@@ -1,4 +1,6 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { formatCurrency } from './formatting';
+import { toMonthlyAmount } from './billingInterval';
 
 // Initialize Gemini AI
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
@@ -27,6 +29,9 @@ export interface SubscriptionData {
   id: string;
   name: string;
   amount: number;
+  currency?: string | null;
+  convertedAmount?: number | null; // amount in the user's base currency (null without an exchange rate)
+  interval?: string | null; // billing interval, see billingInterval.ts
   renewalDate: Date;
   merchant?: string | null;
   status: string;
@@ -37,12 +42,22 @@ export interface SubscriptionData {
 export interface TransactionData {
   id: string;
   amount: number;
+  currency?: string | null;
+  convertedAmount?: number | null; // amount in the user's base currency (null without an exchange rate)
   date: Date;
   merchant?: string | null;
   description?: string | null;
   subscriptionId?: string | null;
 }
 
+/**
+ * Amount in the base currency: the original amount if the caller didn't convert,
+ * null if there is no exchange rate for its currency
+ */
+function toBaseAmount(item: { amount: number; convertedAmount?: number | null }): number | null {
+  return item.convertedAmount === undefined ? item.amount : item.convertedAmount;
+}
+
 export interface AIAnalysis {
   spendingPattern: {
     totalMonthly: number;
@@ -119,7 +134,8 @@ export interface AIRecommendation {
  */
 export async function analyzeSpendingPatterns(
   subscriptions: SubscriptionData[],
-  transactions: TransactionData[]
+  transactions: TransactionData[],
+  baseCurrency: string = 'USD'
 ): Promise<AIAnalysis> {
   const model = genAI.getGenerativeModel({ model: MODEL_NAME });
 
@@ -130,6 +146,9 @@ ${JSON.stringify(subscriptions.map(s => ({
   id: s.id,
   name: s.name,
   amount: s.amount,
+  currency: s.currency || 'USD',
+  convertedAmount: toBaseAmount(s),
+  interval: s.interval || 'monthly',
   merchant: s.merchant,
   renewalDate: s.renewalDate.toISOString(),
   status: s.status
@@ -139,6 +158,8 @@ Transactions (last 12 months):
 ${JSON.stringify(transactions.map(t => ({
   id: t.id,
   amount: t.amount,
+  currency: t.currency || 'USD',
+  convertedAmount: toBaseAmount(t),
   date: t.date.toISOString(),
   merchant: t.merchant,
   description: t.description,
@@ -193,6 +214,11 @@ Provide a detailed analysis in this exact JSON format:
   ]
 }
 
+Currency: "amount" is in the original "currency"; "convertedAmount" is the same amount in the user's base currency (${baseCurrency}).
+Every number in your response must be in ${baseCurrency}, so use convertedAmount for totals, breakdowns and savings.
+convertedAmount is null when there is no exchange rate for the currency: leave those amounts out of totals and say so.
+In text, mention the original currency when a subscription is billed in a currency other than ${baseCurrency}.
+
 Focus on:
 1. Unused subscriptions: If no transactions in 60+ days, mark as unused
 2. Duplicates: Identify services with similar names/merchants
@@ -219,7 +245,7 @@ Return ONLY valid JSON, no markdown formatting.`;
       console.error('⚠️ Model not found. Check API key and model name.');
     }
     // Return fallback analysis
-    return getFallbackAnalysis(subscriptions, transactions);
+    return getFallbackAnalysis(subscriptions, transactions, baseCurrency);
   }
 }
 
@@ -229,13 +255,14 @@ Return ONLY valid JSON, no markdown formatting.`;
 export async function generateSmartRecommendations(
   subscriptions: SubscriptionData[],
   transactions: TransactionData[],
-  analysis: AIAnalysis
+  analysis: AIAnalysis,
+  baseCurrency: string = 'USD'
 ): Promise<AIRecommendation[]> {
   const model = genAI.getGenerativeModel({ model: MODEL_NAME });
 
   const prompt = `You are a financial AI assistant providing personalized subscription recommendations. Based on the analysis, generate actionable recommendations.
 
-Analysis Summary:
+Analysis Summary (amounts in ${baseCurrency}):
 ${JSON.stringify({
   totalMonthly: analysis.spendingPattern.totalMonthly,
   unusedCount: analysis.unusedSubscriptions.length,
@@ -243,11 +270,14 @@ ${JSON.stringify({
   potentialSavings: analysis.annualVsMonthlySavings.reduce((sum, s) => sum + s.savings, 0)
 }, null, 2)}
 
-Subscriptions:
+Subscriptions ("amount" is in "currency", "convertedAmount" is in ${baseCurrency}, or null when there is no exchange rate):
 ${JSON.stringify(subscriptions.map(s => ({
   id: s.id,
   name: s.name,
   amount: s.amount,
+  currency: s.currency || 'USD',
+  convertedAmount: toBaseAmount(s),
+  interval: s.interval || 'monthly',
   merchant: s.merchant,
   renewalDate: s.renewalDate.toISOString()
 })), null, 2)}
@@ -282,6 +312,8 @@ Focus on:
 4. Trial warnings: Alert about upcoming trial expirations
 5. Price alerts: Warn about recent price increases
 
+Impact values must be in ${baseCurrency}. When a subscription is billed in another currency, mention both amounts in the description.
+
 Be specific with numbers and actionable. Return ONLY valid JSON array, no markdown.`;
 
   try {
@@ -396,16 +428,24 @@ export async function chatWithAI(
   message: string,
   conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
   subscriptions: SubscriptionData[],
-  transactions: TransactionData[]
+  transactions: TransactionData[],
+  baseCurrency: string = 'USD'
 ): Promise<string> {
   const model = genAI.getGenerativeModel({ model: MODEL_NAME });
 
   const context = `You are a helpful AI assistant for SubscriptionSentry, a subscription management app. You have access to the user's subscription data.
 
+The user's base currency is ${baseCurrency}. "amount" is in the original "currency" and "convertedAmount" is in ${baseCurrency}.
+Give totals in ${baseCurrency}, and show the original amount too for anything billed in another currency.
+convertedAmount is null when there is no exchange rate for the currency: leave those amounts out of totals and say so.
+
 User's Subscriptions:
 ${JSON.stringify(subscriptions.map(s => ({
   name: s.name,
   amount: s.amount,
+  currency: s.currency || 'USD',
+  convertedAmount: toBaseAmount(s),
+  interval: s.interval || 'monthly',
   merchant: s.merchant,
   renewalDate: s.renewalDate.toISOString(),
   status: s.status
@@ -414,6 +454,8 @@ ${JSON.stringify(subscriptions.map(s => ({
 Recent Transactions (last 3 months):
 ${JSON.stringify(transactions.slice(0, 10).map(t => ({
   amount: t.amount,
+  currency: t.currency || 'USD',
+  convertedAmount: toBaseAmount(t),
   date: t.date.toISOString(),
   merchant: t.merchant
 })), null, 2)}
@@ -452,9 +494,10 @@ Be specific, actionable, and friendly. Use real numbers from their data.`;
  */
 function getFallbackAnalysis(
   subscriptions: SubscriptionData[],
-  transactions: TransactionData[]
+  transactions: TransactionData[],
+  baseCurrency: string
 ): AIAnalysis {
-  const totalMonthly = subscriptions.reduce((sum, s) => sum + s.amount, 0);
+  const totalMonthly = subscriptions.reduce((sum, s) => sum + toMonthlyAmount(toBaseAmount(s) ?? 0, s.interval), 0);
   const sixtyDaysAgo = new Date();
   sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
 
@@ -473,7 +516,7 @@ function getFallbackAnalysis(
     .map(sub => ({
       subscriptionId: sub.id,
       name: sub.name,
-      amount: sub.amount,
+      amount: toBaseAmount(sub) ?? 0,
       daysSinceLastTransaction: 60,
       reasoning: 'No transactions found in the last 60 days'
     }));
@@ -484,7 +527,7 @@ function getFallbackAnalysis(
       totalYearly: totalMonthly * 12,
       categoryBreakdown: {},
       trend: 'stable',
-      insights: [`You're spending $${totalMonthly.toFixed(2)}/month on subscriptions`]
+      insights: [`You're spending ${formatCurrency(totalMonthly, baseCurrency)}/month on subscriptions`]
     },
     unusedSubscriptions,
     downgradeOpportunities: [],
@@ -0,0 +1,142 @@
+/**
+ * Background Job Handlers
+ *
+ * What each BackgroundJob type does when a worker picks it up (see jobQueue.ts).
+ * Handlers throw to have the job retried, and return the result the job-status
+ * API shows the user.
+ */
+
+import { prisma } from './prisma';
+import { syncAccountTransactions, syncItemTransactions } from './plaidSync';
+import { generateSubscriptionsFromTransactions, GeneratedSubscription } from './subscriptionGenerator';
+import { getCurrencyConverterForUser } from './exchangeRates';
+import { toMonthlyAmount } from './billingInterval';
+import { ClaimedJob, JobContext, JobHandler, JobType, RunJobsOptions, RunJobsResult, runQueuedJobs } from './jobQueue';
+
+// Months of history detection looks at
+const DETECTION_MONTHS = 24;
+
+/**
+ * Summarizes a detection run for the user: what changed, plus monthly spend and the most
+ * expensive subscription across all active subscriptions (incremental runs only return
+ * the ones they re-analyzed)
+ */
+async function summarizeDetection(userId: string, detected: GeneratedSubscription[]) {
+  const converter = await getCurrencyConverterForUser(userId);
+  const active = await prisma.subscription.findMany({
+    where: { userId, status: 'active' }, // Free trials aren't charging yet
+    select: { id: true, name: true, amount: true, currency: true, interval: true },
+  });
+  // Subscriptions in a currency without an exchange rate are left out of the totals
+  const getMonthlySpend = (sub: typeof active[0]) => {
+    const amount = converter.toBase(sub.amount, sub.currency || 'USD');
+    return amount === null ? null : toMonthlyAmount(amount, sub.interval || 'monthly');
+  };
+  const converted = active
+    .map((sub: typeof active[0]) => ({ sub, monthly: getMonthlySpend(sub) }))
+    .filter((item: { monthly: number | null }): item is { sub: typeof active[0]; monthly: number } => item.monthly !== null);
+
+  const totalMonthlySpend = converted.reduce((sum: number, item: typeof converted[0]) => sum + item.monthly, 0);
+  const mostExpensive = converted.length > 0
+    ? converted.reduce((max: typeof converted[0], item: typeof converted[0]) => (item.monthly > max.monthly ? item : max)).sub
+    : null;
+
+  return {
+    detectedSubscriptions: detected.length,
+    createdSubscriptions: detected.filter((sub) => sub.wasCreated).length,
+    activeSubscriptions: active.length,
+    totalMonthlySpend: Math.round(totalMonthlySpend * 100) / 100,
+    baseCurrency: converter.baseCurrency,
+    ...(converter.unconverted.length > 0 ? { unconverted: converter.unconverted } : {}),
+    mostExpensiveSubscription: mostExpensive ? { id: mostExpensive.id, name: mostExpensive.name } : null,
+  };
+}
+
+/**
+ * Syncs one bank account, or every connected item, then re-runs subscription detection
+ * Payload: { bankAccountId?: string }
+ */
+const syncTransactionsJob: JobHandler = async (job: ClaimedJob, { reportProgress }: JobContext) => {
+  const bankAccountId = typeof job.payload?.bankAccountId === 'string' ? job.payload.bankAccountId : null;
+  const totals = { added: 0, modified: 0, removed: 0, skipped: 0 };
+  const errors: string[] = [];
+
+  if (bankAccountId) {
+    await reportProgress(5, 'Syncing bank account');
+    const result = await syncAccountTransactions(job.userId, bankAccountId);
+    totals.added += result.added;
+    totals.modified += result.modified;
+    totals.removed += result.removed;
+    totals.skipped += result.skipped;
+  } else {
+    const accounts = await prisma.bankAccount.findMany({
+      where: { userId: job.userId },
+      select: { plaidItemId: true },
+    });
+
+    // Plaid syncs per item, so each connected institution is synced once
+    const itemIds: string[] = Array.from(
+      new Set(
+        accounts
+          .map((account: typeof accounts[0]) => account.plaidItemId)
+          .filter((itemId: string | null): itemId is string => Boolean(itemId))
+      )
+    );
+
+    for (const [index, itemId] of itemIds.entries()) {
+      await reportProgress(5 + (index / itemIds.length) * 70, `Syncing bank ${index + 1} of ${itemIds.length}`);
+      try {
+        const result = await syncItemTransactions(job.userId, itemId);
+        totals.added += result.added;
+        totals.modified += result.modified;
+        totals.removed += result.removed;
+        totals.skipped += result.skipped;
+      } catch (error) {
+        errors.push(`Failed to sync item ${itemId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    // Retry only if nothing synced; partial failures are reported in the result
+    if (itemIds.length > 0 && errors.length === itemIds.length) {
+      throw new Error(errors.join('; '));
+    }
+  }
+
+  // Only merchants with new or changed transactions are re-analyzed
+  await reportProgress(80, 'Detecting subscriptions');
+  const detected = await generateSubscriptionsFromTransactions(job.userId, DETECTION_MONTHS, { incremental: true });
+
+  return {
+    savedTransactions: totals.added,
+    modifiedTransactions: totals.modified,
+    removedTransactions: totals.removed,
+    skippedTransactions: totals.skipped,
+    ...(await summarizeDetection(job.userId, detected)),
+    ...(errors.length > 0 ? { errors } : {}),
+  };
+};
+
+/**
+ * Re-runs subscription detection over the user's saved transactions
+ * Payload: { monthsBack?: number }
+ */
+const detectSubscriptionsJob: JobHandler = async (job: ClaimedJob, { reportProgress }: JobContext) => {
+  const monthsBack = typeof job.payload?.monthsBack === 'number' ? job.payload.monthsBack : DETECTION_MONTHS;
+
+  await reportProgress(10, 'Detecting subscriptions');
+  const detected = await generateSubscriptionsFromTransactions(job.userId, monthsBack);
+
+  return summarizeDetection(job.userId, detected);
+};
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  sync_transactions: syncTransactionsJob,
+  detect_subscriptions: detectSubscriptionsJob,
+};
+
+/**
+ * Runs due jobs with the standard handlers
+ */
+export async function processJobs(options: RunJobsOptions = {}): Promise<RunJobsResult> {
+  return runQueuedJobs(JOB_HANDLERS, options);
+}
@@ -0,0 +1,376 @@
+/**
+ * Background Job Queue
+ *
+ * Bank syncs and subscription detection can take longer than a serverless
+ * request is allowed to run, so routes enqueue a BackgroundJob and return.
+ * Workers (scripts/job-worker.ts, or the /api/cron/jobs route) claim jobs with
+ * SELECT ... FOR UPDATE SKIP LOCKED, so any number of them can share the table.
+ * A user only ever has one job running at a time. Failed jobs are retried with
+ * exponential backoff, and jobs held by a worker that died are reclaimed once
+ * their lock goes stale. Running jobs refresh their lock as a heartbeat, and a
+ * worker that finds its job was reclaimed leaves it to the new owner.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { logger } from './logger';
+
+export type JobType = 'sync_transactions' | 'detect_subscriptions';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface ClaimedJob {
+  id: string;
+  userId: string;
+  type: JobType;
+  payload: Prisma.JsonObject | null;
+  attempts: number;
+  maxAttempts: number;
+}
+
+export interface JobContext {
+  reportProgress: (progress: number, message?: string) => Promise<void>;
+}
+
+// Returns the job's result, stored on the job for the status API
+export type JobHandler = (job: ClaimedJob, context: JobContext) => Promise<Prisma.InputJsonObject>;
+
+export interface RunJobsOptions {
+  workerId?: string;
+  maxJobs?: number; // Stop after this many jobs
+  deadline?: Date; // Don't claim new jobs after this time
+}
+
+export interface RunJobsResult {
+  processed: number;
+  succeeded: number;
+  retried: number;
+  failed: number;
+  lost: number; // Reclaimed by another worker before they finished
+}
+
+// A running job whose lock is older than this belongs to a worker that died
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// How often a running job refreshes its lock; well inside STALE_LOCK_MS
+const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+// Delay before the first retry; doubles with every attempt
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+const JOB_STATUS_FIELDS = {
+  id: true,
+  type: true,
+  status: true,
+  attempts: true,
+  maxAttempts: true,
+  progress: true,
+  progressMessage: true,
+  result: true,
+  lastError: true,
+  runAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+/**
+ * Delay before retrying a job that has failed the given number of times
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Queues a job for a user
+ * If the user already has the same job (or, for syncs, a sync of everything)
+ * waiting to start, that job is returned instead, so repeated clicks and
+ * webhooks don't pile up syncs. A running job doesn't count: it may already be
+ * past the changes the new job is for.
+ *
+ * @param userId - User ID
+ * @param type - Job type
+ * @param payload - Job arguments
+ * @param options.maxAttempts - Attempts before the job is marked failed
+ * @returns The queued job
+ */
+export async function enqueueJob(
+  userId: string,
+  type: JobType,
+  payload: Prisma.InputJsonObject = {},
+  options: { maxAttempts?: number } = {}
+) {
+  const pending = await prisma.backgroundJob.findFirst({
+    where: {
+      userId,
+      type,
+      status: 'queued',
+      OR: [{ payload: { equals: payload } }, ...(type === 'sync_transactions' ? [{ payload: { equals: {} } }] : [])],
+    },
+    select: JOB_STATUS_FIELDS,
+    orderBy: { createdAt: 'asc' },
+  });
+  if (pending) {
+    return pending;
+  }
+
+  return prisma.backgroundJob.create({
+    data: {
+      userId,
+      type,
+      payload,
+      ...(options.maxAttempts ? { maxAttempts: options.maxAttempts } : {}),
+    },
+    select: JOB_STATUS_FIELDS,
+  });
+}
+
+/**
+ * Gets one of a user's jobs
+ *
+ * @returns The job's status, or null if it doesn't exist
+ */
+export async function getJob(userId: string, jobId: string) {
+  return prisma.backgroundJob.findFirst({
+    where: { id: jobId, userId },
+    select: JOB_STATUS_FIELDS,
+  });
+}
+
+/**
+ * Lists a user's most recent jobs, newest first
+ */
+export async function listRecentJobs(userId: string, limit = 10) {
+  return prisma.backgroundJob.findMany({
+    where: { userId },
+    select: JOB_STATUS_FIELDS,
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
+
+/**
+ * Claims the next job that's due, skipping users who already have a job running
+ * The advisory lock stops two workers from claiming jobs for the same user at once
+ *
+ * @param workerId - Recorded on the job as lockedBy
+ * @returns The claimed job, or null if nothing is due
+ */
+async function claimNextJob(workerId: string): Promise<ClaimedJob | null> {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+
+  const rows = await prisma.$queryRaw<ClaimedJob[]>`
+    UPDATE "BackgroundJob"
+    SET status = 'running',
+        "lockedAt" = NOW(),
+        "lockedBy" = ${workerId},
+        attempts = attempts + 1,
+        "updatedAt" = NOW()
+    WHERE id = (
+      SELECT j.id FROM "BackgroundJob" j
+      WHERE (
+        (j.status = 'queued' AND j."runAt" <= NOW())
+        OR (j.status = 'running' AND j."lockedAt" < ${staleBefore})
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM "BackgroundJob" r
+        WHERE r."userId" = j."userId"
+          AND r.id <> j.id
+          AND r.status = 'running'
+          AND r."lockedAt" >= ${staleBefore}
+      )
+      AND pg_try_advisory_xact_lock(hashtext(j."userId"))
+      ORDER BY j."runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id, "userId", type, payload, attempts, "maxAttempts"
+  `;
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Thrown when a worker finds that its job was reclaimed by another worker
+ */
+export class JobLockLostError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was reclaimed by another worker`);
+    this.name = 'JobLockLostError';
+  }
+}
+
+/**
+ * Matches the job only while this worker still holds it
+ */
+function heldBy(job: ClaimedJob, workerId: string) {
+  return { id: job.id, lockedBy: workerId, status: 'running' };
+}
+
+/**
+ * Refreshes a running job's lock so other workers don't reclaim it
+ *
+ * @returns false if the job is no longer held by this worker
+ */
+async function refreshJobLock(job: ClaimedJob, workerId: string): Promise<boolean> {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: heldBy(job, workerId),
+    data: { lockedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * Records how far a running job has got, and refreshes its lock
+ *
+ * @param job - Job held by this worker
+ * @param workerId - Worker running the job
+ * @param progress - 0 to 100
+ * @param message - Shown to the user, e.g. "Syncing Chase"
+ * @throws JobLockLostError if another worker has reclaimed the job
+ */
+export async function updateJobProgress(
+  job: ClaimedJob,
+  workerId: string,
+  progress: number,
+  message?: string
+): Promise<void> {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: heldBy(job, workerId),
+    data: {
+      progress: Math.max(0, Math.min(100, Math.round(progress))),
+      ...(message !== undefined ? { progressMessage: message } : {}),
+      lockedAt: new Date(),
+    },
+  });
+
+  if (count === 0) {
+    throw new JobLockLostError(job.id);
+  }
+}
+
+/**
+ * Marks a job succeeded
+ *
+ * @returns false if the job was reclaimed by another worker, which now owns its status
+ */
+async function completeJob(job: ClaimedJob, workerId: string, result: Prisma.InputJsonObject): Promise<boolean> {
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: heldBy(job, workerId),
+    data: {
+      status: 'succeeded',
+      progress: 100,
+      result,
+      lastError: null,
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: new Date(),
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Puts a failed job back in the queue with backoff, or marks it failed once it's out of attempts
+ *
+ * @returns Whether the job will be retried, or 'lost' if another worker reclaimed it
+ */
+async function failJob(job: ClaimedJob, workerId: string, error: unknown): Promise<boolean | 'lost'> {
+  const message = error instanceof Error ? error.message : String(error);
+  const willRetry = job.attempts < job.maxAttempts;
+
+  const { count } = await prisma.backgroundJob.updateMany({
+    where: heldBy(job, workerId),
+    data: willRetry
+      ? {
+          status: 'queued',
+          runAt: new Date(Date.now() + getRetryDelayMs(job.attempts)),
+          lastError: message,
+          lockedAt: null,
+          lockedBy: null,
+        }
+      : {
+          status: 'failed',
+          lastError: message,
+          lockedAt: null,
+          lockedBy: null,
+          completedAt: new Date(),
+        },
+  });
+
+  return count > 0 ? willRetry : 'lost';
+}
+
+/**
+ * Claims and runs due jobs one after another until none are left, or a limit is reached
+ *
+ * @param handlers - Handler for each job type
+ * @param options - Worker ID and limits
+ * @returns Counts of what happened
+ */
+export async function runQueuedJobs(
+  handlers: Record<JobType, JobHandler>,
+  options: RunJobsOptions = {}
+): Promise<RunJobsResult> {
+  const workerId = options.workerId || `worker-${randomUUID()}`;
+  const result: RunJobsResult = { processed: 0, succeeded: 0, retried: 0, failed: 0, lost: 0 };
+
+  while (
+    (!options.maxJobs || result.processed < options.maxJobs) &&
+    (!options.deadline || Date.now() < options.deadline.getTime())
+  ) {
+    const job = await claimNextJob(workerId);
+    if (!job) break;
+    result.processed++;
+
+    // The type column is free text, so a job can name a type this build doesn't know
+    const handler: JobHandler | undefined = handlers[job.type];
+    if (!handler) {
+      await failJob({ ...job, attempts: job.maxAttempts }, workerId, new Error(`Unknown job type: ${job.type}`));
+      result.failed++;
+      continue;
+    }
+
+    // Reclaimed from dead workers more times than it may be attempted
+    if (job.attempts > job.maxAttempts) {
+      await failJob(job, workerId, new Error('Job stopped responding too many times'));
+      result.failed++;
+      continue;
+    }
+
+    // Keep the lock fresh between progress reports, e.g. during one long item sync
+    const heartbeat = setInterval(() => {
+      refreshJobLock(job, workerId)
+        .then((held) => {
+          if (!held) logger.warn(`Job ${job.id} (${job.type}) was reclaimed by another worker`);
+        })
+        .catch((error) => logger.error(`Failed to refresh lock for job ${job.id}:`, error));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      const output = await handler(job, {
+        reportProgress: (progress, message) => updateJobProgress(job, workerId, progress, message),
+      });
+      if (await completeJob(job, workerId, output)) {
+        result.succeeded++;
+      } else {
+        logger.warn(`Job ${job.id} (${job.type}) finished after another worker reclaimed it; result discarded`);
+        result.lost++;
+      }
+    } catch (error) {
+      const outcome = error instanceof JobLockLostError ? 'lost' : await failJob(job, workerId, error);
+      if (outcome === 'lost') {
+        logger.warn(`Job ${job.id} (${job.type}) was reclaimed by another worker; stopped this run`);
+        result.lost++;
+      } else {
+        logger.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+        result[outcome ? 'retried' : 'failed']++;
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,280 @@
+/**
+ * Known Merchant Catalog Administration
+ *
+ * Lets admins curate the KnownMerchant catalog that prisma/seed.ts starts
+ * from: add and edit merchants, deactivate ones that cause bad matches, and
+ * merge duplicates. Every change drops the in-memory matcher index (see
+ * merchantMatcher.ts), so lookups in this process see it straight away.
+ *
+ * Also lists the merchants users are most often charged by that the catalog
+ * doesn't match, as candidates for new entries. Only names seen for several
+ * users are listed, and never who they were seen for.
+ */
+
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { STANDARD_INTERVALS, StandardInterval } from './billingInterval';
+import { clearKnownMerchantCache, isKnownMerchant } from './merchantMatcher';
+
+// Codes are upper-cased and keywords lower-cased when saved
+export const knownMerchantSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  displayName: z.string().trim().min(1, 'Display name is required').max(100),
+  category: z.string().trim().min(1, 'Category is required').max(50),
+  logoUrl: z.string().url('Logo URL must be a URL').nullable().optional(),
+  website: z.string().url('Website must be a URL').nullable().optional(),
+  keywords: z.array(z.string().trim().min(1).max(100)).min(1, 'Add at least one keyword'),
+  countries: z.array(z.string().trim().min(2).max(3)).min(1, 'Add at least one country'),
+  currency: z.array(z.string().trim().length(3, 'Currencies are 3-letter codes')).min(1, 'Add at least one currency'),
+  typicalAmounts: z.record(z.string().length(3, 'Currencies are 3-letter codes'), z.number().nonnegative()),
+  billingCycles: z
+    .array(z.enum(Object.keys(STANDARD_INTERVALS) as [StandardInterval, ...StandardInterval[]]))
+    .min(1, 'Add at least one billing cycle'),
+  trialDays: z.number().int().min(0).max(365).nullable().optional(),
+});
+
+export type KnownMerchantInput = z.infer<typeof knownMerchantSchema>;
+
+export interface UnmatchedMerchant {
+  normalizedMerchant: string;
+  users: number; // Distinct users charged by it
+  subscribedUsers: number; // Users who track it as a subscription
+  transactions: number;
+  medianAmount: number;
+  currency: string | null; // Most common currency
+  lastSeen: Date;
+}
+
+// A merchant has to be seen for this many users before it's listed, so names
+// that could identify someone (a landlord, a local business) stay hidden
+const MIN_UNMATCHED_USERS = 3;
+
+// Merchants checked against the catalog per request; most common first
+const UNMATCHED_SCAN_LIMIT = 500;
+
+/**
+ * Trims, cases and de-duplicates a list of keywords or codes
+ */
+function cleanList(values: string[], transform: (value: string) => string): string[] {
+  return Array.from(new Set(values.map((value) => transform(value.trim())).filter(Boolean)));
+}
+
+/**
+ * Upper-cases the currency codes of typical amounts
+ */
+function cleanAmounts(amounts: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(amounts).map(([currency, amount]) => [currency.toUpperCase(), amount]));
+}
+
+/**
+ * Turns validated input into KnownMerchant fields, in the form they're stored
+ * Fields missing from the input are left out, so it works for partial updates too
+ */
+export function toKnownMerchantData(input: Partial<KnownMerchantInput>) {
+  return {
+    ...(input.displayName !== undefined ? { displayName: input.displayName.trim() } : {}),
+    ...(input.category !== undefined ? { category: input.category.trim() } : {}),
+    ...(input.logoUrl !== undefined ? { logoUrl: input.logoUrl || null } : {}),
+    ...(input.website !== undefined ? { website: input.website || null } : {}),
+    ...(input.keywords !== undefined ? { keywords: cleanList(input.keywords, (value) => value.toLowerCase()) } : {}),
+    ...(input.countries !== undefined ? { countries: cleanList(input.countries, (value) => value.toUpperCase()) } : {}),
+    ...(input.currency !== undefined ? { currency: cleanList(input.currency, (value) => value.toUpperCase()) } : {}),
+    ...(input.typicalAmounts !== undefined ? { typicalAmounts: cleanAmounts(input.typicalAmounts) } : {}),
+    ...(input.billingCycles !== undefined ? { billingCycles: Array.from(new Set(input.billingCycles)) } : {}),
+    ...(input.trialDays !== undefined ? { trialDays: input.trialDays } : {}),
+  };
+}
+
+/**
+ * Turns validated input into the fields of a new KnownMerchant
+ */
+export function toKnownMerchantCreateData(input: KnownMerchantInput): Prisma.KnownMerchantCreateInput {
+  return {
+    name: input.name.trim(),
+    displayName: input.displayName.trim(),
+    category: input.category.trim(),
+    logoUrl: input.logoUrl || null,
+    website: input.website || null,
+    keywords: cleanList(input.keywords, (value) => value.toLowerCase()),
+    countries: cleanList(input.countries, (value) => value.toUpperCase()),
+    currency: cleanList(input.currency, (value) => value.toUpperCase()),
+    typicalAmounts: cleanAmounts(input.typicalAmounts),
+    billingCycles: Array.from(new Set(input.billingCycles)),
+    trialDays: input.trialDays ?? null,
+  };
+}
+
+/**
+ * Lists known merchants, most matched first
+ *
+ * @param options.search - Matches name, display name or keywords
+ * @param options.includeInactive - Include deactivated merchants
+ */
+export async function listKnownMerchantsForAdmin(options: { search?: string; includeInactive?: boolean } = {}) {
+  const search = options.search?.trim();
+
+  return prisma.knownMerchant.findMany({
+    where: {
+      ...(options.includeInactive ? {} : { isActive: true }),
+      ...(search
+        ? {
+            OR: [
+              { name: { contains: search, mode: 'insensitive' } },
+              { displayName: { contains: search, mode: 'insensitive' } },
+              { keywords: { has: search.toLowerCase() } },
+            ],
+          }
+        : {}),
+    },
+    orderBy: [{ matchCount: 'desc' }, { name: 'asc' }],
+  });
+}
+
+/**
+ * Adds a merchant to the catalog
+ *
+ * @returns The merchant, or null if one with the same name already exists
+ */
+export async function createKnownMerchant(input: KnownMerchantInput) {
+  const data = toKnownMerchantCreateData(input);
+  const existing = await prisma.knownMerchant.findUnique({
+    where: { name: data.name },
+    select: { id: true },
+  });
+  if (existing) {
+    return null;
+  }
+
+  const created = await prisma.knownMerchant.create({ data });
+  clearKnownMerchantCache();
+  return created;
+}
+
+/**
+ * Edits a merchant
+ * The name can't change: it's the key the seed and catalog imports match on
+ *
+ * @returns The merchant, or null if it doesn't exist
+ */
+export async function updateKnownMerchant(
+  id: string,
+  input: Partial<Omit<KnownMerchantInput, 'name'>> & { isActive?: boolean }
+) {
+  const existing = await prisma.knownMerchant.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!existing) {
+    return null;
+  }
+
+  const updated = await prisma.knownMerchant.update({
+    where: { id },
+    data: {
+      ...toKnownMerchantData(input),
+      ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+    },
+  });
+  clearKnownMerchantCache();
+  return updated;
+}
+
+/**
+ * Merges duplicate merchants into one
+ * The target keeps its details and gains the others' keywords, countries,
+ * currencies, billing cycles, match counts and any typical amounts it lacks;
+ * the others are deleted
+ *
+ * @param targetId - Merchant to keep
+ * @param sourceIds - Merchants to merge into it
+ * @returns The merged merchant, or null if any of them doesn't exist
+ */
+export async function mergeKnownMerchants(targetId: string, sourceIds: string[]) {
+  const ids = Array.from(new Set(sourceIds.filter((id) => id !== targetId)));
+  const merchants = await prisma.knownMerchant.findMany({
+    where: { id: { in: [targetId, ...ids] } },
+  });
+
+  const target = merchants.find((merchant: typeof merchants[0]) => merchant.id === targetId);
+  const sources = merchants.filter((merchant: typeof merchants[0]) => merchant.id !== targetId);
+  if (!target || ids.length === 0 || sources.length !== ids.length) {
+    return null;
+  }
+
+  const union = (field: 'keywords' | 'countries' | 'currency' | 'billingCycles'): string[] =>
+    Array.from(new Set([target, ...sources].flatMap((merchant: typeof merchants[0]) => merchant[field])));
+
+  const typicalAmounts: Record<string, number> = {};
+  for (const merchant of [...sources].reverse().concat(target)) {
+    Object.assign(typicalAmounts, (merchant.typicalAmounts || {}) as Record<string, number>);
+  }
+
+  const [merged] = await prisma.$transaction([
+    prisma.knownMerchant.update({
+      where: { id: targetId },
+      data: {
+        // The merged names keep matching, even if they weren't keywords themselves
+        keywords: Array.from(
+          new Set([...union('keywords'), ...sources.map((merchant: typeof merchants[0]) => merchant.name.toLowerCase())])
+        ),
+        countries: union('countries'),
+        currency: union('currency'),
+        billingCycles: union('billingCycles'),
+        typicalAmounts,
+        trialDays: target.trialDays ?? sources.find((merchant: typeof merchants[0]) => merchant.trialDays != null)?.trialDays ?? null,
+        matchCount: { increment: sources.reduce((sum: number, merchant: typeof merchants[0]) => sum + merchant.matchCount, 0) },
+      },
+    }),
+    prisma.knownMerchant.deleteMany({ where: { id: { in: ids } } }),
+  ]);
+  clearKnownMerchantCache();
+  return merged;
+}
+
+/**
+ * Lists the merchants users are charged by most often that no known merchant matches
+ *
+ * @param options.days - Only look at transactions from this many days back
+ * @param options.limit - Maximum number of merchants to return
+ * @returns Unmatched merchants, seen for the most users first
+ */
+export async function getUnmatchedMerchants(
+  options: { days?: number; limit?: number } = {}
+): Promise<UnmatchedMerchant[]> {
+  const since = new Date(Date.now() - (options.days ?? 90) * 24 * 60 * 60 * 1000);
+  const limit = options.limit ?? 50;
+
+  // Detected subscriptions list their charges in plaidTransactionIds rather than linking them
+  const rows = await prisma.$queryRaw<UnmatchedMerchant[]>`
+    SELECT t."normalizedMerchant",
+           COUNT(DISTINCT t."userId")::int AS users,
+           COUNT(DISTINCT t."userId") FILTER (
+             WHERE t."subscriptionId" IS NOT NULL
+                OR EXISTS (
+                  SELECT 1 FROM "Subscription" s
+                  WHERE s."userId" = t."userId" AND t.id = ANY(s."plaidTransactionIds")
+                )
+           )::int AS "subscribedUsers",
+           COUNT(*)::int AS transactions,
+           percentile_cont(0.5) WITHIN GROUP (ORDER BY ABS(t.amount)) AS "medianAmount",
+           mode() WITHIN GROUP (ORDER BY t.currency) AS currency,
+           MAX(t.date) AS "lastSeen"
+    FROM "Transaction" t
+    WHERE t."normalizedMerchant" IS NOT NULL
+      AND t.amount < 0
+      AND t.date >= ${since}
+    GROUP BY t."normalizedMerchant"
+    HAVING COUNT(DISTINCT t."userId") >= ${MIN_UNMATCHED_USERS}
+    ORDER BY users DESC, transactions DESC
+    LIMIT ${UNMATCHED_SCAN_LIMIT}
+  `;
+
+  const unmatched: UnmatchedMerchant[] = [];
+  for (const row of rows) {
+    if (unmatched.length >= limit) break;
+    if (await isKnownMerchant(row.normalizedMerchant)) continue;
+    unmatched.push({ ...row, medianAmount: Math.round(Number(row.medianAmount) * 100) / 100 });
+  }
+  return unmatched;
+}
@@ -0,0 +1,138 @@
+/**
+ * Merchant Aliases
+ *
+ * normalizeMerchant can't untangle every bank descriptor, so charges like
+ * "SP * ACME DIGITAL" and "ACME.COM BILL" may never land in the same group.
+ * Users can alias a descriptor to a merchant name; recurring detection applies
+ * aliases before grouping transactions by merchant.
+ */
+
+import { prisma } from './prisma';
+import { normalizeMerchant } from './merchantNormalizer';
+import { requireFullDetection } from './detectionState';
+
+export interface MerchantAliasRule {
+  pattern: string;
+  alias: string;
+}
+
+/**
+ * Uppercases a descriptor and collapses whitespace so patterns match however the bank spaces them
+ */
+export function normalizeDescriptor(descriptor: string): string {
+  return descriptor.toUpperCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Finds the alias for a transaction
+ * A pattern matches if it appears anywhere in the raw merchant or description;
+ * the longest matching pattern wins
+ *
+ * @param aliases - The user's aliases
+ * @param transaction - Raw merchant and description
+ * @returns The matching alias, or null
+ */
+export function findMerchantAlias(
+  aliases: MerchantAliasRule[],
+  transaction: { merchant: string | null; description?: string | null }
+): MerchantAliasRule | null {
+  const descriptors = [transaction.merchant, transaction.description]
+    .filter((value): value is string => Boolean(value))
+    .map(normalizeDescriptor);
+  if (descriptors.length === 0) return null;
+
+  let best: MerchantAliasRule | null = null;
+  for (const alias of aliases) {
+    const pattern = normalizeDescriptor(alias.pattern);
+    if (!pattern || (best && pattern.length <= normalizeDescriptor(best.pattern).length)) continue;
+    if (descriptors.some((descriptor) => descriptor.includes(pattern))) {
+      best = alias;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Normalized merchant that transactions matching an alias are grouped under
+ */
+export function aliasToNormalizedMerchant(alias: MerchantAliasRule): string {
+  return normalizeMerchant(alias.alias) || alias.alias.trim().toLowerCase();
+}
+
+/**
+ * Loads a user's aliases for detection
+ */
+export async function getMerchantAliasRules(userId: string): Promise<MerchantAliasRule[]> {
+  return prisma.merchantAlias.findMany({
+    where: { userId },
+    select: { pattern: true, alias: true },
+  });
+}
+
+/**
+ * Lists a user's aliases with how many of their transactions each one matches
+ *
+ * @param userId - User ID
+ * @returns Aliases, alphabetically by alias name
+ */
+export async function listMerchantAliases(userId: string) {
+  const [aliases, transactions] = await Promise.all([
+    prisma.merchantAlias.findMany({
+      where: { userId },
+      orderBy: [{ alias: 'asc' }, { pattern: 'asc' }],
+    }),
+    prisma.transaction.findMany({
+      where: { userId, amount: { lt: 0 } },
+      select: { merchant: true, description: true },
+    }),
+  ]);
+
+  return aliases.map((alias: typeof aliases[0]) => ({
+    id: alias.id,
+    pattern: alias.pattern,
+    alias: alias.alias,
+    createdAt: alias.createdAt,
+    matchingTransactions: transactions.filter(
+      (transaction: typeof transactions[0]) => findMerchantAlias([alias], transaction) !== null
+    ).length,
+  }));
+}
+
+/**
+ * Creates an alias, or renames the target of an existing one for the same pattern
+ *
+ * @param userId - User ID
+ * @param pattern - Descriptor to match
+ * @param alias - Merchant name to group matching transactions under
+ */
+export async function saveMerchantAlias(userId: string, pattern: string, alias: string) {
+  const normalizedPattern = normalizeDescriptor(pattern);
+
+  const saved = await prisma.merchantAlias.upsert({
+    where: { userId_pattern: { userId, pattern: normalizedPattern } },
+    update: { alias: alias.trim() },
+    create: { userId, pattern: normalizedPattern, alias: alias.trim() },
+  });
+
+  // Any transaction can change group, so incremental detection can't follow
+  await requireFullDetection(userId);
+  return saved;
+}
+
+/**
+ * Deletes one of a user's aliases
+ *
+ * @returns false if the alias doesn't exist
+ */
+export async function deleteMerchantAlias(userId: string, aliasId: string): Promise<boolean> {
+  const result = await prisma.merchantAlias.deleteMany({
+    where: { id: aliasId, userId },
+  });
+  if (result.count === 0) {
+    return false;
+  }
+
+  await requireFullDetection(userId);
+  return true;
+}
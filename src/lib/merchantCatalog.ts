@@ -0,0 +1,253 @@
+/**
+ * Known Merchant Catalog Files
+ *
+ * Reads and writes the KnownMerchant catalog as a versioned JSON file (format
+ * described in MERCHANT_CATALOG_FORMAT.md), so catalog updates can be
+ * reviewed as a diff and shipped without a code deploy. Imports are validated
+ * in full, then compared with the database; nothing is written until the diff
+ * is applied. Merchants are matched by name. matchCount is a usage statistic,
+ * so it is neither exported nor imported.
+ */
+
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { clearKnownMerchantCache } from './merchantMatcher';
+import { isStandardInterval } from './billingInterval';
+import { knownMerchantSchema, toKnownMerchantCreateData } from './knownMerchantAdmin';
+
+export const CATALOG_FORMAT = 'subscription-sentry/known-merchants';
+
+// Bump when the file format changes in a way older importers can't read
+export const CATALOG_FORMAT_VERSION = 1;
+
+const catalogMerchantSchema = knownMerchantSchema.extend({
+  isActive: z.boolean().optional(), // Defaults to true
+});
+
+const catalogSchema = z.object({
+  format: z.literal(CATALOG_FORMAT, `format must be "${CATALOG_FORMAT}"`),
+  version: z
+    .number()
+    .int()
+    .min(1)
+    .refine((version) => version <= CATALOG_FORMAT_VERSION, {
+      message: `This catalog needs a newer version of the importer (supports version ${CATALOG_FORMAT_VERSION})`,
+    }),
+  exportedAt: z.string().optional(),
+  merchants: z.array(catalogMerchantSchema),
+});
+
+export type CatalogMerchant = z.infer<typeof catalogMerchantSchema>;
+export type MerchantCatalog = z.infer<typeof catalogSchema>;
+
+export type CatalogParseResult =
+  | { success: true; catalog: MerchantCatalog }
+  | { success: false; errors: string[] };
+
+export interface CatalogFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface CatalogDiff {
+  added: CatalogMerchant[];
+  updated: Array<{ id: string; merchant: CatalogMerchant; changes: CatalogFieldChange[] }>;
+  deactivated: Array<{ id: string; name: string }>; // In the database but not the catalog (with prune)
+  unchanged: number;
+}
+
+// Fields compared and written by imports, in the order diffs list them
+const CATALOG_FIELDS = [
+  'displayName',
+  'category',
+  'logoUrl',
+  'website',
+  'keywords',
+  'countries',
+  'currency',
+  'typicalAmounts',
+  'billingCycles',
+  'trialDays',
+  'isActive',
+] as const;
+
+type CatalogField = (typeof CATALOG_FIELDS)[number];
+
+/**
+ * Formats an issue path like merchants[3].keywords, naming the merchant if it can
+ */
+function formatIssuePath(path: PropertyKey[], input: unknown): string {
+  let label = '';
+  for (const part of path) {
+    label += typeof part === 'number' ? `[${part}]` : `${label ? '.' : ''}${String(part)}`;
+  }
+
+  const merchants = (input as { merchants?: unknown })?.merchants;
+  if (path[0] === 'merchants' && typeof path[1] === 'number' && Array.isArray(merchants)) {
+    const name = (merchants[path[1]] as { name?: unknown })?.name;
+    if (typeof name === 'string' && name) {
+      label += ` (${name})`;
+    }
+  }
+  return label || 'catalog';
+}
+
+/**
+ * Validates a parsed catalog file
+ * Collects every problem instead of stopping at the first, so a file can be fixed in one go
+ */
+export function parseCatalog(input: unknown): CatalogParseResult {
+  const result = catalogSchema.safeParse(input);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map((issue) => `${formatIssuePath(issue.path, input)}: ${issue.message}`),
+    };
+  }
+
+  const seen = new Set<string>();
+  const errors: string[] = [];
+  for (const merchant of result.data.merchants) {
+    const key = merchant.name.toLowerCase();
+    if (seen.has(key)) {
+      errors.push(`merchants: "${merchant.name}" appears more than once`);
+    }
+    seen.add(key);
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, catalog: result.data };
+}
+
+/**
+ * Builds a catalog file from the database
+ *
+ * @param options.includeInactive - Include deactivated merchants (with isActive: false)
+ */
+export async function exportCatalog(options: { includeInactive?: boolean } = {}): Promise<MerchantCatalog> {
+  const merchants = await prisma.knownMerchant.findMany({
+    where: options.includeInactive ? {} : { isActive: true },
+    orderBy: { name: 'asc' },
+  });
+
+  return {
+    format: CATALOG_FORMAT,
+    version: CATALOG_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    merchants: merchants.map((merchant: typeof merchants[0]) => ({
+      name: merchant.name,
+      displayName: merchant.displayName,
+      category: merchant.category,
+      logoUrl: merchant.logoUrl,
+      website: merchant.website,
+      keywords: merchant.keywords,
+      countries: merchant.countries,
+      currency: merchant.currency,
+      typicalAmounts: (merchant.typicalAmounts || {}) as Record<string, number>,
+      // Custom intervals can't be written in the catalog format
+      billingCycles: merchant.billingCycles.filter(isStandardInterval),
+      trialDays: merchant.trialDays,
+      ...(merchant.isActive ? {} : { isActive: false }),
+    })),
+  };
+}
+
+/**
+ * The stored form of a catalog entry's importable fields
+ */
+function toStoredFields(merchant: CatalogMerchant): Prisma.KnownMerchantCreateInput {
+  return {
+    ...toKnownMerchantCreateData(merchant),
+    isActive: merchant.isActive ?? true,
+  };
+}
+
+/**
+ * Compares stored values, ignoring the key order of typical amounts
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  const canonical = (value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? JSON.stringify(Object.entries(value).sort(([x], [y]) => x.localeCompare(y)))
+      : JSON.stringify(value ?? null);
+  return canonical(a) === canonical(b);
+}
+
+/**
+ * Works out what importing a catalog would change
+ *
+ * @param catalog - Validated catalog
+ * @param options.prune - Deactivate merchants that aren't in the catalog (they're never deleted)
+ */
+export async function diffCatalog(catalog: MerchantCatalog, options: { prune?: boolean } = {}): Promise<CatalogDiff> {
+  const existing = await prisma.knownMerchant.findMany();
+  const byName = new Map<string, typeof existing[0]>(
+    existing.map((merchant: typeof existing[0]) => [merchant.name, merchant])
+  );
+  const diff: CatalogDiff = { added: [], updated: [], deactivated: [], unchanged: 0 };
+
+  for (const merchant of catalog.merchants) {
+    const current = byName.get(merchant.name);
+    if (!current) {
+      diff.added.push(merchant);
+      continue;
+    }
+
+    const incoming = toStoredFields(merchant);
+    const changes = CATALOG_FIELDS.filter((field) => !isSameValue(current[field], incoming[field])).map((field) => ({
+      field,
+      from: current[field] ?? null,
+      to: incoming[field],
+    }));
+
+    if (changes.length > 0) {
+      diff.updated.push({ id: current.id, merchant, changes });
+    } else {
+      diff.unchanged++;
+    }
+  }
+
+  if (options.prune) {
+    const names = new Set(catalog.merchants.map((merchant) => merchant.name));
+    diff.deactivated = existing
+      .filter((merchant: typeof existing[0]) => merchant.isActive && !names.has(merchant.name))
+      .map((merchant: typeof existing[0]) => ({ id: merchant.id, name: merchant.name }));
+  }
+
+  return diff;
+}
+
+/**
+ * Writes a diff from diffCatalog to the database, all or nothing
+ *
+ * @returns Number of merchants written
+ */
+export async function applyCatalogDiff(diff: CatalogDiff): Promise<number> {
+  const writes = [
+    ...diff.added.map((merchant) =>
+      prisma.knownMerchant.create({
+        data: toStoredFields(merchant),
+      })
+    ),
+    ...diff.updated.map(({ id, changes }) =>
+      prisma.knownMerchant.update({
+        where: { id },
+        data: Object.fromEntries(changes.map((change) => [change.field, change.to])),
+      })
+    ),
+    ...diff.deactivated.map(({ id }) =>
+      prisma.knownMerchant.update({
+        where: { id },
+        data: { isActive: false },
+      })
+    ),
+  ];
+  if (writes.length === 0) {
+    return 0;
+  }
+
+  await prisma.$transaction(writes);
+  clearKnownMerchantCache();
+  return writes.length;
+}
@@ -0,0 +1,476 @@
+/**
+ * Known Merchant Index
+ *
+ * In-memory matcher for the known merchant catalog. Keywords are normalized
+ * once when the index is built, and each one is indexed by its trigrams, so a
+ * lookup only scores the merchants that share enough trigrams with the
+ * merchant name to possibly match, instead of running Levenshtein against
+ * every keyword in the catalog.
+ *
+ * Pruning never changes a result: a keyword is only skipped when it can't be
+ * an exact, contains or fuzzy match. Strings within d edits of each other
+ * share at least max(|a|, |b|) + 2 - 3d padded trigrams, which gives the
+ * bound for fuzzy matches; a keyword contained in the other string shares
+ * all of its inner trigrams.
+ */
+
+import { normalizeMerchant } from './merchantNormalizer';
+import { parseRegion } from './regions';
+
+export interface MatchedMerchant {
+  id: string;
+  name: string;
+  displayName: string;
+  category: string;
+  confidenceScore: number;
+  matchedKeyword?: string;
+  amountMatch?: boolean;
+  countryMatch?: boolean;
+  typicalAmount?: number; // Usual price in the requested currency
+  billingCycles?: string[];
+  trialDays?: number | null;
+}
+
+export type KnownMerchantRecord = {
+  id: string;
+  name: string;
+  displayName: string;
+  category: string;
+  keywords: string[];
+  countries: string[];
+  currency: string[];
+  typicalAmounts: unknown;
+  billingCycles: string[];
+  trialDays: number | null;
+};
+
+type IndexedKeyword = {
+  merchant: number; // Position in KnownMerchantIndex.merchants
+  normalized: string;
+};
+
+type Posting = {
+  keyword: number; // Position in KnownMerchantIndex.keywords
+  count: number; // Times the trigram appears in the keyword
+};
+
+export interface KnownMerchantIndex {
+  merchants: KnownMerchantRecord[];
+  normalizedKeywords: string[][]; // Per merchant, in keyword order
+  keywords: IndexedKeyword[];
+  postings: Map<string, Posting[]>; // Trigram -> keywords containing it
+  keywordsByLength: Map<number, number[]>;
+  shortKeywords: number[]; // Too short to have an inner trigram
+}
+
+// Fuzzy similarity a keyword needs for findKnownMerchant and findKnownMerchants
+export const BEST_MATCH_SIMILARITY = 0.7;
+export const CANDIDATE_MATCH_SIMILARITY = 0.6;
+
+const GRAM_SIZE = 3;
+const GRAM_PADDING = '\u0000'.repeat(GRAM_SIZE - 1);
+
+/**
+ * Counts the trigrams of a string, padded so its first and last characters
+ * appear in as many trigrams as the rest
+ */
+function countGrams(text: string): Map<string, number> {
+  const padded = `${GRAM_PADDING}${text}${GRAM_PADDING}`;
+  const grams = new Map<string, number>();
+  for (let i = 0; i + GRAM_SIZE <= padded.length; i++) {
+    const gram = padded.slice(i, i + GRAM_SIZE);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Most edits a fuzzy match can need, when the longer string has this length
+ * Similarity is (length - distance) / length and has to be above minSimilarity
+ */
+function maxEdits(length: number, minSimilarity: number): number {
+  return Math.max(0, Math.ceil((1 - minSimilarity) * length) - 1);
+}
+
+/**
+ * Fewest padded trigrams two strings can share and still be a fuzzy match
+ * Returns Infinity when their lengths alone rule it out
+ */
+function minSharedGramsForFuzzy(length1: number, length2: number, minSimilarity: number): number {
+  const longer = Math.max(length1, length2);
+  const edits = maxEdits(longer, minSimilarity);
+  if (Math.abs(length1 - length2) > edits) {
+    return Infinity;
+  }
+  return longer + GRAM_SIZE - 1 - GRAM_SIZE * edits;
+}
+
+/**
+ * Builds the index for a set of known merchants
+ */
+export function buildKnownMerchantIndex(merchants: KnownMerchantRecord[]): KnownMerchantIndex {
+  const index: KnownMerchantIndex = {
+    merchants,
+    normalizedKeywords: [],
+    keywords: [],
+    postings: new Map(),
+    keywordsByLength: new Map(),
+    shortKeywords: [],
+  };
+
+  merchants.forEach((merchant, merchantPosition) => {
+    const normalizedKeywords = merchant.keywords.map((keyword) => normalizeMerchant(keyword));
+    index.normalizedKeywords.push(normalizedKeywords);
+
+    for (const normalized of new Set(normalizedKeywords)) {
+      const keywordPosition = index.keywords.length;
+      index.keywords.push({ merchant: merchantPosition, normalized });
+
+      if (normalized.length < GRAM_SIZE) {
+        index.shortKeywords.push(keywordPosition);
+      }
+      const sameLength = index.keywordsByLength.get(normalized.length) || [];
+      sameLength.push(keywordPosition);
+      index.keywordsByLength.set(normalized.length, sameLength);
+
+      for (const [gram, count] of countGrams(normalized)) {
+        const postings = index.postings.get(gram) || [];
+        postings.push({ keyword: keywordPosition, count });
+        index.postings.set(gram, postings);
+      }
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Finds the merchants that have a keyword which could match a normalized merchant name
+ * Merchants come back in catalog order, so ties are broken the same way as a full scan
+ *
+ * @param index - Known merchant index
+ * @param normalizedMerchant - Normalized merchant name
+ * @param minSimilarity - Similarity a fuzzy match has to be above
+ * @returns Positions in index.merchants
+ */
+export function getCandidateMerchants(
+  index: KnownMerchantIndex,
+  normalizedMerchant: string,
+  minSimilarity: number
+): number[] {
+  const queryLength = normalizedMerchant.length;
+
+  // Too short for trigrams to tell which keywords contain it
+  if (queryLength < GRAM_SIZE) {
+    return index.merchants.map((_, position) => position);
+  }
+
+  const candidates = new Set<number>();
+  const addKeyword = (keywordPosition: number) => candidates.add(index.keywords[keywordPosition].merchant);
+
+  // Keywords shorter than a trigram can only match by being contained
+  for (const keywordPosition of index.shortKeywords) {
+    if (normalizedMerchant.includes(index.keywords[keywordPosition].normalized)) {
+      addKeyword(keywordPosition);
+    }
+  }
+
+  const sharedGrams = new Map<number, number>();
+  for (const [gram, count] of countGrams(normalizedMerchant)) {
+    for (const posting of index.postings.get(gram) || []) {
+      sharedGrams.set(posting.keyword, (sharedGrams.get(posting.keyword) || 0) + Math.min(count, posting.count));
+    }
+  }
+
+  for (const [keywordPosition, shared] of sharedGrams) {
+    const keywordLength = index.keywords[keywordPosition].normalized.length;
+    const keywordContained = keywordLength >= GRAM_SIZE && shared >= keywordLength - GRAM_SIZE + 1;
+    const queryContained = shared >= queryLength - GRAM_SIZE + 1;
+    if (
+      keywordContained ||
+      queryContained ||
+      shared >= minSharedGramsForFuzzy(keywordLength, queryLength, minSimilarity)
+    ) {
+      addKeyword(keywordPosition);
+    }
+  }
+
+  // At low similarity, long strings can be a fuzzy match without sharing a trigram
+  for (const [keywordLength, keywordPositions] of index.keywordsByLength) {
+    if (minSharedGramsForFuzzy(keywordLength, queryLength, minSimilarity) <= 0) {
+      keywordPositions.forEach(addKeyword);
+    }
+  }
+
+  return Array.from(candidates).sort((a, b) => a - b);
+}
+
+/**
+ * Calculates Levenshtein distance between two strings
+ * Used for fuzzy string matching
+ */
+function levenshteinDistance(str1: string, str2: string): number {
+  const m = str1.length;
+  const n = str2.length;
+  const dp: number[][] = Array(m + 1)
+    .fill(null)
+    .map(() => Array(n + 1).fill(0));
+
+  for (let i = 0; i <= m; i++) dp[i][0] = i;
+  for (let j = 0; j <= n; j++) dp[0][j] = j;
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      if (str1[i - 1] === str2[j - 1]) {
+        dp[i][j] = dp[i - 1][j - 1];
+      } else {
+        dp[i][j] = Math.min(
+          dp[i - 1][j] + 1, // deletion
+          dp[i][j - 1] + 1, // insertion
+          dp[i - 1][j - 1] + 1 // substitution
+        );
+      }
+    }
+  }
+
+  return dp[m][n];
+}
+
+/**
+ * Calculates similarity score between two strings (0-1)
+ * 1.0 = exact match, 0.0 = completely different
+ */
+function calculateSimilarity(str1: string, str2: string): number {
+  const longer = str1.length > str2.length ? str1 : str2;
+  const shorter = str1.length > str2.length ? str2 : str1;
+
+  if (longer.length === 0) return 1.0;
+
+  const distance = levenshteinDistance(longer, shorter);
+  return (longer.length - distance) / longer.length;
+}
+
+/**
+ * Checks if amount is within acceptable range of typical amount
+ * Uses ±15% tolerance
+ */
+function isAmountMatch(
+  transactionAmount: number,
+  typicalAmount: number,
+  tolerance: number = 0.15
+): boolean {
+  if (!typicalAmount || typicalAmount === 0) return false;
+  const absAmount = Math.abs(transactionAmount);
+  const diff = Math.abs(absAmount - typicalAmount);
+  const percentDiff = diff / typicalAmount;
+  return percentDiff <= tolerance;
+}
+
+/**
+ * Checks if a merchant operates in a country
+ * Codes are compared as regions, so 'GB' and 'UK' match each other
+ */
+function servesCountry(countries: string[], country: string): boolean {
+  const region = parseRegion(country) || country.toUpperCase();
+  return countries.some((code) => (parseRegion(code) || code.toUpperCase()) === region);
+}
+
+/**
+ * Finds the keyword of a merchant that best matches a normalized merchant name
+ * An exact or contains match on an earlier keyword wins over later ones
+ *
+ * @returns The keyword and its score, or null if none is close enough
+ */
+function matchKeywords(
+  index: KnownMerchantIndex,
+  merchantPosition: number,
+  normalizedMerchant: string,
+  minSimilarity: number
+): { keyword: string; score: number } | null {
+  const merchant = index.merchants[merchantPosition];
+  const normalizedKeywords = index.normalizedKeywords[merchantPosition];
+  let match: { keyword: string; score: number } | null = null;
+
+  for (let i = 0; i < merchant.keywords.length; i++) {
+    const normalizedKeyword = normalizedKeywords[i];
+
+    // Exact match
+    if (normalizedMerchant === normalizedKeyword) {
+      return { keyword: merchant.keywords[i], score: 1.0 };
+    }
+
+    // Contains match
+    if (
+      normalizedMerchant.includes(normalizedKeyword) ||
+      normalizedKeyword.includes(normalizedMerchant)
+    ) {
+      return { keyword: merchant.keywords[i], score: 0.8 };
+    }
+
+    // Fuzzy match
+    const similarity = calculateSimilarity(normalizedMerchant, normalizedKeyword);
+    if (similarity > minSimilarity && similarity > (match?.score ?? 0)) {
+      match = { keyword: merchant.keywords[i], score: similarity };
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Checks the country and currency filters of a lookup
+ */
+function isAvailable(merchant: KnownMerchantRecord, country?: string, currency?: string): boolean {
+  if (country && !servesCountry(merchant.countries, country)) {
+    return false;
+  }
+  if (currency && !merchant.currency.includes(currency)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Finds the best matching known merchant in an index
+ * See findKnownMerchant in merchantMatcher.ts, which adds caching
+ *
+ * @param index - Known merchant index
+ * @param normalizedMerchant - Normalized merchant name
+ * @param amount - Transaction amount (optional, for amount matching)
+ * @param country - Country code (optional, for country filtering)
+ * @param currency - Currency code (optional, for currency filtering)
+ * @returns Matched merchant with confidence score, or null if no good match
+ */
+export function matchKnownMerchant(
+  index: KnownMerchantIndex,
+  normalizedMerchant: string,
+  amount?: number,
+  country?: string,
+  currency?: string
+): MatchedMerchant | null {
+  let bestMatch: MatchedMerchant | null = null;
+  let bestScore = 0;
+
+  for (const position of getCandidateMerchants(index, normalizedMerchant, BEST_MATCH_SIMILARITY)) {
+    const merchant = index.merchants[position];
+    if (!isAvailable(merchant, country, currency)) {
+      continue;
+    }
+
+    const keywordMatch = matchKeywords(index, position, normalizedMerchant, BEST_MATCH_SIMILARITY);
+    if (!keywordMatch) {
+      continue;
+    }
+
+    // Calculate confidence score
+    let confidenceScore = keywordMatch.score;
+
+    // Amount matching bonus
+    let amountMatch = false;
+    const amounts = (merchant.typicalAmounts || {}) as Record<string, number>;
+    const typicalAmount: number | undefined = amounts[currency || 'USD'] || amounts['USD'] || amounts['GBP'];
+    if (amount && merchant.typicalAmounts) {
+      if (typicalAmount && isAmountMatch(amount, typicalAmount)) {
+        amountMatch = true;
+        confidenceScore = Math.min(1.0, confidenceScore + 0.15); // Boost confidence
+      } else if (typicalAmount) {
+        // Penalize if amount is way off
+        const absAmount = Math.abs(amount);
+        const diff = Math.abs(absAmount - typicalAmount);
+        const percentDiff = diff / typicalAmount;
+        if (percentDiff > 0.5) {
+          // More than 50% difference, reduce confidence
+          confidenceScore *= 0.7;
+        }
+      }
+    }
+
+    // Country match bonus
+    const countryMatch = country ? servesCountry(merchant.countries, country) : true;
+    if (countryMatch && country) {
+      confidenceScore = Math.min(1.0, confidenceScore + 0.05);
+    }
+
+    // Only consider matches with confidence > 0.6
+    if (confidenceScore > 0.6 && confidenceScore > bestScore) {
+      bestScore = confidenceScore;
+      bestMatch = {
+        id: merchant.id,
+        name: merchant.name,
+        displayName: merchant.displayName,
+        category: merchant.category,
+        confidenceScore: Math.round(confidenceScore * 100) / 100, // Round to 2 decimals
+        matchedKeyword: keywordMatch.keyword,
+        amountMatch,
+        countryMatch,
+        typicalAmount,
+        billingCycles: merchant.billingCycles,
+        trialDays: merchant.trialDays,
+      };
+    }
+  }
+
+  return bestMatch;
+}
+
+/**
+ * Finds every known merchant in an index that could be the one meant
+ * See findKnownMerchants in merchantMatcher.ts
+ *
+ * @returns Matched merchants, in catalog order
+ */
+export function matchKnownMerchants(
+  index: KnownMerchantIndex,
+  normalizedMerchant: string,
+  amount?: number,
+  country?: string,
+  currency?: string
+): MatchedMerchant[] {
+  const matches: MatchedMerchant[] = [];
+
+  for (const position of getCandidateMerchants(index, normalizedMerchant, CANDIDATE_MATCH_SIMILARITY)) {
+    const merchant = index.merchants[position];
+    if (!isAvailable(merchant, country, currency)) {
+      continue;
+    }
+
+    const keywordMatch = matchKeywords(index, position, normalizedMerchant, CANDIDATE_MATCH_SIMILARITY);
+    if (!keywordMatch) {
+      continue;
+    }
+
+    let confidenceScore = keywordMatch.score;
+    let amountMatch = false;
+
+    if (amount && merchant.typicalAmounts) {
+      const amounts = merchant.typicalAmounts as Record<string, number>;
+      const relevantCurrency = currency || 'USD';
+      const typicalAmount = amounts[relevantCurrency] || amounts['USD'] || amounts['GBP'];
+
+      if (typicalAmount && isAmountMatch(amount, typicalAmount)) {
+        amountMatch = true;
+        confidenceScore = Math.min(1.0, confidenceScore + 0.15);
+      }
+    }
+
+    const countryMatch = country ? servesCountry(merchant.countries, country) : true;
+    if (countryMatch && country) {
+      confidenceScore = Math.min(1.0, confidenceScore + 0.05);
+    }
+
+    if (confidenceScore > 0.5) {
+      matches.push({
+        id: merchant.id,
+        name: merchant.name,
+        displayName: merchant.displayName,
+        category: merchant.category,
+        confidenceScore: Math.round(confidenceScore * 100) / 100,
+        matchedKeyword: keywordMatch.keyword,
+        amountMatch,
+        countryMatch,
+      });
+    }
+  }
+
+  return matches;
+}
@@ -3,81 +3,130 @@
  * 
  * Matches normalized merchant names to known merchants in the database
  * Uses fuzzy matching, amount proximity, and country filtering
+ * Active known merchants are kept in memory as a keyword index (see
+ * merchantIndex.ts), along with lookup results, since sync and detection look
+ * up the same merchants over and over. The index is rebuilt when KnownMerchant
+ * rows change: straight away for changes made through this process (see
+ * clearKnownMerchantCache), and within a minute for changes made anywhere else
  */
 
 import { prisma } from '@/lib/prisma';
-import { normalizeMerchant } from './merchantNormalizer';
+import {
+  buildKnownMerchantIndex,
+  KnownMerchantIndex,
+  KnownMerchantRecord,
+  MatchedMerchant,
+  matchKnownMerchant,
+  matchKnownMerchants,
+} from './merchantIndex';
 
-export interface MatchedMerchant {
-  id: string;
-  name: string;
-  displayName: string;
-  category: string;
-  confidenceScore: number;
-  matchedKeyword?: string;
-  amountMatch?: boolean;
-  countryMatch?: boolean;
-}
+export type { MatchedMerchant } from './merchantIndex';
+
+// How often the index checks whether KnownMerchant rows have changed
+const KNOWN_MERCHANT_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Lookups remembered until the index is rebuilt; cleared early if it grows past this
+const MAX_CACHED_LOOKUPS = 10000;
+
+let knownMerchantCache: { index: KnownMerchantIndex; version: string; checkedAt: number } | null = null;
+let refreshing: Promise<KnownMerchantIndex> | null = null;
+let cacheGeneration = 0; // Bumped by clearKnownMerchantCache, so a refresh already running doesn't store stale rows
+const lookupCache = new Map<string, MatchedMerchant | null>();
+
+// Match counts not yet written to KnownMerchant.matchCount
+const pendingMatchCounts = new Map<string, number>();
 
 /**
- * Calculates Levenshtein distance between two strings
- * Used for fuzzy string matching
+ * Identifies the current state of the KnownMerchant table
+ * Any create, update or delete changes the row count or the latest updatedAt
  */
-function levenshteinDistance(str1: string, str2: string): number {
-  const m = str1.length;
-  const n = str2.length;
-  const dp: number[][] = Array(m + 1)
-    .fill(null)
-    .map(() => Array(n + 1).fill(0));
+async function getKnownMerchantVersion(): Promise<string> {
+  const { _count, _max } = await prisma.knownMerchant.aggregate({
+    _count: { _all: true },
+    _max: { updatedAt: true },
+  });
+  return `${_count._all}:${_max.updatedAt?.getTime() ?? 0}`;
+}
 
-  for (let i = 0; i <= m; i++) dp[i][0] = i;
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
+/**
+ * Rebuilds the index if KnownMerchant rows have changed since it was built
+ */
+async function refreshKnownMerchantIndex(): Promise<KnownMerchantIndex> {
+  const generation = cacheGeneration;
+  const version = await getKnownMerchantVersion();
 
-  for (let i = 1; i <= m; i++) {
-    for (let j = 1; j <= n; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        dp[i][j] = dp[i - 1][j - 1];
-      } else {
-        dp[i][j] = Math.min(
-          dp[i - 1][j] + 1, // deletion
-          dp[i][j - 1] + 1, // insertion
-          dp[i - 1][j - 1] + 1 // substitution
-        );
-      }
-    }
+  if (knownMerchantCache && knownMerchantCache.version === version) {
+    knownMerchantCache.checkedAt = Date.now();
+    return knownMerchantCache.index;
   }
 
-  return dp[m][n];
+  const merchants: KnownMerchantRecord[] = await prisma.knownMerchant.findMany({
+    where: { isActive: true },
+    orderBy: { name: 'asc' },
+  });
+  const index = buildKnownMerchantIndex(merchants);
+
+  if (generation === cacheGeneration) {
+    knownMerchantCache = { index, version, checkedAt: Date.now() };
+    lookupCache.clear();
+  }
+  return index;
 }
 
 /**
- * Calculates similarity score between two strings (0-1)
- * 1.0 = exact match, 0.0 = completely different
+ * Gets the index of active known merchants, checking at most once a minute
+ * whether it needs rebuilding
  */
-function calculateSimilarity(str1: string, str2: string): number {
-  const longer = str1.length > str2.length ? str1 : str2;
-  const shorter = str1.length > str2.length ? str2 : str1;
+async function getKnownMerchantIndex(): Promise<KnownMerchantIndex> {
+  if (knownMerchantCache && Date.now() - knownMerchantCache.checkedAt < KNOWN_MERCHANT_CHECK_INTERVAL_MS) {
+    return knownMerchantCache.index;
+  }
 
-  if (longer.length === 0) return 1.0;
+  // Concurrent lookups share one refresh
+  if (!refreshing) {
+    const refresh = refreshKnownMerchantIndex().finally(() => {
+      if (refreshing === refresh) refreshing = null;
+    });
+    refreshing = refresh;
+  }
+  return refreshing;
+}
 
-  const distance = levenshteinDistance(longer, shorter);
-  return (longer.length - distance) / longer.length;
+/**
+ * Builds the index ahead of the first lookup, e.g. when a worker starts
+ *
+ * @returns Number of active known merchants indexed
+ */
+export async function preloadKnownMerchants(): Promise<number> {
+  const index = await getKnownMerchantIndex();
+  return index.merchants.length;
+}
+
+/**
+ * Drops the index and cached lookups; call after changing KnownMerchant rows
+ */
+export function clearKnownMerchantCache(): void {
+  cacheGeneration++;
+  knownMerchantCache = null;
+  refreshing = null;
+  lookupCache.clear();
 }
 
 /**
- * Checks if amount is within acceptable range of typical amount
- * Uses ±15% tolerance
+ * Writes the match counts collected by findKnownMerchant to KnownMerchant.matchCount
+ * Called at the end of syncs and detection runs, so lookups don't each cost a write
+ * Written with raw SQL so updatedAt, which the index watches for catalog edits, stays put
  */
-function isAmountMatch(
-  transactionAmount: number,
-  typicalAmount: number,
-  tolerance: number = 0.15
-): boolean {
-  if (!typicalAmount || typicalAmount === 0) return false;
-  const absAmount = Math.abs(transactionAmount);
-  const diff = Math.abs(absAmount - typicalAmount);
-  const percentDiff = diff / typicalAmount;
-  return percentDiff <= tolerance;
+export async function flushKnownMerchantMatchCounts(): Promise<void> {
+  const counts = Array.from(pendingMatchCounts.entries());
+  pendingMatchCounts.clear();
+  if (counts.length === 0) return;
+
+  await prisma.$transaction(
+    counts.map(([id, count]) =>
+      prisma.$executeRaw`UPDATE "KnownMerchant" SET "matchCount" = "matchCount" + ${count} WHERE id = ${id}`
+    )
+  );
 }
 
 /**
@@ -103,127 +152,49 @@ export async function findKnownMerchant(
     return null;
   }
 
-  // Get all active known merchants
-  const knownMerchants = await prisma.knownMerchant.findMany({
-    where: { isActive: true },
-  });
+  const index = await getKnownMerchantIndex();
 
-  if (knownMerchants.length === 0) {
+  if (index.merchants.length === 0) {
     return null;
   }
 
-  let bestMatch: MatchedMerchant | null = null;
-  let bestScore = 0;
-
-  for (const merchant of knownMerchants) {
-    // Country filter
-    if (country && !merchant.countries.includes(country)) {
-      continue;
-    }
-
-    // Currency filter
-    if (currency && !merchant.currency.includes(currency)) {
-      continue;
-    }
-
-    // Check keyword matches
-    let keywordMatch = false;
-    let matchedKeyword = '';
-    let keywordScore = 0;
-
-    for (const keyword of merchant.keywords) {
-      const normalizedKeyword = normalizeMerchant(keyword);
-      
-      // Exact match
-      if (normalizedMerchant === normalizedKeyword) {
-        keywordMatch = true;
-        matchedKeyword = keyword;
-        keywordScore = 1.0;
-        break;
-      }
-
-      // Contains match
-      if (
-        normalizedMerchant.includes(normalizedKeyword) ||
-        normalizedKeyword.includes(normalizedMerchant)
-      ) {
-        keywordMatch = true;
-        matchedKeyword = keyword;
-        keywordScore = 0.8;
-        break;
-      }
-
-      // Fuzzy match
-      const similarity = calculateSimilarity(normalizedMerchant, normalizedKeyword);
-      if (similarity > 0.7 && similarity > keywordScore) {
-        keywordMatch = true;
-        matchedKeyword = keyword;
-        keywordScore = similarity;
-      }
-    }
-
-    if (!keywordMatch) {
-      continue;
-    }
-
-    // Calculate confidence score
-    let confidenceScore = keywordScore;
-
-    // Amount matching bonus
-    let amountMatch = false;
-    if (amount && merchant.typicalAmounts) {
-      const amounts = merchant.typicalAmounts as Record<string, number>;
-      const relevantCurrency = currency || 'USD';
-      const typicalAmount = amounts[relevantCurrency] || amounts['USD'] || amounts['GBP'];
-
-      if (typicalAmount && isAmountMatch(amount, typicalAmount)) {
-        amountMatch = true;
-        confidenceScore = Math.min(1.0, confidenceScore + 0.15); // Boost confidence
-      } else if (typicalAmount) {
-        // Penalize if amount is way off
-        const absAmount = Math.abs(amount);
-        const diff = Math.abs(absAmount - typicalAmount);
-        const percentDiff = diff / typicalAmount;
-        if (percentDiff > 0.5) {
-          // More than 50% difference, reduce confidence
-          confidenceScore *= 0.7;
-        }
-      }
+  const cacheKey = [normalizedMerchant, amount?.toFixed(2) ?? '', country ?? '', currency ?? ''].join('|');
+  if (lookupCache.has(cacheKey)) {
+    const cached = lookupCache.get(cacheKey) ?? null;
+    if (cached) {
+      pendingMatchCounts.set(cached.id, (pendingMatchCounts.get(cached.id) || 0) + 1);
     }
+    return cached;
+  }
 
-    // Country match bonus
-    const countryMatch = country ? merchant.countries.includes(country) : true;
-    if (countryMatch && country) {
-      confidenceScore = Math.min(1.0, confidenceScore + 0.05);
-    }
+  const bestMatch = matchKnownMerchant(index, normalizedMerchant, amount, country, currency);
 
-    // Only consider matches with confidence > 0.6
-    if (confidenceScore > 0.6 && confidenceScore > bestScore) {
-      bestScore = confidenceScore;
-      bestMatch = {
-        id: merchant.id,
-        name: merchant.name,
-        displayName: merchant.displayName,
-        category: merchant.category,
-        confidenceScore: Math.round(confidenceScore * 100) / 100, // Round to 2 decimals
-        matchedKeyword,
-        amountMatch,
-        countryMatch,
-      };
-    }
+  if (lookupCache.size >= MAX_CACHED_LOOKUPS) {
+    lookupCache.clear();
   }
+  lookupCache.set(cacheKey, bestMatch);
 
-  // Update match count for the matched merchant (for popularity tracking)
+  // Count the match for popularity tracking (written by flushKnownMerchantMatchCounts)
   if (bestMatch) {
-    await prisma.knownMerchant.update({
-      where: { id: bestMatch.id },
-      data: { matchCount: { increment: 1 } },
-    });
+    pendingMatchCounts.set(bestMatch.id, (pendingMatchCounts.get(bestMatch.id) || 0) + 1);
   }
 
   return bestMatch;
 }
 
+/**
+ * Checks whether a normalized merchant name matches any known merchant
+ * Unlike findKnownMerchant, the check isn't counted towards matchCount
+ */
+export async function isKnownMerchant(normalizedMerchant: string): Promise<boolean> {
+  if (!normalizedMerchant || normalizedMerchant.trim().length < 2) {
+    return false;
+  }
+
+  const index = await getKnownMerchantIndex();
+  return matchKnownMerchant(index, normalizedMerchant) !== null;
+}
+
 /**
  * Finds multiple potential matches (useful for disambiguation)
  * 
@@ -245,92 +216,8 @@ export async function findKnownMerchants(
     return [];
   }
 
-  const knownMerchants = await prisma.knownMerchant.findMany({
-    where: { isActive: true },
-  });
-
-  const matches: MatchedMerchant[] = [];
-
-  for (const merchant of knownMerchants) {
-    // Country filter
-    if (country && !merchant.countries.includes(country)) {
-      continue;
-    }
-
-    // Currency filter
-    if (currency && !merchant.currency.includes(currency)) {
-      continue;
-    }
-
-    // Check keyword matches
-    let keywordMatch = false;
-    let matchedKeyword = '';
-    let keywordScore = 0;
-
-    for (const keyword of merchant.keywords) {
-      const normalizedKeyword = normalizeMerchant(keyword);
-      
-      if (normalizedMerchant === normalizedKeyword) {
-        keywordMatch = true;
-        matchedKeyword = keyword;
-        keywordScore = 1.0;
-        break;
-      }
-
-      if (
-        normalizedMerchant.includes(normalizedKeyword) ||
-        normalizedKeyword.includes(normalizedMerchant)
-      ) {
-        keywordMatch = true;
-        matchedKeyword = keyword;
-        keywordScore = 0.8;
-        break;
-      }
-
-      const similarity = calculateSimilarity(normalizedMerchant, normalizedKeyword);
-      if (similarity > 0.6 && similarity > keywordScore) {
-        keywordMatch = true;
-        matchedKeyword = keyword;
-        keywordScore = similarity;
-      }
-    }
-
-    if (!keywordMatch) {
-      continue;
-    }
-
-    let confidenceScore = keywordScore;
-    let amountMatch = false;
-
-    if (amount && merchant.typicalAmounts) {
-      const amounts = merchant.typicalAmounts as Record<string, number>;
-      const relevantCurrency = currency || 'USD';
-      const typicalAmount = amounts[relevantCurrency] || amounts['USD'] || amounts['GBP'];
-
-      if (typicalAmount && isAmountMatch(amount, typicalAmount)) {
-        amountMatch = true;
-        confidenceScore = Math.min(1.0, confidenceScore + 0.15);
-      }
-    }
-
-    const countryMatch = country ? merchant.countries.includes(country) : true;
-    if (countryMatch && country) {
-      confidenceScore = Math.min(1.0, confidenceScore + 0.05);
-    }
-
-    if (confidenceScore > 0.5) {
-      matches.push({
-        id: merchant.id,
-        name: merchant.name,
-        displayName: merchant.displayName,
-        category: merchant.category,
-        confidenceScore: Math.round(confidenceScore * 100) / 100,
-        matchedKeyword,
-        amountMatch,
-        countryMatch,
-      });
-    }
-  }
+  const index = await getKnownMerchantIndex();
+  const matches = matchKnownMerchants(index, normalizedMerchant, amount, country, currency);
 
   // Sort by confidence score (highest first) and return top matches
   return matches
@@ -10,12 +10,18 @@ import {
   sendUpcomingBillEmail,
   sendNewSubscriptionDetectedEmail,
   sendPriceChangeDetectedEmail,
+  sendTrialEndingEmail,
 } from './emailService';
+import { toNotificationPreferences } from './notificationPreferences';
+import { recordObservedPrices } from './priceHistory';
+import { checkSilentCancellations } from './silentCancellation';
 
-const RENEWAL_REMINDER_DAYS = 3; // Send reminder 3 days before renewal
+// Widest reminder window a user can choose; each user's own reminderDays is applied per subscription
+const MAX_REMINDER_DAYS = 30;
 
 /**
  * Checks for upcoming bills and sends email notifications
+ * Respects each user's renewal reminder, email and reminderDays preferences
  * 
  * @param userId - Optional user ID to check for specific user, otherwise checks all users
  * @returns Number of notifications sent
@@ -24,13 +30,14 @@ export async function checkUpcomingBills(userId?: string): Promise<number> {
   try {
     const now = new Date();
     const reminderDate = new Date(now);
-    reminderDate.setDate(reminderDate.getDate() + RENEWAL_REMINDER_DAYS);
+    reminderDate.setDate(reminderDate.getDate() + MAX_REMINDER_DAYS);
 
     // Find subscriptions that need reminders
     const subscriptions = await prisma.subscription.findMany({
       where: {
         ...(userId && { userId }),
         status: 'active',
+        user: { deletionScheduledFor: null }, // No emails for accounts pending deletion
         renewalDate: {
           gte: now,
           lte: reminderDate,
@@ -47,6 +54,7 @@ export async function checkUpcomingBills(userId?: string): Promise<number> {
             id: true,
             email: true,
             name: true,
+            notificationPreference: true,
           },
         },
       },
@@ -60,8 +68,16 @@ export async function checkUpcomingBills(userId?: string): Promise<number> {
         (renewalDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
       );
 
-      // Only send if within the reminder window
-      if (daysUntilRenewal > 0 && daysUntilRenewal <= RENEWAL_REMINDER_DAYS) {
+      const preferences = toNotificationPreferences(
+        subscription.user.id,
+        subscription.user.notificationPreference
+      );
+      if (!preferences.renewalReminders || !preferences.emailNotifications) {
+        continue;
+      }
+
+      // Only send if within the user's reminder window
+      if (daysUntilRenewal > 0 && daysUntilRenewal <= preferences.reminderDays) {
         try {
           await sendUpcomingBillEmail({
             to: subscription.user.email,
@@ -98,9 +114,107 @@ export async function checkUpcomingBills(userId?: string): Promise<number> {
   }
 }
 
+/**
+ * Checks for free trials about to convert to paid plans and sends email notifications
+ * Uses the same renewal reminder preferences as upcoming bills; each trial is emailed once
+ * 
+ * @param userId - Optional user ID to check for specific user, otherwise checks all users
+ * @returns Number of notifications sent
+ */
+export async function checkTrialEndings(userId?: string): Promise<number> {
+  try {
+    const now = new Date();
+    const reminderDate = new Date(now);
+    reminderDate.setDate(reminderDate.getDate() + MAX_REMINDER_DAYS);
+
+    const trials = await prisma.subscription.findMany({
+      where: {
+        ...(userId && { userId }),
+        status: 'trial',
+        user: { deletionScheduledFor: null }, // No emails for accounts pending deletion
+        trialEndDate: {
+          gte: now,
+          lte: reminderDate,
+        },
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+            name: true,
+            notificationPreference: true,
+          },
+        },
+      },
+    });
+
+    let notificationsSent = 0;
+
+    for (const trial of trials) {
+      // The date filter leaves out trials without an end date, but the type still allows null
+      const trialEndDate = trial.trialEndDate;
+      if (!trialEndDate) {
+        continue;
+      }
+
+      // Already reminded about this trial
+      if (trial.lastNotifiedAt && (!trial.trialStartDate || trial.lastNotifiedAt >= trial.trialStartDate)) {
+        continue;
+      }
+
+      const daysUntilConversion = Math.ceil(
+        (trialEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
+      );
+
+      const preferences = toNotificationPreferences(
+        trial.user.id,
+        trial.user.notificationPreference
+      );
+      if (!preferences.renewalReminders || !preferences.emailNotifications) {
+        continue;
+      }
+
+      if (daysUntilConversion > 0 && daysUntilConversion <= preferences.reminderDays) {
+        try {
+          await sendTrialEndingEmail({
+            to: trial.user.email,
+            subscriptionName: trial.name,
+            merchant: trial.merchant || trial.name,
+            amount: trial.amount,
+            currency: trial.currency || 'USD',
+            trialEndDate,
+            daysUntilConversion,
+            userName: trial.user.name || undefined,
+          });
+
+          await prisma.subscription.update({
+            where: { id: trial.id },
+            data: { lastNotifiedAt: new Date() },
+          });
+
+          notificationsSent++;
+        } catch (error) {
+          console.error(
+            `Failed to send trial ending email for subscription ${trial.id}:`,
+            error
+          );
+        }
+      }
+    }
+
+    return notificationsSent;
+  } catch (error) {
+    console.error('Error checking trial endings:', error);
+    throw error;
+  }
+}
+
 /**
  * Checks for price changes in subscriptions
  * Compares recent transaction amounts to stored subscription amounts
+ * Every change is recorded in price history and updates the stored amount;
+ * emails are skipped for users who turned off price alerts or email notifications
  * 
  * @param userId - Optional user ID to check for specific user
  * @returns Number of price change notifications sent
@@ -112,6 +226,7 @@ export async function checkPriceChanges(userId?: string): Promise<number> {
       where: {
         ...(userId && { userId }),
         status: 'active',
+        user: { deletionScheduledFor: null }, // No emails for accounts pending deletion
         isAutoDetected: true, // Only check auto-detected subscriptions
       },
       include: {
@@ -120,6 +235,7 @@ export async function checkPriceChanges(userId?: string): Promise<number> {
             id: true,
             email: true,
             name: true,
+            notificationPreference: true,
           },
         },
         transactions: {
@@ -142,6 +258,11 @@ export async function checkPriceChanges(userId?: string): Promise<number> {
     for (const subscription of subscriptions) {
       if (subscription.transactions.length < 2) continue;
 
+      const preferences = toNotificationPreferences(
+        subscription.user.id,
+        subscription.user.notificationPreference
+      );
+
       // Calculate average of recent transactions
       const recentAmounts = subscription.transactions.map((tx) => Math.abs(tx.amount));
       const averageRecentAmount = recentAmounts.reduce((a, b) => a + b, 0) / recentAmounts.length;
@@ -150,43 +271,56 @@ export async function checkPriceChanges(userId?: string): Promise<number> {
       const storedAmount = subscription.amount;
       const changePercentage = Math.abs((averageRecentAmount - storedAmount) / storedAmount);
 
-      // If price changed significantly and we haven't notified recently
-      if (changePercentage >= PRICE_CHANGE_THRESHOLD) {
-        const lastNotified = subscription.lastNotifiedAt;
-        const shouldNotify =
-          !lastNotified ||
-          new Date(lastNotified).getTime() < Date.now() - 7 * 24 * 60 * 60 * 1000; // Not notified in last 7 days
-
-        if (shouldNotify) {
-          try {
-            await sendPriceChangeDetectedEmail({
-              to: subscription.user.email,
-              subscriptionName: subscription.name,
-              merchant: subscription.merchant || subscription.name,
-              oldAmount: storedAmount,
-              newAmount: averageRecentAmount,
-              currency: subscription.currency || 'USD',
-              changeDate: subscription.transactions[0].date,
-              userName: subscription.user.name || undefined,
-            });
-
-            // Update subscription amount and notification timestamp
-            await prisma.subscription.update({
-              where: { id: subscription.id },
-              data: {
-                amount: averageRecentAmount,
-                lastNotifiedAt: new Date(),
-              },
-            });
-
-            notificationsSent++;
-          } catch (error) {
-            console.error(
-              `Failed to send price change email for subscription ${subscription.id}:`,
-              error
-            );
-            // Continue with other subscriptions
-          }
+      if (changePercentage < PRICE_CHANGE_THRESHOLD) continue;
+
+      // Track the new price whether or not the user is emailed about it
+      try {
+        // Keep the old price in the subscription's price history before overwriting it
+        await recordObservedPrices(subscription, subscription.transactions, 'detection');
+
+        await prisma.subscription.update({
+          where: { id: subscription.id },
+          data: { amount: averageRecentAmount },
+        });
+      } catch (error) {
+        console.error(`Failed to record price change for subscription ${subscription.id}:`, error);
+        continue;
+      }
+
+      // Only email if we haven't notified recently
+      const lastNotified = subscription.lastNotifiedAt;
+      const shouldNotify =
+        preferences.priceIncreaseAlerts &&
+        preferences.emailNotifications &&
+        (!lastNotified ||
+        new Date(lastNotified).getTime() < Date.now() - 7 * 24 * 60 * 60 * 1000); // Not notified in last 7 days
+
+      if (shouldNotify) {
+        try {
+          await sendPriceChangeDetectedEmail({
+            to: subscription.user.email,
+            subscriptionName: subscription.name,
+            merchant: subscription.merchant || subscription.name,
+            oldAmount: storedAmount,
+            newAmount: averageRecentAmount,
+            currency: subscription.currency || 'USD',
+            interval: subscription.interval,
+            changeDate: subscription.transactions[0].date,
+            userName: subscription.user.name || undefined,
+          });
+
+          await prisma.subscription.update({
+            where: { id: subscription.id },
+            data: { lastNotifiedAt: new Date() },
+          });
+
+          notificationsSent++;
+        } catch (error) {
+          console.error(
+            `Failed to send price change email for subscription ${subscription.id}:`,
+            error
+          );
+          // Continue with other subscriptions
         }
       }
     }
@@ -263,14 +397,20 @@ export async function notifyNewSubscriptions(
  */
 export async function runAllNotificationChecks(userId?: string): Promise<{
   upcomingBills: number;
+  trialEndings: number;
   priceChanges: number;
+  silentCancellations: number;
 }> {
   const upcomingBills = await checkUpcomingBills(userId);
+  const trialEndings = await checkTrialEndings(userId);
   const priceChanges = await checkPriceChanges(userId);
+  const silentCancellations = await checkSilentCancellations(userId);
 
   return {
     upcomingBills,
+    trialEndings,
     priceChanges,
+    silentCancellations,
   };
 }
 
@@ -0,0 +1,176 @@
+/**
+ * Notification Preferences
+ *
+ * Loads and saves per-user notification preferences and custom alert rules
+ * Users without saved preferences get DEFAULT_NOTIFICATION_PREFERENCES
+ */
+
+import { prisma } from './prisma';
+import { AlertRule, NotificationPreferences } from './notifications';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'userId'> = {
+  renewalReminders: true,
+  priceIncreaseAlerts: true,
+  spendingLimitAlerts: true,
+  unusedSubscriptionWarnings: true,
+  duplicateDetection: true,
+  savingsOpportunities: true,
+  emailNotifications: true,
+  pushNotifications: false,
+  reminderDays: 7,
+  spendingLimit: 100,
+};
+
+type PreferenceRecord = NonNullable<Awaited<ReturnType<typeof prisma.notificationPreference.findUnique>>>;
+type AlertRuleRecord = NonNullable<Awaited<ReturnType<typeof prisma.alertRule.findFirst>>>;
+
+/**
+ * Maps a NotificationPreference row (or null) to NotificationPreferences
+ * Falls back to defaults when the user has never saved preferences
+ */
+export function toNotificationPreferences(
+  userId: string,
+  record: PreferenceRecord | null
+): NotificationPreferences {
+  if (!record) {
+    return { userId, ...DEFAULT_NOTIFICATION_PREFERENCES };
+  }
+
+  return {
+    userId,
+    renewalReminders: record.renewalReminders,
+    priceIncreaseAlerts: record.priceIncreaseAlerts,
+    spendingLimitAlerts: record.spendingLimitAlerts,
+    unusedSubscriptionWarnings: record.unusedSubscriptionWarnings,
+    duplicateDetection: record.duplicateDetection,
+    savingsOpportunities: record.savingsOpportunities,
+    emailNotifications: record.emailNotifications,
+    pushNotifications: record.pushNotifications,
+    reminderDays: record.reminderDays,
+    spendingLimit: record.spendingLimit,
+  };
+}
+
+/**
+ * Maps an AlertRule row to the AlertRule shape used by the API and UI
+ */
+export function toAlertRule(record: AlertRuleRecord): AlertRule {
+  return {
+    id: record.id,
+    userId: record.userId,
+    type: record.type as AlertRule['type'],
+    condition: record.condition,
+    threshold: record.threshold,
+    isActive: record.isActive,
+    createdAt: record.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Gets a user's notification preferences
+ *
+ * @param userId - User ID
+ * @returns Saved preferences, or defaults if none are saved
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const record = await prisma.notificationPreference.findUnique({
+    where: { userId },
+  });
+
+  return toNotificationPreferences(userId, record);
+}
+
+/**
+ * Saves a user's notification preferences
+ * Fields that are not provided keep their current (or default) value
+ *
+ * @param userId - User ID
+ * @param updates - Preference fields to change
+ * @returns The saved preferences
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: Partial<Omit<NotificationPreferences, 'userId'>>
+): Promise<NotificationPreferences> {
+  const record = await prisma.notificationPreference.upsert({
+    where: { userId },
+    create: { userId, ...DEFAULT_NOTIFICATION_PREFERENCES, ...updates },
+    update: updates,
+  });
+
+  return toNotificationPreferences(userId, record);
+}
+
+/**
+ * Lists a user's alert rules, oldest first
+ *
+ * @param userId - User ID
+ * @param options.activeOnly - Only return active rules
+ */
+export async function listAlertRules(
+  userId: string,
+  options: { activeOnly?: boolean } = {}
+): Promise<AlertRule[]> {
+  const records = await prisma.alertRule.findMany({
+    where: {
+      userId,
+      ...(options.activeOnly && { isActive: true }),
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return records.map(toAlertRule);
+}
+
+/**
+ * Creates an alert rule for a user
+ */
+export async function createAlertRule(
+  userId: string,
+  data: Pick<AlertRule, 'type' | 'condition' | 'threshold'> & { isActive?: boolean }
+): Promise<AlertRule> {
+  const record = await prisma.alertRule.create({
+    data: { userId, ...data },
+  });
+
+  return toAlertRule(record);
+}
+
+/**
+ * Updates an alert rule
+ *
+ * @returns Updated rule, or null if the rule doesn't belong to the user
+ */
+export async function updateAlertRule(
+  userId: string,
+  ruleId: string,
+  updates: Partial<Pick<AlertRule, 'type' | 'condition' | 'threshold' | 'isActive'>>
+): Promise<AlertRule | null> {
+  const existing = await prisma.alertRule.findFirst({
+    where: { id: ruleId, userId },
+  });
+
+  if (!existing) {
+    return null;
+  }
+
+  const record = await prisma.alertRule.update({
+    where: { id: existing.id },
+    data: updates,
+  });
+
+  return toAlertRule(record);
+}
+
+/**
+ * Deletes an alert rule
+ *
+ * @returns true if deleted, false if the rule doesn't belong to the user
+ */
+export async function deleteAlertRule(userId: string, ruleId: string): Promise<boolean> {
+  const result = await prisma.alertRule.deleteMany({
+    where: { id: ruleId, userId },
+  });
+
+  return result.count > 0;
+}
@@ -0,0 +1,216 @@
+/**
+ * Notification Store
+ *
+ * Persists generated notifications so read, dismissed and snoozed state
+ * survives page reloads and is shared across devices
+ */
+
+import { prisma } from './prisma';
+import { Notification } from './notifications';
+
+type NotificationRecord = NonNullable<Awaited<ReturnType<typeof prisma.notification.findFirst>>>;
+
+export type NotificationAction = 'read' | 'unread' | 'dismiss' | 'snooze';
+
+/**
+ * Maps a Notification row to the shape used by the API and UI
+ */
+export function toNotification(record: NotificationRecord): Notification {
+  return {
+    id: record.id,
+    userId: record.userId,
+    type: record.type as Notification['type'],
+    title: record.title,
+    message: record.message,
+    severity: record.severity as Notification['severity'],
+    subscriptionId: record.subscriptionId || undefined,
+    merchant: record.merchant || undefined,
+    amount: record.amount ?? undefined,
+    dueDate: record.dueDate?.toISOString(),
+    isRead: record.isRead,
+    createdAt: record.createdAt.toISOString(),
+    expiresAt: record.expiresAt?.toISOString(),
+    actionUrl: record.actionUrl || undefined,
+    actionText: record.actionText || undefined,
+    snoozedUntil: record.snoozedUntil?.toISOString(),
+  };
+}
+
+/**
+ * Creates a notification for a user
+ * If a notification with the same key already exists, its content is refreshed
+ * but its read/dismissed/snoozed state is left untouched
+ *
+ * @param userId - User ID
+ * @param notification - Notification content; `id` is used as the stable key
+ * @returns The stored notification
+ */
+export async function saveNotification(
+  userId: string,
+  notification: Omit<Notification, 'userId' | 'isRead' | 'createdAt'>
+): Promise<Notification> {
+  const content = {
+    type: notification.type,
+    title: notification.title,
+    message: notification.message,
+    severity: notification.severity,
+    subscriptionId: notification.subscriptionId ?? null,
+    merchant: notification.merchant ?? null,
+    amount: notification.amount ?? null,
+    dueDate: notification.dueDate ? new Date(notification.dueDate) : null,
+    expiresAt: notification.expiresAt ? new Date(notification.expiresAt) : null,
+    actionUrl: notification.actionUrl ?? null,
+    actionText: notification.actionText ?? null,
+  };
+
+  const record = await prisma.notification.upsert({
+    where: { userId_key: { userId, key: notification.id } },
+    create: { userId, key: notification.id, ...content },
+    update: content,
+  });
+
+  return toNotification(record);
+}
+
+/**
+ * Stores a batch of generated notifications
+ * Called each time notifications are generated from the user's subscriptions
+ *
+ * @param userId - User ID
+ * @param notifications - Notifications from generateAllNotifications
+ */
+export async function saveGeneratedNotifications(
+  userId: string,
+  notifications: Notification[]
+): Promise<void> {
+  for (const notification of notifications) {
+    try {
+      await saveNotification(userId, notification);
+    } catch (error) {
+      console.error(`Failed to store notification ${notification.id}:`, error);
+      // Continue with other notifications
+    }
+  }
+}
+
+/**
+ * Lists visible notifications for a user
+ * Excludes dismissed, expired and currently snoozed notifications
+ *
+ * @param userId - User ID
+ * @param options.unreadOnly - Only return unread notifications
+ * @returns Notifications sorted by severity, newest first
+ */
+export async function listNotifications(
+  userId: string,
+  options: { unreadOnly?: boolean } = {}
+): Promise<Notification[]> {
+  const now = new Date();
+
+  const records = await prisma.notification.findMany({
+    where: {
+      userId,
+      dismissedAt: null,
+      ...(options.unreadOnly && { isRead: false }),
+      AND: [
+        { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+        { OR: [{ snoozedUntil: null }, { snoozedUntil: { lte: now } }] },
+      ],
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const severityOrder: Record<string, number> = { critical: 4, high: 3, medium: 2, low: 1 };
+
+  return records
+    .map(toNotification)
+    .sort((a: Notification, b: Notification) => {
+      const severityDiff = (severityOrder[b.severity] || 0) - (severityOrder[a.severity] || 0);
+      if (severityDiff !== 0) return severityDiff;
+      return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+    });
+}
+
+/**
+ * Applies a read/dismiss/snooze action to a notification
+ *
+ * @param userId - User ID (notification must belong to this user)
+ * @param notificationId - Notification ID
+ * @param action - Action to apply
+ * @param snoozedUntil - Required when action is 'snooze'
+ * @returns Updated notification, or null if not found
+ */
+export async function updateNotificationState(
+  userId: string,
+  notificationId: string,
+  action: NotificationAction,
+  snoozedUntil?: Date
+): Promise<Notification | null> {
+  const existing = await prisma.notification.findFirst({
+    where: { id: notificationId, userId },
+  });
+
+  if (!existing) {
+    return null;
+  }
+
+  let data;
+  switch (action) {
+    case 'read':
+      data = { isRead: true, readAt: existing.readAt ?? new Date() };
+      break;
+    case 'unread':
+      data = { isRead: false, readAt: null };
+      break;
+    case 'dismiss':
+      data = { dismissedAt: new Date() };
+      break;
+    case 'snooze':
+      if (!snoozedUntil) {
+        throw new Error('snoozedUntil is required to snooze a notification');
+      }
+      data = { snoozedUntil };
+      break;
+  }
+
+  const updated = await prisma.notification.update({
+    where: { id: existing.id },
+    data,
+  });
+
+  return toNotification(updated);
+}
+
+/**
+ * Marks every unread notification for a user as read
+ *
+ * @param userId - User ID
+ * @returns Number of notifications updated
+ */
+export async function markAllNotificationsRead(userId: string): Promise<number> {
+  const result = await prisma.notification.updateMany({
+    where: { userId, isRead: false, dismissedAt: null },
+    data: { isRead: true, readAt: new Date() },
+  });
+
+  return result.count;
+}
+
+/**
+ * Deletes notifications by their stable keys
+ * Used when the condition a notification warned about has been resolved,
+ * so the same warning can be raised again if it happens later
+ *
+ * @param userId - User ID
+ * @param keys - Notification keys (the `id` they were saved with)
+ * @returns Number of notifications deleted
+ */
+export async function deleteNotificationsByKey(userId: string, keys: string[]): Promise<number> {
+  if (keys.length === 0) return 0;
+
+  const result = await prisma.notification.deleteMany({
+    where: { userId, key: { in: keys } },
+  });
+
+  return result.count;
+}
@@ -1,7 +1,10 @@
+import { formatCurrency } from './formatting';
+import { toMonthlyAmount, toYearlyAmount } from './billingInterval';
+
 export interface Notification {
   id: string;
   userId: string;
-  type: 'renewal_reminder' | 'price_increase' | 'spending_limit' | 'unused_subscription' | 'duplicate_detected' | 'savings_opportunity';
+  type: 'renewal_reminder' | 'price_increase' | 'spending_limit' | 'unused_subscription' | 'duplicate_detected' | 'savings_opportunity' | 'bank_connection' | 'missed_charge';
   title: string;
   message: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -14,6 +17,7 @@ export interface Notification {
   expiresAt?: string;
   actionUrl?: string;
   actionText?: string;
+  snoozedUntil?: string;
 }
 
 export interface NotificationPreferences {
@@ -40,6 +44,30 @@ export interface AlertRule {
   createdAt: string;
 }
 
+/**
+ * Returns the current month as YYYY-MM
+ * Used to keep monthly alerts (e.g. spending limit) to one per month
+ */
+function getMonthKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Gets a subscription's amount in the user's base currency
+ * Uses convertedAmount when the caller converted it; null means there is no
+ * exchange rate, so the subscription is left out of totals
+ */
+function getBaseAmount(subscription: any): number | null {
+  return subscription.convertedAmount === undefined ? subscription.amount : subscription.convertedAmount;
+}
+
+/**
+ * Total monthly subscription spending in the user's base currency, whatever each billing interval
+ */
+function getTotalMonthlySpending(subscriptions: any[]): number {
+  return subscriptions.reduce((sum, sub) => sum + toMonthlyAmount(getBaseAmount(sub) ?? 0, sub.interval), 0);
+}
+
 /**
  * Generates renewal reminder notifications
  */
@@ -60,7 +88,7 @@ export function generateRenewalReminders(
       const severity = daysUntilRenewal <= 3 ? 'high' : daysUntilRenewal <= 7 ? 'medium' : 'low';
       
       notifications.push({
-        id: `renewal-${subscription.merchant}-${subscription.nextRenewal}`,
+        id: `renewal-${subscription.id}-${subscription.nextRenewal}`,
         userId,
         type: 'renewal_reminder',
         title: `Renewal Reminder: ${subscription.merchant}`,
@@ -95,8 +123,9 @@ export function generatePriceIncreaseAlerts(
     const priceHistory = subscription.priceHistory || [];
     if (priceHistory.length < 2) continue;
 
-    // Check for recent price increases (last 3 payments)
-    const recentPrices = priceHistory.slice(-3);
+    // Check for price increases in the last 3 months
+    const threeMonthsAgo = Date.now() - 90 * 24 * 60 * 60 * 1000;
+    const recentPrices = priceHistory.filter((price: any) => new Date(price.date).getTime() >= threeMonthsAgo);
     const priceIncreases = recentPrices.filter((price: any) => price.change && price.change > 0);
 
     if (priceIncreases.length > 0) {
@@ -104,7 +133,7 @@ export function generatePriceIncreaseAlerts(
       const severity = totalIncrease > 10 ? 'high' : totalIncrease > 5 ? 'medium' : 'low';
 
       notifications.push({
-        id: `price-increase-${subscription.merchant}-${Date.now()}`,
+        id: `price-increase-${subscription.id}-${priceHistory[priceHistory.length - 1].date}`,
         userId,
         type: 'price_increase',
         title: `Price Increase Alert: ${subscription.merchant}`,
@@ -126,14 +155,17 @@ export function generatePriceIncreaseAlerts(
 
 /**
  * Generates spending limit alerts
+ * The limit and every total are in the user's base currency
  */
 export function generateSpendingLimitAlerts(
   subscriptions: any[],
   userId: string,
-  spendingLimit: number
+  spendingLimit: number,
+  baseCurrency: string = 'USD'
 ): Notification[] {
   const notifications: Notification[] = [];
-  const totalMonthlySpending = subscriptions.reduce((sum, sub) => sum + sub.amount, 0);
+  const totalMonthlySpending = getTotalMonthlySpending(subscriptions);
+  const format = (amount: number) => formatCurrency(amount, baseCurrency);
   
   // Check if spending exceeds limit
   if (totalMonthlySpending > spendingLimit) {
@@ -141,11 +173,11 @@ export function generateSpendingLimitAlerts(
     const severity = overage > spendingLimit * 0.5 ? 'critical' : overage > spendingLimit * 0.25 ? 'high' : 'medium';
 
     notifications.push({
-      id: `spending-limit-${Date.now()}`,
+      id: `spending-limit-${getMonthKey()}`,
       userId,
       type: 'spending_limit',
       title: 'Monthly Spending Limit Exceeded',
-      message: `Your monthly subscription spending of $${totalMonthlySpending.toFixed(2)} exceeds your limit of $${spendingLimit.toFixed(2)} by $${overage.toFixed(2)}.`,
+      message: `Your monthly subscription spending of ${format(totalMonthlySpending)} exceeds your limit of ${format(spendingLimit)} by ${format(overage)}.`,
       severity,
       amount: overage,
       isRead: false,
@@ -161,11 +193,11 @@ export function generateSpendingLimitAlerts(
     const remaining = spendingLimit - totalMonthlySpending;
 
     notifications.push({
-      id: `spending-warning-${Date.now()}`,
+      id: `spending-warning-${getMonthKey()}`,
       userId,
       type: 'spending_limit',
       title: 'Approaching Spending Limit',
-      message: `You're approaching your monthly spending limit. You have $${remaining.toFixed(2)} remaining out of $${spendingLimit.toFixed(2)}.`,
+      message: `You're approaching your monthly spending limit. You have ${format(remaining)} remaining out of ${format(spendingLimit)}.`,
       severity: 'low',
       amount: remaining,
       isRead: false,
@@ -189,11 +221,11 @@ export function generateUnusedSubscriptionWarnings(
 
   for (const subscription of subscriptions) {
     if (subscription.usageFrequency === 'low' && subscription.healthScore < 60) {
-      const annualSavings = subscription.amount * 12;
+      const annualSavings = toYearlyAmount(subscription.amount, subscription.interval);
       const severity = annualSavings > 100 ? 'high' : annualSavings > 50 ? 'medium' : 'low';
 
       notifications.push({
-        id: `unused-${subscription.merchant}-${Date.now()}`,
+        id: `unused-${subscription.id}`,
         userId,
         type: 'unused_subscription',
         title: `Unused Subscription: ${subscription.merchant}`,
@@ -224,10 +256,10 @@ export function generateDuplicateAlerts(
 
   for (const subscription of subscriptions) {
     if (subscription.isDuplicate && subscription.duplicateOf) {
-      const annualSavings = subscription.amount * 12;
+      const annualSavings = toYearlyAmount(subscription.amount, subscription.interval);
 
       notifications.push({
-        id: `duplicate-${subscription.merchant}-${Date.now()}`,
+        id: `duplicate-${subscription.id}`,
         userId,
         type: 'duplicate_detected',
         title: `Duplicate Subscription Detected: ${subscription.merchant}`,
@@ -261,7 +293,7 @@ export function generateSavingsOpportunities(
       const severity = subscription.savingsOpportunity.amount > 100 ? 'high' : subscription.savingsOpportunity.amount > 50 ? 'medium' : 'low';
 
       notifications.push({
-        id: `savings-${subscription.merchant}-${Date.now()}`,
+        id: `savings-${subscription.id}`,
         userId,
         type: 'savings_opportunity',
         title: `Savings Opportunity: ${subscription.merchant}`,
@@ -281,13 +313,87 @@ export function generateSavingsOpportunities(
   return notifications;
 }
 
+/**
+ * Generates notifications from a user's custom alert rules
+ * Supports monthly_spending_exceeds and price_increase_percentage conditions
+ * Spending thresholds are in the user's base currency
+ */
+export function generateAlertRuleNotifications(
+  subscriptions: any[],
+  userId: string,
+  alertRules: AlertRule[],
+  baseCurrency: string = 'USD'
+): Notification[] {
+  const notifications: Notification[] = [];
+  const monthKey = getMonthKey();
+
+  for (const rule of alertRules) {
+    if (!rule.isActive) continue;
+
+    if (rule.condition === 'monthly_spending_exceeds') {
+      const totalMonthlySpending = getTotalMonthlySpending(subscriptions);
+      if (totalMonthlySpending <= rule.threshold) continue;
+
+      const overage = totalMonthlySpending - rule.threshold;
+      notifications.push({
+        id: `alert-rule-${rule.id}-${monthKey}`,
+        userId,
+        type: 'spending_limit',
+        title: 'Spending Alert Triggered',
+        message: `Your monthly subscription spending of ${formatCurrency(totalMonthlySpending, baseCurrency)} is above your alert threshold of ${formatCurrency(rule.threshold, baseCurrency)}.`,
+        severity: overage > rule.threshold * 0.25 ? 'high' : 'medium',
+        amount: overage,
+        isRead: false,
+        createdAt: new Date().toISOString(),
+        actionUrl: '/dashboard/subscriptions',
+        actionText: 'Review Subscriptions'
+      });
+    } else if (rule.condition === 'price_increase_percentage') {
+      for (const subscription of subscriptions) {
+        const priceHistory = subscription.priceHistory || [];
+        if (priceHistory.length < 2) continue;
+
+        const latest = priceHistory[priceHistory.length - 1];
+        const previousAmount = latest.amount - (latest.change || 0);
+        if (!latest.change || latest.change <= 0 || previousAmount <= 0) continue;
+
+        const increasePercent = (latest.change / previousAmount) * 100;
+        if (increasePercent < rule.threshold) continue;
+
+        notifications.push({
+          id: `alert-rule-${rule.id}-${subscription.id}-${latest.date}`,
+          userId,
+          type: 'price_increase',
+          title: `Price Alert: ${subscription.merchant}`,
+          message: `Your ${subscription.merchant} subscription price went up ${increasePercent.toFixed(1)}%, above your alert threshold of ${rule.threshold}%.`,
+          severity: increasePercent >= rule.threshold * 2 ? 'high' : 'medium',
+          subscriptionId: subscription.id,
+          merchant: subscription.merchant,
+          amount: latest.change,
+          isRead: false,
+          createdAt: new Date().toISOString(),
+          actionUrl: `/dashboard/subscriptions/${subscription.id}`,
+          actionText: 'Review Changes'
+        });
+      }
+    }
+    // unused_subscription_days rules need usage data, which isn't tracked yet
+  }
+
+  return notifications;
+}
+
 /**
  * Generates all notifications for a user
+ * Give subscriptions a convertedAmount in baseCurrency when they can be in
+ * different currencies, so spending totals don't mix them
  */
 export function generateAllNotifications(
   subscriptions: any[],
   userId: string,
-  preferences: NotificationPreferences
+  preferences: NotificationPreferences,
+  alertRules: AlertRule[] = [],
+  baseCurrency: string = 'USD'
 ): Notification[] {
   const notifications: Notification[] = [];
 
@@ -300,7 +406,7 @@ export function generateAllNotifications(
   }
 
   if (preferences.spendingLimitAlerts) {
-    notifications.push(...generateSpendingLimitAlerts(subscriptions, userId, preferences.spendingLimit));
+    notifications.push(...generateSpendingLimitAlerts(subscriptions, userId, preferences.spendingLimit, baseCurrency));
   }
 
   if (preferences.unusedSubscriptionWarnings) {
@@ -315,6 +421,14 @@ export function generateAllNotifications(
     notifications.push(...generateSavingsOpportunities(subscriptions, userId));
   }
 
+  // Custom alert rules follow the same on/off switches as the built-in alerts
+  const enabledRules = alertRules.filter((rule) =>
+    (rule.type === 'spending_limit' && preferences.spendingLimitAlerts) ||
+    (rule.type === 'price_increase' && preferences.priceIncreaseAlerts) ||
+    (rule.type === 'unused_subscription' && preferences.unusedSubscriptionWarnings)
+  );
+  notifications.push(...generateAlertRuleNotifications(subscriptions, userId, enabledRules, baseCurrency));
+
   // Sort by severity and creation date
   return notifications.sort((a, b) => {
     const severityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
@@ -1,14 +1,15 @@
 /**
  * Plaid Configuration Utility
  * 
- * Handles multi-region Plaid configuration (US and UK)
+ * Handles multi-region Plaid configuration (regions are listed in regions.ts)
  * Detects user country and returns appropriate credentials
  */
 
 import { Configuration, PlaidApi, PlaidEnvironments } from 'plaid';
 import { prisma } from './prisma';
+import { DEFAULT_REGION, getRegion, parseRegion, RegionCode } from './regions';
 
-export type PlaidRegion = 'US' | 'UK';
+export type PlaidRegion = RegionCode;
 export type PlaidEnvironment = 'sandbox' | 'development' | 'production';
 
 /**
@@ -24,7 +25,7 @@ function getPlaidEnvironment(): PlaidEnvironment {
 /**
  * Gets Plaid API configuration for a specific region
  * 
- * @param region - 'US' or 'UK'
+ * @param region - Region code (e.g. 'US', 'UK', 'DE')
  * @returns PlaidApi instance configured for the region
  */
 export function getPlaidClient(region: PlaidRegion = 'US'): PlaidApi {
@@ -34,12 +35,12 @@ export function getPlaidClient(region: PlaidRegion = 'US'): PlaidApi {
   let clientId: string;
   let secret: string;
 
-  if (region === 'UK') {
-    // UK uses EU credentials
+  if (getRegion(region).plaidCredentials === 'EU') {
+    // UK and EU regions use EU credentials
     clientId = process.env.PLAID_CLIENT_ID_EU || process.env.PLAID_CLIENT_ID || '';
     secret = process.env.PLAID_SECRET_EU || process.env.PLAID_SECRET || '';
   } else {
-    // US credentials
+    // US and Canada use US credentials
     clientId = process.env.PLAID_CLIENT_ID_US || process.env.PLAID_CLIENT_ID || '';
     secret = process.env.PLAID_SECRET_US || process.env.PLAID_SECRET || '';
   }
@@ -78,7 +79,7 @@ export function getPlaidClient(region: PlaidRegion = 'US'): PlaidApi {
  * Detects user's country from their bank accounts or user profile
  * 
  * @param userId - User ID
- * @returns 'US' or 'UK', defaults to 'US'
+ * @returns Region code, defaults to 'US'
  */
 export async function getUserCountry(userId: string): Promise<PlaidRegion> {
   try {
@@ -89,54 +90,63 @@ export async function getUserCountry(userId: string): Promise<PlaidRegion> {
       orderBy: { createdAt: 'desc' }, // Most recent account
     });
 
-    if (bankAccount?.country) {
-      if (bankAccount.country === 'UK' || bankAccount.country === 'GB') {
-        return 'UK';
-      }
-      return 'US';
+    const accountRegion = parseRegion(bankAccount?.country);
+    if (accountRegion) {
+      return accountRegion;
     }
 
-    // TODO: Could check user profile for country preference
-    // For now, default to US
-    return 'US';
+    // Fall back to the country on the user's profile
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { country: true },
+    });
+
+    return parseRegion(user?.country) || DEFAULT_REGION;
   } catch (error) {
     console.error('Error detecting user country:', error);
-    return 'US'; // Default to US
+    return DEFAULT_REGION;
   }
 }
 
 /**
  * Gets Plaid country codes for a region
  * 
- * @param region - 'US' or 'UK'
+ * @param region - Region code
  * @returns Array of country codes
  */
 export function getPlaidCountryCodes(region: PlaidRegion): string[] {
-  if (region === 'UK') {
-    return ['GB']; // Plaid uses 'GB' for UK
-  }
-  return ['US'];
+  return getRegion(region).plaidCountryCodes;
 }
 
 /**
  * Gets Plaid products available for a region
  * 
- * @param region - 'US' or 'UK'
+ * @param region - Region code
  * @returns Array of product strings
  */
 export function getPlaidProducts(region: PlaidRegion): string[] {
-  // Both US and UK support these products
+  // Every supported region supports these products
   return ['auth', 'transactions'];
 }
 
 /**
  * Gets currency for a region
  * 
- * @param region - 'US' or 'UK'
+ * @param region - Region code
  * @returns Currency code
  */
 export function getRegionCurrency(region: PlaidRegion): string {
-  return region === 'UK' ? 'GBP' : 'USD';
+  return getRegion(region).currency;
+}
+
+/**
+ * Gets the URL Plaid should send item webhooks to
+ * Must be publicly reachable, so it is only set when PLAID_WEBHOOK_URL is configured
+ * 
+ * @returns Webhook URL, or undefined to create items without webhooks
+ */
+export function getPlaidWebhookUrl(): string | undefined {
+  return process.env.PLAID_WEBHOOK_URL?.trim() || undefined;
 }
 
 /**
@@ -0,0 +1,232 @@
+/**
+ * Plaid Item Disconnection
+ *
+ * Removes a Plaid item at Plaid and locally, optionally purging the
+ * transactions it imported, and relinks the auto-detected subscriptions
+ * that were built from those transactions
+ */
+
+import { prisma } from './prisma';
+import { getPlaidClient, PlaidRegion } from './plaidConfig';
+import { getPlaidAccessTokenByItemId, removePlaidAccessToken } from './plaidHelpers';
+import { DEFAULT_REGION, parseRegion } from './regions';
+import { AMOUNT_TOLERANCE } from './recurringDetector';
+
+// Plaid errors meaning the item is already gone, so there is nothing left to remove
+const ALREADY_REMOVED_ERRORS = ['ITEM_NOT_FOUND', 'INVALID_ACCESS_TOKEN'];
+
+export interface DisconnectOptions {
+  purgeTransactions: boolean; // Delete the item's transactions instead of keeping them
+}
+
+export interface DisconnectResult {
+  accountsDisconnected: number;
+  transactionsDeleted: number;
+  subscriptionsRelinked: number;
+}
+
+/**
+ * Removes the item at Plaid so its access token stops working
+ * Items whose token was already cleared or invalidated are skipped
+ */
+async function removeItemAtPlaid(userId: string, plaidItemId: string, region: PlaidRegion): Promise<void> {
+  let accessToken: string;
+  try {
+    accessToken = await getPlaidAccessTokenByItemId(userId, plaidItemId);
+  } catch (error) {
+    console.warn(`No access token stored for Plaid item ${plaidItemId}, skipping itemRemove`);
+    return;
+  }
+
+  try {
+    await getPlaidClient(region).itemRemove({ access_token: accessToken });
+  } catch (error: any) {
+    const errorCode = error.response?.data?.error_code;
+    if (ALREADY_REMOVED_ERRORS.includes(errorCode)) {
+      console.warn(`Plaid item ${plaidItemId} was already removed (${errorCode})`);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Revokes a Plaid item at Plaid, using the credentials of the region it was created in
+ * Local data is left untouched; use disconnectPlaidItem for a full disconnect
+ *
+ * @param userId - User ID (item must belong to this user)
+ * @param plaidItemId - Plaid item ID
+ */
+export async function revokePlaidItem(userId: string, plaidItemId: string): Promise<void> {
+  const account = await prisma.bankAccount.findFirst({
+    where: { userId, plaidItemId },
+    select: { country: true },
+  });
+
+  const region = parseRegion(account?.country) || DEFAULT_REGION;
+  await removeItemAtPlaid(userId, plaidItemId, region);
+}
+
+/**
+ * Relinks auto-detected subscriptions after transactions were purged
+ * Each subscription is pointed at the matching transactions that are left
+ * (e.g. the same merchant charged on another connected account). Ones with no
+ * charges left are paused until detection finds them again
+ *
+ * @returns Number of subscriptions relinked
+ */
+async function relinkSubscriptions(
+  userId: string,
+  deletedTransactionIds: string[],
+  affectedSubscriptionIds: string[]
+): Promise<number> {
+  const deleted = new Set(deletedTransactionIds);
+  const subscriptions = await prisma.subscription.findMany({
+    where: {
+      userId,
+      isAutoDetected: true,
+      OR: [
+        { id: { in: affectedSubscriptionIds } },
+        { plaidTransactionIds: { hasSome: deletedTransactionIds } },
+      ],
+    },
+    select: { id: true, merchant: true, amount: true, plaidTransactionIds: true, excludedChargeIds: true },
+  });
+
+  let relinked = 0;
+
+  for (const subscription of subscriptions) {
+    const candidates = subscription.merchant
+      ? await prisma.transaction.findMany({
+          where: {
+            userId,
+            normalizedMerchant: { equals: subscription.merchant, mode: 'insensitive' },
+            OR: [{ subscriptionId: null }, { subscriptionId: subscription.id }],
+            id: { notIn: subscription.excludedChargeIds },
+          },
+          select: { id: true, amount: true },
+        })
+      : [];
+    // Same tolerance as detection, so other purchases from the merchant aren't adopted
+    const remainingIds: string[] = candidates
+      .filter(
+        (tx: { amount: number }) =>
+          Math.abs(Math.abs(tx.amount) - subscription.amount) <= subscription.amount * AMOUNT_TOLERANCE
+      )
+      .map((tx: { id: string }) => tx.id);
+    const chargeIds = Array.from(
+      new Set([...subscription.plaidTransactionIds.filter((id: string) => !deleted.has(id)), ...remainingIds])
+    );
+
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        plaidTransactionIds: { set: chargeIds },
+        ...(chargeIds.length === 0 ? { status: 'paused' } : {}),
+      },
+    });
+
+    if (remainingIds.length > 0) {
+      await prisma.transaction.updateMany({
+        where: { id: { in: remainingIds }, subscriptionId: null },
+        data: { subscriptionId: subscription.id },
+      });
+    }
+
+    if (chargeIds.length > 0) {
+      relinked++;
+    }
+  }
+
+  return relinked;
+}
+
+/**
+ * Disconnects a Plaid item
+ *
+ * 1. Removes the item at Plaid (itemRemove)
+ * 2. Clears the encrypted access tokens
+ * 3. Keeps the transactions (accounts are detached from the item) or purges
+ *    them together with the accounts
+ * 4. Relinks auto-detected subscriptions built from purged transactions,
+ *    pausing the ones left without charges
+ *
+ * @param userId - User ID (item must belong to this user)
+ * @param plaidItemId - Plaid item ID
+ * @param options - Whether to purge the item's transactions
+ * @returns Counts of what was disconnected, deleted and relinked
+ */
+export async function disconnectPlaidItem(
+  userId: string,
+  plaidItemId: string,
+  options: DisconnectOptions
+): Promise<DisconnectResult> {
+  const accounts = await prisma.bankAccount.findMany({
+    where: { userId, plaidItemId },
+    select: { id: true },
+  });
+
+  if (accounts.length === 0) {
+    throw new Error('Bank connection not found');
+  }
+
+  await revokePlaidItem(userId, plaidItemId);
+
+  // SECURITY: Never keep credentials for an item the user disconnected
+  for (const account of accounts) {
+    await removePlaidAccessToken(account.id);
+  }
+
+  const accountIds: string[] = accounts.map((account: { id: string }) => account.id);
+
+  if (!options.purgeTransactions) {
+    // Keep accounts so their transactions stay valid, but detach them from the item
+    await prisma.bankAccount.updateMany({
+      where: { id: { in: accountIds } },
+      data: {
+        plaidItemId: null,
+        transactionsCursor: null,
+      },
+    });
+
+    console.log(`Disconnected Plaid item ${plaidItemId} (user ${userId}): ${accounts.length} accounts detached, transactions kept`);
+
+    return {
+      accountsDisconnected: accounts.length,
+      transactionsDeleted: 0,
+      subscriptionsRelinked: 0,
+    };
+  }
+
+  const transactions = await prisma.transaction.findMany({
+    where: { userId, bankAccountId: { in: accountIds } },
+    select: { id: true, subscriptionId: true },
+  });
+  const transactionIds: string[] = transactions.map((tx: { id: string }) => tx.id);
+  const affectedSubscriptionIds: string[] = Array.from(
+    new Set(
+      transactions
+        .map((tx: { subscriptionId: string | null }) => tx.subscriptionId)
+        .filter((id: string | null): id is string => Boolean(id))
+    )
+  );
+
+  await prisma.$transaction([
+    prisma.transaction.deleteMany({ where: { id: { in: transactionIds } } }),
+    prisma.bankAccount.deleteMany({ where: { id: { in: accountIds } } }),
+  ]);
+
+  const subscriptionsRelinked = transactionIds.length > 0
+    ? await relinkSubscriptions(userId, transactionIds, affectedSubscriptionIds)
+    : 0;
+
+  console.log(
+    `Disconnected Plaid item ${plaidItemId} (user ${userId}): ${accounts.length} accounts removed, ${transactionIds.length} transactions deleted, ${subscriptionsRelinked} subscriptions relinked`
+  );
+
+  return {
+    accountsDisconnected: accounts.length,
+    transactionsDeleted: transactionIds.length,
+    subscriptionsRelinked,
+  };
+}
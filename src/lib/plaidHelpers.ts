@@ -18,8 +18,8 @@ if (!ENCRYPTION_KEY) {
  * @param userId - The user ID
  * @param plaidItemId - The Plaid item ID
  * @param accessToken - The plaintext Plaid access token
- * @param country - The country code (US or UK)
- * @param currency - The currency code (USD or GBP)
+ * @param country - The region code (see regions.ts)
+ * @param currency - The currency code (e.g. USD, GBP, EUR)
  * 
  * Security:
  * - Encrypts token before storing
@@ -217,6 +217,88 @@ export async function getPlaidAccessTokenByItemId(
   }
 }
 
+/**
+ * Connection health of a Plaid item
+ * - healthy: syncing normally
+ * - login_required: user must sign in again through Link update mode
+ * - revoked: user revoked access at their bank; the item must be reconnected
+ */
+export type PlaidItemStatus = 'healthy' | 'login_required' | 'revoked';
+
+export interface PlaidItemSummary {
+  itemId: string;
+  institutionName: string | null;
+  status: PlaidItemStatus;
+  lastSyncAt: Date | null;
+  accounts: Array<{ id: string; name: string | null; type: string | null; currency: string | null }>;
+}
+
+/**
+ * Updates the connection status of every account belonging to a Plaid item
+ * 
+ * @param userId - The user ID
+ * @param plaidItemId - The Plaid item ID
+ * @param status - New item status
+ */
+export async function updateItemStatus(
+  userId: string,
+  plaidItemId: string,
+  status: PlaidItemStatus
+): Promise<void> {
+  await prisma.bankAccount.updateMany({
+    where: { userId, plaidItemId },
+    data: { itemStatus: status },
+  });
+}
+
+/**
+ * Lists a user's Plaid items with the accounts that belong to each
+ * 
+ * @param userId - The user ID
+ * @returns Items with their status, last sync time and accounts
+ */
+export async function listPlaidItems(userId: string): Promise<PlaidItemSummary[]> {
+  const bankAccounts = await prisma.bankAccount.findMany({
+    where: { userId, plaidItemId: { not: null } },
+    select: {
+      id: true,
+      plaidItemId: true,
+      institutionName: true,
+      name: true,
+      type: true,
+      currency: true,
+      itemStatus: true,
+      lastSyncAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const items = new Map<string, PlaidItemSummary>();
+
+  for (const account of bankAccounts) {
+    // Always set given the filter above, but the type still allows null
+    const itemId = account.plaidItemId;
+    if (!itemId) continue;
+
+    const item: PlaidItemSummary = items.get(itemId) || {
+      itemId,
+      institutionName: account.institutionName,
+      status: account.itemStatus as PlaidItemStatus,
+      lastSyncAt: account.lastSyncAt,
+      accounts: [],
+    };
+    item.accounts.push({
+      id: account.id,
+      name: account.name,
+      type: account.type,
+      currency: account.currency,
+    });
+    items.set(itemId, item);
+  }
+
+  return Array.from(items.values());
+}
+
 /**
  * Updates the last sync timestamp for a bank account
  * 
@@ -0,0 +1,406 @@
+/**
+ * Plaid Transaction Sync
+ *
+ * Syncs transactions with Plaid's cursor-based /transactions/sync endpoint
+ * Each Plaid item keeps its cursor on its bank accounts, so every sync only
+ * receives what was added, modified or removed since the previous one
+ */
+
+import { prisma } from './prisma';
+import { getPlaidClient } from './plaidConfig';
+import { DEFAULT_REGION, parseRegion } from './regions';
+import { getPlaidAccessTokenByItemId, updateItemStatus } from './plaidHelpers';
+import { normalizeMerchant } from './merchantNormalizer';
+import { findKnownMerchant, flushKnownMerchantMatchCounts } from './merchantMatcher';
+import { markMerchantsChanged } from './detectionState';
+import { recordObservedPrices } from './priceHistory';
+
+// Maximum page size allowed by /transactions/sync
+const SYNC_PAGE_SIZE = 500;
+// Restart attempts when Plaid reports the data changed mid-pagination
+const MAX_PAGINATION_RESTARTS = 3;
+
+/**
+ * Fields we use from a Plaid transaction
+ */
+interface PlaidSyncTransaction {
+  transaction_id: string;
+  account_id: string;
+  amount: number;
+  iso_currency_code?: string | null;
+  date: string;
+  name: string;
+  merchant_name?: string | null;
+  category?: string[] | null;
+  pending?: boolean;
+}
+
+export interface SyncResult {
+  added: number;
+  modified: number;
+  removed: number;
+  skipped: number;
+}
+
+type SyncAccount = {
+  id: string;
+  plaidId: string;
+  currency: string | null;
+  country: string | null;
+};
+
+/**
+ * Fetches every page of updates since the given cursor
+ * Restarts from the original cursor if Plaid reports a mutation during pagination
+ */
+async function fetchSyncUpdates(
+  plaidClient: any,
+  accessToken: string,
+  cursor: string | null
+): Promise<{
+  added: PlaidSyncTransaction[];
+  modified: PlaidSyncTransaction[];
+  removed: Array<{ transaction_id: string }>;
+  nextCursor: string | null;
+}> {
+  for (let attempt = 0; attempt <= MAX_PAGINATION_RESTARTS; attempt++) {
+    const added: PlaidSyncTransaction[] = [];
+    const modified: PlaidSyncTransaction[] = [];
+    const removed: Array<{ transaction_id: string }> = [];
+    let nextCursor = cursor;
+    let hasMore = true;
+
+    try {
+      while (hasMore) {
+        const response = await plaidClient.transactionsSync({
+          access_token: accessToken,
+          count: SYNC_PAGE_SIZE,
+          ...(nextCursor && { cursor: nextCursor }),
+        });
+        const data = response.data;
+
+        added.push(...data.added);
+        modified.push(...data.modified);
+        removed.push(...data.removed);
+        hasMore = data.has_more;
+        nextCursor = data.next_cursor;
+      }
+
+      return { added, modified, removed, nextCursor };
+    } catch (error: any) {
+      if (error.response?.data?.error_code === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION') {
+        console.warn(`Plaid data changed during pagination, restarting sync (attempt ${attempt + 1})`);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  throw new Error('Plaid transactions kept changing during sync. Please try again later.');
+}
+
+/**
+ * Builds the Transaction fields derived from a Plaid transaction
+ * Normalizes the merchant and matches it against known merchants
+ */
+async function buildTransactionFields(plaidTx: PlaidSyncTransaction, account: SyncAccount) {
+  const rawMerchant = plaidTx.merchant_name || plaidTx.name || '';
+  const normalizedMerchant = normalizeMerchant(rawMerchant);
+  const amount = -Math.abs(plaidTx.amount); // Store as negative for expenses
+
+  let matchedMerchant = null;
+  if (normalizedMerchant) {
+    try {
+      matchedMerchant = await findKnownMerchant(
+        normalizedMerchant,
+        amount,
+        account.country || undefined,
+        account.currency || undefined
+      );
+    } catch (error) {
+      // Merchant matching failed, continue without it
+      console.warn(`Failed to match merchant ${normalizedMerchant}:`, error);
+    }
+  }
+
+  return {
+    rawMerchant,
+    normalizedMerchant,
+    matchedMerchant,
+    data: {
+      amount,
+      currency: plaidTx.iso_currency_code || account.currency || 'USD',
+      date: new Date(plaidTx.date),
+      description: plaidTx.name,
+      merchant: rawMerchant,
+      normalizedMerchant: normalizedMerchant || null,
+      category: matchedMerchant?.category || null,
+      mcc: plaidTx.category?.[0] || null,
+    },
+  };
+}
+
+/**
+ * Saves a transaction Plaid reported as added
+ * Upserts on plaidTransactionId, so replaying the same update never duplicates a row
+ *
+ * @returns true if a new row was created, false if it already existed
+ */
+async function saveAddedTransaction(
+  userId: string,
+  plaidTx: PlaidSyncTransaction,
+  account: SyncAccount
+): Promise<boolean> {
+  const { rawMerchant, normalizedMerchant, matchedMerchant, data } = await buildTransactionFields(plaidTx, account);
+
+  const alreadySynced = await prisma.transaction.findUnique({
+    where: { plaidTransactionId: plaidTx.transaction_id },
+    select: { id: true },
+  });
+  if (alreadySynced) {
+    await prisma.transaction.update({
+      where: { id: alreadySynced.id },
+      data: { ...data, bankAccountId: account.id },
+    });
+    return false;
+  }
+
+  // Rows imported before Plaid IDs were stored have none; adopt one instead of duplicating.
+  // Each adopted row gets an ID, so identical same-day charges still map to separate rows
+  const legacy = await prisma.transaction.findFirst({
+    where: {
+      userId,
+      bankAccountId: account.id,
+      plaidTransactionId: null,
+      amount: data.amount,
+      date: data.date,
+      merchant: rawMerchant,
+    },
+    select: { id: true },
+  });
+  if (legacy) {
+    await prisma.transaction.update({
+      where: { id: legacy.id },
+      data: { plaidTransactionId: plaidTx.transaction_id },
+    });
+    return false;
+  }
+
+  // Try to match with existing subscription
+  let linkedSubscription: { id: string; userId: string; currency: string | null } | null = null;
+  if (normalizedMerchant || rawMerchant) {
+    linkedSubscription = await prisma.subscription.findFirst({
+      where: {
+        userId,
+        OR: [
+          { merchant: { equals: normalizedMerchant, mode: 'insensitive' } },
+          { merchant: { contains: rawMerchant, mode: 'insensitive' } },
+          ...(matchedMerchant
+            ? [{ merchant: { equals: matchedMerchant.name, mode: 'insensitive' as const } }]
+            : []),
+        ],
+        status: 'active',
+      },
+      select: { id: true, userId: true, currency: true },
+    });
+  }
+
+  // Upsert guards against a concurrent sync (e.g. webhook and manual sync) inserting it first
+  await prisma.transaction.upsert({
+    where: { plaidTransactionId: plaidTx.transaction_id },
+    create: {
+      ...data,
+      userId,
+      bankAccountId: account.id,
+      subscriptionId: linkedSubscription?.id,
+      plaidTransactionId: plaidTx.transaction_id,
+    },
+    update: { ...data, bankAccountId: account.id },
+  });
+
+  // Record the charge in the subscription's price history if the amount changed
+  if (linkedSubscription && !plaidTx.pending) {
+    try {
+      await recordObservedPrices(
+        linkedSubscription,
+        [{ amount: data.amount, date: data.date }],
+        'sync'
+      );
+    } catch (error) {
+      console.warn(`Failed to record price history for subscription ${linkedSubscription.id}:`, error);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Syncs transactions for every account of a Plaid item
+ *
+ * @param userId - User ID (item must belong to this user)
+ * @param plaidItemId - Plaid item ID
+ * @returns Counts of added, modified, removed and skipped transactions
+ */
+export async function syncItemTransactions(
+  userId: string,
+  plaidItemId: string
+): Promise<SyncResult> {
+  const accounts = await prisma.bankAccount.findMany({
+    where: { userId, plaidItemId },
+    select: {
+      id: true,
+      plaidId: true,
+      currency: true,
+      country: true,
+      transactionsCursor: true,
+    },
+  });
+
+  if (accounts.length === 0) {
+    throw new Error('Bank account not found');
+  }
+
+  // SECURITY: Retrieve and decrypt access token from database
+  // Never accept access tokens from client requests
+  let accessToken: string;
+  try {
+    accessToken = await getPlaidAccessTokenByItemId(userId, plaidItemId);
+  } catch (error) {
+    throw new Error('Bank account is not properly connected. Please reconnect your account.');
+  }
+
+  // Use the credentials of the region the item was created in
+  const plaidClient = getPlaidClient(parseRegion(accounts[0].country) || DEFAULT_REGION);
+
+  // All accounts of an item share one cursor
+  const cursor = accounts.find((account: typeof accounts[0]) => account.transactionsCursor)?.transactionsCursor || null;
+  let updates: Awaited<ReturnType<typeof fetchSyncUpdates>>;
+  try {
+    updates = await fetchSyncUpdates(plaidClient, accessToken, cursor);
+  } catch (error: any) {
+    // Record broken connections so the dashboard can ask the user to repair them
+    if (error.response?.data?.error_code === 'ITEM_LOGIN_REQUIRED') {
+      await updateItemStatus(userId, plaidItemId, 'login_required');
+    }
+    throw error;
+  }
+
+  const accountsByPlaidId = new Map<string, SyncAccount>(
+    accounts.map((account: typeof accounts[0]) => [account.plaidId, account])
+  );
+  const result: SyncResult = { added: 0, modified: 0, removed: 0, skipped: 0 };
+
+  for (const plaidTx of updates.added) {
+    const account = accountsByPlaidId.get(plaidTx.account_id);
+    if (!account) {
+      result.skipped++;
+      continue;
+    }
+
+    if (await saveAddedTransaction(userId, plaidTx, account)) {
+      result.added++;
+    } else {
+      result.skipped++;
+    }
+  }
+
+  // Groups that modified or removed transactions leave must be re-analyzed too,
+  // which Transaction.updatedAt can't show (see detectionState.ts)
+  const changedPlaidIds = [
+    ...updates.modified.map((tx) => tx.transaction_id),
+    ...updates.removed.map((tx) => tx.transaction_id),
+  ];
+  if (changedPlaidIds.length > 0) {
+    const previous = await prisma.transaction.findMany({
+      where: { userId, plaidTransactionId: { in: changedPlaidIds } },
+      select: { normalizedMerchant: true },
+    });
+    await markMerchantsChanged(
+      userId,
+      previous.map((tx: typeof previous[0]) => tx.normalizedMerchant)
+    );
+  }
+
+  // Modified transactions: bank corrections, merchant cleanup, etc.
+  for (const plaidTx of updates.modified) {
+    const account = accountsByPlaidId.get(plaidTx.account_id);
+    if (!account) continue;
+
+    const { data } = await buildTransactionFields(plaidTx, account);
+    const updated = await prisma.transaction.updateMany({
+      where: { userId, plaidTransactionId: plaidTx.transaction_id },
+      data: { ...data, bankAccountId: account.id },
+    });
+
+    if (updated.count === 0) {
+      // We never saw the original; treat it as new
+      if (await saveAddedTransaction(userId, plaidTx, account)) {
+        result.added++;
+      }
+    } else {
+      result.modified += updated.count;
+    }
+  }
+
+  // Removed transactions: pending charges that posted under a new ID, or reversals
+  const removedIds = updates.removed.map((tx) => tx.transaction_id);
+  if (removedIds.length > 0) {
+    const deleted = await prisma.transaction.deleteMany({
+      where: { userId, plaidTransactionId: { in: removedIds } },
+    });
+    result.removed = deleted.count;
+  }
+
+  // Only advance the cursor once every update has been applied
+  // A successful sync also proves the connection works again
+  await prisma.bankAccount.updateMany({
+    where: { userId, plaidItemId },
+    data: {
+      transactionsCursor: updates.nextCursor,
+      lastSyncAt: new Date(),
+      itemStatus: 'healthy',
+    },
+  });
+
+  try {
+    await flushKnownMerchantMatchCounts();
+  } catch (error) {
+    console.error('Error saving known merchant match counts:', error);
+  }
+
+  console.log(
+    `Synced Plaid item ${plaidItemId} (user ${userId}): ${result.added} added, ${result.modified} modified, ${result.removed} removed, ${result.skipped} skipped`
+  );
+
+  return result;
+}
+
+/**
+ * Syncs transactions for a single bank account
+ * Plaid syncs whole items, so the other accounts of the same item are synced too
+ *
+ * @param userId - User ID (account must belong to this user)
+ * @param bankAccountId - Bank account ID
+ */
+export async function syncAccountTransactions(
+  userId: string,
+  bankAccountId: string
+): Promise<SyncResult> {
+  const bankAccount = await prisma.bankAccount.findFirst({
+    where: {
+      id: bankAccountId,
+      userId,
+    },
+    select: { id: true, plaidItemId: true },
+  });
+
+  if (!bankAccount) {
+    throw new Error('Bank account not found');
+  }
+
+  if (!bankAccount.plaidItemId) {
+    throw new Error('Bank account is not properly connected. Please reconnect your account.');
+  }
+
+  return syncItemTransactions(userId, bankAccount.plaidItemId);
+}
@@ -0,0 +1,243 @@
+/**
+ * Plaid Webhooks
+ *
+ * Verifies the JWT Plaid signs every webhook with and handles the webhook
+ * codes the app cares about (new transactions and item connection problems)
+ * See https://plaid.com/docs/api/webhooks/webhook-verification/
+ */
+
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { getPlaidClient, PlaidRegion } from './plaidConfig';
+import { updateItemStatus } from './plaidHelpers';
+import { enqueueJob } from './jobQueue';
+import { deleteNotificationsByKey, saveNotification } from './notificationStore';
+
+// Plaid recommends rejecting webhooks signed more than 5 minutes ago
+const MAX_WEBHOOK_AGE_SECONDS = 5 * 60;
+
+export interface PlaidWebhook {
+  webhook_type: string;
+  webhook_code: string;
+  item_id?: string;
+  error?: { error_code?: string; error_message?: string } | null;
+  consent_expiration_time?: string | null;
+  new_transactions?: number;
+}
+
+export interface WebhookResult {
+  handled: boolean;
+  action?: string;
+}
+
+// Verification keys by key ID; Plaid rotates keys rarely, so cache them in memory
+const verificationKeyCache = new Map<string, crypto.KeyObject>();
+
+function decodeBase64Url(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+async function getVerificationKey(keyId: string, region: PlaidRegion): Promise<crypto.KeyObject | null> {
+  const cached = verificationKeyCache.get(keyId);
+  if (cached) return cached;
+
+  const plaidClient = getPlaidClient(region);
+  const response = await plaidClient.webhookVerificationKeyGet({ key_id: keyId });
+  const jwk = response.data.key;
+
+  // Expired keys must not be used to verify new webhooks
+  if (jwk.expired_at) {
+    return null;
+  }
+
+  const key = crypto.createPublicKey({
+    key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y },
+    format: 'jwk',
+  });
+  verificationKeyCache.set(keyId, key);
+
+  return key;
+}
+
+/**
+ * Verifies the Plaid-Verification header of a webhook request
+ *
+ * @param body - Raw request body, exactly as received
+ * @param verificationHeader - Value of the Plaid-Verification header
+ * @param region - Region whose Plaid credentials the item was created with
+ * @returns true if the webhook was signed by Plaid and the body is untouched
+ */
+export async function verifyPlaidWebhook(
+  body: string,
+  verificationHeader: string | null,
+  region: PlaidRegion = 'US'
+): Promise<boolean> {
+  if (!verificationHeader) return false;
+
+  const parts = verificationHeader.split('.');
+  if (parts.length !== 3) return false;
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  let header: { alg?: string; kid?: string };
+  let payload: { iat?: number; request_body_sha256?: string };
+  try {
+    header = JSON.parse(decodeBase64Url(encodedHeader).toString('utf8'));
+    payload = JSON.parse(decodeBase64Url(encodedPayload).toString('utf8'));
+  } catch {
+    return false;
+  }
+
+  // Plaid only signs with ES256; never trust the algorithm otherwise
+  if (header.alg !== 'ES256' || !header.kid) return false;
+
+  let key: crypto.KeyObject | null;
+  try {
+    key = await getVerificationKey(header.kid, region);
+  } catch (error) {
+    console.error('Failed to fetch Plaid webhook verification key:', error);
+    return false;
+  }
+  if (!key) return false;
+
+  const signatureValid = crypto.verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key, dsaEncoding: 'ieee-p1363' },
+    decodeBase64Url(encodedSignature)
+  );
+  if (!signatureValid) return false;
+
+  // Reject replays of old webhooks
+  const now = Math.floor(Date.now() / 1000);
+  if (!payload.iat || now - payload.iat > MAX_WEBHOOK_AGE_SECONDS) return false;
+
+  // The signed hash must match the body we received
+  if (!payload.request_body_sha256) return false;
+  const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+  const expected = Buffer.from(payload.request_body_sha256);
+  const actual = Buffer.from(bodyHash);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function getConnectionNotificationKey(code: string, itemId: string): string {
+  return `plaid-${code.toLowerCase()}-${itemId}`;
+}
+
+/**
+ * Removes connection warnings for an item once it has been repaired or disconnected
+ *
+ * @param userId - User ID
+ * @param itemId - Plaid item ID
+ */
+export async function clearConnectionIssues(userId: string, itemId: string): Promise<void> {
+  await deleteNotificationsByKey(
+    userId,
+    ['ITEM_LOGIN_REQUIRED', 'PENDING_EXPIRATION', 'USER_PERMISSION_REVOKED'].map((code) => getConnectionNotificationKey(code, itemId))
+  );
+}
+
+/**
+ * Stores a notification asking the user to fix a bank connection
+ */
+async function notifyConnectionIssue(
+  userId: string,
+  itemId: string,
+  code: string,
+  title: string,
+  message: string,
+  severity: 'medium' | 'high' | 'critical'
+) {
+  await saveNotification(userId, {
+    id: getConnectionNotificationKey(code, itemId),
+    type: 'bank_connection',
+    title,
+    message,
+    severity,
+    actionUrl: '/dashboard/settings',
+    actionText: 'Manage Accounts',
+  });
+}
+
+/**
+ * Handles a verified Plaid webhook
+ *
+ * @param webhook - Parsed webhook body
+ * @returns Whether the webhook was acted on
+ */
+export async function handlePlaidWebhook(webhook: PlaidWebhook): Promise<WebhookResult> {
+  if (!webhook.item_id) {
+    return { handled: false };
+  }
+
+  const account = await prisma.bankAccount.findFirst({
+    where: { plaidItemId: webhook.item_id },
+    select: { id: true, userId: true, name: true },
+  });
+
+  if (!account) {
+    console.warn(`Received Plaid webhook for unknown item ${webhook.item_id}`);
+    return { handled: false };
+  }
+
+  const { userId } = account;
+  const itemId = webhook.item_id;
+  const code = webhook.webhook_type === 'ITEM' && webhook.webhook_code === 'ERROR'
+    ? webhook.error?.error_code || webhook.webhook_code
+    : webhook.webhook_code;
+
+  switch (code) {
+    case 'SYNC_UPDATES_AVAILABLE':
+      // Syncing a large item can outlast the webhook request; a worker does it
+      await enqueueJob(userId, 'sync_transactions', { bankAccountId: account.id });
+      return { handled: true, action: 'sync_queued' };
+
+    case 'ITEM_LOGIN_REQUIRED':
+      await updateItemStatus(userId, itemId, 'login_required');
+      await notifyConnectionIssue(
+        userId,
+        itemId,
+        code,
+        'Bank connection needs attention',
+        `Your bank requires you to sign in again before ${account.name} can sync new transactions.`,
+        'high'
+      );
+      return { handled: true, action: 'login_required' };
+
+    case 'PENDING_EXPIRATION': {
+      const expiresOn = webhook.consent_expiration_time
+        ? new Date(webhook.consent_expiration_time).toLocaleDateString()
+        : 'soon';
+      await notifyConnectionIssue(
+        userId,
+        itemId,
+        code,
+        'Bank connection expiring',
+        `Access to ${account.name} expires ${expiresOn}. Reconnect to keep tracking your subscriptions.`,
+        'medium'
+      );
+      return { handled: true, action: 'pending_expiration' };
+    }
+
+    case 'USER_PERMISSION_REVOKED':
+      await updateItemStatus(userId, itemId, 'revoked');
+      await notifyConnectionIssue(
+        userId,
+        itemId,
+        code,
+        'Bank access revoked',
+        `Access to ${account.name} was revoked at your bank. Remove it in Settings and connect it again to resume syncing.`,
+        'critical'
+      );
+      return { handled: true, action: 'revoked' };
+
+    case 'LOGIN_REPAIRED':
+      // Sent when the user fixed the connection in another app using the same bank login
+      await updateItemStatus(userId, itemId, 'healthy');
+      await clearConnectionIssues(userId, itemId);
+      return { handled: true, action: 'repaired' };
+
+    default:
+      return { handled: false };
+  }
+}
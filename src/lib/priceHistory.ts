@@ -0,0 +1,251 @@
+/**
+ * Subscription Price History
+ *
+ * Records every price a subscription has been charged at, so price changes
+ * are kept instead of being overwritten on Subscription.amount
+ */
+
+import { prisma } from './prisma';
+
+// Charges within 2% of the last recorded price are treated as the same price
+// (small FX or tax rounding differences shouldn't show up as price changes)
+const PRICE_CHANGE_TOLERANCE = 0.02;
+
+export type PriceChangeSource = 'detection' | 'sync' | 'manual';
+
+export interface PriceHistoryEntry {
+  date: string; // ISO date the price took effect
+  amount: number;
+  change?: number; // Difference from the previous price
+}
+
+export interface PriceHistorySummary {
+  initialAmount: number;
+  currentAmount: number;
+  totalChange: number;
+  percentChange: number;
+  since: string; // ISO date of the first recorded price
+  changeCount: number;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(Math.abs(amount) * 100) / 100;
+}
+
+/**
+ * Checks whether a new amount differs enough from the old one to count as a price change
+ */
+export function isPriceChange(oldAmount: number, newAmount: number): boolean {
+  if (oldAmount <= 0) return newAmount > 0;
+  const diff = Math.abs(newAmount - oldAmount);
+  return diff >= 0.01 && diff / oldAmount > PRICE_CHANGE_TOLERANCE;
+}
+
+/**
+ * Records a price for a subscription if it differs from the latest recorded price
+ *
+ * @param subscription - Subscription the price belongs to
+ * @param newAmount - The new price
+ * @param effectiveDate - When the new price took effect
+ * @param source - What observed the change
+ * @returns true if a change was recorded
+ */
+export async function recordPriceChange(
+  subscription: { id: string; userId: string; currency?: string | null },
+  newAmount: number,
+  effectiveDate: Date,
+  source: PriceChangeSource
+): Promise<boolean> {
+  const latest = await prisma.subscriptionPriceChange.findFirst({
+    where: { subscriptionId: subscription.id },
+    orderBy: { effectiveDate: 'desc' },
+  });
+
+  const amount = roundAmount(newAmount);
+  if (latest && !isPriceChange(latest.newAmount, amount)) {
+    return false;
+  }
+
+  await prisma.subscriptionPriceChange.create({
+    data: {
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      oldAmount: latest?.newAmount ?? null,
+      newAmount: amount,
+      currency: subscription.currency || 'USD',
+      source,
+      effectiveDate,
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Records price changes seen in a subscription's charges
+ * Only charges after the latest recorded price are considered, so calling this
+ * repeatedly with overlapping transactions doesn't create duplicate entries
+ *
+ * @param subscription - Subscription the charges belong to
+ * @param transactions - Charges linked to the subscription (any order)
+ * @param source - What observed the charges
+ * @returns Number of price changes recorded
+ */
+export async function recordObservedPrices(
+  subscription: { id: string; userId: string; currency?: string | null },
+  transactions: Array<{ amount: number; date: Date }>,
+  source: PriceChangeSource
+): Promise<number> {
+  const latest = await prisma.subscriptionPriceChange.findFirst({
+    where: { subscriptionId: subscription.id },
+    orderBy: { effectiveDate: 'desc' },
+  });
+
+  let lastAmount: number | null = latest?.newAmount ?? null;
+  const newCharges = transactions
+    .filter((tx) => !latest || tx.date > latest.effectiveDate)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let recorded = 0;
+  for (const tx of newCharges) {
+    const amount = roundAmount(tx.amount);
+    if (lastAmount !== null && !isPriceChange(lastAmount, amount)) {
+      continue;
+    }
+
+    await prisma.subscriptionPriceChange.create({
+      data: {
+        subscriptionId: subscription.id,
+        userId: subscription.userId,
+        oldAmount: lastAmount,
+        newAmount: amount,
+        currency: subscription.currency || 'USD',
+        source,
+        effectiveDate: tx.date,
+      },
+    });
+
+    lastAmount = amount;
+    recorded++;
+  }
+
+  return recorded;
+}
+
+/**
+ * Tidies a subscription's price history after records from several subscriptions were combined
+ * Records stay in date order; ones that aren't a change from the record before are
+ * dropped and each oldAmount is relinked to the previous price
+ *
+ * @param subscriptionId - Subscription whose history was combined
+ * @returns Number of records kept
+ */
+export async function rebuildPriceHistory(subscriptionId: string): Promise<number> {
+  const changes = await getPriceChanges(subscriptionId);
+
+  const removed: string[] = [];
+  const relinked: Array<{ id: string; oldAmount: number | null }> = [];
+  let previous: number | null = null;
+
+  for (const change of changes) {
+    if (previous !== null && !isPriceChange(previous, change.newAmount)) {
+      removed.push(change.id);
+      continue;
+    }
+    if (change.oldAmount !== previous) {
+      relinked.push({ id: change.id, oldAmount: previous });
+    }
+    previous = change.newAmount;
+  }
+
+  await prisma.$transaction([
+    prisma.subscriptionPriceChange.deleteMany({ where: { id: { in: removed } } }),
+    ...relinked.map((change) =>
+      prisma.subscriptionPriceChange.update({
+        where: { id: change.id },
+        data: { oldAmount: change.oldAmount },
+      })
+    ),
+  ]);
+
+  return changes.length - removed.length;
+}
+
+/**
+ * Gets the recorded price changes for a subscription, oldest first
+ */
+export async function getPriceChanges(subscriptionId: string) {
+  return prisma.subscriptionPriceChange.findMany({
+    where: { subscriptionId },
+    orderBy: { effectiveDate: 'asc' },
+  });
+}
+
+/**
+ * Converts price change records into the priceHistory format used by
+ * generatePriceIncreaseAlerts and SubscriptionCard
+ */
+export function toPriceHistory(
+  changes: Array<{ oldAmount: number | null; newAmount: number; effectiveDate: Date }>
+): PriceHistoryEntry[] {
+  return changes.map((change) => ({
+    date: change.effectiveDate.toISOString(),
+    amount: change.newAmount,
+    change:
+      change.oldAmount !== null
+        ? Math.round((change.newAmount - change.oldAmount) * 100) / 100
+        : undefined,
+  }));
+}
+
+/**
+ * Summarizes how a subscription's price has moved since it was first recorded
+ */
+export function summarizePriceHistory(history: PriceHistoryEntry[]): PriceHistorySummary | null {
+  if (history.length === 0) return null;
+
+  const first = history[0];
+  const last = history[history.length - 1];
+  const totalChange = Math.round((last.amount - first.amount) * 100) / 100;
+
+  return {
+    initialAmount: first.amount,
+    currentAmount: last.amount,
+    totalChange,
+    percentChange: first.amount > 0 ? Math.round((totalChange / first.amount) * 1000) / 10 : 0,
+    since: first.date,
+    changeCount: history.length - 1,
+  };
+}
+
+/**
+ * Loads price history for several subscriptions at once
+ *
+ * @param subscriptionIds - Subscription IDs
+ * @returns Map of subscription ID to its price history (oldest first)
+ */
+export async function getPriceHistoryForSubscriptions(
+  subscriptionIds: string[]
+): Promise<Record<string, PriceHistoryEntry[]>> {
+  if (subscriptionIds.length === 0) return {};
+
+  const changes = await prisma.subscriptionPriceChange.findMany({
+    where: { subscriptionId: { in: subscriptionIds } },
+    orderBy: { effectiveDate: 'asc' },
+  });
+
+  const grouped: Record<string, typeof changes> = {};
+  for (const change of changes) {
+    if (!grouped[change.subscriptionId]) {
+      grouped[change.subscriptionId] = [];
+    }
+    grouped[change.subscriptionId].push(change);
+  }
+
+  const result: Record<string, PriceHistoryEntry[]> = {};
+  for (const [subscriptionId, subscriptionChanges] of Object.entries(grouped)) {
+    result[subscriptionId] = toPriceHistory(subscriptionChanges);
+  }
+
+  return result;
+}
@@ -5,16 +5,20 @@
  * Uses interval analysis, amount consistency, and merchant matching
  */
 
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { findKnownMerchant } from './merchantMatcher';
 import { normalizeMerchant } from './merchantNormalizer';
+import { aliasToNormalizedMerchant, findMerchantAlias, getMerchantAliasRules, MerchantAliasRule } from './merchantAliases';
+import { getNextBillingDate, StandardInterval } from './billingInterval';
+import { DetectionRun } from './detectionState';
 
 export interface RecurringPattern {
   merchant: string;
   normalizedMerchant: string;
   amount: number;
   currency: string;
-  interval: string; // 'monthly' | 'bi-weekly' | 'weekly' | 'quarterly' | 'yearly'
+  interval: string; // Stored interval form (see billingInterval.ts)
   nextBillingDate: Date;
   confidenceScore: number;
   matchedKnownMerchant?: {
@@ -34,17 +38,25 @@ export interface RecurringPattern {
 
 // Interval patterns in days (with tolerance)
 // Updated ranges per requirements: monthly 22-38, weekly 6-10, annual 350-380
-const INTERVAL_PATTERNS = {
+const INTERVAL_PATTERNS: Record<StandardInterval, { min: number; max: number; ideal: number; minOccurrences: number }> = {
   weekly: { min: 6, max: 10, ideal: 7, minOccurrences: 4 }, // 4+ occurrences for weekly
   'bi-weekly': { min: 13, max: 15, ideal: 14, minOccurrences: 2 },
   monthly: { min: 22, max: 38, ideal: 30, minOccurrences: 2 }, // 22-38 days for monthly
   quarterly: { min: 85, max: 95, ideal: 90, minOccurrences: 2 },
+  semiannual: { min: 175, max: 190, ideal: 182, minOccurrences: 2 },
   yearly: { min: 350, max: 380, ideal: 365, minOccurrences: 2 }, // 350-380 days for annual
-} as const;
+};
 
-const AMOUNT_TOLERANCE = 0.20; // ±20% (increased tolerance)
+export const AMOUNT_TOLERANCE = 0.20; // ±20% (increased tolerance)
 const MIN_TRANSACTIONS = 2; // Minimum occurrences to detect pattern
 
+// Trial length assumed when the merchant's usual trial isn't known
+// Kept short so conversion alerts arrive early rather than late
+const DEFAULT_TRIAL_DAYS = 7;
+
+// How far back to look for free-trial signups
+const TRIAL_LOOKBACK_DAYS = 60;
+
 // Patterns to exclude (bank interest, credit card payments, etc.)
 const EXCLUDED_MERCHANT_PATTERNS = [
   /interest/i,
@@ -64,6 +76,33 @@ const EXCLUDED_MERCHANT_PATTERNS = [
   /withdrawal/i,
 ];
 
+export interface TrialPattern {
+  merchant: string;
+  normalizedMerchant: string;
+  authorizationAmount: number; // The $0 or $1 signup authorization
+  currency: string;
+  trialStartDate: Date;
+  trialEndDate: Date;
+  expectedAmount: number; // Price once the trial converts (0 if unknown)
+  interval: string;
+  matchedKnownMerchant: {
+    id: string;
+    name: string;
+    displayName: string;
+    category: string;
+  };
+  category: string;
+  transactionIds: string[];
+}
+
+/**
+ * Checks if a charge looks like a free-trial signup authorization ($0 or $1)
+ */
+export function isTrialAuthorization(amount: number): boolean {
+  const absAmount = Math.abs(amount);
+  return amount <= 0 && (absAmount < 0.005 || Math.abs(absAmount - 1) < 0.005);
+}
+
 /**
  * Calculates the number of days between two dates
  */
@@ -82,6 +121,22 @@ function shouldExcludeMerchant(merchant: string | null, normalizedMerchant: stri
   return EXCLUDED_MERCHANT_PATTERNS.some(pattern => pattern.test(checkString));
 }
 
+/**
+ * Works out which merchant group a transaction belongs to
+ * The user's aliases win, since they exist for descriptors normalization gets wrong;
+ * otherwise the stored normalized merchant is used, or the raw merchant is normalized
+ */
+function getMerchantGroupKey(
+  tx: { merchant: string | null; normalizedMerchant: string | null; description?: string | null },
+  aliases: MerchantAliasRule[]
+): { key: string; alias: MerchantAliasRule | null } {
+  const alias = findMerchantAlias(aliases, tx);
+  const key = alias
+    ? aliasToNormalizedMerchant(alias)
+    : tx.normalizedMerchant || normalizeMerchant(tx.merchant || '');
+  return { key, alias };
+}
+
 /**
  * Groups transactions by month bucket (YYYY-MM) to avoid false duplicate grouping
  * Returns array of unique month buckets with representative transaction
@@ -215,6 +270,8 @@ function isAmountConsistent(amounts: number[], tolerance: number = AMOUNT_TOLERA
  * @param transactions - Array of transactions with merchant, amount, date
  * @param userId - User ID for merchant matching (optional)
  * @param country - Country code for merchant matching (optional)
+ * @param aliases - The user's merchant aliases, applied before grouping
+ * @param merchants - Only analyze these merchant groups (incremental runs)
  * @returns Array of detected recurring patterns
  */
 export async function detectRecurringPatterns(
@@ -222,12 +279,15 @@ export async function detectRecurringPatterns(
     id: string;
     merchant: string | null;
     normalizedMerchant: string | null;
+    description?: string | null;
     amount: number;
     currency: string | null;
     date: Date;
   }>,
   userId?: string,
-  country?: string
+  country?: string,
+  aliases: MerchantAliasRule[] = [],
+  merchants?: Set<string>
 ): Promise<RecurringPattern[]> {
   if (!transactions || transactions.length < MIN_TRANSACTIONS) {
     return [];
@@ -244,16 +304,24 @@ export async function detectRecurringPatterns(
 
   // Group transactions by normalized merchant
   const merchantGroups: Record<string, typeof expenseTransactions> = {};
+  const aliasNames: Record<string, string> = {};
 
   for (const tx of expenseTransactions) {
     try {
-      // Use normalized merchant if available, otherwise normalize the raw merchant
-      const normalized = tx.normalizedMerchant || normalizeMerchant(tx.merchant || '');
+      const { key: normalized, alias } = getMerchantGroupKey(tx, aliases);
+      if (alias) {
+        aliasNames[normalized] = alias.alias;
+      }
       
       if (!normalized || normalized.length < 2) {
         continue;
       }
 
+      // Incremental runs only regroup merchants whose transactions changed
+      if (merchants && !merchants.has(normalized)) {
+        continue;
+      }
+
       // Exclude bank interest, credit card payments, etc.
       if (shouldExcludeMerchant(tx.merchant, normalized)) {
         console.log(`Excluding merchant (bank interest/payment): ${normalized}`);
@@ -274,11 +342,15 @@ export async function detectRecurringPatterns(
   const detectedPatterns: RecurringPattern[] = [];
 
   // Analyze each merchant group
-  for (const [normalizedMerchant, txs] of Object.entries(merchantGroups)) {
-    if (txs.length < MIN_TRANSACTIONS) {
+  for (const [normalizedMerchant, merchantTxs] of Object.entries(merchantGroups)) {
+    if (merchantTxs.length < MIN_TRANSACTIONS) {
       continue;
     }
 
+    // A $1 trial signup before the paid charges would skew the amounts
+    const paidTxs = merchantTxs.filter((tx) => !isTrialAuthorization(tx.amount));
+    const txs = paidTxs.length >= MIN_TRANSACTIONS ? paidTxs : merchantTxs;
+
     // Group by month bucket to avoid false duplicate grouping
     // This ensures transactions in the same month are treated as one occurrence
     const monthBucketed = groupByMonthBucket(
@@ -428,28 +500,10 @@ export async function detectRecurringPatterns(
     const lastTx = sortedOriginalTxs[sortedOriginalTxs.length - 1];
 
     // Calculate next billing date based on last transaction
-    const nextBillingDate = new Date(lastTx.date);
-    
-    switch (intervalMatch.type) {
-      case 'weekly':
-        nextBillingDate.setDate(nextBillingDate.getDate() + 7);
-        break;
-      case 'bi-weekly':
-        nextBillingDate.setDate(nextBillingDate.getDate() + 14);
-        break;
-      case 'monthly':
-        nextBillingDate.setMonth(nextBillingDate.getMonth() + 1);
-        break;
-      case 'quarterly':
-        nextBillingDate.setMonth(nextBillingDate.getMonth() + 3);
-        break;
-      case 'yearly':
-        nextBillingDate.setFullYear(nextBillingDate.getFullYear() + 1);
-        break;
-    }
+    const nextBillingDate = getNextBillingDate(new Date(lastTx.date), intervalMatch.type);
 
     detectedPatterns.push({
-      merchant: firstTx.merchant || normalizedMerchant,
+      merchant: aliasNames[normalizedMerchant] || firstTx.merchant || normalizedMerchant,
       normalizedMerchant,
       amount: Math.round(avgAmount * 100) / 100,
       currency,
@@ -471,21 +525,84 @@ export async function detectRecurringPatterns(
   return detectedPatterns.sort((a, b) => b.confidenceScore - a.confidenceScore);
 }
 
+/**
+ * Works out which merchant groups an incremental run has to re-analyze:
+ * groups with transactions added or updated since the last run, plus merchants
+ * marked changed (see detectionState.ts)
+ */
+async function getChangedMerchantKeys(
+  userId: string,
+  run: DetectionRun,
+  aliases: MerchantAliasRule[]
+): Promise<Set<string>> {
+  const keys = new Set(run.changedMerchants);
+  if (!run.changedSince) return keys;
+
+  const changed = await prisma.transaction.findMany({
+    where: {
+      userId,
+      updatedAt: { gt: run.changedSince },
+    },
+    select: {
+      merchant: true,
+      normalizedMerchant: true,
+      description: true,
+    },
+  });
+
+  for (const tx of changed) {
+    const { key } = getMerchantGroupKey(tx, aliases);
+    if (key) keys.add(key);
+  }
+
+  return keys;
+}
+
 /**
  * Detects recurring patterns for a specific user
  * Fetches transactions from the database and analyzes them
  * 
  * @param userId - User ID
  * @param monthsBack - Number of months to look back (default: 24)
+ * @param run - Incremental runs only return patterns for merchants that changed (see detectionState.ts)
  * @returns Array of detected recurring patterns
  */
 export async function detectRecurringPatternsForUser(
   userId: string,
-  monthsBack: number = 24
+  monthsBack: number = 24,
+  run?: DetectionRun
 ): Promise<RecurringPattern[]> {
   const startDate = new Date();
   startDate.setMonth(startDate.getMonth() - monthsBack);
 
+  const aliases = await getMerchantAliasRules(userId);
+
+  // On incremental runs, only load the transactions of changed merchant groups
+  let merchants: Set<string> | undefined;
+  let merchantFilter: Prisma.TransactionWhereInput = {};
+  if (run && !run.isFull) {
+    const changedKeys = await getChangedMerchantKeys(userId, run, aliases);
+    if (changedKeys.size === 0) {
+      return [];
+    }
+
+    // Aliased groups are made of whatever matches their descriptors
+    const aliasPatterns = aliases
+      .filter((alias) => changedKeys.has(aliasToNormalizedMerchant(alias)))
+      .map((alias) => alias.pattern);
+    merchants = changedKeys;
+    merchantFilter = {
+      OR: [
+        { normalizedMerchant: { in: Array.from(changedKeys) } },
+        ...aliasPatterns.flatMap((pattern): Prisma.TransactionWhereInput[] => [
+          { merchant: { contains: pattern, mode: 'insensitive' } },
+          { description: { contains: pattern, mode: 'insensitive' } },
+        ]),
+      ],
+    };
+    console.log(`Incremental detection for user ${userId}: ${merchants.size} changed merchant(s)`);
+  }
+
   // Fetch user transactions
   const transactions = await prisma.transaction.findMany({
     where: {
@@ -496,11 +613,13 @@ export async function detectRecurringPatternsForUser(
       amount: {
         lt: 0, // Only expenses
       },
+      ...merchantFilter,
     },
     select: {
       id: true,
       merchant: true,
       normalizedMerchant: true,
+      description: true,
       amount: true,
       currency: true,
       date: true,
@@ -517,6 +636,144 @@ export async function detectRecurringPatternsForUser(
   });
   const country = bankAccount?.country || undefined;
 
-  return detectRecurringPatterns(transactions, userId, country);
+  return detectRecurringPatterns(transactions, userId, country, aliases, merchants);
 }
 
+/**
+ * Detects free-trial signups: $0 or $1 authorizations from known merchants
+ * that haven't been followed by a paid charge yet
+ * 
+ * @param transactions - Array of transactions with merchant, amount, date
+ * @param country - Country code for merchant matching (optional)
+ * @param aliases - The user's merchant aliases, applied before grouping
+ * @param now - Current time (default: now)
+ * @returns Trials that are still running, soonest to convert first
+ */
+export async function detectTrialSignups(
+  transactions: Array<{
+    id: string;
+    merchant: string | null;
+    normalizedMerchant: string | null;
+    description?: string | null;
+    amount: number;
+    currency: string | null;
+    date: Date;
+  }>,
+  country?: string,
+  aliases: MerchantAliasRule[] = [],
+  now: Date = new Date()
+): Promise<TrialPattern[]> {
+  // Group transactions by normalized merchant, keeping only merchants with a signup authorization
+  const merchantGroups: Record<string, typeof transactions> = {};
+  for (const tx of transactions) {
+    const { key: normalized } = getMerchantGroupKey(tx, aliases);
+    if (!normalized || normalized.length < 2 || shouldExcludeMerchant(tx.merchant, normalized)) {
+      continue;
+    }
+    if (!merchantGroups[normalized]) {
+      merchantGroups[normalized] = [];
+    }
+    merchantGroups[normalized].push(tx);
+  }
+
+  const trials: TrialPattern[] = [];
+
+  for (const [normalizedMerchant, txs] of Object.entries(merchantGroups)) {
+    const sorted = [...txs].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const authorizations = sorted.filter((tx) => isTrialAuthorization(tx.amount));
+    if (authorizations.length === 0) continue;
+
+    // A paid charge after the signup means the trial already converted
+    const signup = authorizations[authorizations.length - 1];
+    if (sorted.some((tx) => tx.date > signup.date && !isTrialAuthorization(tx.amount))) {
+      continue;
+    }
+
+    const currency = signup.currency || 'USD';
+
+    // Only known merchants: a $1 charge from anyone else is too ambiguous to call a trial
+    let match;
+    try {
+      match = await findKnownMerchant(normalizedMerchant, undefined, country, currency);
+    } catch (error) {
+      // Merchant matching failed, skip this merchant
+      continue;
+    }
+    if (!match) continue;
+
+    const trialEndDate = new Date(signup.date);
+    trialEndDate.setDate(trialEndDate.getDate() + (match.trialDays || DEFAULT_TRIAL_DAYS));
+    if (trialEndDate <= now) {
+      // Ended without a paid charge, so it was cancelled in time
+      continue;
+    }
+
+    console.log(`Free trial detected: ${normalizedMerchant}, signup ${signup.date.toISOString().split('T')[0]}, converts ${trialEndDate.toISOString().split('T')[0]}`);
+
+    trials.push({
+      merchant: signup.merchant || normalizedMerchant,
+      normalizedMerchant,
+      authorizationAmount: Math.abs(signup.amount),
+      currency,
+      trialStartDate: signup.date,
+      trialEndDate,
+      expectedAmount: match.typicalAmount || 0,
+      interval: match.billingCycles?.[0] || 'monthly',
+      matchedKnownMerchant: {
+        id: match.id,
+        name: match.name,
+        displayName: match.displayName,
+        category: match.category,
+      },
+      category: match.category,
+      transactionIds: authorizations.map((tx) => tx.id),
+    });
+  }
+
+  return trials.sort((a, b) => a.trialEndDate.getTime() - b.trialEndDate.getTime());
+}
+
+/**
+ * Detects running free trials for a specific user
+ * 
+ * @param userId - User ID
+ * @returns Array of detected trials
+ */
+export async function detectTrialSignupsForUser(userId: string): Promise<TrialPattern[]> {
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - TRIAL_LOOKBACK_DAYS);
+
+  // $0 authorizations are included, so this can't filter on amount < 0
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      userId,
+      date: {
+        gte: startDate,
+      },
+      amount: {
+        lte: 0,
+      },
+    },
+    select: {
+      id: true,
+      merchant: true,
+      normalizedMerchant: true,
+      description: true,
+      amount: true,
+      currency: true,
+      date: true,
+    },
+    orderBy: {
+      date: 'asc',
+    },
+  });
+
+  const bankAccount = await prisma.bankAccount.findFirst({
+    where: { userId },
+    select: { country: true },
+  });
+
+  const aliases = await getMerchantAliasRules(userId);
+
+  return detectTrialSignups(transactions, bankAccount?.country || undefined, aliases);
+}
@@ -0,0 +1,146 @@
+/**
+ * Region Registry
+ *
+ * Every country the app supports, with the currency, locale, Plaid country
+ * codes and statement date format used there. Formatting, Plaid and merchant
+ * matching all read from here, so adding a region is a single entry.
+ */
+
+import type { StatementDateFormat } from './statementParser';
+
+export type RegionCode = 'US' | 'UK' | 'CA' | 'IE' | 'FR' | 'DE' | 'ES' | 'NL';
+
+export interface RegionConfig {
+  code: RegionCode;
+  name: string;
+  currency: string; // ISO 4217
+  currencySymbol: string;
+  locale: string; // BCP 47, used for currency, number and date formatting
+  plaidCountryCodes: string[]; // ISO 3166-1 alpha-2, as Plaid expects them
+  plaidCredentials: 'US' | 'EU'; // Which set of Plaid keys the region's items use
+  dateFormat: StatementDateFormat; // How local banks write dates in exports
+}
+
+export const DEFAULT_REGION: RegionCode = 'US';
+
+export const REGIONS: Record<RegionCode, RegionConfig> = {
+  US: {
+    code: 'US',
+    name: 'United States',
+    currency: 'USD',
+    currencySymbol: '$',
+    locale: 'en-US',
+    plaidCountryCodes: ['US'],
+    plaidCredentials: 'US',
+    dateFormat: 'MM/DD/YYYY',
+  },
+  UK: {
+    code: 'UK',
+    name: 'United Kingdom',
+    currency: 'GBP',
+    currencySymbol: '£',
+    locale: 'en-GB',
+    plaidCountryCodes: ['GB'], // Plaid uses 'GB' for UK
+    plaidCredentials: 'EU',
+    dateFormat: 'DD/MM/YYYY',
+  },
+  CA: {
+    code: 'CA',
+    name: 'Canada',
+    currency: 'CAD',
+    currencySymbol: 'CA$',
+    locale: 'en-CA',
+    plaidCountryCodes: ['CA'],
+    plaidCredentials: 'US',
+    dateFormat: 'YYYY-MM-DD',
+  },
+  IE: {
+    code: 'IE',
+    name: 'Ireland',
+    currency: 'EUR',
+    currencySymbol: '€',
+    locale: 'en-IE',
+    plaidCountryCodes: ['IE'],
+    plaidCredentials: 'EU',
+    dateFormat: 'DD/MM/YYYY',
+  },
+  FR: {
+    code: 'FR',
+    name: 'France',
+    currency: 'EUR',
+    currencySymbol: '€',
+    locale: 'fr-FR',
+    plaidCountryCodes: ['FR'],
+    plaidCredentials: 'EU',
+    dateFormat: 'DD/MM/YYYY',
+  },
+  DE: {
+    code: 'DE',
+    name: 'Germany',
+    currency: 'EUR',
+    currencySymbol: '€',
+    locale: 'de-DE',
+    plaidCountryCodes: ['DE'],
+    plaidCredentials: 'EU',
+    dateFormat: 'DD/MM/YYYY',
+  },
+  ES: {
+    code: 'ES',
+    name: 'Spain',
+    currency: 'EUR',
+    currencySymbol: '€',
+    locale: 'es-ES',
+    plaidCountryCodes: ['ES'],
+    plaidCredentials: 'EU',
+    dateFormat: 'DD/MM/YYYY',
+  },
+  NL: {
+    code: 'NL',
+    name: 'Netherlands',
+    currency: 'EUR',
+    currencySymbol: '€',
+    locale: 'nl-NL',
+    plaidCountryCodes: ['NL'],
+    plaidCredentials: 'EU',
+    dateFormat: 'DD/MM/YYYY',
+  },
+};
+
+export const REGION_CODES = Object.keys(REGIONS) as RegionCode[];
+
+/**
+ * Reads a region code from user input or stored data
+ * Accepts any case and Plaid's ISO codes (e.g. 'GB' for the UK)
+ *
+ * @param value - Region or country code
+ * @returns The region, or null if it isn't supported
+ */
+export function parseRegion(value?: string | null): RegionCode | null {
+  if (!value) return null;
+  const code = value.trim().toUpperCase();
+  if (code in REGIONS) return code as RegionCode;
+  return REGION_CODES.find((region) => REGIONS[region].plaidCountryCodes.includes(code)) || null;
+}
+
+/**
+ * Gets the settings for a region
+ *
+ * @param region - Region or country code (default: US)
+ * @returns Region settings, falling back to the default region
+ */
+export function getRegion(region?: string | null): RegionConfig {
+  return REGIONS[parseRegion(region) || DEFAULT_REGION];
+}
+
+/**
+ * Finds the first region that uses a currency
+ * EUR is shared by several regions, so it resolves to Ireland (English locale)
+ *
+ * @param currency - ISO 4217 currency code
+ * @returns Region settings, or null if no region uses the currency
+ */
+export function getRegionForCurrency(currency?: string | null): RegionConfig | null {
+  if (!currency) return null;
+  const code = currency.toUpperCase();
+  return Object.values(REGIONS).find((region) => region.currency === code) || null;
+}
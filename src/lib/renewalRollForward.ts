@@ -0,0 +1,478 @@
+/**
+ * Renewal Roll-Forward
+ *
+ * Subscription.renewalDate only moves when detection re-runs, so manually added
+ * subscriptions go stale after their first renewal. rollForwardRenewals (daily
+ * cron) steps every passed renewal date forward by the subscription's interval,
+ * matching each due charge against posted transactions on the way. Matched
+ * charges set lastPaymentDate; charges the bank data should show but doesn't
+ * set missedChargeAt. settleTrials (same cron, and after each detection run)
+ * turns free trials into active subscriptions on their first paid charge, and
+ * cancels ones that ended without one.
+ */
+
+import { prisma } from './prisma';
+import { addBillingIntervals, getIntervalDays, getNextBillingDate } from './billingInterval';
+import { normalizeMerchant } from './merchantNormalizer';
+import { recordObservedPrices } from './priceHistory';
+import { isTrialAuthorization } from './recurringDetector';
+
+// Days either side of a renewal date a charge can post and still count for it
+export const CHARGE_MATCH_WINDOW_DAYS = 5;
+
+// How far a charge can differ from the subscription amount and still match
+const CHARGE_AMOUNT_TOLERANCE = 0.25;
+
+// Cycles reconciled one by one per run; anything older is skipped over
+const MAX_CYCLES_PER_RUN = 24;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RollForwardResult {
+  subscriptionId: string;
+  userId: string;
+  previousRenewalDate: Date;
+  renewalDate: Date;
+  chargesMatched: number;
+  chargesMissed: number;
+}
+
+interface DueSubscription {
+  id: string;
+  userId: string;
+  name: string;
+  merchant: string | null;
+  amount: number;
+  currency: string | null;
+  interval: string | null;
+  renewalDate: Date;
+  lastPaymentDate: Date | null;
+  missedChargeAt: Date | null;
+  plaidTransactionIds: string[];
+  excludedChargeIds: string[];
+}
+
+export interface TrialSettlement {
+  subscriptionId: string;
+  userId: string;
+  outcome: 'converted' | 'cancelled';
+}
+
+interface RunningTrial extends DueSubscription {
+  trialStartDate: Date;
+  trialEndDate: Date;
+}
+
+interface PostedTransaction {
+  id: string;
+  amount: number;
+  date: Date;
+  merchant: string | null;
+  normalizedMerchant: string | null;
+  subscriptionId: string | null;
+}
+
+/**
+ * Checks if an unlinked transaction looks like a charge for the subscription
+ */
+function looksLikeCharge(subscription: DueSubscription, transaction: PostedTransaction): boolean {
+  const amount = Math.abs(transaction.amount);
+  if (Math.abs(amount - subscription.amount) > subscription.amount * CHARGE_AMOUNT_TOLERANCE) {
+    return false;
+  }
+
+  return isSameMerchant(subscription, transaction);
+}
+
+/**
+ * Checks if a transaction comes from the subscription's merchant
+ */
+function isSameMerchant(subscription: DueSubscription, transaction: PostedTransaction): boolean {
+  const transactionMerchant = transaction.normalizedMerchant || normalizeMerchant(transaction.merchant || '');
+  if (!transactionMerchant) return false;
+
+  return [subscription.merchant, subscription.name]
+    .filter((name): name is string => Boolean(name))
+    .map((name) => normalizeMerchant(name))
+    .some((name) => name.length > 1 && (transactionMerchant === name || transactionMerchant.includes(name)));
+}
+
+/**
+ * Finds the posted charge for one renewal, preferring the one closest to the expected date
+ * Transactions already linked to the subscription always count; unlinked ones
+ * must match the merchant and amount, and not be ones the user unlinked from it
+ */
+function findCharge(
+  subscription: DueSubscription,
+  expectedDate: Date,
+  windowMs: number,
+  transactions: PostedTransaction[],
+  claimed: Set<string>
+): PostedTransaction | null {
+  let best: PostedTransaction | null = null;
+  let bestDistance = Infinity;
+
+  for (const transaction of transactions) {
+    if (claimed.has(transaction.id) || subscription.excludedChargeIds.includes(transaction.id)) continue;
+
+    const distance = Math.abs(transaction.date.getTime() - expectedDate.getTime());
+    if (distance > windowMs || distance >= bestDistance) continue;
+
+    const isLinked =
+      transaction.subscriptionId === subscription.id || subscription.plaidTransactionIds.includes(transaction.id);
+    if (isLinked || (!transaction.subscriptionId && looksLikeCharge(subscription, transaction))) {
+      best = transaction;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Rolls one subscription's renewal date forward past `now`
+ *
+ * @param subscription - Subscription whose renewal date has passed
+ * @param transactions - The user's transactions around the due dates
+ * @param latestPostedAt - Date of the user's most recent transaction (null without bank data)
+ * @param claimed - Transactions already matched this run, shared across the user's subscriptions
+ * @param now - Current time
+ * @returns What changed, or null if the due charge is still within its posting window
+ */
+async function rollForwardSubscription(
+  subscription: DueSubscription,
+  transactions: PostedTransaction[],
+  latestPostedAt: Date | null,
+  claimed: Set<string>,
+  now: Date
+): Promise<RollForwardResult | null> {
+  // Weekly subscriptions can't use the full window without overlapping the next charge
+  const windowMs = Math.min(CHARGE_MATCH_WINDOW_DAYS, Math.floor(getIntervalDays(subscription.interval) / 2)) * DAY_MS;
+
+  const matched: PostedTransaction[] = [];
+  let lastPaymentDate = subscription.lastPaymentDate;
+  let missedChargeAt = subscription.missedChargeAt;
+  let chargesMissed = 0;
+  let cycles = 0;
+  let pending = false;
+  let expectedDate = new Date(subscription.renewalDate);
+
+  while (expectedDate < now && cycles < MAX_CYCLES_PER_RUN) {
+    const charge = findCharge(subscription, expectedDate, windowMs, transactions, claimed);
+
+    if (charge) {
+      claimed.add(charge.id);
+      matched.push(charge);
+      lastPaymentDate = charge.date;
+      missedChargeAt = null;
+    } else if (expectedDate.getTime() + windowMs > now.getTime()) {
+      // The charge may not have posted yet; it stays the renewal date until the next run
+      pending = true;
+      break;
+    } else if (latestPostedAt && latestPostedAt.getTime() > expectedDate.getTime() + windowMs) {
+      // Transactions have posted since, so this charge should be there
+      missedChargeAt = expectedDate;
+      chargesMissed++;
+    } else {
+      // No bank data covers this date, so assume it was paid as scheduled
+      lastPaymentDate = expectedDate;
+    }
+
+    cycles++;
+    // Step from the stored date so clamped month ends don't drift
+    expectedDate = addBillingIntervals(subscription.renewalDate, subscription.interval, cycles);
+  }
+
+  if (cycles === 0) {
+    return null;
+  }
+
+  // Out of cycles for this run: skip the rest without reconciling them
+  if (!pending && expectedDate < now) {
+    expectedDate = getNextBillingDate(subscription.renewalDate, subscription.interval, now);
+  }
+
+  const matchedIds = matched.map((transaction) => transaction.id);
+  await prisma.$transaction([
+    prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        renewalDate: expectedDate,
+        lastPaymentDate,
+        missedChargeAt,
+        ...(matchedIds.length > 0
+          ? { plaidTransactionIds: { set: Array.from(new Set([...subscription.plaidTransactionIds, ...matchedIds])) } }
+          : {}),
+      },
+    }),
+    prisma.transaction.updateMany({
+      where: { id: { in: matchedIds }, subscriptionId: null },
+      data: { subscriptionId: subscription.id },
+    }),
+  ]);
+
+  if (matched.length > 0) {
+    try {
+      await recordObservedPrices(subscription, matched, 'sync');
+    } catch (error) {
+      console.error(`Error recording price history for subscription ${subscription.id}:`, error);
+    }
+  }
+
+  return {
+    subscriptionId: subscription.id,
+    userId: subscription.userId,
+    previousRenewalDate: subscription.renewalDate,
+    renewalDate: expectedDate,
+    chargesMatched: matched.length,
+    chargesMissed,
+  };
+}
+
+/**
+ * Rolls forward every active subscription whose renewal date has passed
+ *
+ * @param now - Current time (default: now)
+ * @returns One result per subscription that was moved
+ */
+export async function rollForwardRenewals(now: Date = new Date()): Promise<RollForwardResult[]> {
+  const dueSubscriptions: DueSubscription[] = await prisma.subscription.findMany({
+    where: {
+      status: 'active',
+      renewalDate: { lt: now },
+    },
+    select: {
+      id: true,
+      userId: true,
+      name: true,
+      merchant: true,
+      amount: true,
+      currency: true,
+      interval: true,
+      renewalDate: true,
+      lastPaymentDate: true,
+      missedChargeAt: true,
+      plaidTransactionIds: true,
+      excludedChargeIds: true,
+    },
+    orderBy: { renewalDate: 'asc' },
+  });
+
+  const byUser = new Map<string, DueSubscription[]>();
+  for (const subscription of dueSubscriptions) {
+    byUser.set(subscription.userId, [...(byUser.get(subscription.userId) || []), subscription]);
+  }
+
+  const results: RollForwardResult[] = [];
+
+  for (const [userId, subscriptions] of byUser) {
+    // Subscriptions are sorted by renewal date, so the first one is the oldest
+    const since = new Date(subscriptions[0].renewalDate.getTime() - CHARGE_MATCH_WINDOW_DAYS * DAY_MS);
+
+    try {
+      const [transactions, latest] = await Promise.all([
+        prisma.transaction.findMany({
+          where: { userId, date: { gte: since } },
+          select: {
+            id: true,
+            amount: true,
+            date: true,
+            merchant: true,
+            normalizedMerchant: true,
+            subscriptionId: true,
+          },
+        }),
+        prisma.transaction.findFirst({
+          where: { userId },
+          orderBy: { date: 'desc' },
+          select: { date: true },
+        }),
+      ]);
+
+      const claimed = new Set<string>();
+      for (const subscription of subscriptions) {
+        try {
+          const result = await rollForwardSubscription(
+            subscription,
+            transactions,
+            latest?.date ?? null,
+            claimed,
+            now
+          );
+          if (result) {
+            results.push(result);
+          }
+        } catch (error) {
+          console.error(`Error rolling forward renewal for subscription ${subscription.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error(`Error rolling forward renewals for user ${userId}:`, error);
+    }
+  }
+
+  const missed = results.filter((result) => result.chargesMissed > 0).length;
+  console.log(`Rolled forward ${results.length} renewal dates (${missed} with missed charges)`);
+
+  return results;
+}
+
+/**
+ * Converts a trial on its first paid charge, or cancels it once it ended without one
+ *
+ * @param trial - Subscription with status trial
+ * @param transactions - The user's expenses since the trial started, oldest first
+ * @param latestPostedAt - Date of the user's most recent transaction (null without bank data)
+ * @param claimed - Transactions already matched this run, shared across the user's trials
+ * @param now - Current time
+ * @returns What changed, or null if the trial is still running
+ */
+async function settleTrial(
+  trial: RunningTrial,
+  transactions: PostedTransaction[],
+  latestPostedAt: Date | null,
+  claimed: Set<string>,
+  now: Date
+): Promise<TrialSettlement | null> {
+  // Any paid charge after signup means it converted, even to a different plan price
+  const charge = transactions.find(
+    (transaction) =>
+      transaction.date > trial.trialStartDate &&
+      !isTrialAuthorization(transaction.amount) &&
+      !claimed.has(transaction.id) &&
+      !trial.excludedChargeIds.includes(transaction.id) &&
+      (transaction.subscriptionId === trial.id || (!transaction.subscriptionId && isSameMerchant(trial, transaction)))
+  );
+
+  if (charge) {
+    claimed.add(charge.id);
+    await prisma.$transaction([
+      prisma.subscription.update({
+        where: { id: trial.id },
+        data: {
+          status: 'active',
+          amount: Math.abs(charge.amount),
+          lastPaymentDate: charge.date,
+          missedChargeAt: null,
+          // Passed renewal dates are picked up by rollForwardRenewals
+          renewalDate: addBillingIntervals(charge.date, trial.interval),
+          plaidTransactionIds: { set: Array.from(new Set([...trial.plaidTransactionIds, charge.id])) },
+        },
+      }),
+      prisma.transaction.updateMany({
+        where: { id: charge.id, subscriptionId: null },
+        data: { subscriptionId: trial.id },
+      }),
+    ]);
+
+    try {
+      await recordObservedPrices(trial, [charge], 'sync');
+    } catch (error) {
+      console.error(`Error recording price history for subscription ${trial.id}:`, error);
+    }
+
+    return { subscriptionId: trial.id, userId: trial.userId, outcome: 'converted' };
+  }
+
+  // Only cancel once bank data from after the conversion window shows no charge
+  const windowEnd = trial.trialEndDate.getTime() + CHARGE_MATCH_WINDOW_DAYS * DAY_MS;
+  if (windowEnd < now.getTime() && latestPostedAt && latestPostedAt.getTime() > windowEnd) {
+    await prisma.subscription.update({
+      where: { id: trial.id },
+      data: { status: 'cancelled' },
+    });
+    return { subscriptionId: trial.id, userId: trial.userId, outcome: 'cancelled' };
+  }
+
+  return null;
+}
+
+/**
+ * Settles free trials: converts ones with a paid charge since signup to active
+ * subscriptions, and cancels ones that ended without one
+ *
+ * @param userId - Only settle this user's trials (default: every user's)
+ * @param now - Current time (default: now)
+ * @returns One result per trial that was settled
+ */
+export async function settleTrials(userId?: string, now: Date = new Date()): Promise<TrialSettlement[]> {
+  const rows = await prisma.subscription.findMany({
+    where: {
+      ...(userId ? { userId } : {}),
+      status: 'trial',
+      trialStartDate: { not: null },
+      trialEndDate: { not: null },
+    },
+    select: {
+      id: true,
+      userId: true,
+      name: true,
+      merchant: true,
+      amount: true,
+      currency: true,
+      interval: true,
+      renewalDate: true,
+      lastPaymentDate: true,
+      missedChargeAt: true,
+      plaidTransactionIds: true,
+      excludedChargeIds: true,
+      trialStartDate: true,
+      trialEndDate: true,
+    },
+    orderBy: { trialStartDate: 'asc' },
+  });
+  // The filter above leaves out trials without dates, but their type still allows null
+  const trials: RunningTrial[] = rows.flatMap(({ trialStartDate, trialEndDate, ...trial }) =>
+    trialStartDate && trialEndDate ? [{ ...trial, trialStartDate, trialEndDate }] : []
+  );
+
+  const byUser = new Map<string, RunningTrial[]>();
+  for (const trial of trials) {
+    byUser.set(trial.userId, [...(byUser.get(trial.userId) || []), trial]);
+  }
+
+  const results: TrialSettlement[] = [];
+
+  for (const [trialUserId, userTrials] of byUser) {
+    try {
+      const [transactions, latest] = await Promise.all([
+        prisma.transaction.findMany({
+          where: { userId: trialUserId, date: { gt: userTrials[0].trialStartDate }, amount: { lt: 0 } },
+          select: {
+            id: true,
+            amount: true,
+            date: true,
+            merchant: true,
+            normalizedMerchant: true,
+            subscriptionId: true,
+          },
+          orderBy: { date: 'asc' },
+        }),
+        prisma.transaction.findFirst({
+          where: { userId: trialUserId },
+          orderBy: { date: 'desc' },
+          select: { date: true },
+        }),
+      ]);
+
+      const claimed = new Set<string>();
+      for (const trial of userTrials) {
+        try {
+          const result = await settleTrial(trial, transactions, latest?.date ?? null, claimed, now);
+          if (result) {
+            results.push(result);
+          }
+        } catch (error) {
+          console.error(`Error settling trial for subscription ${trial.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error(`Error settling trials for user ${trialUserId}:`, error);
+    }
+  }
+
+  const converted = results.filter((result) => result.outcome === 'converted').length;
+  console.log(`Settled ${results.length} free trials (${converted} converted, ${results.length - converted} cancelled)`);
+
+  return results;
+}
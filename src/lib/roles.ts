@@ -0,0 +1,17 @@
+/**
+ * User Roles
+ *
+ * Roles live in the Clerk user's publicMetadata ({ "role": "admin" }), set from
+ * the Clerk dashboard or API. Shared by server checks (see getCurrentAdmin in
+ * auth.ts) and the dashboard, which only uses them to decide what to show.
+ */
+
+export const ADMIN_ROLE = 'admin';
+
+/**
+ * Checks whether Clerk publicMetadata grants the admin role
+ */
+export function hasAdminRole(publicMetadata: unknown): boolean {
+  const metadata = (publicMetadata ?? {}) as Record<string, unknown>;
+  return metadata.role === ADMIN_ROLE;
+}
@@ -0,0 +1,276 @@
+/**
+ * Silent Cancellation Detection
+ *
+ * recurringDetector only finds charges that exist; nothing notices when one
+ * stops. This compares each active auto-detected subscription's average
+ * billing interval with its latest linked charge. Once the next charge is
+ * overdue by more than a grace window, the subscription is suggested for
+ * pausing (one missed charge) or cancelling (two or more), which catches
+ * services cancelled elsewhere and cards that were replaced.
+ */
+
+import { prisma } from './prisma';
+import { getIntervalDays } from './billingInterval';
+import { getNotificationPreferences } from './notificationPreferences';
+import { deleteNotificationsByKey, saveNotification } from './notificationStore';
+import { formatCurrency, formatDate } from './formatting';
+
+// Share of the interval a charge can be late before it counts as missed
+const GRACE_RATIO = 0.25;
+
+// Grace never drops below this, so weekly charges that post a few days late aren't flagged
+const MIN_GRACE_DAYS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type InactivitySuggestion = 'paused' | 'cancelled';
+
+export interface InactiveSubscription {
+  subscriptionId: string;
+  name: string;
+  merchant: string | null;
+  amount: number;
+  currency: string;
+  lastChargeDate: string;
+  expectedChargeDate: string;
+  daysOverdue: number;
+  missedCharges: number;
+  suggestedStatus: InactivitySuggestion;
+}
+
+interface SubscriptionActivity {
+  id: string;
+  name: string;
+  merchant: string | null;
+  amount: number;
+  currency: string | null;
+  interval: string | null;
+  averageInterval: number | null;
+  inactivityDismissedAt: Date | null;
+}
+
+/**
+ * Checks one subscription's latest charge against its billing interval
+ *
+ * @param subscription - Subscription to check
+ * @param lastChargeDate - Its latest linked charge
+ * @param latestPostedAt - The user's most recent transaction, to tell a missing charge from a stalled sync
+ * @param now - Current time
+ * @returns The overdue subscription, or null if it's on schedule
+ */
+export function assessInactivity(
+  subscription: SubscriptionActivity,
+  lastChargeDate: Date,
+  latestPostedAt: Date,
+  now: Date = new Date()
+): InactiveSubscription | null {
+  // The observed average is more accurate than the interval name for irregular billers
+  const intervalDays = subscription.averageInterval || getIntervalDays(subscription.interval);
+  const graceDays = Math.max(MIN_GRACE_DAYS, intervalDays * GRACE_RATIO);
+
+  const expectedChargeDate = new Date(lastChargeDate.getTime() + intervalDays * DAY_MS);
+  const overdueSince = expectedChargeDate.getTime() + graceDays * DAY_MS;
+  if (now.getTime() <= overdueSince) {
+    return null;
+  }
+
+  // Without newer transactions the bank sync has stalled, not the subscription
+  if (latestPostedAt.getTime() <= overdueSince) {
+    return null;
+  }
+
+  // "Still active" hides the suggestion for one interval
+  if (
+    subscription.inactivityDismissedAt &&
+    now.getTime() < subscription.inactivityDismissedAt.getTime() + intervalDays * DAY_MS
+  ) {
+    return null;
+  }
+
+  const daysOverdue = Math.floor((now.getTime() - expectedChargeDate.getTime()) / DAY_MS);
+  const missedCharges = Math.max(
+    1,
+    Math.floor((now.getTime() - lastChargeDate.getTime() - graceDays * DAY_MS) / (intervalDays * DAY_MS))
+  );
+
+  return {
+    subscriptionId: subscription.id,
+    name: subscription.name,
+    merchant: subscription.merchant,
+    amount: subscription.amount,
+    currency: subscription.currency || 'USD',
+    lastChargeDate: lastChargeDate.toISOString(),
+    expectedChargeDate: expectedChargeDate.toISOString(),
+    daysOverdue,
+    missedCharges,
+    suggestedStatus: missedCharges >= 2 ? 'cancelled' : 'paused',
+  };
+}
+
+/**
+ * Finds a user's active auto-detected subscriptions whose charges have stopped
+ *
+ * @param userId - User ID
+ * @param now - Current time (default: now)
+ * @returns Overdue subscriptions, longest overdue first
+ */
+export async function findInactiveSubscriptions(
+  userId: string,
+  now: Date = new Date()
+): Promise<InactiveSubscription[]> {
+  const [subscriptions, latest] = await Promise.all([
+    prisma.subscription.findMany({
+      where: { userId, status: 'active', isAutoDetected: true },
+      select: {
+        id: true,
+        name: true,
+        merchant: true,
+        amount: true,
+        currency: true,
+        interval: true,
+        averageInterval: true,
+        inactivityDismissedAt: true,
+        plaidTransactionIds: true,
+        transactions: {
+          orderBy: { date: 'desc' },
+          take: 1,
+          select: { date: true },
+        },
+      },
+    }),
+    prisma.transaction.findFirst({
+      where: { userId },
+      orderBy: { date: 'desc' },
+      select: { date: true },
+    }),
+  ]);
+
+  if (!latest || subscriptions.length === 0) {
+    return [];
+  }
+
+  // Detected subscriptions list their charges in plaidTransactionIds rather than linking them
+  const listedIds: string[] = subscriptions.flatMap((sub: typeof subscriptions[0]) => sub.plaidTransactionIds);
+  const listedTransactions = listedIds.length > 0
+    ? await prisma.transaction.findMany({
+        where: { userId, id: { in: listedIds } },
+        select: { id: true, date: true },
+      })
+    : [];
+  const listedDates = new Map<string, Date>(
+    listedTransactions.map((tx: typeof listedTransactions[0]) => [tx.id, tx.date])
+  );
+
+  const inactive: InactiveSubscription[] = [];
+  for (const subscription of subscriptions) {
+    const chargeDates: Date[] = [
+      ...subscription.transactions.map((tx: { date: Date }) => tx.date),
+      ...subscription.plaidTransactionIds
+        .map((id: string) => listedDates.get(id))
+        .filter((date: Date | undefined): date is Date => Boolean(date)),
+    ];
+    if (chargeDates.length === 0) continue;
+
+    const lastChargeDate = new Date(Math.max(...chargeDates.map((date) => date.getTime())));
+    const result = assessInactivity(subscription, lastChargeDate, latest.date, now);
+    if (result) {
+      inactive.push(result);
+    }
+  }
+
+  return inactive.sort((a, b) => b.daysOverdue - a.daysOverdue);
+}
+
+/**
+ * Key of the notification raised for an overdue subscription
+ * Includes the last charge, so a later lapse raises a fresh notification
+ */
+export function getMissedChargeNotificationKey(subscriptionId: string, lastChargeDate: string): string {
+  return `missed-charge-${subscriptionId}-${lastChargeDate.split('T')[0]}`;
+}
+
+/**
+ * Applies the user's answer to an inactivity suggestion
+ *
+ * @param userId - User ID
+ * @param subscriptionId - Subscription the suggestion was for
+ * @param status - 'cancelled' or 'paused' updates the status; 'active' hides the suggestion for an interval
+ * @returns false if the subscription doesn't exist
+ */
+export async function resolveInactiveSubscription(
+  userId: string,
+  subscriptionId: string,
+  status: InactivitySuggestion | 'active'
+): Promise<boolean> {
+  const pending = (await findInactiveSubscriptions(userId)).find(
+    (item) => item.subscriptionId === subscriptionId
+  );
+
+  const result = await prisma.subscription.updateMany({
+    where: { id: subscriptionId, userId },
+    data: status === 'active' ? { inactivityDismissedAt: new Date() } : { status },
+  });
+  if (result.count === 0) {
+    return false;
+  }
+
+  if (pending) {
+    await deleteNotificationsByKey(userId, [
+      getMissedChargeNotificationKey(subscriptionId, pending.lastChargeDate),
+    ]);
+  }
+
+  return true;
+}
+
+/**
+ * Raises a notification for each subscription whose charges have stopped
+ * Skips users who turned off unused subscription warnings
+ *
+ * @param userId - Optional user ID, otherwise checks all users
+ * @returns Number of overdue subscriptions notified
+ */
+export async function checkSilentCancellations(userId?: string): Promise<number> {
+  const users = userId
+    ? [{ id: userId }]
+    : await prisma.user.findMany({
+        where: {
+          deletionScheduledFor: null,
+          subscriptions: { some: { status: 'active', isAutoDetected: true } },
+        },
+        select: { id: true },
+      });
+
+  let notified = 0;
+
+  for (const user of users) {
+    try {
+      const preferences = await getNotificationPreferences(user.id);
+      if (!preferences.unusedSubscriptionWarnings) continue;
+
+      for (const item of await findInactiveSubscriptions(user.id)) {
+        const amount = formatCurrency(item.amount, item.currency);
+        const lastCharge = formatDate(item.lastChargeDate);
+        const suggestion = item.suggestedStatus === 'cancelled' ? 'mark it as cancelled' : 'mark it as paused';
+
+        await saveNotification(user.id, {
+          id: getMissedChargeNotificationKey(item.subscriptionId, item.lastChargeDate),
+          type: 'missed_charge',
+          title: `No recent charge from ${item.name}`,
+          message: `${item.name} (${amount}) hasn't charged you since ${lastCharge}. If it was cancelled or moved to another card, ${suggestion}.`,
+          severity: item.suggestedStatus === 'cancelled' ? 'medium' : 'low',
+          subscriptionId: item.subscriptionId,
+          merchant: item.merchant || undefined,
+          amount: item.amount,
+          actionUrl: '/dashboard/subscriptions',
+          actionText: 'Review',
+        });
+        notified++;
+      }
+    } catch (error) {
+      console.error(`Error checking silent cancellations for user ${user.id}:`, error);
+    }
+  }
+
+  return notified;
+}
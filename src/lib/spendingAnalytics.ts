@@ -1,3 +1,6 @@
+import type { CurrencyConverter } from './exchangeRates';
+import { toMonthlyAmount } from './billingInterval';
+
 export interface SpendingTrend {
   currentMonth: number;
   previousMonth: number;
@@ -224,7 +227,7 @@ export function predictNextMonthSpending(
   if (monthlyBreakdown.length === 0) return 0;
   
   // Simple prediction based on current subscriptions
-  const basePrediction = currentSubscriptions.reduce((sum, sub) => sum + sub.amount, 0);
+  const basePrediction = currentSubscriptions.reduce((sum, sub) => sum + toMonthlyAmount(sub.amount, sub.interval), 0);
   
   // Adjust based on recent trend
   const velocity = calculateSpendingVelocity(monthlyBreakdown);
@@ -233,12 +236,37 @@ export function predictNextMonthSpending(
   return Math.max(0, basePrediction + trendAdjustment);
 }
 
+/**
+ * Converts each item's amount into the converter's base currency
+ * The original amount and currency are kept as originalAmount/originalCurrency;
+ * items in a currency without an exchange rate are left out (see converter.unconverted)
+ */
+function convertAmounts<T extends { amount: number; currency?: string | null }>(
+  items: T[],
+  converter: CurrencyConverter
+): Array<T & { originalAmount: number; originalCurrency: string | null }> {
+  return items.flatMap(item => {
+    const amount = converter.toBase(item.amount, item.currency);
+    if (amount === null) return [];
+    return [{
+      ...item,
+      amount,
+      currency: converter.baseCurrency,
+      originalAmount: item.amount,
+      originalCurrency: item.currency ?? null,
+    }];
+  });
+}
+
 /**
  * Get spending summary for dashboard
+ * Pass a converter when items can be in different currencies; every total
+ * is then in the converter's base currency
  */
 export function getSpendingSummary(
   transactions: any[],
-  subscriptions: any[]
+  subscriptions: any[],
+  converter?: CurrencyConverter
 ): {
   currentMonth: number;
   previousMonth: number;
@@ -247,6 +275,11 @@ export function getSpendingSummary(
   monthlyBreakdown: MonthlySpending[];
   prediction: number;
 } {
+  if (converter) {
+    transactions = convertAmounts(transactions, converter);
+    subscriptions = convertAmounts(subscriptions, converter);
+  }
+
   const trend = calculateSpendingTrends(transactions);
   const monthlyBreakdown = getMonthlySpendingBreakdown(transactions);
   const insights = generateSpendingInsights(trend, subscriptions, monthlyBreakdown);
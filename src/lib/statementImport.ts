@@ -0,0 +1,199 @@
+/**
+ * Bank Statement Import
+ *
+ * Saves transactions parsed from uploaded statements (see statementParser)
+ * onto manual bank accounts, so subscription detection works for banks
+ * without a Plaid connection. Re-importing an overlapping statement is safe:
+ * rows already on the account are skipped.
+ */
+
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { extractMerchantFromDescription } from './merchantNormalizer';
+import { findKnownMerchant } from './merchantMatcher';
+import { ParsedStatementTransaction } from './statementParser';
+
+export interface ManualBankAccountInput {
+  name: string;
+  institutionName?: string;
+  currency: string;
+  country: string;
+}
+
+export interface StatementImportResult {
+  imported: number;
+  duplicates: number;
+  skippedCredits: number; // Money in (salary, refunds) isn't used for subscription detection
+}
+
+/**
+ * Creates a bank account for statement imports
+ *
+ * @param userId - User ID
+ * @param input - Account details
+ * @returns The new bank account
+ */
+export async function createManualBankAccount(userId: string, input: ManualBankAccountInput) {
+  return prisma.bankAccount.create({
+    data: {
+      userId,
+      plaidId: `manual-${crypto.randomUUID()}`,
+      source: 'manual',
+      name: input.name,
+      institutionName: input.institutionName || null,
+      type: 'depository',
+      currency: input.currency,
+      country: input.country,
+    },
+    select: { id: true, name: true, institutionName: true, currency: true, country: true, lastSyncAt: true },
+  });
+}
+
+/**
+ * Lists a user's manual bank accounts
+ *
+ * @param userId - User ID
+ * @returns Manual accounts with their transaction counts
+ */
+export async function listManualBankAccounts(userId: string) {
+  return prisma.bankAccount.findMany({
+    where: { userId, source: 'manual' },
+    select: {
+      id: true,
+      name: true,
+      institutionName: true,
+      currency: true,
+      country: true,
+      lastSyncAt: true,
+      _count: { select: { transactions: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Builds the key used to recognise a transaction that is already stored
+ * Statements don't carry stable IDs across banks, so the key is day, amount and description
+ */
+function getDedupeKey(date: Date, amount: number, description: string | null): string {
+  const day = date.toISOString().slice(0, 10);
+  const cents = Math.round(Math.abs(amount) * 100);
+  const text = (description || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${day}|${cents}|${text}`;
+}
+
+/**
+ * Imports parsed statement transactions into a manual bank account
+ *
+ * Only money going out is imported, stored as negative amounts like Plaid
+ * transactions. Each row already on the account cancels out one identical
+ * imported row, so two genuine same-day charges are both kept the first time
+ * and neither is duplicated on re-import.
+ *
+ * @param userId - User ID (account must belong to this user)
+ * @param bankAccountId - Manual bank account ID
+ * @param transactions - Parsed statement transactions
+ * @param currency - Statement currency, if the file declares one
+ * @returns Counts of imported, duplicate and skipped rows
+ */
+export async function importStatementTransactions(
+  userId: string,
+  bankAccountId: string,
+  transactions: ParsedStatementTransaction[],
+  currency?: string | null
+): Promise<StatementImportResult> {
+  const account = await prisma.bankAccount.findFirst({
+    where: { id: bankAccountId, userId, source: 'manual' },
+    select: { id: true, currency: true, country: true },
+  });
+
+  if (!account) {
+    throw new Error('Manual bank account not found');
+  }
+
+  // $0 rows are kept: they're often card authorizations for free trials
+  const debits = transactions.filter((tx) => tx.amount <= 0);
+  const result: StatementImportResult = {
+    imported: 0,
+    duplicates: 0,
+    skippedCredits: transactions.length - debits.length,
+  };
+
+  if (debits.length === 0) {
+    return result;
+  }
+
+  // Reduced rather than spread into Math.min/max, which overflows the stack on large statements
+  const first = debits.reduce((min, tx) => (tx.date < min ? tx.date : min), debits[0].date);
+  const last = debits.reduce((max, tx) => (tx.date > max ? tx.date : max), debits[0].date);
+  const existing = await prisma.transaction.findMany({
+    where: {
+      bankAccountId: account.id,
+      date: { gte: first, lte: last },
+    },
+    select: { date: true, amount: true, description: true },
+  });
+
+  const existingCounts = new Map<string, number>();
+  for (const tx of existing) {
+    const key = getDedupeKey(tx.date, tx.amount, tx.description);
+    existingCounts.set(key, (existingCounts.get(key) || 0) + 1);
+  }
+
+  const rows = [];
+  for (const tx of debits) {
+    const key = getDedupeKey(tx.date, tx.amount, tx.description);
+    const remaining = existingCounts.get(key) || 0;
+    if (remaining > 0) {
+      existingCounts.set(key, remaining - 1);
+      result.duplicates++;
+      continue;
+    }
+
+    const amount = -Math.abs(tx.amount); // Store as negative for expenses
+    const normalizedMerchant = extractMerchantFromDescription(tx.description);
+
+    let matchedMerchant = null;
+    if (normalizedMerchant) {
+      try {
+        matchedMerchant = await findKnownMerchant(
+          normalizedMerchant,
+          amount,
+          account.country || undefined,
+          account.currency || undefined
+        );
+      } catch (error) {
+        // Merchant matching failed, continue without it
+        console.warn(`Failed to match merchant ${normalizedMerchant}:`, error);
+      }
+    }
+
+    rows.push({
+      userId,
+      bankAccountId: account.id,
+      amount,
+      currency: currency || account.currency || 'USD',
+      date: tx.date,
+      description: tx.description,
+      merchant: tx.description,
+      normalizedMerchant: normalizedMerchant || null,
+      category: matchedMerchant?.category || null,
+    });
+  }
+
+  if (rows.length > 0) {
+    const created = await prisma.transaction.createMany({ data: rows });
+    result.imported = created.count;
+  }
+
+  await prisma.bankAccount.update({
+    where: { id: account.id },
+    data: { lastSyncAt: new Date() },
+  });
+
+  console.log(
+    `Imported statement into account ${account.id} (user ${userId}): ${result.imported} imported, ${result.duplicates} duplicates, ${result.skippedCredits} credits skipped`
+  );
+
+  return result;
+}
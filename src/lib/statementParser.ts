@@ -0,0 +1,351 @@
+/**
+ * Bank Statement Parser
+ *
+ * Parses CSV, OFX and QIF statement exports into plain transactions for
+ * banks Plaid doesn't cover. Parsing is pure (no database access) so the
+ * import UI can use it to preview CSV headers in the browser.
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+/**
+ * Maps CSV columns (by header name) to transaction fields
+ * Statements either have one signed amount column or separate debit/credit columns
+ */
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount?: string;
+  debit?: string; // Money out
+  credit?: string; // Money in
+  dateFormat: StatementDateFormat;
+  expensesArePositive?: boolean; // Some banks export charges as positive amounts
+}
+
+export interface ParsedStatementTransaction {
+  date: Date;
+  amount: number; // Signed: negative for money out, positive for money in
+  description: string;
+  memo?: string;
+}
+
+export interface ParsedStatement {
+  transactions: ParsedStatementTransaction[];
+  currency: string | null; // Only OFX statements declare a currency
+  invalidRows: number;
+}
+
+/**
+ * Guesses the format of a statement from its file name and contents
+ *
+ * @param fileName - Uploaded file name
+ * @param text - File contents
+ * @returns Detected format
+ */
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv') return 'csv';
+
+  const start = text.trimStart().slice(0, 200).toUpperCase();
+  if (start.startsWith('OFXHEADER') || start.startsWith('<?XML') || start.includes('<OFX>')) return 'ofx';
+  if (start.startsWith('!TYPE:') || start.startsWith('!ACCOUNT')) return 'qif';
+  return 'csv';
+}
+
+/**
+ * Parses a date written in the given format
+ * Accepts '/', '-' and '.' separators and two-digit years (treated as 20xx)
+ *
+ * @returns UTC midnight of the date, or null if it isn't a valid date
+ */
+export function parseStatementDate(value: string, format: StatementDateFormat): Date | null {
+  const parts = value.trim().split(/[\/\-. ]+/).filter(Boolean);
+  if (parts.length < 3) return null;
+
+  let [year, month, day] = [0, 0, 0];
+  if (format === 'YYYY-MM-DD') {
+    [year, month, day] = parts.map(Number);
+  } else if (format === 'MM/DD/YYYY') {
+    [month, day, year] = parts.map(Number);
+  } else {
+    [day, month, year] = parts.map(Number);
+  }
+
+  if (year < 100) year += 2000;
+  if (!year || month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject overflowing dates such as 31/02
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date;
+}
+
+/**
+ * Parses an amount as written on a statement
+ * Handles currency symbols, thousands separators, decimal commas,
+ * trailing minus signs and accounting-style parentheses
+ *
+ * @returns The amount, or null if the cell has no number
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+
+  text = text.replace(/[^\d.,\-]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+  if (!/\d/.test(text)) return null;
+
+  // Whichever separator comes last is the decimal point ("1,234.56" / "1.234,56");
+  // a lone comma is decimal only with one or two digits after it ("12,99")
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot && (lastDot !== -1 || /,\d{1,2}$/.test(text))) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(text);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+function detectCsvDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, delimiter) =>
+    headerLine.split(delimiter).length > headerLine.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180 quoting)
+ *
+ * @param text - CSV contents
+ * @returns Rows, including the header row
+ */
+export function parseCsvRows(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectCsvDelimiter(content.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some((value) => value !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell.trim());
+  if (row.some((value) => value !== '')) rows.push(row);
+
+  return rows;
+}
+
+/**
+ * Reads the header row of a CSV statement
+ *
+ * @param text - CSV contents
+ * @returns Column names
+ */
+export function getCsvHeaders(text: string): string[] {
+  return parseCsvRows(text)[0] || [];
+}
+
+/**
+ * Parses a CSV statement using a column mapping
+ *
+ * @param text - CSV contents (first row is the header)
+ * @param mapping - Which columns hold the date, description and amount
+ * @returns Parsed transactions
+ */
+export function parseCsvStatement(text: string, mapping: CsvColumnMapping): ParsedStatement {
+  const [headers = [], ...rows] = parseCsvRows(text);
+  const columnIndex = (name?: string) => (name ? headers.indexOf(name) : -1);
+
+  const dateIndex = columnIndex(mapping.date);
+  const descriptionIndex = columnIndex(mapping.description);
+  const amountIndex = columnIndex(mapping.amount);
+  const debitIndex = columnIndex(mapping.debit);
+  const creditIndex = columnIndex(mapping.credit);
+
+  if (dateIndex === -1 || descriptionIndex === -1) {
+    throw new Error('Date and description columns must be mapped to columns in the file');
+  }
+  if (amountIndex === -1 && debitIndex === -1 && creditIndex === -1) {
+    throw new Error('Map an amount column, or debit and credit columns');
+  }
+
+  const transactions: ParsedStatementTransaction[] = [];
+  let invalidRows = 0;
+
+  for (const row of rows) {
+    const date = parseStatementDate(row[dateIndex] || '', mapping.dateFormat);
+    const description = row[descriptionIndex] || '';
+
+    let amount: number | null = null;
+    if (amountIndex !== -1) {
+      amount = parseStatementAmount(row[amountIndex] || '');
+      if (amount !== null && mapping.expensesArePositive) amount = -amount;
+    } else {
+      const debit = debitIndex !== -1 ? parseStatementAmount(row[debitIndex] || '') : null;
+      const credit = creditIndex !== -1 ? parseStatementAmount(row[creditIndex] || '') : null;
+      if (debit) amount = -Math.abs(debit);
+      else if (credit) amount = Math.abs(credit);
+    }
+
+    if (!date || amount === null || !description) {
+      invalidRows++;
+      continue;
+    }
+
+    transactions.push({ date, amount, description });
+  }
+
+  return { transactions, currency: null, invalidRows };
+}
+
+/**
+ * Reads a tag value from an OFX block
+ * Handles both SGML (OFX 1.x, no closing tags) and XML (OFX 2.x)
+ */
+function readOfxTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeOfxEntities(match[1].trim()) : null;
+}
+
+function decodeOfxEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parses an OFX/QFX statement
+ *
+ * @param text - OFX contents
+ * @returns Parsed transactions and the statement currency
+ */
+export function parseOfxStatement(text: string): ParsedStatement {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  const transactions: ParsedStatementTransaction[] = [];
+  let invalidRows = 0;
+
+  for (const block of blocks) {
+    // DTPOSTED is YYYYMMDD, optionally followed by a time and timezone
+    const posted = readOfxTag(block, 'DTPOSTED')?.match(/^(\d{4})(\d{2})(\d{2})/);
+    const date = posted ? parseStatementDate(`${posted[1]}-${posted[2]}-${posted[3]}`, 'YYYY-MM-DD') : null;
+    const amount = parseStatementAmount(readOfxTag(block, 'TRNAMT') || '');
+    const name = readOfxTag(block, 'NAME') || readOfxTag(block, 'PAYEE');
+    const memo = readOfxTag(block, 'MEMO') || undefined;
+    const description = name || memo || '';
+
+    if (!date || amount === null || !description) {
+      invalidRows++;
+      continue;
+    }
+
+    transactions.push({ date, amount, description, ...(memo && memo !== description && { memo }) });
+  }
+
+  return {
+    transactions,
+    currency: readOfxTag(text, 'CURDEF')?.toUpperCase() || null,
+    invalidRows,
+  };
+}
+
+/**
+ * Parses a QIF statement
+ * QIF dates have no fixed order, so the caller chooses the date format
+ *
+ * @param text - QIF contents
+ * @param dateFormat - Order of day, month and year in D lines
+ * @returns Parsed transactions
+ */
+export function parseQifStatement(text: string, dateFormat: StatementDateFormat): ParsedStatement {
+  const transactions: ParsedStatementTransaction[] = [];
+  let invalidRows = 0;
+  let record: Record<string, string> = {};
+
+  const flush = () => {
+    if (Object.keys(record).length === 0) return;
+
+    // Quicken writes years after 2000 as 1/15'24
+    const date = record.D ? parseStatementDate(record.D.replace("'", '/'), dateFormat) : null;
+    const amount = parseStatementAmount(record.T || record.U || '');
+    const description = record.P || record.M || '';
+
+    if (!date || amount === null || !description) {
+      invalidRows++;
+    } else {
+      transactions.push({
+        date,
+        amount,
+        description,
+        ...(record.M && record.M !== description && { memo: record.M }),
+      });
+    }
+    record = {};
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+    if (line === '^') {
+      flush();
+      continue;
+    }
+    const code = line[0];
+    // Keep the first value of each field (split transactions repeat some codes)
+    if (!(code in record)) {
+      record[code] = line.slice(1).trim();
+    }
+  }
+  flush();
+
+  return { transactions, currency: null, invalidRows };
+}
@@ -3,11 +3,17 @@
  * 
  * Generates Subscription records from detected recurring patterns
  * Handles creation, updates, and duplicate prevention
+ * Patterns the user rejected are skipped (see detectionFeedback.ts)
  */
 
 import { prisma } from '@/lib/prisma';
-import { detectRecurringPatternsForUser, RecurringPattern } from './recurringDetector';
+import { detectRecurringPatternsForUser, detectTrialSignupsForUser, RecurringPattern, TrialPattern } from './recurringDetector';
 import { generateMockRecurringTransactions, shouldGenerateMockTransactions } from './mockRecurringTransactions';
+import { recordObservedPrices } from './priceHistory';
+import { applyConfirmedBoost, DetectionFeedbackEntry, findFeedback, getDetectionFeedback } from './detectionFeedback';
+import { beginDetectionRun, completeDetectionRun, DetectionRun } from './detectionState';
+import { flushKnownMerchantMatchCounts } from './merchantMatcher';
+import { settleTrials } from './renewalRollForward';
 
 export interface GeneratedSubscription {
   id: string;
@@ -20,26 +26,36 @@ export interface GeneratedSubscription {
   category?: string;
   isAutoDetected: boolean;
   wasCreated: boolean; // true if newly created, false if updated
+  isTrial?: boolean; // true for free trials that haven't converted yet
 }
 
+// Known merchant plus a signup authorization, but no paid charge yet
+const TRIAL_CONFIDENCE = 0.7;
+
 /**
  * Generates subscriptions from user's transaction history
  * 
  * @param userId - User ID
  * @param monthsBack - Number of months to analyze (default: 24)
+ * @param options.incremental - Only re-analyze merchants with transactions changed since the last run
+ *   (see detectionState.ts); subscriptions of other merchants are left as they are and not returned
  * @returns Array of generated subscriptions
  */
 export async function generateSubscriptionsFromTransactions(
   userId: string,
-  monthsBack: number = 24
+  monthsBack: number = 24,
+  options: { incremental?: boolean } = {}
 ): Promise<GeneratedSubscription[]> {
   // Detect recurring patterns
   const logger = (await import('@/lib/logger')).logger;
   logger.debug(`Starting subscription generation for user ${userId} (looking back ${monthsBack} months)`);
-  let patterns = await detectRecurringPatternsForUser(userId, monthsBack);
+  const run = await beginDetectionRun(userId, options.incremental ?? false);
+  let patterns = await detectRecurringPatternsForUser(userId, monthsBack, run);
+  const feedback = await getDetectionFeedback(userId);
 
   // If no patterns detected and in development, generate mock transactions
-  if (patterns.length === 0) {
+  // (incremental runs find nothing whenever nothing changed, so only full runs check)
+  if (patterns.length === 0 && run.isFull) {
     const shouldMock = await shouldGenerateMockTransactions(userId);
     if (shouldMock) {
       logger.debug(`No recurring patterns detected. Generating mock transactions for testing...`);
@@ -55,7 +71,7 @@ export async function generateSubscriptionsFromTransactions(
         if (mockCount > 0) {
           // Re-run detection after mock data is inserted
           logger.debug(`Re-running detection after mock data insertion...`);
-          patterns = await detectRecurringPatternsForUser(userId, monthsBack);
+          patterns = await detectRecurringPatternsForUser(userId, monthsBack, run);
         }
       }
     }
@@ -63,7 +79,9 @@ export async function generateSubscriptionsFromTransactions(
 
   if (patterns.length === 0) {
     logger.debug(`No recurring patterns detected for user ${userId}`);
-    return [];
+    const trials = await generateTrialSubscriptions(userId, feedback);
+    await finishDetectionRun(userId, run);
+    return trials;
   }
 
   logger.debug(`Found ${patterns.length} recurring patterns for user ${userId}`);
@@ -71,9 +89,23 @@ export async function generateSubscriptionsFromTransactions(
   const generated: GeneratedSubscription[] = [];
   let createdCount = 0;
   let updatedCount = 0;
+  let rejectedCount = 0;
 
   for (const pattern of patterns) {
     try {
+      // Never suggest a pattern the user rejected again
+      const answer = findFeedback(
+        feedback,
+        [pattern.normalizedMerchant, pattern.matchedKnownMerchant?.name],
+        pattern.amount
+      );
+      if (answer?.verdict === 'rejected') {
+        rejectedCount++;
+        continue;
+      }
+      const isConfirmed = answer?.verdict === 'confirmed';
+      const confidenceScore = isConfirmed ? applyConfirmedBoost(pattern.confidenceScore) : pattern.confidenceScore;
+
       // Determine subscription name (use display name if matched, otherwise merchant name)
       const subscriptionName = pattern.matchedKnownMerchant?.displayName || pattern.merchant;
 
@@ -103,7 +135,7 @@ export async function generateSubscriptionsFromTransactions(
               : []),
           ],
           status: {
-            in: ['active', 'paused'], // Only match active/paused subscriptions
+            in: ['active', 'paused', 'trial'], // Only match active/paused subscriptions and running trials
           },
           // Optionally match by bankAccountId if available (for multi-account support)
           ...(firstTransaction?.bankAccountId ? {
@@ -116,6 +148,44 @@ export async function generateSubscriptionsFromTransactions(
         },
       });
 
+      // Charges the user moved with a merge, split or manual link stay where they were put
+      const owners = await prisma.subscription.findMany({
+        where: {
+          userId,
+          plaidTransactionIds: { hasSome: pattern.transactionIds },
+          status: { in: ['active', 'paused', 'trial'] },
+        },
+        select: { id: true, plaidTransactionIds: true, excludedChargeIds: true, lastPaymentDate: true },
+      });
+      const claimedElsewhere = new Set(
+        owners
+          .filter((owner: typeof owners[0]) => owner.id !== existing?.id)
+          .flatMap((owner: typeof owners[0]) => owner.plaidTransactionIds)
+      );
+      // Charges the user unlinked from the subscription stay off it
+      const excluded = new Set<string>(existing?.excludedChargeIds ?? []);
+      const transactionIds = pattern.transactionIds.filter((id) => !claimedElsewhere.has(id) && !excluded.has(id));
+
+      if (!existing && owners.length > 0) {
+        // Listed under a subscription with a different merchant (e.g. a merge target):
+        // add any new charges to it without renaming it
+        const owner = owners[0];
+        const newIds = transactionIds.filter((id) => !owner.excludedChargeIds.includes(id));
+        const latestCharge =
+          owner.lastPaymentDate && owner.lastPaymentDate > pattern.lastTransactionDate
+            ? owner.lastPaymentDate
+            : pattern.lastTransactionDate;
+        await prisma.subscription.update({
+          where: { id: owner.id },
+          data: {
+            plaidTransactionIds: { set: Array.from(new Set([...owner.plaidTransactionIds, ...newIds])) },
+            lastPaymentDate: latestCharge,
+          },
+        });
+        updatedCount++;
+        continue;
+      }
+
       if (existing) {
         // Update existing subscription
         const updated = await prisma.subscription.update({
@@ -126,23 +196,25 @@ export async function generateSubscriptionsFromTransactions(
             currency: pattern.currency,
             interval: pattern.interval,
             renewalDate: pattern.nextBillingDate,
+            averageInterval: pattern.averageInterval,
             lastPaymentDate: pattern.lastTransactionDate,
             merchant: pattern.matchedKnownMerchant?.name || pattern.normalizedMerchant,
             category: pattern.category || existing.category,
-            confidenceScore: pattern.confidenceScore,
+            confidenceScore,
             isAutoDetected: true,
             // Merge transaction IDs (avoid duplicates)
             plaidTransactionIds: {
               set: Array.from(
-                new Set([...existing.plaidTransactionIds, ...pattern.transactionIds])
+                new Set([...existing.plaidTransactionIds, ...transactionIds])
               ),
             },
-            // Update status to active if it was paused
-            ...(existing.status === 'paused' ? { status: 'active' } : {}),
+            // Update status to active if it was paused, or was a trial that has now converted
+            ...(existing.status === 'paused' || existing.status === 'trial' ? { status: 'active' } : {}),
           },
         });
 
         updatedCount++;
+        await recordPatternPrices(updated, pattern);
         generated.push({
           id: updated.id,
           name: updated.name,
@@ -166,17 +238,20 @@ export async function generateSubscriptionsFromTransactions(
             currency: pattern.currency,
             interval: pattern.interval,
             renewalDate: pattern.nextBillingDate,
+            averageInterval: pattern.averageInterval,
             lastPaymentDate: pattern.lastTransactionDate,
             merchant: pattern.matchedKnownMerchant?.name || pattern.normalizedMerchant,
             category: pattern.category,
             status: 'active',
-            confidenceScore: pattern.confidenceScore,
+            confidenceScore,
             isAutoDetected: true,
+            needsReview: !isConfirmed,
             plaidTransactionIds: pattern.transactionIds,
           },
         });
 
         createdCount++;
+        await recordPatternPrices(created, pattern);
         generated.push({
           id: created.id,
           name: created.name,
@@ -196,12 +271,153 @@ export async function generateSubscriptionsFromTransactions(
     }
   }
 
+  // Free trials have no recurring charges yet, so they're detected separately
+  generated.push(...(await generateTrialSubscriptions(userId, feedback)));
+
+  await finishDetectionRun(userId, run);
+
   // Production-safe logging
-  logger.info(`Subscription generation complete: ${generated.length} subscriptions (${createdCount} created, ${updatedCount} updated)`);
+  logger.info(`Subscription generation complete: ${generated.length} subscriptions (${createdCount} created, ${updatedCount} updated, ${rejectedCount} skipped as rejected${run.isFull ? '' : ', incremental'})`);
   
   return generated;
 }
 
+/**
+ * Records the run so the next incremental one starts from here, and saves known-merchant match counts
+ */
+async function finishDetectionRun(userId: string, run: DetectionRun): Promise<void> {
+  await completeDetectionRun(userId, run);
+  try {
+    await flushKnownMerchantMatchCounts();
+  } catch (error) {
+    console.error('Error saving known merchant match counts:', error);
+  }
+}
+
+/**
+ * Creates or refreshes trial subscriptions from detected free-trial signups
+ * Merchants the user already pays for, and trials the user rejected, are skipped
+ * Trials that converted or ended are settled first (see settleTrials)
+ */
+async function generateTrialSubscriptions(
+  userId: string,
+  feedback: DetectionFeedbackEntry[]
+): Promise<GeneratedSubscription[]> {
+  try {
+    await settleTrials(userId);
+  } catch (error) {
+    console.error(`Error settling free trials for user ${userId}:`, error);
+  }
+
+  let trials: TrialPattern[];
+  try {
+    trials = await detectTrialSignupsForUser(userId);
+  } catch (error) {
+    console.error(`Error detecting free trials for user ${userId}:`, error);
+    return [];
+  }
+
+  const generated: GeneratedSubscription[] = [];
+
+  for (const trial of trials) {
+    try {
+      const known = trial.matchedKnownMerchant;
+      const answer = findFeedback(feedback, [trial.normalizedMerchant, known.name], trial.expectedAmount);
+      if (answer?.verdict === 'rejected') {
+        continue;
+      }
+      const isConfirmed = answer?.verdict === 'confirmed';
+
+      const existing = await prisma.subscription.findFirst({
+        where: {
+          userId,
+          OR: [
+            { merchant: { equals: known.name, mode: 'insensitive' } },
+            { merchant: { equals: trial.normalizedMerchant, mode: 'insensitive' } },
+            { name: { equals: known.displayName, mode: 'insensitive' } },
+          ],
+          status: { in: ['active', 'paused', 'trial'] },
+        },
+      });
+
+      if (existing && existing.status !== 'trial') {
+        continue;
+      }
+
+      const data = {
+        name: known.displayName,
+        amount: trial.expectedAmount,
+        currency: trial.currency,
+        interval: trial.interval,
+        renewalDate: trial.trialEndDate,
+        trialStartDate: trial.trialStartDate,
+        trialEndDate: trial.trialEndDate,
+        merchant: known.name,
+        category: trial.category,
+        confidenceScore: isConfirmed ? applyConfirmedBoost(TRIAL_CONFIDENCE) : TRIAL_CONFIDENCE,
+        isAutoDetected: true,
+      };
+
+      const saved = existing
+        ? await prisma.subscription.update({
+            where: { id: existing.id },
+            data: {
+              ...data,
+              plaidTransactionIds: {
+                set: Array.from(new Set([...existing.plaidTransactionIds, ...trial.transactionIds])),
+              },
+            },
+          })
+        : await prisma.subscription.create({
+            data: {
+              userId,
+              ...data,
+              status: 'trial',
+              needsReview: !isConfirmed,
+              plaidTransactionIds: trial.transactionIds,
+            },
+          });
+
+      generated.push({
+        id: saved.id,
+        name: saved.name,
+        merchant: saved.merchant || known.name,
+        amount: saved.amount,
+        currency: saved.currency || 'USD',
+        interval: saved.interval || 'monthly',
+        confidenceScore: saved.confidenceScore?.toNumber() || 0,
+        category: saved.category || undefined,
+        isAutoDetected: saved.isAutoDetected,
+        wasCreated: !existing,
+        isTrial: true,
+      });
+    } catch (error) {
+      console.error(`Error generating trial subscription for ${trial.normalizedMerchant}:`, error);
+    }
+  }
+
+  return generated;
+}
+
+/**
+ * Records the prices seen in a pattern's transactions into the subscription's price history
+ * Failures are logged but don't stop subscription generation
+ */
+async function recordPatternPrices(
+  subscription: { id: string; userId: string; currency: string | null },
+  pattern: RecurringPattern
+): Promise<void> {
+  try {
+    const transactions = await prisma.transaction.findMany({
+      where: { id: { in: pattern.transactionIds } },
+      select: { amount: true, date: true },
+    });
+    await recordObservedPrices(subscription, transactions, 'detection');
+  } catch (error) {
+    console.error(`Error recording price history for subscription ${subscription.id}:`, error);
+  }
+}
+
 /**
  * Gets statistics about generated subscriptions
  */
@@ -0,0 +1,267 @@
+/**
+ * Subscription Merge and Split
+ *
+ * Detection sometimes files one service under two subscriptions (a renamed
+ * descriptor, a second card) or two services under one (two accounts with the
+ * same merchant). Merging moves linked transactions, plaidTransactionIds and
+ * price history into one subscription and deletes the rest; splitting moves
+ * chosen transactions into a new subscription. Each operation is recorded in
+ * SubscriptionAudit so merged-away subscriptions can still be traced.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { rebuildPriceHistory, recordObservedPrices } from './priceHistory';
+
+export interface MergeResult {
+  subscriptionId: string;
+  mergedIds: string[];
+  movedTransactions: number;
+  priceHistoryEntries: number;
+}
+
+export interface SplitOptions {
+  transactionIds: string[];
+  name: string;
+  amount?: number;
+  interval?: string;
+  renewalDate?: Date;
+}
+
+export interface SplitResult {
+  subscriptionId: string | null; // null if none of the transactions belonged to the source
+  movedTransactions: number;
+}
+
+type SubscriptionRecord = {
+  id: string;
+  name: string;
+  merchant: string | null;
+  amount: number;
+  currency: string | null;
+  interval: string | null;
+  status: string;
+  renewalDate: Date;
+  lastPaymentDate: Date | null;
+  plaidTransactionIds: string[];
+  confidenceScore: { toNumber(): number } | null;
+  isAutoDetected: boolean;
+};
+
+/**
+ * What the audit trail keeps of a subscription
+ */
+function toSnapshot(subscription: SubscriptionRecord) {
+  return {
+    id: subscription.id,
+    name: subscription.name,
+    merchant: subscription.merchant,
+    amount: subscription.amount,
+    currency: subscription.currency,
+    interval: subscription.interval,
+    status: subscription.status,
+    renewalDate: subscription.renewalDate.toISOString(),
+    lastPaymentDate: subscription.lastPaymentDate?.toISOString() ?? null,
+    plaidTransactionIds: subscription.plaidTransactionIds,
+    confidenceScore: subscription.confidenceScore?.toNumber() ?? null,
+    isAutoDetected: subscription.isAutoDetected,
+  };
+}
+
+function latestDate(dates: Array<Date | null>): Date | null {
+  return dates.reduce<Date | null>((latest, date) => (date && (!latest || date > latest) ? date : latest), null);
+}
+
+/**
+ * Merges subscriptions into one
+ *
+ * @param userId - User ID
+ * @param targetId - Subscription to keep
+ * @param sourceIds - Subscriptions to merge into it; they are deleted
+ * @returns What was merged, or null if any of the subscriptions doesn't exist
+ */
+export async function mergeSubscriptions(
+  userId: string,
+  targetId: string,
+  sourceIds: string[]
+): Promise<MergeResult | null> {
+  const ids = Array.from(new Set(sourceIds.filter((id) => id !== targetId)));
+  const subscriptions: SubscriptionRecord[] = await prisma.subscription.findMany({
+    where: { userId, id: { in: [targetId, ...ids] } },
+  });
+
+  const target = subscriptions.find((subscription) => subscription.id === targetId);
+  const sources = subscriptions.filter((subscription) => subscription.id !== targetId);
+  if (!target || sources.length !== ids.length || ids.length === 0) {
+    return null;
+  }
+
+  const linked = await prisma.transaction.findMany({
+    where: { userId, subscriptionId: { in: ids } },
+    select: { id: true },
+  });
+  const movedIds = Array.from(
+    new Set([
+      ...linked.map((tx: { id: string }) => tx.id),
+      ...sources.flatMap((source) => source.plaidTransactionIds),
+    ])
+  );
+
+  await prisma.$transaction([
+    prisma.transaction.updateMany({
+      where: { userId, subscriptionId: { in: ids } },
+      data: { subscriptionId: targetId },
+    }),
+    prisma.subscriptionPriceChange.updateMany({
+      where: { subscriptionId: { in: ids } },
+      data: { subscriptionId: targetId },
+    }),
+    prisma.notification.updateMany({
+      where: { userId, subscriptionId: { in: ids } },
+      data: { subscriptionId: targetId },
+    }),
+    prisma.subscription.update({
+      where: { id: targetId },
+      data: {
+        plaidTransactionIds: { set: Array.from(new Set([...target.plaidTransactionIds, ...movedIds])) },
+        lastPaymentDate: latestDate([target.lastPaymentDate, ...sources.map((source) => source.lastPaymentDate)]),
+        // The user has sorted this subscription out themselves
+        needsReview: false,
+      },
+    }),
+    prisma.subscription.deleteMany({ where: { id: { in: ids } } }),
+    prisma.subscriptionAudit.create({
+      data: {
+        userId,
+        action: 'merge',
+        subscriptionId: targetId,
+        relatedIds: ids,
+        transactionIds: movedIds,
+        snapshot: sources.map(toSnapshot),
+      },
+    }),
+  ]);
+
+  const priceHistoryEntries = await rebuildPriceHistory(targetId);
+
+  return {
+    subscriptionId: targetId,
+    mergedIds: ids,
+    movedTransactions: movedIds.length,
+    priceHistoryEntries,
+  };
+}
+
+/**
+ * Moves some of a subscription's transactions into a new subscription
+ * The new subscription copies the source's merchant, currency and category
+ *
+ * @param userId - User ID
+ * @param subscriptionId - Subscription to split
+ * @param options - Transactions to move and the new subscription's details
+ * @returns What was split, or null if the subscription doesn't exist
+ */
+export async function splitSubscription(
+  userId: string,
+  subscriptionId: string,
+  options: SplitOptions
+): Promise<SplitResult | null> {
+  const source = await prisma.subscription.findFirst({
+    where: { id: subscriptionId, userId },
+  });
+  if (!source) {
+    return null;
+  }
+
+  // Only transactions that belong to the source can move
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      userId,
+      id: { in: options.transactionIds },
+      OR: [{ subscriptionId }, { id: { in: source.plaidTransactionIds } }],
+    },
+    select: { id: true, amount: true, date: true },
+  });
+  if (transactions.length === 0) {
+    return { subscriptionId: null, movedTransactions: 0 };
+  }
+
+  const movedIds: string[] = transactions.map((tx: typeof transactions[0]) => tx.id);
+  const moved = transactions.sort(
+    (a: typeof transactions[0], b: typeof transactions[0]) => a.date.getTime() - b.date.getTime()
+  );
+  const lastCharge = moved[moved.length - 1];
+  const remainingIds = source.plaidTransactionIds.filter((id: string) => !movedIds.includes(id));
+  const remainingLast = await prisma.transaction.findFirst({
+    where: { userId, OR: [{ subscriptionId, id: { notIn: movedIds } }, { id: { in: remainingIds } }] },
+    orderBy: { date: 'desc' },
+    select: { date: true },
+  });
+
+  // The new subscription needs its ID before the transactions can move, so this is interactive
+  const created = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const split = await tx.subscription.create({
+      data: {
+        userId,
+        name: options.name,
+        merchant: source.merchant,
+        amount: options.amount ?? Math.round(Math.abs(lastCharge.amount) * 100) / 100,
+        currency: source.currency,
+        interval: options.interval || source.interval,
+        renewalDate: options.renewalDate || source.renewalDate,
+        lastPaymentDate: lastCharge.date,
+        category: source.category,
+        status: source.status === 'cancelled' ? 'cancelled' : 'active',
+        isAutoDetected: false,
+        plaidTransactionIds: movedIds,
+      },
+    });
+
+    await tx.subscription.update({
+      where: { id: subscriptionId },
+      data: {
+        plaidTransactionIds: { set: remainingIds },
+        lastPaymentDate: remainingLast?.date ?? source.lastPaymentDate,
+      },
+    });
+
+    await tx.transaction.updateMany({
+      where: { id: { in: movedIds } },
+      data: { subscriptionId: split.id },
+    });
+
+    await tx.subscriptionAudit.create({
+      data: {
+        userId,
+        action: 'split',
+        subscriptionId,
+        relatedIds: [split.id],
+        transactionIds: movedIds,
+        snapshot: toSnapshot(source),
+      },
+    });
+
+    return split;
+  });
+
+  try {
+    await recordObservedPrices(created, moved, 'manual');
+  } catch (error) {
+    console.error(`Error recording price history for subscription ${created.id}:`, error);
+  }
+
+  return { subscriptionId: created.id, movedTransactions: movedIds.length };
+}
+
+/**
+ * Lists the merges and splits that touched a subscription, newest first
+ */
+export async function getSubscriptionAuditTrail(userId: string, subscriptionId: string) {
+  return prisma.subscriptionAudit.findMany({
+    where: {
+      userId,
+      OR: [{ subscriptionId }, { relatedIds: { has: subscriptionId } }],
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
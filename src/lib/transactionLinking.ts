@@ -0,0 +1,106 @@
+/**
+ * Transaction Linking
+ *
+ * Lets users attach charges detection missed to a subscription, or detach
+ * charges it got wrong. Transaction.subscriptionId and the subscription's
+ * plaidTransactionIds are kept in step, since detected subscriptions list their
+ * charges in plaidTransactionIds rather than linking them. Charges taken off a
+ * subscription are also added to its excludedChargeIds, so detection and the
+ * renewal roll-forward don't put them back.
+ */
+
+import { prisma } from './prisma';
+import { recordObservedPrices } from './priceHistory';
+
+export interface LinkResult {
+  subscriptionId: string | null;
+  updated: number;
+}
+
+/**
+ * Links transactions to a subscription, or unlinks them
+ * Transactions are moved off any subscription they were linked to before
+ *
+ * @param userId - User ID
+ * @param transactionIds - Transactions to link; ones the user doesn't own are ignored
+ * @param subscriptionId - Subscription to link to, or null to unlink
+ * @returns What changed, or null if the subscription doesn't exist
+ */
+export async function linkTransactions(
+  userId: string,
+  transactionIds: string[],
+  subscriptionId: string | null
+): Promise<LinkResult | null> {
+  const subscription = subscriptionId
+    ? await prisma.subscription.findFirst({ where: { id: subscriptionId, userId } })
+    : null;
+  if (subscriptionId && !subscription) {
+    return null;
+  }
+
+  const transactions = await prisma.transaction.findMany({
+    where: { id: { in: transactionIds }, userId },
+    select: { id: true, amount: true, date: true },
+  });
+  const ids: string[] = transactions.map((tx: typeof transactions[0]) => tx.id);
+  if (ids.length === 0) {
+    return { subscriptionId, updated: 0 };
+  }
+
+  // Subscriptions that list the transactions but aren't the new owner
+  const previousOwners = await prisma.subscription.findMany({
+    where: {
+      userId,
+      plaidTransactionIds: { hasSome: ids },
+      ...(subscriptionId ? { id: { not: subscriptionId } } : {}),
+    },
+    select: { id: true, plaidTransactionIds: true, excludedChargeIds: true },
+  });
+
+  const latestCharge = transactions.reduce(
+    (latest: Date | null, tx: typeof transactions[0]) => (!latest || tx.date > latest ? tx.date : latest),
+    null
+  );
+
+  await prisma.$transaction([
+    prisma.transaction.updateMany({
+      where: { id: { in: ids } },
+      data: { subscriptionId },
+    }),
+    ...previousOwners.map((owner: typeof previousOwners[0]) =>
+      prisma.subscription.update({
+        where: { id: owner.id },
+        data: {
+          plaidTransactionIds: { set: owner.plaidTransactionIds.filter((id: string) => !ids.includes(id)) },
+          excludedChargeIds: { set: Array.from(new Set([...owner.excludedChargeIds, ...ids])) },
+        },
+      })
+    ),
+    ...(subscription
+      ? [
+          prisma.subscription.update({
+            where: { id: subscription.id },
+            data: {
+              plaidTransactionIds: { set: Array.from(new Set([...subscription.plaidTransactionIds, ...ids])) },
+              // Linking a charge back undoes an earlier unlink
+              excludedChargeIds: { set: subscription.excludedChargeIds.filter((id: string) => !ids.includes(id)) },
+              // A newer charge than the last known payment also clears a missed-charge flag
+              ...(latestCharge && (!subscription.lastPaymentDate || latestCharge > subscription.lastPaymentDate)
+                ? { lastPaymentDate: latestCharge, missedChargeAt: null }
+                : {}),
+            },
+          }),
+        ]
+      : []),
+  ]);
+
+  if (subscription) {
+    try {
+      await recordObservedPrices(subscription, transactions, 'manual');
+    } catch (error) {
+      console.error(`Error recording price history for subscription ${subscription.id}:`, error);
+    }
+  }
+
+  return { subscriptionId, updated: ids.length };
+}
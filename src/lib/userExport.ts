@@ -0,0 +1,246 @@
+/**
+ * User Data Export
+ *
+ * Packages everything stored about a user for data-portability requests
+ * (GDPR Art. 20 / CCPA), as a single JSON document or a ZIP of CSV files.
+ * Credentials (encrypted Plaid tokens, sync cursors) are never exported.
+ */
+
+import { prisma } from './prisma';
+import { createZip } from './zip';
+
+// Bump when the shape of the export changes
+export const EXPORT_VERSION = 3;
+
+export type ExportFormat = 'json' | 'zip';
+
+type CsvValue = string | number | boolean | Date | null | undefined | { toString(): string };
+
+/**
+ * Loads all of a user's data for export
+ *
+ * @param userId - User ID
+ * @returns Export document
+ */
+export async function buildUserExport(userId: string) {
+  const [
+    profile,
+    bankAccounts,
+    subscriptions,
+    transactions,
+    notifications,
+    notificationPreference,
+    alertRules,
+    detectionFeedback,
+    merchantAliases,
+    subscriptionAudits,
+  ] =
+    await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          image: true,
+          country: true,
+          baseCurrency: true,
+          timezone: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      }),
+      prisma.bankAccount.findMany({
+        where: { userId },
+        // SECURITY: Explicit select so access tokens and cursors are never included
+        select: {
+          id: true,
+          source: true,
+          institutionName: true,
+          name: true,
+          type: true,
+          currency: true,
+          country: true,
+          itemStatus: true,
+          lastSyncAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.subscription.findMany({
+        where: { userId },
+        include: {
+          priceChanges: {
+            select: { oldAmount: true, newAmount: true, currency: true, source: true, effectiveDate: true },
+            orderBy: { effectiveDate: 'asc' },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.transaction.findMany({
+        where: { userId },
+        orderBy: { date: 'asc' },
+      }),
+      prisma.notification.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.notificationPreference.findUnique({
+        where: { userId },
+      }),
+      prisma.alertRule.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.detectionFeedback.findMany({
+        where: { userId },
+        select: { id: true, normalizedMerchant: true, amount: true, currency: true, verdict: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.merchantAlias.findMany({
+        where: { userId },
+        select: { id: true, pattern: true, alias: true, createdAt: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.subscriptionAudit.findMany({
+        where: { userId },
+        select: {
+          id: true,
+          action: true,
+          subscriptionId: true,
+          relatedIds: true,
+          transactionIds: true,
+          snapshot: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+  if (!profile) {
+    throw new Error('User not found');
+  }
+
+  return {
+    exportVersion: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    bankAccounts,
+    subscriptions: subscriptions.map((subscription: typeof subscriptions[0]) => ({
+      ...subscription,
+      confidenceScore: subscription.confidenceScore?.toNumber() ?? null,
+    })),
+    transactions: transactions.map((transaction: typeof transactions[0]) => ({
+      ...transaction,
+      confidenceScore: transaction.confidenceScore?.toNumber() ?? null,
+    })),
+    notifications,
+    notificationPreferences: notificationPreference,
+    alertRules,
+    detectionFeedback,
+    merchantAliases,
+    subscriptionAudits,
+  };
+}
+
+export type UserExport = Awaited<ReturnType<typeof buildUserExport>>;
+
+function toCsvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : Array.isArray(value) ? value.join(';') : String(value);
+
+  // Quote cells containing separators, quotes or line breaks
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Converts rows to CSV using the given columns as the header
+ *
+ * @param rows - Records to write
+ * @param columns - Keys to include, in order
+ * @returns CSV text (RFC 4180, CRLF line endings)
+ */
+export function toCsv<T extends Record<string, any>>(rows: T[], columns: Array<keyof T & string>): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => toCsvCell(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Builds a ZIP with one CSV per data type
+ *
+ * @param data - Export document from buildUserExport
+ * @returns ZIP archive bytes
+ */
+export function buildUserExportZip(data: UserExport): Buffer {
+  const priceChanges = data.subscriptions.flatMap((subscription: UserExport['subscriptions'][0]) =>
+    subscription.priceChanges.map((change: UserExport['subscriptions'][0]['priceChanges'][0]) => ({
+      subscriptionId: subscription.id,
+      ...change,
+    }))
+  );
+
+  return createZip([
+    {
+      name: 'profile.csv',
+      content: toCsv([data.profile], ['id', 'email', 'name', 'image', 'country', 'baseCurrency', 'timezone', 'createdAt', 'updatedAt']),
+    },
+    {
+      name: 'bank_accounts.csv',
+      content: toCsv(data.bankAccounts, [
+        'id', 'source', 'institutionName', 'name', 'type', 'currency', 'country', 'itemStatus', 'lastSyncAt', 'createdAt', 'updatedAt',
+      ]),
+    },
+    {
+      name: 'subscriptions.csv',
+      content: toCsv(data.subscriptions, [
+        'id', 'name', 'merchant', 'amount', 'currency', 'interval', 'status', 'category', 'renewalDate',
+        'lastPaymentDate', 'isAutoDetected', 'confidenceScore', 'createdAt', 'updatedAt',
+      ]),
+    },
+    {
+      name: 'subscription_price_history.csv',
+      content: toCsv(priceChanges, ['subscriptionId', 'effectiveDate', 'oldAmount', 'newAmount', 'currency', 'source']),
+    },
+    {
+      name: 'transactions.csv',
+      content: toCsv(data.transactions, [
+        'id', 'bankAccountId', 'subscriptionId', 'date', 'amount', 'currency', 'description', 'merchant',
+        'normalizedMerchant', 'category', 'mcc', 'isRecurring', 'plaidTransactionId', 'createdAt',
+      ]),
+    },
+    {
+      name: 'notifications.csv',
+      content: toCsv(data.notifications, [
+        'id', 'type', 'title', 'message', 'severity', 'subscriptionId', 'merchant', 'amount', 'dueDate',
+        'isRead', 'readAt', 'dismissedAt', 'snoozedUntil', 'createdAt',
+      ]),
+    },
+    {
+      name: 'alert_rules.csv',
+      content: toCsv(data.alertRules, ['id', 'type', 'condition', 'threshold', 'isActive', 'createdAt']),
+    },
+    {
+      name: 'detection_feedback.csv',
+      content: toCsv(data.detectionFeedback, ['id', 'normalizedMerchant', 'amount', 'currency', 'verdict', 'createdAt']),
+    },
+    {
+      name: 'merchant_aliases.csv',
+      content: toCsv(data.merchantAliases, ['id', 'pattern', 'alias', 'createdAt']),
+    },
+    {
+      name: 'subscription_audits.csv',
+      content: toCsv(data.subscriptionAudits, ['id', 'action', 'subscriptionId', 'relatedIds', 'transactionIds', 'createdAt']),
+    },
+    {
+      name: 'notification_preferences.json',
+      content: JSON.stringify(data.notificationPreferences, null, 2),
+    },
+  ]);
+}
@@ -11,11 +11,19 @@ const isProtectedRoute = createRouteMatcher([
   '/api/user(.*)',
   '/api/transactions(.*)',
   '/api/plaid(.*)',
+  '/api/jobs(.*)',
+  '/api/admin(.*)',
+]);
+
+// Routes under protected prefixes that authenticate themselves
+// (Plaid webhooks are verified by signature, not by a Clerk session)
+const isPublicRoute = createRouteMatcher([
+  '/api/plaid/webhook',
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
   // Protect dashboard and API routes
-  if (isProtectedRoute(req)) {
+  if (isProtectedRoute(req) && !isPublicRoute(req)) {
     await auth.protect();
   }
 });